@@ -15,6 +15,15 @@ const nextConfig: NextConfig = {
   typescript: {
     ignoreBuildErrors: true,
   },
+  // xmllint-wasm loads its .wasm binary from node_modules at runtime
+  serverExternalPackages: ['xmllint-wasm'],
+  // Bundled FA(3) XSD is read from disk by the KSeF validator; the invoice PDF
+  // visualisation and server-side PDF page rendering use fonts shipped with pdfjs-dist
+  outputFileTracingIncludes: {
+    '/api/ksef/**': ['./src/lib/ksef/schemas/**'],
+    '/api/invoices/**': ['./node_modules/pdfjs-dist/standard_fonts/**'],
+    '/api/inngest': ['./node_modules/pdfjs-dist/standard_fonts/**'],
+  },
   // Environment variables are managed by Vercel
   // No need to hardcode them here - they're injected at build time
 };
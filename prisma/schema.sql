@@ -11,7 +11,7 @@ CREATE TYPE "public"."SubscriptionTier" AS ENUM ('STARTER', 'PRO', 'ENTERPRISE')
 CREATE TYPE "public"."UserRole" AS ENUM ('OWNER', 'ACCOUNTANT', 'CLIENT');
 
 -- CreateEnum
-CREATE TYPE "tenant"."InvoiceStatus" AS ENUM ('UPLOADED', 'PROCESSING', 'PROCESSED', 'REVIEWING', 'APPROVED', 'SUBMITTED', 'COMPLETED', 'ERROR', 'ARCHIVED');
+CREATE TYPE "tenant"."InvoiceStatus" AS ENUM ('UPLOADED', 'PROCESSING', 'PROCESSED', 'REVIEWING', 'APPROVED', 'SUBMITTED', 'COMPLETED', 'ERROR', 'ARCHIVED', 'SPLIT');
 
 -- CreateEnum
 CREATE TYPE "tenant"."InvoiceType" AS ENUM ('INCOMING', 'OUTGOING');
@@ -26,7 +26,19 @@ CREATE TYPE "tenant"."CompanyStatus" AS ENUM ('ACTIVE', 'INACTIVE', 'SUSPENDED',
 CREATE TYPE "tenant"."OCRJobStatus" AS ENUM ('QUEUED', 'PREPROCESSING', 'OCR_RUNNING', 'AI_PROCESSING', 'COMPLETED', 'FAILED', 'RETRYING');
 
 -- CreateEnum
-CREATE TYPE "tenant"."KSeFSubmissionStatus" AS ENUM ('PENDING', 'SUBMITTING', 'SUBMITTED', 'ACCEPTED', 'REJECTED', 'FAILED', 'RETRYING');
+CREATE TYPE "tenant"."OCRExtractionPath" AS ENUM ('TEXT_LAYER', 'OCR', 'MIXED', 'CLIENT_OCR');
+
+-- CreateEnum
+CREATE TYPE "tenant"."KSeFSubmissionStatus" AS ENUM ('PENDING', 'SUBMITTING', 'SUBMITTED', 'ACCEPTED', 'REJECTED', 'FAILED', 'RETRYING', 'OFFLINE');
+
+-- CreateEnum
+CREATE TYPE "tenant"."KSeFOfflineMode" AS ENUM ('OFFLINE24', 'UNAVAILABILITY', 'EMERGENCY');
+
+-- CreateEnum
+CREATE TYPE "tenant"."KSeFBatchStatus" AS ENUM ('PENDING', 'UPLOADING', 'SUBMITTED', 'COMPLETED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "tenant"."CorrectionType" AS ENUM ('ORIGINAL_PERIOD', 'CORRECTION_DATE', 'OTHER_DATE');
 
 -- CreateTable
 CREATE TABLE "public"."tenants" (
@@ -92,6 +104,9 @@ CREATE TABLE "tenant"."invoices" (
     "ksefNumber" TEXT,
     "ksefSubmittedAt" TIMESTAMP(3),
     "ksefStatus" "tenant"."KSeFStatus",
+    "sourceInvoiceId" TEXT,
+    "sourcePageStart" INTEGER,
+    "sourcePageEnd" INTEGER,
     "metadata" JSONB,
     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
     "updatedAt" TIMESTAMP(3) NOT NULL,
@@ -108,14 +123,33 @@ CREATE TABLE "tenant"."invoice_line_items" (
     "quantity" DECIMAL(10,3) NOT NULL,
     "unitPrice" DECIMAL(12,2) NOT NULL,
     "vatRate" DECIMAL(5,2) NOT NULL,
+    "vatRateCode" TEXT,
     "netAmount" DECIMAL(12,2) NOT NULL,
     "vatAmount" DECIMAL(12,2) NOT NULL,
     "grossAmount" DECIMAL(12,2) NOT NULL,
+    "beforeCorrection" BOOLEAN NOT NULL DEFAULT false,
     "metadata" JSONB,
 
     CONSTRAINT "invoice_line_items_pkey" PRIMARY KEY ("id")
 );
 
+-- CreateTable
+CREATE TABLE "tenant"."invoice_corrections" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "correctedInvoiceId" TEXT,
+    "correctedInvoiceNumber" TEXT NOT NULL,
+    "correctedInvoiceDate" TIMESTAMP(3) NOT NULL,
+    "correctedKsefNumber" TEXT,
+    "reason" TEXT NOT NULL,
+    "correctionType" "tenant"."CorrectionType" NOT NULL DEFAULT 'ORIGINAL_PERIOD',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "invoice_corrections_pkey" PRIMARY KEY ("id")
+);
+
 -- CreateTable
 CREATE TABLE "tenant"."companies" (
     "id" TEXT NOT NULL,
@@ -150,6 +184,8 @@ CREATE TABLE "tenant"."ocr_jobs" (
     "aiCompletedAt" TIMESTAMP(3),
     "rawText" TEXT,
     "confidence" DOUBLE PRECISION,
+    "pageResults" JSONB,
+    "extractionPath" "tenant"."OCRExtractionPath",
     "extractedFields" JSONB,
     "errorMessage" TEXT,
     "errorDetails" JSONB,
@@ -167,6 +203,7 @@ CREATE TABLE "tenant"."ksef_submissions" (
     "tenantId" TEXT NOT NULL,
     "fa3Xml" TEXT NOT NULL,
     "submittedAt" TIMESTAMP(3),
+    "referenceNumber" TEXT,
     "ksefNumber" TEXT,
     "upoUrl" TEXT,
     "status" "tenant"."KSeFSubmissionStatus" NOT NULL DEFAULT 'PENDING',
@@ -175,6 +212,11 @@ CREATE TABLE "tenant"."ksef_submissions" (
     "errorDetails" JSONB,
     "retryCount" INTEGER NOT NULL DEFAULT 0,
     "nextRetryAt" TIMESTAMP(3),
+    "batchId" TEXT,
+    "offlineMode" "tenant"."KSeFOfflineMode",
+    "offlineIssuedAt" TIMESTAMP(3),
+    "offlineDeadline" TIMESTAMP(3),
+    "invoiceHash" TEXT,
     "metadata" JSONB,
     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
     "updatedAt" TIMESTAMP(3) NOT NULL,
@@ -182,6 +224,40 @@ CREATE TABLE "tenant"."ksef_submissions" (
     CONSTRAINT "ksef_submissions_pkey" PRIMARY KEY ("id")
 );
 
+-- CreateTable
+CREATE TABLE "tenant"."ksef_batch_sessions" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "referenceNumber" TEXT,
+    "status" "tenant"."KSeFBatchStatus" NOT NULL DEFAULT 'PENDING',
+    "documentCount" INTEGER NOT NULL,
+    "partCount" INTEGER NOT NULL DEFAULT 0,
+    "processingCode" INTEGER,
+    "processingDescription" TEXT,
+    "upo" TEXT,
+    "errorMessage" TEXT,
+    "submittedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ksef_batch_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "tenant"."ksef_sync_states" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "lastAcquiredAt" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "importedCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ksef_sync_states_pkey" PRIMARY KEY ("id")
+);
+
 -- CreateTable
 CREATE TABLE "tenant"."audit_logs" (
     "id" TEXT NOT NULL,
@@ -215,7 +291,7 @@ CREATE UNIQUE INDEX "tenant_members_tenantId_userId_key" ON "public"."tenant_mem
 CREATE UNIQUE INDEX "usage_records_tenantId_period_key" ON "public"."usage_records"("tenantId", "period");
 
 -- CreateIndex
-CREATE UNIQUE INDEX "invoices_ksefNumber_key" ON "tenant"."invoices"("ksefNumber");
+CREATE UNIQUE INDEX "invoices_tenantId_ksefNumber_key" ON "tenant"."invoices"("tenantId", "ksefNumber");
 
 -- CreateIndex
 CREATE INDEX "invoices_tenantId_status_idx" ON "tenant"."invoices"("tenantId", "status");
@@ -229,9 +305,21 @@ CREATE INDEX "invoices_tenantId_companyId_idx" ON "tenant"."invoices"("tenantId"
 -- CreateIndex
 CREATE INDEX "invoices_ksefNumber_idx" ON "tenant"."invoices"("ksefNumber");
 
+-- CreateIndex
+CREATE INDEX "invoices_sourceInvoiceId_idx" ON "tenant"."invoices"("sourceInvoiceId");
+
 -- CreateIndex
 CREATE INDEX "invoice_line_items_invoiceId_idx" ON "tenant"."invoice_line_items"("invoiceId");
 
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_corrections_invoiceId_key" ON "tenant"."invoice_corrections"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "invoice_corrections_tenantId_correctedInvoiceDate_idx" ON "tenant"."invoice_corrections"("tenantId", "correctedInvoiceDate");
+
+-- CreateIndex
+CREATE INDEX "invoice_corrections_correctedInvoiceId_idx" ON "tenant"."invoice_corrections"("correctedInvoiceId");
+
 -- CreateIndex
 CREATE INDEX "companies_tenantId_weisStatus_idx" ON "tenant"."companies"("tenantId", "weisStatus");
 
@@ -256,6 +344,18 @@ CREATE INDEX "ksef_submissions_tenantId_status_idx" ON "tenant"."ksef_submission
 -- CreateIndex
 CREATE INDEX "ksef_submissions_ksefNumber_idx" ON "tenant"."ksef_submissions"("ksefNumber");
 
+-- CreateIndex
+CREATE INDEX "ksef_submissions_batchId_idx" ON "tenant"."ksef_submissions"("batchId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ksef_batch_sessions_referenceNumber_key" ON "tenant"."ksef_batch_sessions"("referenceNumber");
+
+-- CreateIndex
+CREATE INDEX "ksef_batch_sessions_tenantId_status_idx" ON "tenant"."ksef_batch_sessions"("tenantId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ksef_sync_states_tenantId_key" ON "tenant"."ksef_sync_states"("tenantId");
+
 -- CreateIndex
 CREATE INDEX "audit_logs_tenantId_createdAt_idx" ON "tenant"."audit_logs"("tenantId", "createdAt");
 
@@ -274,9 +374,18 @@ ALTER TABLE "tenant"."invoices" ADD CONSTRAINT "invoices_tenantId_fkey" FOREIGN
 -- AddForeignKey
 ALTER TABLE "tenant"."invoices" ADD CONSTRAINT "invoices_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "tenant"."companies"("id") ON DELETE SET NULL ON UPDATE CASCADE;
 
+-- AddForeignKey
+ALTER TABLE "tenant"."invoices" ADD CONSTRAINT "invoices_sourceInvoiceId_fkey" FOREIGN KEY ("sourceInvoiceId") REFERENCES "tenant"."invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
 -- AddForeignKey
 ALTER TABLE "tenant"."invoice_line_items" ADD CONSTRAINT "invoice_line_items_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "tenant"."invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
 
+-- AddForeignKey
+ALTER TABLE "tenant"."invoice_corrections" ADD CONSTRAINT "invoice_corrections_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "tenant"."invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tenant"."invoice_corrections" ADD CONSTRAINT "invoice_corrections_correctedInvoiceId_fkey" FOREIGN KEY ("correctedInvoiceId") REFERENCES "tenant"."invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
 -- AddForeignKey
 ALTER TABLE "tenant"."companies" ADD CONSTRAINT "companies_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "public"."tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
 
@@ -286,3 +395,6 @@ ALTER TABLE "tenant"."ocr_jobs" ADD CONSTRAINT "ocr_jobs_invoiceId_fkey" FOREIGN
 -- AddForeignKey
 ALTER TABLE "tenant"."ksef_submissions" ADD CONSTRAINT "ksef_submissions_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "tenant"."invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
 
+-- AddForeignKey
+ALTER TABLE "tenant"."ksef_submissions" ADD CONSTRAINT "ksef_submissions_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "tenant"."ksef_batch_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
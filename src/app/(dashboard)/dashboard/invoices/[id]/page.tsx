@@ -3,6 +3,8 @@ import { InvoiceDetailView } from '@/components/invoices/InvoiceDetailView';
 import { cookies } from 'next/headers';
 import { TENANT_COOKIE } from '@/lib/tenant/constants';
 import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { normalizeExtractedData } from '@/lib/ai/schemas/extracted-data';
+import { fromLineItemVatRate } from '@/lib/vat-rates';
 
 interface Props {
   params: Promise<{ id: string }>;
@@ -222,12 +224,12 @@ export default async function InvoiceDetailPage({ params }: Props) {
       description: item.description,
       quantity: parseFloat(item.quantity.toString()),
       unitPrice: parseFloat(item.unitPrice.toString()),
-      vatRate: parseFloat(item.vatRate.toString()),
+      vatRate: fromLineItemVatRate(item),
       netAmount: parseFloat(item.netAmount.toString()),
       vatAmount: parseFloat(item.vatAmount.toString()),
       grossAmount: parseFloat(item.grossAmount.toString()),
     })),
-    extractedData: invoice.extractedData as Record<string, unknown> | null,
+    extractedData: normalizeExtractedData(invoice.extractedData),
     ocrJob: invoice.ocrJob
       ? {
           status: invoice.ocrJob.status,
@@ -10,8 +10,12 @@
 import { serve } from 'inngest/next';
 import { inngest } from '@/lib/queue/inngest-client';
 import { processInvoiceOCR } from '@/lib/queue/ocr-worker';
-import { notifyOCRCompleted } from '@/lib/queue/email-worker';
+import { notifyOCRCompleted, notifyKSeFSubmissionFailed } from '@/lib/queue/email-worker';
 import { sendMonthlyDigests } from '@/lib/queue/digest-worker';
+import { pollKSeFSubmissionStatus, pollKSeFBatchStatus, sweepStaleKSeFStatuses } from '@/lib/queue/ksef-status-worker';
+import { retryFailedKSeFSubmissions } from '@/lib/queue/ksef-retry-worker';
+import { syncIncomingKSeFInvoices } from '@/lib/queue/ksef-sync-worker';
+import { submitOfflineKSeFInvoices } from '@/lib/queue/ksef-offline-worker';
 
 // Register all Inngest functions
 const handler = serve({
@@ -20,6 +24,13 @@ const handler = serve({
     processInvoiceOCR, // Main OCR processing function
     notifyOCRCompleted, // Email notification on OCR completion
     sendMonthlyDigests, // Monthly digest cron job
+    pollKSeFSubmissionStatus, // KSeF status polling and UPO retrieval
+    pollKSeFBatchStatus, // KSeF batch status polling and UPO retrieval
+    sweepStaleKSeFStatuses, // Re-polls KSeF submissions and batches the pollers gave up on
+    retryFailedKSeFSubmissions, // KSeF retry cron job
+    notifyKSeFSubmissionFailed, // Email when KSeF retries stop
+    syncIncomingKSeFInvoices, // Hourly import of incoming KSeF invoices
+    submitOfflineKSeFInvoices, // Upload of invoices issued offline
   ],
 });
 
@@ -0,0 +1,244 @@
+/**
+ * PUT /api/invoices/[id]/correction
+ *
+ * Mark an invoice as a corrective invoice (faktura korygująca) and link it to
+ * the invoice it corrects. The corrected invoice may be another Deklaro invoice
+ * (correctedInvoiceId) or one issued elsewhere (number and issue date).
+ *
+ * Linking a Deklaro invoice copies its line items onto the corrective invoice
+ * as the rows before correction (StanPrzed), replacing an earlier copy; relinking
+ * to an invoice issued elsewhere removes the copy.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient, type Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit/logger';
+import { normalizeExtractedData } from '@/lib/ai/schemas/extracted-data';
+
+const prisma = new PrismaClient();
+
+// Line item fields copied onto the corrective invoice as rows before correction
+const LINE_BEFORE_CORRECTION_SELECT = {
+  description: true,
+  quantity: true,
+  unitPrice: true,
+  vatRate: true,
+  vatRateCode: true,
+  netAmount: true,
+  vatAmount: true,
+  grossAmount: true,
+  metadata: true,
+} satisfies Prisma.InvoiceLineItemSelect;
+
+type LineBeforeCorrection = Prisma.InvoiceLineItemGetPayload<{ select: typeof LINE_BEFORE_CORRECTION_SELECT }>;
+
+const CorrectionRequestSchema = z
+  .object({
+    correctedInvoiceId: z.string().min(1).optional(),
+    correctedInvoiceNumber: z.string().min(1).optional(),
+    correctedInvoiceDate: z.string().date().optional(),
+    correctedKsefNumber: z.string().min(1).optional(),
+    reason: z.string().min(1, 'Correction reason is required'),
+    correctionType: z
+      .enum(['ORIGINAL_PERIOD', 'CORRECTION_DATE', 'OTHER_DATE'])
+      .default('ORIGINAL_PERIOD'),
+  })
+  .refine(
+    (data) => data.correctedInvoiceId || (data.correctedInvoiceNumber && data.correctedInvoiceDate),
+    { message: 'Provide correctedInvoiceId or the corrected invoice number and issue date' }
+  );
+
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: invoiceId } = await context.params;
+    const supabase = await createServerSupabaseClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get tenant ID from headers
+    const tenantId = request.headers.get('x-deklaro-tenant-id');
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'Tenant context not found' },
+        { status: 400 }
+      );
+    }
+
+    const validation = CorrectionRequestSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+    const data = validation.data;
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, tenantId },
+      include: {
+        correction: { select: { correctedInvoiceId: true } },
+        lineItems: { where: { beforeCorrection: false }, select: { lineNumber: true } },
+      },
+    });
+
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'Invoice not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    if (invoice.ksefNumber) {
+      return NextResponse.json(
+        { error: 'Invoice has already been submitted to KSeF' },
+        { status: 409 }
+      );
+    }
+
+    // Reference data defaults to the linked invoice
+    let correctedInvoiceNumber = data.correctedInvoiceNumber;
+    let correctedInvoiceDate = data.correctedInvoiceDate ? new Date(data.correctedInvoiceDate) : undefined;
+    let correctedKsefNumber = data.correctedKsefNumber;
+    let correctedLineItems: LineBeforeCorrection[] | null = null;
+
+    if (data.correctedInvoiceId) {
+      if (data.correctedInvoiceId === invoiceId) {
+        return NextResponse.json(
+          { error: 'An invoice cannot correct itself' },
+          { status: 400 }
+        );
+      }
+
+      const corrected = await prisma.invoice.findFirst({
+        where: { id: data.correctedInvoiceId, tenantId },
+        include: {
+          lineItems: {
+            where: { beforeCorrection: false },
+            orderBy: { lineNumber: 'asc' },
+            select: LINE_BEFORE_CORRECTION_SELECT,
+          },
+        },
+      });
+
+      if (!corrected) {
+        return NextResponse.json(
+          { error: 'Corrected invoice not found or access denied' },
+          { status: 404 }
+        );
+      }
+
+      correctedInvoiceNumber ??= corrected.invoiceNumber ?? undefined;
+      correctedInvoiceDate ??= corrected.invoiceDate ?? undefined;
+      correctedKsefNumber ??= corrected.ksefNumber ?? undefined;
+
+      // Rows before correction are copied once per corrected invoice
+      if (invoice.correction?.correctedInvoiceId !== corrected.id) {
+        correctedLineItems = corrected.lineItems;
+      }
+    }
+
+    if (!correctedInvoiceNumber || !correctedInvoiceDate) {
+      return NextResponse.json(
+        { error: 'Corrected invoice number and issue date are required' },
+        { status: 400 }
+      );
+    }
+
+    // Rows copied from a previously linked Deklaro invoice no longer apply
+    const dropCopiedLineItems = !data.correctedInvoiceId && Boolean(invoice.correction?.correctedInvoiceId);
+
+    const correction = {
+      tenantId,
+      correctedInvoiceId: data.correctedInvoiceId ?? null,
+      correctedInvoiceNumber,
+      correctedInvoiceDate,
+      correctedKsefNumber: correctedKsefNumber ?? null,
+      reason: data.reason,
+      correctionType: data.correctionType,
+    };
+
+    // Canonical extraction model: the invoice is now a corrective invoice
+    const extracted = normalizeExtractedData(invoice.extractedData);
+    const firstLineNumber =
+      Math.max(0, ...invoice.lineItems.map((item: { lineNumber: number }) => item.lineNumber)) + 1;
+
+    const saved = await prisma.$transaction(async (tx) => {
+      const saved = await tx.invoiceCorrection.upsert({
+        where: { invoiceId },
+        create: { invoiceId, ...correction },
+        update: correction,
+      });
+
+      if (extracted) {
+        await tx.invoice.update({
+          where: { id: invoiceId },
+          data: { extractedData: { ...extracted, invoice_type: 'CORRECTION' } },
+        });
+      }
+
+      if (correctedLineItems || dropCopiedLineItems) {
+        await tx.invoiceLineItem.deleteMany({ where: { invoiceId, beforeCorrection: true } });
+      }
+
+      if (correctedLineItems) {
+        await tx.invoiceLineItem.createMany({
+          data: correctedLineItems.map((item, index) => ({
+            invoiceId,
+            lineNumber: firstLineNumber + index,
+            description: item.description,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            vatRate: item.vatRate,
+            vatRateCode: item.vatRateCode,
+            netAmount: item.netAmount,
+            vatAmount: item.vatAmount,
+            grossAmount: item.grossAmount,
+            beforeCorrection: true,
+            metadata: item.metadata ?? undefined,
+          })),
+        });
+      }
+
+      return saved;
+    });
+
+    createAuditLog({
+      tenantId,
+      userId: user.id,
+      action: 'UPDATE',
+      entityType: 'INVOICE',
+      entityId: invoiceId,
+      metadata: {
+        correctedInvoiceId: saved.correctedInvoiceId,
+        correctedInvoiceNumber: saved.correctedInvoiceNumber,
+        correctionType: saved.correctionType,
+        ...(correctedLineItems && { linesBeforeCorrection: correctedLineItems.length }),
+      },
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+    }).catch((err) => {
+      console.error('[Invoice Correction API] Failed to create audit log:', err);
+    });
+
+    return NextResponse.json({ success: true, correction: saved });
+  } catch (error) {
+    console.error('[Invoice Correction API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
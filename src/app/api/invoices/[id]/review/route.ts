@@ -10,6 +10,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { ReviewInvoiceRequestSchema } from '@/lib/ai/schemas/invoice-schema';
+import { normalizeExtractedData } from '@/lib/ai/schemas/extracted-data';
+import { findDateLabel, toSupplierNip } from '@/lib/ai/supplier-rules';
+import { parseVATExemption } from '@/lib/vat-rates';
 
 const TENANT_HEADER = 'x-tenant-id';
 
@@ -67,7 +70,7 @@ export async function POST(
     // Fetch invoice with current extracted data
     const { data: invoice, error: invoiceError } = await supabase
       .from('invoices')
-      .select('id, tenant_id, extracted_data, confidence_scores, approved_at')
+      .select('id, tenant_id, extracted_data, confidence_scores, approved_at, raw_ocr_text')
       .eq('id', invoiceId)
       .eq('tenant_id', tenantId)
       .single();
@@ -87,9 +90,20 @@ export async function POST(
       );
     }
 
-    // Apply corrections to extracted_data
-    const currentData = invoice.extracted_data || {};
-    const updatedData = { ...currentData };
+    // Apply corrections to extracted_data (stored in any version, saved in the current one)
+    const currentData = normalizeExtractedData(invoice.extracted_data) || {};
+    const updatedData: Record<string, unknown> = { ...currentData };
+
+    const rawOcrText: string | null = invoice.raw_ocr_text;
+
+    // Corrections are grouped by seller to learn supplier rules (see supplier-rules)
+    const sellerNip = toSupplierNip(
+      String(
+        corrections.find((correction) => correction.field_name === 'seller.nip')?.corrected_value ??
+          (updatedData.seller as { nip?: string } | undefined)?.nip ??
+          ''
+      )
+    );
 
     for (const correction of corrections) {
       const { field_name, corrected_value, original_value } = correction;
@@ -98,19 +112,36 @@ export async function POST(
       const fieldPath = field_name.split('.');
 
       // Apply correction (simple path traversal)
-      if (fieldPath.length === 1) {
+      if (field_name === 'vat_exemption') {
+        // Corrected as the text of the basis, e.g. "art. 43 ust. 1 pkt 37 ustawy o VAT"
+        updatedData.vat_exemption = parseVATExemption(String(corrected_value));
+      } else if (field_name === 'reverse_charge') {
+        updatedData.reverse_charge = String(corrected_value) === 'true';
+      } else if (fieldPath.length === 1) {
         updatedData[fieldPath[0]] = corrected_value;
       } else if (fieldPath.length === 2) {
-        if (!updatedData[fieldPath[0]]) {
-          updatedData[fieldPath[0]] = {};
+        const parent = (updatedData[fieldPath[0]] || {}) as Record<string, unknown>;
+        updatedData[fieldPath[0]] = { ...parent, [fieldPath[1]]: corrected_value };
+      } else if (fieldPath.length === 3 && fieldPath[0] === 'line_items') {
+        // Line item field (e.g., "line_items.0.vat_rate")
+        const items = Array.isArray(updatedData.line_items) ? [...updatedData.line_items] : [];
+        const index = Number(fieldPath[1]);
+        if (items[index]) {
+          items[index] = { ...items[index], [fieldPath[2]]: corrected_value };
+          updatedData.line_items = items;
         }
-        updatedData[fieldPath[0]][fieldPath[1]] = corrected_value;
       }
 
       // Get original confidence for this field
       const confidenceScores = invoice.confidence_scores || {};
       const originalConfidence = getFieldConfidence(confidenceScores, field_name);
 
+      // Remember which label a corrected date was printed next to
+      const label =
+        (field_name === 'issue_date' || field_name === 'due_date') && rawOcrText
+          ? findDateLabel(rawOcrText, String(corrected_value))
+          : null;
+
       // Create correction history record
       await supabase.from('correction_history').insert({
         tenant_id: tenantId,
@@ -120,6 +151,8 @@ export async function POST(
         corrected_value: String(corrected_value),
         original_confidence: originalConfidence,
         corrected_by: user.id,
+        seller_nip: sellerNip,
+        context: label ? { label } : null,
       });
     }
 
@@ -180,7 +213,7 @@ function getFieldConfidence(
     'gross_amount': 'gross_amount',
   };
 
-  const mappedField = fieldMap[fieldName];
+  const mappedField = fieldName.startsWith('line_items.') ? 'line_items' : fieldMap[fieldName];
   return mappedField && confidenceScores[mappedField]
     ? confidenceScores[mappedField]
     : null;
@@ -0,0 +1,238 @@
+/**
+ * GET /api/invoices/[id]/split
+ * PUT /api/invoices/[id]/split
+ *
+ * Invoices split out of a scanned batch: list them, or let a reviewer fix a
+ * wrong split by giving the page range of every invoice in the upload.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { OCR_CONFIG } from '@/lib/ocr/config';
+import { splitTextByPageMarkers } from '@/lib/ocr/pages';
+import { splitOcrPages, validateInvoiceSegments } from '@/lib/ocr/splitting';
+import { createSplitInvoices, deleteSplitInvoices, SplitLockedError } from '@/lib/ocr/services/split';
+import type { SplitSourceInvoice } from '@/lib/ocr/services/split';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit/logger';
+
+// public.invoices rows (the generated Supabase types only cover tenants)
+type SplitInvoiceRow = SplitSourceInvoice & {
+  status: string;
+  invoice_number: string | null;
+  raw_ocr_text: string | null;
+  ocr_confidence: number | null;
+  source_invoice_id: string | null;
+  source_page_start: number | null;
+  source_page_end: number | null;
+};
+
+const ResplitRequestSchema = z.object({
+  segments: z
+    .array(
+      z.object({
+        startPage: z.number().int().min(1),
+        endPage: z.number().int().min(1),
+      })
+    )
+    .min(1)
+    .max(100),
+});
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: invoiceId } = await context.params;
+    const supabase = await createServerSupabaseClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get tenant ID from headers
+    const tenantId = request.headers.get('x-deklaro-tenant-id');
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'Tenant context not found' },
+        { status: 400 }
+      );
+    }
+
+    const { data, error: invoiceError } = await supabase
+      .from('invoices')
+      .select('id, source_invoice_id')
+      .eq('id', invoiceId)
+      .eq('tenant_id', tenantId)
+      .single();
+    const invoice = data as Pick<SplitInvoiceRow, 'id' | 'source_invoice_id'> | null;
+
+    if (invoiceError || !invoice) {
+      return NextResponse.json(
+        { error: 'Invoice not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    // For a child invoice, show the whole batch it belongs to
+    const sourceInvoiceId: string = invoice.source_invoice_id ?? invoice.id;
+    const { data: children } = await supabase
+      .from('invoices')
+      .select('id, status, file_name, invoice_number, source_page_start, source_page_end')
+      .eq('source_invoice_id', sourceInvoiceId)
+      .eq('tenant_id', tenantId)
+      .order('source_page_start', { ascending: true });
+    const splitInvoices = children as SplitInvoiceRow[] | null;
+
+    return NextResponse.json({
+      sourceInvoiceId,
+      invoices: (splitInvoices ?? []).map((child) => ({
+        id: child.id,
+        status: child.status,
+        fileName: child.file_name,
+        invoiceNumber: child.invoice_number,
+        startPage: child.source_page_start,
+        endPage: child.source_page_end,
+      })),
+    });
+  } catch (error) {
+    console.error('[Split API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: invoiceId } = await context.params;
+    const supabase = await createServerSupabaseClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get tenant ID from headers
+    const tenantId = request.headers.get('x-deklaro-tenant-id');
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'Tenant context not found' },
+        { status: 400 }
+      );
+    }
+
+    const validation = ResplitRequestSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { data, error: sourceError } = await supabase
+      .from('invoices')
+      .select('id, tenant_id, status, original_file_url, file_name, file_size, uploaded_by, raw_ocr_text, ocr_confidence, source_invoice_id')
+      .eq('id', invoiceId)
+      .eq('tenant_id', tenantId)
+      .single();
+    const source = data as SplitInvoiceRow | null;
+
+    if (sourceError || !source) {
+      return NextResponse.json(
+        { error: 'Invoice not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    if (source.source_invoice_id) {
+      return NextResponse.json(
+        { error: 'Re-split the source upload, not one of its split invoices', sourceInvoiceId: source.source_invoice_id },
+        { status: 409 }
+      );
+    }
+
+    if (!source.raw_ocr_text) {
+      return NextResponse.json(
+        { error: 'Invoice has not been through OCR yet' },
+        { status: 409 }
+      );
+    }
+
+    // Pages of the upload, recovered from the page markers of the OCR text
+    const pages = splitTextByPageMarkers(source.raw_ocr_text).map((page) => ({
+      ...page,
+      confidence: source.ocr_confidence ?? 0,
+      words: [],
+      language: OCR_CONFIG.languages,
+    }));
+
+    const segmentError = validateInvoiceSegments(validation.data.segments, pages.length);
+    if (segmentError) {
+      return NextResponse.json({ error: segmentError }, { status: 400 });
+    }
+
+    const segments = validation.data.segments.map((segment) => ({ ...segment, reason: 'manual' as const }));
+
+    let replaced: number;
+    try {
+      replaced = await deleteSplitInvoices(supabase, source.id);
+    } catch (error) {
+      if (error instanceof SplitLockedError) {
+        return NextResponse.json(
+          { error: error.message, lockedInvoiceIds: error.lockedInvoiceIds },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    const invoiceIds = await createSplitInvoices(supabase, source, splitOcrPages(pages, segments));
+
+    createAuditLog({
+      tenantId,
+      userId: user.id,
+      action: 'UPDATE',
+      entityType: 'INVOICE',
+      entityId: source.id,
+      metadata: {
+        operation: 'split',
+        segments: validation.data.segments,
+        replacedInvoices: replaced,
+        invoiceIds,
+      },
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+    }).catch((err) => {
+      console.error('[Split API] Failed to create audit log:', err);
+    });
+
+    return NextResponse.json({
+      success: true,
+      sourceInvoiceId: source.id,
+      invoiceIds,
+    });
+  } catch (error) {
+    console.error('[Split API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
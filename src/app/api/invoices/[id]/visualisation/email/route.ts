@@ -0,0 +1,118 @@
+/**
+ * POST /api/invoices/[id]/visualisation/email
+ *
+ * Email the PDF visualisation of the invoice, e.g. to the buyer.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { generateInvoiceVisualisation } from '@/lib/ksef/submission-service';
+import { getTenantKSeFNip } from '@/lib/ksef/tenant-settings';
+import { sendInvoiceVisualisationEmail } from '@/lib/email/notifications';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit/logger';
+
+const prisma = new PrismaClient();
+
+const SendVisualisationRequestSchema = z.object({
+  to: z.array(z.string().email()).min(1).max(5),
+  message: z.string().max(2000).optional(),
+});
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: invoiceId } = await context.params;
+    const supabase = await createServerSupabaseClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get tenant ID from headers
+    const tenantId = request.headers.get('x-deklaro-tenant-id');
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'Tenant context not found' },
+        { status: 400 }
+      );
+    }
+
+    const validation = SendVisualisationRequestSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+    const { to, message } = validation.data;
+
+    // Verify invoice belongs to tenant
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, tenantId },
+      select: { id: true, ksefNumber: true, tenant: { select: { name: true } } },
+    });
+
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'Invoice not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const visualisation = await generateInvoiceVisualisation(invoiceId, await getTenantKSeFNip(tenantId));
+    if (!visualisation) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    const result = await sendInvoiceVisualisationEmail(
+      to,
+      {
+        invoiceNumber: visualisation.invoiceNumber,
+        ksefNumber: invoice.ksefNumber ?? undefined,
+        senderName: user.email ?? invoice.tenant.name,
+        tenantName: invoice.tenant.name,
+        message,
+      },
+      visualisation,
+      user.email
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error || 'Email could not be sent' },
+        { status: 502 }
+      );
+    }
+
+    createAuditLog({
+      tenantId,
+      userId: user.id,
+      action: 'EXPORT',
+      entityType: 'INVOICE',
+      entityId: invoiceId,
+      metadata: { document: 'visualisation', channel: 'email', recipients: to, messageId: result.messageId },
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+    }).catch((err) => {
+      console.error('[Visualisation API] Failed to create audit log:', err);
+    });
+
+    return NextResponse.json({ success: true, messageId: result.messageId });
+  } catch (error) {
+    console.error('[Visualisation API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
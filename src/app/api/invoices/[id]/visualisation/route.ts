@@ -0,0 +1,89 @@
+/**
+ * GET /api/invoices/[id]/visualisation
+ *
+ * PDF visualisation of the invoice from its FA(3) content, with the KSeF number
+ * and verification QR codes once available.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { generateInvoiceVisualisation } from '@/lib/ksef/submission-service';
+import { getTenantKSeFNip } from '@/lib/ksef/tenant-settings';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit/logger';
+
+const prisma = new PrismaClient();
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: invoiceId } = await context.params;
+    const supabase = await createServerSupabaseClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get tenant ID from headers
+    const tenantId = request.headers.get('x-deklaro-tenant-id');
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'Tenant context not found' },
+        { status: 400 }
+      );
+    }
+
+    // Verify invoice belongs to tenant
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, tenantId },
+      select: { id: true },
+    });
+
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'Invoice not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const visualisation = await generateInvoiceVisualisation(invoiceId, await getTenantKSeFNip(tenantId));
+    if (!visualisation) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    createAuditLog({
+      tenantId,
+      userId: user.id,
+      action: 'DOWNLOAD',
+      entityType: 'INVOICE',
+      entityId: invoiceId,
+      metadata: { document: 'visualisation', fileName: visualisation.fileName },
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+    }).catch((err) => {
+      console.error('[Visualisation API] Failed to create audit log:', err);
+    });
+
+    return new NextResponse(new Uint8Array(visualisation.pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${visualisation.fileName}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('[Visualisation API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,12 @@ import { createServerSupabaseClient } from "@/lib/supabase/server";
 import { createAuditLog, getClientIp, getUserAgent } from "@/lib/audit/logger";
 import { checkInvoiceLimit, incrementInvoiceCount, incrementStorageUsage } from "@/lib/usage/tracker";
 import { inngest } from "@/lib/queue/inngest-client";
+import { importFA3Invoice } from "@/lib/ksef/fa3-import";
+import { getTenantKSeFNip } from "@/lib/ksef/tenant-settings";
+import type { OcrExtractionPath } from "@/lib/ocr";
+import type { OcrPageResult } from "@/lib/ocr/types";
+import type { ConfidenceScores } from "@/lib/ai/schemas/invoice-schema";
+import type { AppliedSupplierRule, ExtractedData } from "@/types/ocr";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -17,9 +23,16 @@ const ALLOWED_FILE_TYPES = [
   "image/png",
   "image/tiff",
   "application/pdf",
+  "application/xml",
+  "text/xml",
 ];
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
+// FA(3) e-invoices; some browsers send .xml files without a MIME type
+function isXmlFile(file: File) {
+  return file.type === "application/xml" || file.type === "text/xml" || file.name.toLowerCase().endsWith(".xml");
+}
+
 // Lazy-initialize admin Supabase client for storage uploads (bypasses RLS)
 // This prevents build-time errors when env vars aren't available
 let supabaseAdmin: ReturnType<typeof createClient> | null = null;
@@ -40,6 +53,97 @@ function getSupabaseAdmin() {
   return supabaseAdmin;
 }
 
+// Longer PDFs are treated as batch scans and left to the OCR worker
+const MAX_INLINE_PDF_PAGES = 5;
+
+// Text layer of the first pages, one more than are read inline
+async function readTextLayer(pdfBuffer: Buffer) {
+  const { extractPdfTextLayer } = await import("@/lib/pdf/text-layer");
+  return extractPdfTextLayer(pdfBuffer, 2, MAX_INLINE_PDF_PAGES + 1);
+}
+
+// Several invoices in one PDF: too many pages, or several invoices in the text layer
+async function isBatchScan(pages: OcrPageResult[]) {
+  const { detectInvoiceBoundaries } = await import("@/lib/ocr/splitting");
+  return pages.length > MAX_INLINE_PDF_PAGES || detectInvoiceBoundaries(pages).length > 1;
+}
+
+// Update invoice with extracted data (using tenant.* snake_case columns)
+async function saveExtraction(
+  invoiceId: string,
+  extraction: ExtractedData,
+  confidenceScores: ConfidenceScores,
+  rawText: string,
+  supplierRules: AppliedSupplierRule[],
+  job: { tenantId: string; extractionPath: OcrExtractionPath; startedAt: Date },
+) {
+  const { calculateOverallConfidence, requiresReview, validateExtractedData } = await import(
+    "@/lib/ai/extraction-service"
+  );
+  const { applyArithmeticWarnings } = await import("@/lib/ai/arithmetic-validation");
+  const { toStoredExtractedData } = await import("@/lib/ai/schemas/extracted-data");
+  const normalizeDateField = (value?: string | null) =>
+    value ? `${value}T00:00:00.000Z` : null;
+
+  // Amounts that don't add up are not trusted, however sure the extraction was
+  const validation = validateExtractedData(extraction);
+  const scores = applyArithmeticWarnings(confidenceScores, validation.warnings);
+  const overallConfidence = calculateOverallConfidence(scores);
+
+  if (validation.warnings.length > 0) {
+    console.log("[Upload] Arithmetic warnings:", validation.warnings.map((warning) => warning.message));
+  }
+
+  const { error: updateError } = await getSupabaseAdmin()
+    .from("invoices")
+    .update({
+      invoice_number: extraction.invoice_number ?? null,
+      invoice_date: normalizeDateField(extraction.issue_date),
+      due_date: normalizeDateField(extraction.due_date),
+      net_amount: extraction.net_amount ?? null,
+      vat_amount: extraction.vat_amount ?? null,
+      gross_amount: extraction.gross_amount ?? null,
+      currency: extraction.currency ?? "PLN",
+      extracted_data: toStoredExtractedData(
+        extraction,
+        supplierRules.length > 0 ? { supplier_rules: supplierRules } : undefined,
+      ),
+      confidence_scores: scores,
+      ocr_confidence_overall: overallConfidence,
+      requires_review: !validation.balanced || requiresReview(overallConfidence, scores),
+      raw_ocr_text: rawText,
+      status: "PROCESSED",
+      ocr_processed_at: new Date().toISOString(),
+    })
+    .eq("id", invoiceId);
+
+  if (updateError) {
+    console.error("[Upload] ❌ Failed to update invoice:", updateError);
+    throw updateError;
+  }
+
+  // The job record the OCR worker keeps, so text layer and OCR paths can be compared
+  const { error: jobError } = await getSupabaseAdmin()
+    .from("ocr_jobs")
+    .insert({
+      invoice_id: invoiceId,
+      tenant_id: job.tenantId,
+      status: "COMPLETED",
+      extraction_path: job.extractionPath,
+      started_at: job.startedAt.toISOString(),
+      completed_at: new Date().toISOString(),
+      result: {
+        overall_confidence: overallConfidence,
+        validation_errors: validation.errors,
+        arithmetic_warnings: validation.warnings,
+      },
+    });
+
+  if (jobError) {
+    console.error("[Upload] Failed to record OCR job:", jobError);
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
     console.log("[Upload] POST request received");
@@ -84,7 +188,7 @@ export async function POST(request: NextRequest) {
 
     // Validate files
     for (const file of files) {
-      if (!ALLOWED_FILE_TYPES.includes(file.type)) {
+      if (!ALLOWED_FILE_TYPES.includes(file.type) && !isXmlFile(file)) {
         return NextResponse.json(
           {
             error: `Invalid file type: ${file.type}. Allowed: ${ALLOWED_FILE_TYPES.join(", ")}`,
@@ -152,7 +256,7 @@ export async function POST(request: NextRequest) {
       const { data, error } = await getSupabaseAdmin().storage
         .from("invoices")
         .upload(storageFileName, buffer, {
-          contentType: file.type,
+          contentType: isXmlFile(file) ? "application/xml" : file.type,
           upsert: false,
         });
 
@@ -166,6 +270,64 @@ export async function POST(request: NextRequest) {
         continue;
       }
 
+      // FA(3) XML carries structured invoice data: import it directly, without OCR
+      if (isXmlFile(file)) {
+        try {
+          // Without a configured seller NIP every XML invoice is treated as INCOMING
+          const imported = await importFA3Invoice(tenantId, buffer.toString("utf8"), {
+            source: "UPLOAD",
+            originalFileUrl: data.path,
+            fileName: file.name,
+            uploadedBy: user.id,
+            tenantNip: await getTenantKSeFNip(tenantId),
+          });
+
+          console.log('[Upload] FA(3) invoice imported:', imported.invoiceId);
+
+          await Promise.all([
+            incrementInvoiceCount(tenantId),
+            incrementStorageUsage(tenantId, file.size),
+          ]);
+
+          createAuditLog({
+            tenantId,
+            userId: user.id,
+            action: 'CREATE',
+            entityType: 'INVOICE',
+            entityId: imported.invoiceId,
+            metadata: {
+              fileName: file.name,
+              fileSize: file.size,
+              source: 'FA3_XML',
+            },
+            ipAddress: getClientIp(request.headers),
+            userAgent: getUserAgent(request.headers),
+          }).catch((err) => {
+            console.error('[Upload] Failed to create audit log:', err);
+          });
+
+          uploadResults.push({
+            fileName: file.name,
+            success: true,
+            storagePath: data.path,
+            invoiceId: imported.invoiceId,
+            invoiceNumber: imported.invoiceNumber,
+          });
+        } catch (importError) {
+          console.error('[Upload] FA(3) import failed:', importError);
+
+          // Don't keep XML files that could not be imported
+          await getSupabaseAdmin().storage.from("invoices").remove([data.path]);
+
+          uploadResults.push({
+            fileName: file.name,
+            success: false,
+            error: `Invalid FA(3) invoice: ${importError instanceof Error ? importError.message : "could not be parsed"}`,
+          });
+        }
+        continue;
+      }
+
       // Create invoice record in database (using admin client to bypass RLS)
       try {
         console.log('[Upload] Creating invoice record with snake_case columns...');
@@ -212,66 +374,82 @@ export async function POST(request: NextRequest) {
 
         console.log('[Upload] Invoice created successfully:', invoice.id);
 
-        // Process with GPT-4 Vision immediately (fast: 5-15s)
+        // Extract immediately from text: the text layer of digital PDFs or the client-side OCR.
+        // Scans are left to the OCR worker, which reads them and extracts the same way
         try {
-          console.log('[Upload] Starting GPT-4 Vision extraction...');
+          console.log('[Upload] Starting inline extraction...');
           const startTime = Date.now();
 
-          // Import Vision extraction
-          const { extractInvoiceWithVision } = await import('@/lib/ai/vision-extraction');
-
-          // Get file from storage
-          const { data: urlData } = await getSupabaseAdmin().storage
-            .from('invoices')
-            .createSignedUrl(data.path, 3600);
-
-          if (urlData?.signedUrl) {
-            // Download file
-            const fileResponse = await fetch(urlData.signedUrl);
-            const fileBuffer = Buffer.from(await fileResponse.arrayBuffer());
-
-            // Run Vision extraction (OCR + AI in one call)
-            const visionResult = await extractInvoiceWithVision(fileBuffer);
-            const elapsed = Date.now() - startTime;
-
-            console.log(`[Upload] Vision extraction completed in ${elapsed}ms`);
-
-            const extraction = visionResult.extracted_data;
-            const confidenceScores = visionResult.confidence_scores || {};
-            const normalizeDateField = (value?: string | null) =>
-              value ? `${value}T00:00:00.000Z` : null;
-
-            // Update invoice with extracted data (using tenant.* snake_case columns)
-            const { error: updateError } = await getSupabaseAdmin()
-              .from('invoices')
-              .update({
-                invoice_number: extraction.invoice_number ?? null,
-                invoice_date: normalizeDateField(extraction.issue_date),
-                due_date: normalizeDateField(extraction.due_date),
-                net_amount: extraction.net_amount ?? null,
-                vat_amount: extraction.vat_amount ?? null,
-                gross_amount: extraction.gross_amount ?? null,
-                currency: extraction.currency ?? 'PLN',
-                extracted_data: extraction,
-                confidence_scores: confidenceScores,
-                ocr_confidence_overall: Math.round(confidenceScores.overall ?? 0),
-                status: 'PROCESSED',
-                ocr_processed_at: new Date().toISOString(),
-              })
-              .eq('id', invoice.id);
-
-            if (updateError) {
-              console.error('[Upload] ❌ Failed to update invoice:', updateError);
-              throw updateError;
+          const { extractInvoiceData } = await import('@/lib/ai/extraction-service');
+          const { getLlmProvider, getTenantAiSettings } = await import('@/lib/ai/providers');
+          const { extractInvoiceDataWithRules } = await import('@/lib/ai/rule-extraction');
+          const { applySupplierRules, loadSupplierRules, supplierRuleHints, toSupplierNip } = await import(
+            '@/lib/ai/supplier-rules'
+          );
+          const { combineOcrPages } = await import('@/lib/ocr/pages');
+          const { reconstructLineItemTable } = await import('@/lib/ocr/layout/table');
+          const { isPdfBuffer } = await import('@/lib/pdf/server-convert');
+          const { hasUsableTextLayer } = await import('@/lib/pdf/text-layer');
+
+          const textPages = isPdfBuffer(buffer) ? await readTextLayer(buffer) : [];
+          const textLayer =
+            textPages.length > 0 && textPages.every(hasUsableTextLayer) ? combineOcrPages(textPages) : null;
+          const text = textLayer?.text ?? ocrText;
+
+          if ((await isBatchScan(textPages)) || !text) {
+            // Several invoices in one scan are split into one invoice each; scans are OCR'd first
+            console.log('[Upload] Batch scan or scan without text, queuing for OCR');
+            await inngest.send({
+              name: 'invoice/uploaded',
+              data: {
+                invoice_id: invoiceId,
+                tenant_id: tenantId,
+                file_path: data.path,
+              },
+            });
+          } else {
+            // The tenant's LLM (Tenant.settings.ai) is asked only for fields the rules could not read
+            const { data: tenant } = await getSupabaseAdmin()
+              .from('tenants')
+              .select('settings')
+              .eq('id', tenantId)
+              .single();
+
+            // Rules learned from reviewer corrections of the seller's earlier invoices;
+            // the seller is read by the rule-based extractor before the model is asked
+            const sellerNip = toSupplierNip(extractInvoiceDataWithRules(text).extracted_data.seller.nip);
+            let rules = await loadSupplierRules(getSupabaseAdmin(), tenantId, sellerNip);
+
+            const result = await extractInvoiceData(text, {
+              lineItemCandidates: textLayer ? (reconstructLineItemTable(textLayer.words)?.items ?? []) : [],
+              hints: supplierRuleHints(rules),
+              provider: getLlmProvider(getTenantAiSettings(tenant?.settings)),
+            });
+
+            const extractedNip = toSupplierNip(result.extracted_data.seller.nip);
+            if (extractedNip !== sellerNip) {
+              rules = await loadSupplierRules(getSupabaseAdmin(), tenantId, extractedNip);
+            }
+            const { extracted_data, applied } = applySupplierRules(result.extracted_data, rules, text);
+
+            console.log(`[Upload] ${textLayer ? 'Text layer' : 'Client OCR'} extraction (${result.source}) completed in ${Date.now() - startTime}ms`);
+            if (applied.length > 0) {
+              console.log('[Upload] Supplier rules applied:', applied.map((rule) => rule.description));
             }
 
+            await saveExtraction(invoice.id, extracted_data, result.confidence_scores, text, applied, {
+              tenantId,
+              extractionPath: textLayer ? 'TEXT_LAYER' : 'CLIENT_OCR',
+              startedAt: new Date(startTime),
+            });
+
             console.log('[Upload] ✅ Invoice updated successfully with extracted data');
-            console.log('[Upload] Invoice Number:', extraction.invoice_number);
-            console.log('[Upload] Gross Amount:', extraction.gross_amount);
+            console.log('[Upload] Invoice Number:', extracted_data.invoice_number);
+            console.log('[Upload] Gross Amount:', extracted_data.gross_amount);
           }
         } catch (extractionError) {
           // Log detailed error information
-          console.error('[Upload] ❌ Vision extraction FAILED - Details:');
+          console.error('[Upload] ❌ Inline extraction FAILED - Details:');
           console.error('[Upload] Error message:', extractionError instanceof Error ? extractionError.message : extractionError);
           console.error('[Upload] Error stack:', extractionError instanceof Error ? extractionError.stack : 'No stack');
           console.error('[Upload] Error type:', typeof extractionError);
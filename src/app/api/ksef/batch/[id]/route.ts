@@ -0,0 +1,97 @@
+/**
+ * KSeF Batch Status API Endpoint
+ * Polls KSeF for a batch session and returns per-invoice results
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { refreshKSeFBatchStatus } from '@/lib/ksef/submission-service';
+import { getTenantKSeFNip } from '@/lib/ksef/tenant-settings';
+
+const prisma = new PrismaClient();
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: batchId } = await context.params;
+    const supabase = await createServerSupabaseClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get tenant ID from headers
+    const tenantId = request.headers.get('x-deklaro-tenant-id');
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'Tenant context not found' },
+        { status: 400 }
+      );
+    }
+
+    // Verify batch belongs to tenant
+    const batch = await prisma.kSeFBatchSession.findFirst({
+      where: { id: batchId, tenantId },
+      select: { id: true },
+    });
+
+    if (!batch) {
+      return NextResponse.json(
+        { error: 'Batch session not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const tenantNip = await getTenantKSeFNip(tenantId);
+    if (!tenantNip) {
+      return NextResponse.json(
+        { error: 'KSeF seller NIP is not configured for this tenant' },
+        { status: 400 }
+      );
+    }
+
+    const refresh = await refreshKSeFBatchStatus(batchId, tenantNip);
+    if (!refresh.success) {
+      return NextResponse.json({ error: refresh.error }, { status: 502 });
+    }
+
+    const current = await prisma.kSeFBatchSession.findUnique({
+      where: { id: batchId },
+      include: {
+        submissions: {
+          select: {
+            invoiceId: true,
+            status: true,
+            ksefNumber: true,
+            errorCode: true,
+            errorMessage: true,
+          },
+        },
+      },
+    });
+
+    return NextResponse.json({
+      id: batchId,
+      referenceNumber: current?.referenceNumber,
+      status: current?.status,
+      processingCode: current?.processingCode,
+      processingDescription: current?.processingDescription,
+      submissions: current?.submissions ?? [],
+    });
+  } catch (error) {
+    console.error('[KSeF Batch API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
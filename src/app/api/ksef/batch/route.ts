@@ -0,0 +1,124 @@
+/**
+ * KSeF Batch Submission API Endpoint
+ * Submits many invoices in one batch (wsadowa) session, e.g. at month-end closing
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { submitInvoicesToKSeFBatch } from '@/lib/ksef/submission-service';
+import { getTenantKSeFSettings } from '@/lib/ksef/credentials';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit/logger';
+import { inngest } from '@/lib/queue/inngest-client';
+
+const prisma = new PrismaClient();
+
+// Upper bound per request; larger closings are split into several batches
+const MAX_BATCH_INVOICES = 1000;
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get tenant ID from headers
+    const tenantId = request.headers.get('x-deklaro-tenant-id');
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'Tenant context not found' },
+        { status: 400 }
+      );
+    }
+
+    // Get request body
+    const body = await request.json();
+    const { invoiceIds } = body;
+
+    if (
+      !Array.isArray(invoiceIds) ||
+      invoiceIds.length === 0 ||
+      !invoiceIds.every((id) => typeof id === 'string')
+    ) {
+      return NextResponse.json(
+        { error: 'invoiceIds must be a non-empty array of invoice IDs' },
+        { status: 400 }
+      );
+    }
+
+    if (invoiceIds.length > MAX_BATCH_INVOICES) {
+      return NextResponse.json(
+        { error: `A batch can contain at most ${MAX_BATCH_INVOICES} invoices` },
+        { status: 400 }
+      );
+    }
+
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+    });
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 });
+    }
+
+    const tenantNip = getTenantKSeFSettings(tenant.settings).nip;
+    if (!tenantNip) {
+      return NextResponse.json(
+        { error: 'KSeF seller NIP is not configured for this tenant' },
+        { status: 400 }
+      );
+    }
+
+    const result = await submitInvoicesToKSeFBatch([...new Set<string>(invoiceIds)], tenantId, tenantNip);
+
+    if (result.success && result.batchId) {
+      await inngest.send({
+        name: 'ksef/batch.sent',
+        data: {
+          batch_id: result.batchId,
+          tenant_id: tenantId,
+          tenant_nip: tenantNip,
+        },
+      }).catch((err) => {
+        console.error('[KSeF Batch API] Failed to schedule status polling:', err);
+      });
+    }
+
+    if (result.batchId) {
+      createAuditLog({
+        tenantId,
+        userId: user.id,
+        action: 'SUBMIT',
+        entityType: 'KSEF_SUBMISSION',
+        entityId: result.batchId,
+        metadata: {
+          referenceNumber: result.referenceNumber,
+          submitted: result.submitted,
+          skipped: result.skipped.map((entry) => entry.invoiceId),
+        },
+        ipAddress: getClientIp(request.headers),
+        userAgent: getUserAgent(request.headers),
+      }).catch((err) => {
+        console.error('[KSeF Batch API] Failed to create audit log:', err);
+      });
+    }
+
+    return NextResponse.json(result, {
+      status: result.success ? 202 : result.batchId ? 502 : 422,
+    });
+  } catch (error) {
+    console.error('[KSeF Batch API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * KSeF Offline Issuance API Endpoint
+ * Issues invoices offline while KSeF is unavailable and returns their KOD I / KOD II
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { issueInvoiceOffline } from '@/lib/ksef/submission-service';
+import { getTenantKSeFNip } from '@/lib/ksef/tenant-settings';
+import { isKSeFOfflineMode, KSEF_OFFLINE_MODES } from '@/lib/ksef/offline';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit/logger';
+
+const prisma = new PrismaClient();
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get tenant ID from headers
+    const tenantId = request.headers.get('x-deklaro-tenant-id');
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'Tenant context not found' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const { invoiceId, mode = 'OFFLINE24' } = body;
+
+    if (!invoiceId) {
+      return NextResponse.json(
+        { error: 'Invoice ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isKSeFOfflineMode(mode)) {
+      return NextResponse.json(
+        { error: `Offline mode must be one of: ${KSEF_OFFLINE_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Verify invoice belongs to tenant
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, tenantId },
+      select: { id: true },
+    });
+
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'Invoice not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const tenantNip = await getTenantKSeFNip(tenantId);
+    if (!tenantNip) {
+      return NextResponse.json(
+        { error: 'KSeF seller NIP is not configured for this tenant' },
+        { status: 400 }
+      );
+    }
+
+    const result = await issueInvoiceOffline(invoiceId, tenantNip, mode);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: result.error || 'Offline issuance failed',
+          validationErrors: result.validationErrors,
+        },
+        { status: result.validationErrors ? 422 : 400 }
+      );
+    }
+
+    createAuditLog({
+      tenantId,
+      userId: user.id,
+      action: 'CREATE',
+      entityType: 'KSEF_SUBMISSION',
+      entityId: invoiceId,
+      metadata: {
+        offlineMode: mode,
+        offlineDeadline: result.offlineDeadline,
+      },
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+    }).catch((err) => {
+      console.error('[KSeF Offline API] Failed to create audit log:', err);
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Invoice issued offline, it will be sent to KSeF once the service is available',
+      submissionId: result.submissionId,
+      offlineDeadline: result.offlineDeadline,
+      verificationCodes: result.verificationCodes,
+    });
+  } catch (error) {
+    console.error('[KSeF Offline API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -7,7 +7,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
 import { createServerSupabaseClient } from '@/lib/supabase/server';
 import { submitInvoiceToKSeF } from '@/lib/ksef/submission-service';
+import { getTenantKSeFSettings } from '@/lib/ksef/credentials';
 import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit/logger';
+import { inngest } from '@/lib/queue/inngest-client';
 
 const prisma = new PrismaClient();
 
@@ -60,7 +62,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get tenant NIP (would come from tenant settings in production)
+    // Seller NIP comes from the tenant KSeF settings
     const tenant = await prisma.tenant.findUnique({
       where: { id: tenantId },
     });
@@ -69,13 +71,33 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Tenant not found' }, { status: 404 });
     }
 
-    // TODO: Get actual tenant NIP from tenant settings
-    const tenantNip = '0000000000'; // Placeholder
+    const tenantNip = getTenantKSeFSettings(tenant.settings).nip;
+    if (!tenantNip) {
+      return NextResponse.json(
+        { error: 'KSeF seller NIP is not configured for this tenant' },
+        { status: 400 }
+      );
+    }
 
     // Submit to KSeF
     const result = await submitInvoiceToKSeF(invoiceId, tenantNip);
 
     if (result.success) {
+      // Follow the submission until KSeF has processed it
+      if (result.submissionId && !result.ksefNumber) {
+        await inngest.send({
+          name: 'ksef/submission.sent',
+          data: {
+            submission_id: result.submissionId,
+            invoice_id: invoiceId,
+            tenant_id: tenantId,
+            tenant_nip: tenantNip,
+          },
+        }).catch((err) => {
+          console.error('[KSeF API] Failed to schedule status polling:', err);
+        });
+      }
+
       // Log audit trail
       createAuditLog({
         tenantId,
@@ -84,6 +106,7 @@ export async function POST(request: NextRequest) {
         entityType: 'KSEF_SUBMISSION',
         entityId: invoiceId,
         metadata: {
+          referenceNumber: result.referenceNumber,
           ksefNumber: result.ksefNumber,
         },
         ipAddress: getClientIp(request.headers),
@@ -94,7 +117,10 @@ export async function POST(request: NextRequest) {
 
       return NextResponse.json({
         success: true,
-        message: 'Invoice submitted to KSeF successfully',
+        message: result.ksefNumber
+          ? 'Invoice already accepted by KSeF'
+          : 'Invoice sent to KSeF, awaiting confirmation',
+        referenceNumber: result.referenceNumber,
         ksefNumber: result.ksefNumber,
       });
     } else {
@@ -102,8 +128,10 @@ export async function POST(request: NextRequest) {
         {
           success: false,
           error: result.error || 'Submission failed',
+          validationErrors: result.validationErrors,
+          nextRetryAt: result.nextRetryAt,
         },
-        { status: 400 }
+        { status: result.inProgress ? 409 : result.validationErrors ? 422 : 400 }
       );
     }
   } catch (error) {
@@ -0,0 +1,78 @@
+/**
+ * KSeF Verification Codes API Endpoint
+ * Returns KOD I (and KOD II for offline invoices) for the invoice visualisation
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getKSeFVerificationCodes } from '@/lib/ksef/submission-service';
+import { getTenantKSeFNip } from '@/lib/ksef/tenant-settings';
+
+const prisma = new PrismaClient();
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ invoiceId: string }> }
+) {
+  try {
+    const { invoiceId } = await context.params;
+    const supabase = await createServerSupabaseClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get tenant ID from headers
+    const tenantId = request.headers.get('x-deklaro-tenant-id');
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'Tenant context not found' },
+        { status: 400 }
+      );
+    }
+
+    // Verify invoice belongs to tenant
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, tenantId },
+      select: { id: true },
+    });
+
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'Invoice not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const tenantNip = await getTenantKSeFNip(tenantId);
+    if (!tenantNip) {
+      return NextResponse.json(
+        { error: 'KSeF seller NIP is not configured for this tenant' },
+        { status: 400 }
+      );
+    }
+
+    const codes = await getKSeFVerificationCodes(invoiceId, tenantNip);
+    if (!codes) {
+      return NextResponse.json(
+        { error: 'Invoice has not been issued through KSeF yet' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(codes);
+  } catch (error) {
+    console.error('[KSeF Verification Codes API] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
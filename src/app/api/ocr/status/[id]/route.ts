@@ -9,6 +9,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { normalizeExtractedData } from '@/lib/ai/schemas/extracted-data';
 
 const TENANT_HEADER = 'x-tenant-id';
 
@@ -142,17 +143,21 @@ export async function GET(
           ? new Date(job.completed_at).getTime() - new Date(job.started_at).getTime()
           : 0;
 
+        const extractedData = normalizeExtractedData(invoice?.extracted_data);
+
         return NextResponse.json({
           ...baseResponse,
           started_at: job.started_at,
           completed_at: job.completed_at,
           duration_ms: duration,
           result: {
-            extracted_data: invoice?.extracted_data || {},
+            extracted_data: extractedData ?? {},
             confidence_scores: invoice?.confidence_scores || {},
             ocr_confidence_overall: invoice?.ocr_confidence_overall || 0,
             requires_review: invoice?.requires_review || false,
             raw_ocr_text: invoice?.ocr_raw_text,
+            // Supplier rules learned from earlier reviews that changed this extraction
+            applied_rules: extractedData?.details?.supplier_rules ?? [],
           },
         });
       }
@@ -0,0 +1,167 @@
+/**
+ * Tenant AI Settings API Endpoint
+ * GET: LLM provider and per-task models of the active tenant, with the providers configured on this server
+ * PUT: replace the settings (tenant owners only); an omitted provider falls back to LLM_PROVIDER
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import {
+  LLM_PROVIDERS,
+  checkTenantAiSettings,
+  isLlmProviderName,
+  resolveLlmProviderName,
+  type LlmProviderName,
+  type TenantAiSettings,
+} from '@/lib/ai/providers';
+import { loadTenantAiSettings, saveTenantAiSettings } from '@/lib/ai/tenant-settings';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit/logger';
+
+const prisma = new PrismaClient();
+
+const ModelSchema = z.string().trim().min(1).max(200).optional();
+
+const AiSettingsRequestSchema = z
+  .object({
+    provider: z.custom<LlmProviderName>(isLlmProviderName, { message: 'Unknown LLM provider' }).optional(),
+    models: z
+      .object({
+        extraction: ModelSchema,
+        classification: ModelSchema,
+        vision: ModelSchema,
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+function describeSettings(settings: TenantAiSettings) {
+  return {
+    settings,
+    provider: resolveLlmProviderName(settings),
+    providers: Object.values(LLM_PROVIDERS).map((provider) => ({
+      name: provider.name,
+      available: provider.isAvailable(),
+    })),
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get tenant ID from headers
+    const tenantId = request.headers.get('x-deklaro-tenant-id');
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'Tenant context not found' },
+        { status: 400 }
+      );
+    }
+
+    const membership = await prisma.tenantUser.findUnique({
+      where: { tenantId_userId: { tenantId, userId: user.id } },
+    });
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Tenant not found or access denied' }, { status: 404 });
+    }
+
+    return NextResponse.json(describeSettings(await loadTenantAiSettings(tenantId)));
+  } catch (error) {
+    console.error('[AI Settings API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get tenant ID from headers
+    const tenantId = request.headers.get('x-deklaro-tenant-id');
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'Tenant context not found' },
+        { status: 400 }
+      );
+    }
+
+    const membership = await prisma.tenantUser.findUnique({
+      where: { tenantId_userId: { tenantId, userId: user.id } },
+    });
+
+    if (membership?.role !== 'OWNER') {
+      return NextResponse.json(
+        { error: 'Only tenant owners can change AI settings' },
+        { status: 403 }
+      );
+    }
+
+    const validation = AiSettingsRequestSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const unusable = checkTenantAiSettings(validation.data);
+    if (unusable) {
+      return NextResponse.json({ error: unusable }, { status: 400 });
+    }
+
+    const settings = await saveTenantAiSettings(tenantId, validation.data);
+
+    // Log audit trail
+    createAuditLog({
+      tenantId,
+      userId: user.id,
+      action: 'UPDATE',
+      entityType: 'SETTINGS',
+      entityId: tenantId,
+      metadata: {
+        section: 'ai',
+        provider: settings.provider ?? null,
+        models: settings.models ?? null,
+      },
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+    }).catch((err) => {
+      console.error('[AI Settings API] Failed to create audit log:', err);
+    });
+
+    return NextResponse.json({ success: true, ...describeSettings(settings) });
+  } catch (error) {
+    console.error('[AI Settings API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Tenant KSeF Settings API Endpoint
+ * GET: environment, seller NIP and auth method of the active tenant (secrets masked)
+ * PUT: update the settings (tenant owners only); omitted secrets and certificates keep their stored value
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getPublicTenantKSeFSettings, saveTenantKSeFSettings } from '@/lib/ksef/tenant-settings';
+import { formatNIP, validateNIPFormat } from '@/lib/weis/client';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit/logger';
+
+const prisma = new PrismaClient();
+
+// PKCS#12 containers are a few KB; the limit leaves room for a CA chain
+const MAX_CERTIFICATE_LENGTH = 64 * 1024;
+
+// Uploaded .p12/.pfx file, base64 encoded; an empty string removes the stored one
+const CertificateSchema = z
+  .string()
+  .trim()
+  .max(MAX_CERTIFICATE_LENGTH, { message: 'Certificate file is too large' })
+  .regex(/^[A-Za-z0-9+/]*={0,2}$/, { message: 'Certificate must be a base64 encoded .p12/.pfx file' })
+  .optional();
+
+const KSeFSettingsRequestSchema = z.object({
+  environment: z.enum(['test', 'demo', 'production']),
+  nip: z
+    .string()
+    .transform((nip) => formatNIP(nip))
+    .refine(validateNIPFormat, { message: 'Invalid NIP' }),
+  authMethod: z.enum(['token', 'certificate']),
+  token: z.string().trim().optional(),
+  certificate: CertificateSchema,
+  certificatePassword: z.string().optional(),
+  offlineCertificate: CertificateSchema,
+  offlineCertificatePassword: z.string().optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get tenant ID from headers
+    const tenantId = request.headers.get('x-deklaro-tenant-id');
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'Tenant context not found' },
+        { status: 400 }
+      );
+    }
+
+    const membership = await prisma.tenantUser.findUnique({
+      where: { tenantId_userId: { tenantId, userId: user.id } },
+    });
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Tenant not found or access denied' }, { status: 404 });
+    }
+
+    return NextResponse.json({ settings: await getPublicTenantKSeFSettings(tenantId) });
+  } catch (error) {
+    console.error('[KSeF Settings API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get tenant ID from headers
+    const tenantId = request.headers.get('x-deklaro-tenant-id');
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'Tenant context not found' },
+        { status: 400 }
+      );
+    }
+
+    const membership = await prisma.tenantUser.findUnique({
+      where: { tenantId_userId: { tenantId, userId: user.id } },
+    });
+
+    if (membership?.role !== 'OWNER') {
+      return NextResponse.json(
+        { error: 'Only tenant owners can change KSeF settings' },
+        { status: 403 }
+      );
+    }
+
+    const validation = KSeFSettingsRequestSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const settings = await saveTenantKSeFSettings(tenantId, validation.data);
+
+    // Log audit trail (secrets are never logged)
+    createAuditLog({
+      tenantId,
+      userId: user.id,
+      action: 'UPDATE',
+      entityType: 'SETTINGS',
+      entityId: tenantId,
+      metadata: {
+        section: 'ksef',
+        environment: settings.environment,
+        nip: settings.nip,
+        authMethod: settings.authMethod,
+        tokenChanged: validation.data.token !== undefined,
+        certificateChanged: validation.data.certificate !== undefined,
+        offlineCertificateChanged: validation.data.offlineCertificate !== undefined,
+        certificatePasswordChanged: validation.data.certificatePassword !== undefined,
+        offlineCertificatePasswordChanged: validation.data.offlineCertificatePassword !== undefined,
+      },
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+    }).catch((err) => {
+      console.error('[KSeF Settings API] Failed to create audit log:', err);
+    });
+
+    return NextResponse.json({ success: true, settings });
+  } catch (error) {
+    console.error('[KSeF Settings API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * KSeF Connection Test API Endpoint
+ * Opens and terminates a KSeF session with the active tenant's stored settings
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { testTenantKSeFConnection } from '@/lib/ksef/tenant-settings';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit/logger';
+
+const prisma = new PrismaClient();
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get tenant ID from headers
+    const tenantId = request.headers.get('x-deklaro-tenant-id');
+    if (!tenantId) {
+      return NextResponse.json(
+        { error: 'Tenant context not found' },
+        { status: 400 }
+      );
+    }
+
+    const membership = await prisma.tenantUser.findUnique({
+      where: { tenantId_userId: { tenantId, userId: user.id } },
+    });
+
+    if (membership?.role !== 'OWNER') {
+      return NextResponse.json(
+        { error: 'Only tenant owners can test the KSeF connection' },
+        { status: 403 }
+      );
+    }
+
+    const result = await testTenantKSeFConnection(tenantId);
+
+    createAuditLog({
+      tenantId,
+      userId: user.id,
+      action: 'VIEW',
+      entityType: 'SETTINGS',
+      entityId: tenantId,
+      metadata: {
+        section: 'ksef',
+        connectionTest: result.success ? 'success' : 'failed',
+        environment: result.environment,
+        error: result.error,
+      },
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+    }).catch((err) => {
+      console.error('[KSeF Settings API] Failed to create audit log:', err);
+    });
+
+    // A failed connection is a valid test outcome, not a request error
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[KSeF Settings API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
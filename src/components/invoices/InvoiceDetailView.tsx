@@ -3,10 +3,13 @@
 import { useState } from 'react';
 import { Sparkles } from 'lucide-react';
 import { KSeFSubmitButton } from './KSeFSubmitButton';
+import { InvoiceVisualisation } from './InvoiceVisualisation';
 import { OCRProcessingStatus } from './OCRProcessingStatus';
 import { ReviewExtractedData } from './ReviewExtractedData';
 import { processInvoiceOCR, approveInvoice } from '@/lib/api/ocr-client';
+import { formatVATRateCode, type VATRateCode } from '@/lib/vat-rates';
 import type { OCRJobResult, ExtractedData, ConfidenceScores } from './types';
+import type { FA3ValidationError } from '@/lib/ksef/types';
 
 interface InvoiceDetailViewProps {
   invoice: {
@@ -37,23 +40,23 @@ interface InvoiceDetailViewProps {
       description: string;
       quantity: number;
       unitPrice: number;
-      vatRate: number;
+      vatRate: VATRateCode;
       netAmount: number;
       vatAmount: number;
       grossAmount: number;
     }>;
     extractedData?: {
-      supplier: {
+      seller: {
         name?: string;
-        vatId?: string;
-        address?: string;
+        nip?: string;
+        address?: string | null;
       };
       buyer: {
         name?: string;
-        vatId?: string;
-        address?: string;
+        nip?: string;
+        address?: string | null;
       };
-    };
+    } | null;
     ocrJob?: {
       status: string;
       progress: number;
@@ -80,6 +83,8 @@ export function InvoiceDetailView({ invoice }: InvoiceDetailViewProps) {
   const [ocrResult, setOcrResult] = useState<OCRJobResult | null>(null);
   const [isProcessingOCR, setIsProcessingOCR] = useState(false);
   const [isApproving, setIsApproving] = useState(false);
+  // Invoice fields flagged by FA(3) schema validation on KSeF submission
+  const [ksefFieldErrors, setKsefFieldErrors] = useState<Set<string>>(new Set());
   const [tenantId] = useState(() => {
     if (typeof window !== 'undefined') {
       return localStorage.getItem('x-tenant-id') || '';
@@ -114,6 +119,21 @@ export function InvoiceDetailView({ invoice }: InvoiceDetailViewProps) {
     setIsProcessingOCR(false);
   };
 
+  // Highlight fields rejected by FA(3) schema validation
+  const handleKSeFValidationErrors = (errors: FA3ValidationError[]) => {
+    const fields = new Set<string>();
+    for (const error of errors) {
+      if (!error.field) continue;
+      fields.add(error.field);
+      const lineItem = error.field.match(/^lineItems\.\d+/);
+      if (lineItem) fields.add(lineItem[0]);
+    }
+    setKsefFieldErrors(fields);
+  };
+
+  const fieldErrorClass = (field: string) =>
+    ksefFieldErrors.has(field) ? 'rounded ring-2 ring-red-400 bg-red-50 dark:bg-red-950' : '';
+
   // Handle approve invoice
   const handleApprove = async () => {
     if (!window.confirm('Are you sure you want to approve this invoice? This action cannot be undone.')) {
@@ -285,7 +305,7 @@ export function InvoiceDetailView({ invoice }: InvoiceDetailViewProps) {
             <div className="rounded-lg border bg-card p-6">
               <h3 className="font-semibold mb-4">Invoice Information</h3>
               <dl className="grid grid-cols-2 gap-4">
-                <div>
+                <div className={fieldErrorClass('invoiceNumber')}>
                   <dt className="text-sm text-gray-600 dark:text-gray-400">Invoice Number</dt>
                   <dd className="font-medium">{invoice.invoiceNumber || '—'}</dd>
                 </div>
@@ -303,11 +323,11 @@ export function InvoiceDetailView({ invoice }: InvoiceDetailViewProps) {
                     </span>
                   </dd>
                 </div>
-                <div>
+                <div className={fieldErrorClass('invoiceDate')}>
                   <dt className="text-sm text-gray-600 dark:text-gray-400">Invoice Date</dt>
                   <dd className="font-medium">{formatDate(invoice.invoiceDate)}</dd>
                 </div>
-                <div>
+                <div className={fieldErrorClass('dueDate')}>
                   <dt className="text-sm text-gray-600 dark:text-gray-400">Due Date</dt>
                   <dd className="font-medium">{formatDate(invoice.dueDate)}</dd>
                 </div>
@@ -344,15 +364,15 @@ export function InvoiceDetailView({ invoice }: InvoiceDetailViewProps) {
             <div className="rounded-lg border bg-card p-6">
               <h3 className="font-semibold mb-4">Financial Summary</h3>
               <dl className="space-y-3">
-                <div className="flex justify-between">
+                <div className={`flex justify-between ${fieldErrorClass('netAmount')}`}>
                   <dt className="text-gray-600 dark:text-gray-400">Net Amount</dt>
                   <dd className="font-medium">{formatCurrency(invoice.netAmount)}</dd>
                 </div>
-                <div className="flex justify-between">
+                <div className={`flex justify-between ${fieldErrorClass('vatAmount')}`}>
                   <dt className="text-gray-600 dark:text-gray-400">VAT Amount</dt>
                   <dd className="font-medium">{formatCurrency(invoice.vatAmount)}</dd>
                 </div>
-                <div className="flex justify-between pt-3 border-t">
+                <div className={`flex justify-between pt-3 border-t ${fieldErrorClass('grossAmount')}`}>
                   <dt className="font-semibold">Gross Amount</dt>
                   <dd className="text-lg font-bold">{formatCurrency(invoice.grossAmount)}</dd>
                 </div>
@@ -367,9 +387,16 @@ export function InvoiceDetailView({ invoice }: InvoiceDetailViewProps) {
                 invoiceNumber={invoice.invoiceNumber}
                 currentStatus={invoice.status}
                 ksefNumber={invoice.ksefNumber}
+                onValidationErrors={handleKSeFValidationErrors}
               />
             </div>
 
+            {/* Invoice PDF */}
+            <div className="rounded-lg border bg-card p-6">
+              <h3 className="font-semibold mb-4">Invoice PDF</h3>
+              <InvoiceVisualisation invoiceId={invoice.id} ksefNumber={invoice.ksefNumber} />
+            </div>
+
             {/* Line Items */}
             {invoice.lineItems && invoice.lineItems.length > 0 && (
               <div className="rounded-lg border bg-card p-6">
@@ -387,12 +414,12 @@ export function InvoiceDetailView({ invoice }: InvoiceDetailViewProps) {
                       </tr>
                     </thead>
                     <tbody className="divide-y">
-                      {invoice.lineItems.map((item) => (
-                        <tr key={item.id}>
+                      {invoice.lineItems.map((item, index) => (
+                        <tr key={item.id} className={fieldErrorClass(`lineItems.${index}`)}>
                           <td className="py-3">{item.description}</td>
                           <td className="text-right">{item.quantity}</td>
                           <td className="text-right">{formatCurrency(item.unitPrice)}</td>
-                          <td className="text-right">{item.vatRate}%</td>
+                          <td className="text-right">{formatVATRateCode(item.vatRate)}</td>
                           <td className="text-right font-medium">{formatCurrency(item.netAmount)}</td>
                           <td className="text-right font-medium">{formatCurrency(item.grossAmount)}</td>
                         </tr>
@@ -417,6 +444,7 @@ export function InvoiceDetailView({ invoice }: InvoiceDetailViewProps) {
                   extractedData={ocrResult.extracted_data}
                   confidenceScores={ocrResult.confidence_scores}
                   rawOcrText={ocrResult.raw_ocr_text}
+                  appliedRules={ocrResult.applied_rules}
                   isApproved={invoice.status === 'VERIFIED'}
                 />
 
@@ -451,15 +479,15 @@ export function InvoiceDetailView({ invoice }: InvoiceDetailViewProps) {
                   <dl className="space-y-2">
                     <div>
                       <dt className="text-sm text-gray-600 dark:text-gray-400">Name</dt>
-                      <dd className="font-medium">{invoice.extractedData.supplier.name || '—'}</dd>
+                      <dd className="font-medium">{invoice.extractedData.seller.name || '—'}</dd>
                     </div>
                     <div>
                       <dt className="text-sm text-gray-600 dark:text-gray-400">VAT ID</dt>
-                      <dd className="font-medium font-mono">{invoice.extractedData.supplier.vatId || '—'}</dd>
+                      <dd className="font-medium font-mono">{invoice.extractedData.seller.nip || '—'}</dd>
                     </div>
                     <div>
                       <dt className="text-sm text-gray-600 dark:text-gray-400">Address</dt>
-                      <dd className="font-medium">{invoice.extractedData.supplier.address || '—'}</dd>
+                      <dd className="font-medium">{invoice.extractedData.seller.address || '—'}</dd>
                     </div>
                   </dl>
                 </div>
@@ -473,7 +501,7 @@ export function InvoiceDetailView({ invoice }: InvoiceDetailViewProps) {
                     </div>
                     <div>
                       <dt className="text-sm text-gray-600 dark:text-gray-400">VAT ID</dt>
-                      <dd className="font-medium font-mono">{invoice.extractedData.buyer.vatId || '—'}</dd>
+                      <dd className="font-medium font-mono">{invoice.extractedData.buyer.nip || '—'}</dd>
                     </div>
                     <div>
                       <dt className="text-sm text-gray-600 dark:text-gray-400">Address</dt>
@@ -2,7 +2,6 @@
 
 import { useState, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
-import { convertPdfToImage } from '@/lib/pdf/convert-to-image';
 
 type UploadedFile = {
   file: File;
@@ -15,7 +14,11 @@ type UploadedFile = {
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 const MAX_FILES = 50;
-const ACCEPTED_FILE_TYPES = ['image/jpeg', 'image/png', 'image/jpg', 'image/tiff', 'application/pdf'];
+const ACCEPTED_FILE_TYPES = ['image/jpeg', 'image/png', 'image/jpg', 'image/tiff', 'application/pdf', 'application/xml', 'text/xml'];
+
+// FA(3) e-invoices are imported without OCR; some browsers report .xml files without a MIME type
+const isXmlFile = (file: File) =>
+  file.type === 'application/xml' || file.type === 'text/xml' || file.name.toLowerCase().endsWith('.xml');
 
 export function InvoiceUpload() {
   const router = useRouter();
@@ -48,7 +51,7 @@ export function InvoiceUpload() {
   }, []);
 
   const validateFile = (file: File): string | null => {
-    if (!ACCEPTED_FILE_TYPES.includes(file.type)) {
+    if (!ACCEPTED_FILE_TYPES.includes(file.type) && !isXmlFile(file)) {
       return `Invalid file type. Only ${ACCEPTED_FILE_TYPES.join(', ')} are allowed.`;
     }
     if (file.size > MAX_FILE_SIZE) {
@@ -71,38 +74,18 @@ export function InvoiceUpload() {
       alert(`Only adding ${remainingSlots} files. Maximum ${MAX_FILES} files allowed.`);
     }
 
-    // Convert PDFs to images and create uploaded file objects
-    const uploadedFiles: UploadedFile[] = await Promise.all(
-      filesToAdd.map(async (originalFile) => {
-        const error = validateFile(originalFile);
-
-        // If file is PDF and no validation error, convert to image
-        let fileToUpload = originalFile;
-        if (originalFile.type === 'application/pdf' && !error) {
-          try {
-            console.log(`📄 Converting PDF to image: ${originalFile.name}`);
-            fileToUpload = await convertPdfToImage(originalFile);
-          } catch (convertError) {
-            console.error('PDF conversion failed:', convertError);
-            return {
-              file: originalFile,
-              preview: undefined,
-              status: 'error' as const,
-              progress: 0,
-              error: `PDF conversion failed: ${convertError instanceof Error ? convertError.message : 'Unknown error'}`,
-            };
-          }
-        }
-
-        return {
-          file: fileToUpload,
-          preview: fileToUpload.type.startsWith('image/') && !error ? URL.createObjectURL(fileToUpload) : undefined,
-          status: error ? 'error' as const : 'pending' as const,
-          progress: 0,
-          error: error || undefined,
-        };
-      })
-    );
+    // PDFs are uploaded as they are: every page is rendered and recognised on the server
+    const uploadedFiles: UploadedFile[] = filesToAdd.map((file) => {
+      const error = validateFile(file);
+
+      return {
+        file,
+        preview: file.type.startsWith('image/') && !error ? URL.createObjectURL(file) : undefined,
+        status: error ? 'error' as const : 'pending' as const,
+        progress: 0,
+        error: error || undefined,
+      };
+    });
 
     setFiles((prev) => [...prev, ...uploadedFiles]);
   };
@@ -131,6 +114,22 @@ export function InvoiceUpload() {
 
       const result = await response.json();
 
+      // FA(3) XML is imported synchronously: no OCR step to wait for
+      if (isXmlFile(uploadedFile.file)) {
+        const fileResult = result.results?.[0];
+        if (!fileResult?.success) {
+          throw new Error(fileResult?.error ?? 'Import failed');
+        }
+
+        setFiles((prev) =>
+          prev.map((f, i) =>
+            i === index ? { ...f, status: 'complete' as const, progress: 100 } : f,
+          ),
+        );
+        router.refresh();
+        return;
+      }
+
       setFiles((prev) =>
         prev.map((f, i) =>
           i === index
@@ -225,7 +224,7 @@ export function InvoiceUpload() {
           type="file"
           id="file-upload"
           multiple
-          accept="image/jpeg,image/png,image/jpg,image/tiff,application/pdf"
+          accept="image/jpeg,image/png,image/jpg,image/tiff,application/pdf,.xml,application/xml,text/xml"
           onChange={handleFileSelect}
           className="hidden"
         />
@@ -256,7 +255,7 @@ export function InvoiceUpload() {
           </div>
 
           <p className="text-sm text-gray-500 dark:text-gray-400">
-            PDF, JPG, PNG, or TIFF up to 10MB (max 50 files)
+            PDF, JPG, PNG, TIFF or FA(3) XML up to 10MB (max 50 files)
           </p>
         </div>
       </div>
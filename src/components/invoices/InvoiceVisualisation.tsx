@@ -0,0 +1,142 @@
+'use client';
+
+import { useState } from 'react';
+
+interface InvoiceVisualisationProps {
+  invoiceId: string;
+  ksefNumber?: string;
+}
+
+export function InvoiceVisualisation({ invoiceId, ksefNumber }: InvoiceVisualisationProps) {
+  const [showEmailForm, setShowEmailForm] = useState(false);
+  const [recipients, setRecipients] = useState('');
+  const [message, setMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const handleSend = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setSuccess(null);
+
+    const to = recipients
+      .split(/[,;\s]+/)
+      .map((address) => address.trim())
+      .filter(Boolean);
+
+    if (to.length === 0) {
+      setError('Enter at least one email address');
+      return;
+    }
+
+    setIsSending(true);
+
+    try {
+      const response = await fetch(`/api/invoices/${invoiceId}/visualisation/email`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ to, message: message || undefined }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        const details: Array<{ message: string }> = data.details ?? [];
+        setError(
+          details.length > 0
+            ? details.map((detail) => detail.message).join(' ')
+            : data.error || 'Failed to send the invoice'
+        );
+        return;
+      }
+
+      setSuccess(`Invoice PDF sent to ${to.join(', ')}`);
+      setShowEmailForm(false);
+      setRecipients('');
+      setMessage('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {ksefNumber
+          ? 'PDF visualisation with the KSeF number and verification QR code.'
+          : 'PDF visualisation of the FA(3) document. The KSeF number and QR code are added once the invoice is accepted.'}
+      </p>
+
+      <div className="flex gap-2">
+        <a
+          href={`/api/invoices/${invoiceId}/visualisation`}
+          className="flex-1 rounded-md bg-blue-600 px-4 py-2 text-center text-white hover:bg-blue-700"
+        >
+          Download PDF
+        </a>
+        <button
+          type="button"
+          onClick={() => {
+            setShowEmailForm(!showEmailForm);
+            setError(null);
+            setSuccess(null);
+          }}
+          className="flex-1 rounded-md border border-gray-300 px-4 py-2 hover:bg-gray-50 dark:hover:bg-gray-900"
+        >
+          Send by email
+        </button>
+      </div>
+
+      {!!showEmailForm && (
+        <form onSubmit={handleSend} className="rounded-lg border border-gray-200 bg-gray-50 dark:bg-gray-900 p-4 space-y-3">
+          <div>
+            <label htmlFor="visualisation-recipients" className="block text-sm font-medium mb-1">
+              Recipients
+            </label>
+            <input
+              id="visualisation-recipients"
+              type="text"
+              value={recipients}
+              onChange={(event) => setRecipients(event.target.value)}
+              placeholder="buyer@example.com"
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="visualisation-message" className="block text-sm font-medium mb-1">
+              Message (optional)
+            </label>
+            <textarea
+              id="visualisation-message"
+              value={message}
+              onChange={(event) => setMessage(event.target.value)}
+              rows={3}
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSending}
+            className="w-full rounded-md bg-blue-600 px-4 py-2 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            {isSending ? 'Sending...' : 'Send PDF'}
+          </button>
+        </form>
+      )}
+
+      {!!error && (
+        <p className="rounded-lg border border-red-200 bg-red-50 dark:bg-red-950 p-3 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </p>
+      )}
+
+      {!!success && (
+        <p className="rounded-lg border border-green-200 bg-green-50 dark:bg-green-950 p-3 text-sm text-green-700 dark:text-green-300">
+          {success}
+        </p>
+      )}
+    </div>
+  );
+}
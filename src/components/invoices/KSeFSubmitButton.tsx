@@ -1,12 +1,66 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import type { FA3ValidationError, KSeFEnvironment } from '@/lib/ksef/types';
 
 interface KSeFSubmitButtonProps {
   invoiceId: string;
   invoiceNumber?: string;
   currentStatus?: string;
   ksefNumber?: string;
+  onValidationErrors?: (errors: FA3ValidationError[]) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  invoiceNumber: 'Invoice number',
+  invoiceDate: 'Invoice date',
+  sellDate: 'Sale date',
+  dueDate: 'Due date',
+  currency: 'Currency',
+  netAmount: 'Net amount',
+  vatAmount: 'VAT amount',
+  grossAmount: 'Gross amount',
+  bankAccount: 'Bank account',
+  annotations: 'Annotations',
+  invoiceType: 'Invoice type',
+  'correction.reason': 'Correction reason',
+  'correction.type': 'Correction type',
+  'correction.correctedInvoice': 'Corrected invoice',
+  'seller.nip': 'Seller NIP',
+  'seller.name': 'Seller name',
+  'seller.address': 'Seller address',
+  'buyer.nip': 'Buyer NIP',
+  'buyer.name': 'Buyer name',
+  'buyer.address': 'Buyer address',
+};
+
+const LINE_ITEM_LABELS: Record<string, string> = {
+  description: 'description',
+  unitOfMeasure: 'unit',
+  quantity: 'quantity',
+  unitPrice: 'unit price',
+  netAmount: 'net amount',
+  grossAmount: 'gross amount',
+  vatRate: 'VAT rate',
+  beforeCorrection: 'before-correction flag',
+};
+
+const ENVIRONMENT_BADGES: Record<KSeFEnvironment, { label: string; className: string }> = {
+  test: { label: 'KSeF Test', className: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300' },
+  demo: { label: 'KSeF Demo', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200' },
+  production: { label: 'KSeF Production', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' },
+};
+
+function fieldLabel(field?: string): string | undefined {
+  if (!field) return undefined;
+
+  const lineItem = field.match(/^lineItems\.(\d+)(?:\.(\w+))?$/);
+  if (lineItem) {
+    const label = `Line item ${Number(lineItem[1]) + 1}`;
+    return lineItem[2] ? `${label} ${LINE_ITEM_LABELS[lineItem[2]] ?? lineItem[2]}` : label;
+  }
+
+  return FIELD_LABELS[field] ?? field;
 }
 
 export function KSeFSubmitButton({
@@ -14,11 +68,22 @@ export function KSeFSubmitButton({
   invoiceNumber,
   currentStatus,
   ksefNumber,
+  onValidationErrors,
 }: KSeFSubmitButtonProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showConfirm, setShowConfirm] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<FA3ValidationError[]>([]);
   const [success, setSuccess] = useState<string | null>(null);
+  const [environment, setEnvironment] = useState<KSeFEnvironment | null>(null);
+
+  // Environment the invoice will be sent to (tenant KSeF settings)
+  useEffect(() => {
+    fetch('/api/tenants/ksef-settings')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setEnvironment(data?.settings?.environment ?? null))
+      .catch(() => setEnvironment(null));
+  }, []);
 
   // Check if invoice can be submitted
   const canSubmit =
@@ -27,6 +92,7 @@ export function KSeFSubmitButton({
   const handleSubmit = async () => {
     setIsSubmitting(true);
     setError(null);
+    setValidationErrors([]);
     setSuccess(null);
 
     try {
@@ -41,12 +107,20 @@ export function KSeFSubmitButton({
       const data = await response.json();
 
       if (response.ok && data.success) {
-        setSuccess(`Invoice submitted successfully! KSeF Number: ${data.ksefNumber}`);
+        setSuccess(
+          data.ksefNumber
+            ? `Invoice submitted successfully! KSeF Number: ${data.ksefNumber}`
+            : `Invoice sent to KSeF (reference ${data.referenceNumber}). The KSeF number will appear once KSeF confirms it.`
+        );
         setShowConfirm(false);
         // Refresh page to show updated status
         setTimeout(() => {
           window.location.reload();
         }, 2000);
+      } else if (data.validationErrors?.length) {
+        setError('The generated FA(3) document does not match the schema. Fix the fields below and try again.');
+        setValidationErrors(data.validationErrors);
+        onValidationErrors?.(data.validationErrors);
       } else {
         setError(data.error || 'Submission failed. Please try again.');
       }
@@ -87,6 +161,19 @@ export function KSeFSubmitButton({
     );
   }
 
+  if (currentStatus === 'SUBMITTED') {
+    return (
+      <div className="rounded-lg border border-blue-200 bg-blue-50 dark:bg-blue-950 p-4">
+        <p className="font-medium text-blue-900 dark:text-blue-100">
+          Awaiting KSeF confirmation
+        </p>
+        <p className="text-sm text-blue-700 dark:text-blue-300">
+          The invoice has been sent and is being processed by KSeF.
+        </p>
+      </div>
+    );
+  }
+
   if (!canSubmit) {
     return (
       <div className="rounded-lg border border-gray-200 bg-gray-50 dark:bg-gray-900 p-4">
@@ -99,6 +186,14 @@ export function KSeFSubmitButton({
 
   return (
     <div className="space-y-4">
+      {!!environment && (
+        <span
+          className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${ENVIRONMENT_BADGES[environment].className}`}
+        >
+          {ENVIRONMENT_BADGES[environment].label}
+        </span>
+      )}
+
       {!showConfirm ? (
         <button
           onClick={() => setShowConfirm(true)}
@@ -118,6 +213,11 @@ export function KSeFSubmitButton({
               <span className="font-mono">{invoiceNumber || invoiceId}</span> to the
               Polish National e-Invoice System (KSeF). This action cannot be undone.
             </p>
+            {environment === 'production' && (
+              <p className="text-sm font-medium text-red-700 dark:text-red-300 mt-2">
+                This tenant uses the KSeF production environment: the invoice will be legally issued.
+              </p>
+            )}
           </div>
 
           <div className="flex gap-2">
@@ -163,6 +263,21 @@ export function KSeFSubmitButton({
                 Submission Failed
               </p>
               <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+              {validationErrors.length > 0 && (
+                <ul className="mt-2 space-y-1 text-sm text-red-700 dark:text-red-300">
+                  {validationErrors.map((validationError, index) => (
+                    <li key={index}>
+                      <span className="font-medium">
+                        {fieldLabel(validationError.field) ?? validationError.path ?? 'Document'}
+                      </span>
+                      {validationError.line !== undefined && (
+                        <span className="text-red-500"> (line {validationError.line})</span>
+                      )}
+                      : {validationError.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
           </div>
         </div>
@@ -16,6 +16,7 @@ import React, { useState, useMemo } from 'react';
 import { Save, Edit2, CheckCircle, AlertCircle } from 'lucide-react';
 import { ConfidenceIndicator } from './ConfidenceIndicator';
 import { submitCorrections, type Correction } from '@/lib/api/ocr-client';
+import { parseVATExemption } from '@/lib/vat-rates';
 import type { ReviewExtractedDataProps, ExtractedData, ValidationState } from './types';
 
 /**
@@ -56,6 +57,7 @@ export function ReviewExtractedData({
   extractedData,
   confidenceScores,
   rawOcrText,
+  appliedRules = [],
   isApproved = false,
   onSave,
   showRawText = true,
@@ -105,6 +107,10 @@ export function ReviewExtractedData({
     addCorrection('buyer.nip', extractedData.buyer.nip, formData.buyer.nip);
     addCorrection('buyer.address', extractedData.buyer.address, formData.buyer.address);
 
+    // VAT annotations
+    addCorrection('vat_exemption', extractedData.vat_exemption?.description, formData.vat_exemption?.description);
+    addCorrection('reverse_charge', Boolean(extractedData.reverse_charge), Boolean(formData.reverse_charge));
+
     return changes;
   }, [extractedData, formData]);
 
@@ -252,6 +258,21 @@ export function ReviewExtractedData({
         </div>
       )}
 
+      {/* Supplier rules learned from earlier reviews */}
+      {appliedRules.length > 0 && (
+        <div className="rounded-lg border border-blue-200 bg-blue-50 p-4">
+          <p className="font-medium text-blue-800">Corrected using rules learned from earlier reviews of this seller</p>
+          <ul className="mt-2 space-y-1 text-sm text-blue-700">
+            {appliedRules.map((rule) => (
+              <li key={rule.field}>
+                <span className="font-mono">{rule.field}</span>: {rule.description}
+                {' '}({String(rule.from ?? '—')} → {String(rule.to)})
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Left Column: Editable Form */}
         <div className="space-y-6">
@@ -657,6 +678,48 @@ export function ReviewExtractedData({
                   <ConfidenceIndicator confidence={getFieldConfidence('currency')} size="sm" />
                 </div>
               </div>
+
+              {/* VAT Exemption Basis (required on invoices with exempt lines) */}
+              <div>
+                <label htmlFor="vat_exemption" className="block text-sm font-medium text-gray-700 mb-1">
+                  VAT Exemption Basis
+                  {correctedFields.has('vat_exemption') && (
+                    <Edit2 className="inline h-3 w-3 ml-1 text-blue-600" />
+                  )}
+                </label>
+                <input
+                  id="vat_exemption"
+                  type="text"
+                  value={formData.vat_exemption?.description ?? ''}
+                  onChange={(e) => {
+                    setCorrectedFields((prev) => new Set(prev).add('vat_exemption'));
+                    const exemption = parseVATExemption(e.target.value);
+                    setFormData((prev) => ({
+                      ...prev,
+                      vat_exemption: exemption && { ...exemption, description: e.target.value },
+                    }));
+                  }}
+                  disabled={isApproved}
+                  placeholder="e.g. art. 43 ust. 1 pkt 37 ustawy o VAT"
+                  className={`w-full rounded-md border px-3 py-2 text-sm ${
+                    isApproved ? 'bg-gray-100 cursor-not-allowed' : 'border-gray-300'
+                  }`}
+                />
+              </div>
+
+              {/* Reverse Charge */}
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={Boolean(formData.reverse_charge)}
+                  onChange={(e) => {
+                    setCorrectedFields((prev) => new Set(prev).add('reverse_charge'));
+                    setFormData((prev) => ({ ...prev, reverse_charge: e.target.checked }));
+                  }}
+                  disabled={isApproved}
+                />
+                Reverse charge (odwrotne obciążenie)
+              </label>
             </div>
           </div>
 
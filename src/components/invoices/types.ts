@@ -13,6 +13,7 @@ import type {
   Currency,
   InvoiceType,
   ProcessingStep,
+  AppliedSupplierRule,
 } from '@/types/ocr';
 
 import type {
@@ -32,6 +33,7 @@ export type {
   Currency,
   InvoiceType,
   ProcessingStep,
+  AppliedSupplierRule,
   OCRStatusResponse,
   Correction,
   ReviewRequest,
@@ -90,6 +92,7 @@ export interface OCRJobResult {
   ocr_confidence_overall: number;
   requires_review: boolean;
   raw_ocr_text: string;
+  applied_rules?: AppliedSupplierRule[];
 }
 
 /**
@@ -111,6 +114,9 @@ export interface ReviewExtractedDataProps {
   /** Raw OCR text for side-by-side comparison */
   rawOcrText: string;
 
+  /** Optional: Supplier rules learned from earlier reviews that changed the extraction */
+  appliedRules?: AppliedSupplierRule[];
+
   /** Whether invoice is already approved (read-only mode) */
   isApproved?: boolean;
 
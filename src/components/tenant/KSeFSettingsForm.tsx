@@ -0,0 +1,357 @@
+"use client";
+
+/* eslint-disable react/jsx-no-leaked-render */
+
+import { useEffect, useState } from "react";
+
+import type { PublicTenantKSeFSettings } from "@/lib/ksef/credentials";
+import type { KSeFAuthMethod, KSeFEnvironment } from "@/lib/ksef/types";
+
+type KSeFSettingsFormProps = {
+  tenantId: string;
+  canEdit: boolean;
+};
+
+type ConnectionTestResult = {
+  success: boolean;
+  environment: KSeFEnvironment;
+  sessionId?: string;
+  error?: string;
+};
+
+const ENVIRONMENT_OPTIONS: Array<{ value: KSeFEnvironment; label: string; description: string }> = [
+  { value: "test", label: "Test", description: "Any NIP, no legal effect" },
+  { value: "demo", label: "Demo", description: "Real credentials, no legal effect" },
+  { value: "production", label: "Production", description: "Invoices enter legal circulation" },
+];
+
+const fileInputClassName =
+  "block w-full text-sm text-slate-600 file:mr-4 file:rounded-lg file:border-0 file:bg-slate-100 file:px-4 file:py-2 file:text-sm file:font-semibold file:text-slate-700 hover:file:bg-slate-200";
+
+const inputClassName =
+  "h-11 w-full rounded-xl border border-slate-200 px-4 text-sm outline-none transition focus:border-brand-500 focus:ring-2 focus:ring-brand-100 disabled:bg-slate-50";
+
+// Certificates are uploaded with the settings and stored encrypted, never as server paths
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ""));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export function KSeFSettingsForm({ tenantId, canEdit }: KSeFSettingsFormProps) {
+  const [settings, setSettings] = useState<PublicTenantKSeFSettings | null>(null);
+  const [environment, setEnvironment] = useState<KSeFEnvironment>("test");
+  const [nip, setNip] = useState("");
+  const [authMethod, setAuthMethod] = useState<KSeFAuthMethod>("token");
+  const [token, setToken] = useState("");
+  const [certificate, setCertificate] = useState<File | null>(null);
+  const [certificatePassword, setCertificatePassword] = useState("");
+  const [offlineCertificate, setOfflineCertificate] = useState<File | null>(null);
+  // Remounts the file inputs so chosen files are cleared once saved
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const [offlineCertificatePassword, setOfflineCertificatePassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<ConnectionTestResult | null>(null);
+
+  function applySettings(next: PublicTenantKSeFSettings) {
+    setSettings(next);
+    setEnvironment(next.environment);
+    setNip(next.nip ?? "");
+    setAuthMethod(next.authMethod ?? "token");
+    // Secrets are never sent back; empty fields keep the stored values
+    setCertificate(null);
+    setOfflineCertificate(null);
+    setFileInputKey((key) => key + 1);
+    setToken("");
+    setCertificatePassword("");
+    setOfflineCertificatePassword("");
+  }
+
+  useEffect(() => {
+    let cancelled = false;
+    setSettings(null);
+    setTestResult(null);
+    setError(null);
+
+    fetch("/api/tenants/ksef-settings")
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Unable to load KSeF settings.");
+        }
+        if (!cancelled) {
+          applySettings(data.settings);
+        }
+      })
+      .catch((error_) => {
+        if (!cancelled) {
+          setError(error_ instanceof Error ? error_.message : "Unable to load KSeF settings.");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tenantId]);
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    setSaved(false);
+    setTestResult(null);
+
+    try {
+      setIsSaving(true);
+      const response = await fetch("/api/tenants/ksef-settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          environment,
+          nip,
+          authMethod,
+          token: token || undefined,
+          certificate: certificate ? await readFileAsBase64(certificate) : undefined,
+          certificatePassword: certificatePassword || undefined,
+          offlineCertificate: offlineCertificate ? await readFileAsBase64(offlineCertificate) : undefined,
+          offlineCertificatePassword: offlineCertificatePassword || undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        const details: Array<{ message: string }> = data.details ?? [];
+        setError(details.length > 0 ? details.map((detail) => detail.message).join(" ") : data.error);
+        return;
+      }
+
+      applySettings(data.settings);
+      setSaved(true);
+    } catch {
+      setError("Network error. Please check your connection and try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleTestConnection() {
+    setError(null);
+    setTestResult(null);
+
+    try {
+      setIsTesting(true);
+      const response = await fetch("/api/tenants/ksef-settings/test", { method: "POST" });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Connection test failed.");
+        return;
+      }
+
+      setTestResult(data);
+    } catch {
+      setError("Network error. Please check your connection and try again.");
+    } finally {
+      setIsTesting(false);
+    }
+  }
+
+  if (!settings) {
+    return (
+      <p className="text-sm text-slate-500">{error ?? "Loading KSeF settings..."}</p>
+    );
+  }
+
+  const disabled = !canEdit || isSaving;
+
+  return (
+    <form className="space-y-6" onSubmit={handleSubmit}>
+      <fieldset disabled={disabled} className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="ksef-environment" className="mb-2 block text-sm font-semibold text-slate-700">
+            Environment
+          </label>
+          <select
+            id="ksef-environment"
+            className={inputClassName}
+            value={environment}
+            onChange={(event) => setEnvironment(event.target.value as KSeFEnvironment)}
+          >
+            {ENVIRONMENT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label} - {option.description}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="ksef-nip" className="mb-2 block text-sm font-semibold text-slate-700">
+            Seller NIP
+          </label>
+          <input
+            id="ksef-nip"
+            className={inputClassName}
+            placeholder="5260250274"
+            value={nip}
+            onChange={(event) => setNip(event.target.value)}
+            required
+          />
+        </div>
+        <div>
+          <label htmlFor="ksef-auth-method" className="mb-2 block text-sm font-semibold text-slate-700">
+            Authentication
+          </label>
+          <select
+            id="ksef-auth-method"
+            className={inputClassName}
+            value={authMethod}
+            onChange={(event) => setAuthMethod(event.target.value as KSeFAuthMethod)}
+          >
+            <option value="token">KSeF token</option>
+            <option value="certificate">Qualified seal / signature certificate</option>
+          </select>
+        </div>
+
+        {authMethod === "token" ? (
+          <div>
+            <label htmlFor="ksef-token" className="mb-2 block text-sm font-semibold text-slate-700">
+              KSeF token
+            </label>
+            <input
+              id="ksef-token"
+              type="password"
+              autoComplete="off"
+              className={inputClassName}
+              placeholder={settings.hasToken ? "Stored - leave empty to keep" : "Token from the KSeF portal"}
+              value={token}
+              onChange={(event) => setToken(event.target.value)}
+            />
+          </div>
+        ) : (
+          <>
+            <div>
+              <label htmlFor="ksef-certificate" className="mb-2 block text-sm font-semibold text-slate-700">
+                Certificate (.p12 / .pfx)
+              </label>
+              <input
+                key={`certificate-${fileInputKey}`}
+                id="ksef-certificate"
+                type="file"
+                accept=".p12,.pfx"
+                className={fileInputClassName}
+                onChange={(event) => setCertificate(event.target.files?.[0] ?? null)}
+              />
+              {settings.hasCertificate ? (
+                <p className="mt-1 text-xs text-slate-500">Stored - choose a file to replace it</p>
+              ) : null}
+            </div>
+            <div>
+              <label htmlFor="ksef-certificate-password" className="mb-2 block text-sm font-semibold text-slate-700">
+                Certificate password
+              </label>
+              <input
+                id="ksef-certificate-password"
+                type="password"
+                autoComplete="off"
+                className={inputClassName}
+                placeholder={settings.hasCertificatePassword ? "Stored - leave empty to keep" : ""}
+                value={certificatePassword}
+                onChange={(event) => setCertificatePassword(event.target.value)}
+              />
+            </div>
+          </>
+        )}
+
+        <div>
+          <label htmlFor="ksef-offline-certificate" className="mb-2 block text-sm font-semibold text-slate-700">
+            Offline certificate (KOD II, optional)
+          </label>
+          <input
+            key={`offline-certificate-${fileInputKey}`}
+            id="ksef-offline-certificate"
+            type="file"
+            accept=".p12,.pfx"
+            className={fileInputClassName}
+            onChange={(event) => setOfflineCertificate(event.target.files?.[0] ?? null)}
+          />
+          {settings.hasOfflineCertificate ? (
+            <p className="mt-1 text-xs text-slate-500">Stored - choose a file to replace it</p>
+          ) : null}
+        </div>
+        <div>
+          <label htmlFor="ksef-offline-certificate-password" className="mb-2 block text-sm font-semibold text-slate-700">
+            Offline certificate password
+          </label>
+          <input
+            id="ksef-offline-certificate-password"
+            type="password"
+            autoComplete="off"
+            className={inputClassName}
+            placeholder={settings.hasOfflineCertificatePassword ? "Stored - leave empty to keep" : ""}
+            value={offlineCertificatePassword}
+            onChange={(event) => setOfflineCertificatePassword(event.target.value)}
+          />
+        </div>
+      </fieldset>
+
+      {environment === "production" ? (
+        <p className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+          Invoices submitted in the production environment are legally binding.
+        </p>
+      ) : null}
+
+      {error ? (
+        <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-600">{error}</p>
+      ) : null}
+
+      {saved ? (
+        <p className="rounded-lg border border-green-200 bg-green-50 px-3 py-2 text-sm text-green-700">
+          KSeF settings saved.
+        </p>
+      ) : null}
+
+      {testResult ? (
+        <p
+          className={
+            testResult.success
+              ? "rounded-lg border border-green-200 bg-green-50 px-3 py-2 text-sm text-green-700"
+              : "rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-600"
+          }
+        >
+          {testResult.success
+            ? `Connected to KSeF (${testResult.environment}). Session ${testResult.sessionId} opened and terminated.`
+            : `Connection to KSeF (${testResult.environment}) failed: ${testResult.error}`}
+        </p>
+      ) : null}
+
+      {canEdit ? (
+        <div className="flex flex-col gap-3 sm:flex-row">
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="rounded-xl bg-brand-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-600 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {isSaving ? "Saving..." : "Save KSeF settings"}
+          </button>
+          <button
+            type="button"
+            disabled={isTesting || isSaving || !settings.nip}
+            className="rounded-xl border border-slate-300 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-brand-300 hover:text-brand-600 disabled:cursor-not-allowed disabled:opacity-60"
+            onClick={handleTestConnection}
+          >
+            {isTesting ? "Testing..." : "Test connection"}
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500">Only tenant owners can change KSeF settings.</p>
+      )}
+    </form>
+  );
+}
+
+/* eslint-enable react/jsx-no-leaked-render */
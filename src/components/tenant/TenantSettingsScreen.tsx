@@ -8,6 +8,7 @@ import type { TenantRecord } from "@/lib/supabase";
 
 import { useTenant } from "./TenantProvider";
 import { CreateTenantForm } from "./CreateTenantForm";
+import { KSeFSettingsForm } from "./KSeFSettingsForm";
 
 export function TenantSettingsScreen() {
   const { tenants, activeTenant, refresh } = useTenant();
@@ -65,6 +66,20 @@ export function TenantSettingsScreen() {
         </dl>
       </section>
 
+      {activeTenant ? (
+        <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-card">
+          <div className="mb-6">
+            <h2 className="text-lg font-semibold text-slate-900">KSeF integration</h2>
+            <p className="text-sm text-slate-600">
+              Environment, seller NIP and credentials used to send and receive e-invoices for this
+              tenant. Tokens and passwords are stored encrypted; the connection test uses the saved
+              settings.
+            </p>
+          </div>
+          <KSeFSettingsForm tenantId={activeTenant.id} canEdit={activeTenant.role === "OWNER"} />
+        </section>
+      ) : null}
+
       <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-card">
         <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
           <div>
@@ -9,11 +9,14 @@
 
 import { useState, useCallback } from 'react';
 import { createWorker } from 'tesseract.js';
+import { convertPdfToImages } from '@/lib/pdf/convert-to-image';
+import { formatPageMarker } from '@/lib/ocr/pages';
 
 export interface OCRResult {
   text: string;
   confidence: number;
   processingTime: number;
+  pages: Array<{ page: number; confidence: number }>;
 }
 
 export interface UseClientOCRReturn {
@@ -52,8 +55,20 @@ export function useClientOCR(): UseClientOCRReturn {
 
       console.log('[Client OCR] Worker created, starting recognition...');
 
-      // Process the image
-      const result = await worker.recognize(file);
+      // PDFs are recognised page by page
+      const images = file.type === 'application/pdf' ? await convertPdfToImages(file) : [file];
+      const pageTexts: string[] = [];
+      const pages: OCRResult['pages'] = [];
+
+      for (const [index, image] of images.entries()) {
+        const result = await worker.recognize(image);
+        pageTexts.push(
+          images.length === 1
+            ? result.data.text
+            : `${formatPageMarker(index + 1, images.length)}\n${result.data.text.trim()}`
+        );
+        pages.push({ page: index + 1, confidence: result.data.confidence });
+      }
 
       console.log('[Client OCR] Recognition complete!');
 
@@ -63,9 +78,10 @@ export function useClientOCR(): UseClientOCRReturn {
       const processingTime = Date.now() - startTime;
 
       const ocrResult: OCRResult = {
-        text: result.data.text,
-        confidence: result.data.confidence,
+        text: pageTexts.join('\n\n'),
+        confidence: pages.reduce((sum, page) => sum + page.confidence, 0) / pages.length,
         processingTime,
+        pages,
       };
 
       console.log(`[Client OCR] Processed in ${processingTime}ms with ${ocrResult.confidence.toFixed(1)}% confidence`);
@@ -0,0 +1,242 @@
+/**
+ * Arithmetic Cross-Validation of Extracted Amounts
+ *
+ * Checks that the amounts of an extracted invoice add up: quantity × unit price
+ * = net and net × VAT rate = VAT on every line, the lines of each VAT rate
+ * against the VAT due on their sum, the lines against the invoice totals, and
+ * net + VAT = gross. Each mismatch names the fields it casts doubt on, so their
+ * confidence can be lowered; an invoice whose totals don't balance always goes
+ * to manual review.
+ */
+
+import { formatVATRateCode, vatRatePercent } from '@/lib/vat-rates';
+import type { ConfidenceScores, ExtractedData, LineItem } from '@/types/ocr';
+
+export type ArithmeticWarningCode =
+  | 'LINE_NET_MISMATCH'
+  | 'LINE_VAT_MISMATCH'
+  | 'LINE_GROSS_MISMATCH'
+  | 'RATE_VAT_MISMATCH'
+  | 'LINES_NET_TOTAL_MISMATCH'
+  | 'LINES_VAT_TOTAL_MISMATCH'
+  | 'LINES_GROSS_TOTAL_MISMATCH'
+  | 'TOTALS_MISMATCH';
+
+export type ArithmeticWarning = {
+  code: ArithmeticWarningCode;
+  /** fields whose confidence the mismatch lowers */
+  fields: Array<keyof ConfidenceScores>;
+  message: string;
+  expected: number;
+  actual: number;
+  /** 1-based line number for line checks */
+  line?: number;
+  /** VAT rate for the per-rate check */
+  vat_rate?: LineItem['vat_rate'];
+};
+
+export type ArithmeticValidationResult = {
+  /** false when the totals don't add up; the invoice then needs review */
+  balanced: boolean;
+  warnings: ArithmeticWarning[];
+};
+
+type AmountData = Pick<ExtractedData, 'net_amount' | 'vat_amount' | 'gross_amount' | 'line_items'>;
+
+/** One grosz of rounding per amount */
+const ROUNDING_TOLERANCE = 0.01;
+
+/** Confidence left to a field whose amounts don't add up */
+const MISMATCH_CONFIDENCE = 40;
+
+/** Mismatches that mean the invoice as a whole doesn't balance */
+const UNBALANCED_CODES: ArithmeticWarningCode[] = [
+  'LINES_NET_TOTAL_MISMATCH',
+  'LINES_VAT_TOTAL_MISMATCH',
+  'LINES_GROSS_TOTAL_MISMATCH',
+  'TOTALS_MISMATCH',
+];
+
+/**
+ * Cross-check the amounts of extracted invoice data
+ *
+ * Line checks are skipped for invoices without line items, and the quantity ×
+ * price check for lines without a unit price.
+ */
+export function validateInvoiceArithmetic(data: AmountData): ArithmeticValidationResult {
+  const warnings: ArithmeticWarning[] = [];
+  const lines = data.line_items ?? [];
+
+  lines.forEach((item, index) => {
+    warnings.push(...checkLine(item, index + 1));
+  });
+
+  if (lines.length > 0) {
+    warnings.push(...checkRates(lines), ...checkLineTotals(data, lines));
+  }
+
+  const gross = round(data.net_amount + data.vat_amount);
+  if (!matches(gross, data.gross_amount)) {
+    warnings.push({
+      code: 'TOTALS_MISMATCH',
+      fields: ['net_amount', 'vat_amount', 'gross_amount'],
+      message: `Net (${data.net_amount}) + VAT (${data.vat_amount}) != gross (${data.gross_amount})`,
+      expected: gross,
+      actual: data.gross_amount,
+    });
+  }
+
+  return {
+    balanced: !warnings.some(isUnbalanced),
+    warnings,
+  };
+}
+
+/**
+ * Whether a warning means the invoice totals don't add up, rather than a single
+ * line or rate
+ */
+export function isUnbalanced(warning: ArithmeticWarning): boolean {
+  return UNBALANCED_CODES.includes(warning.code);
+}
+
+/**
+ * Lower the confidence of every field named by a warning
+ */
+export function applyArithmeticWarnings(
+  scores: ConfidenceScores,
+  warnings: ArithmeticWarning[]
+): ConfidenceScores {
+  const adjusted = { ...scores };
+  for (const field of new Set(warnings.flatMap((warning) => warning.fields))) {
+    adjusted[field] = Math.min(adjusted[field], MISMATCH_CONFIDENCE);
+  }
+  return adjusted;
+}
+
+function checkLine(item: LineItem, line: number): ArithmeticWarning[] {
+  const warnings: ArithmeticWarning[] = [];
+
+  // The unit price is rounded to the grosz, so the product may drift by half a grosz per unit
+  const net = round(item.quantity * item.unit_price);
+  const netTolerance = Math.max(ROUNDING_TOLERANCE, Math.abs(item.quantity) * 0.005);
+  if (item.unit_price !== 0 && !matches(net, item.net, netTolerance)) {
+    warnings.push({
+      code: 'LINE_NET_MISMATCH',
+      fields: ['line_items'],
+      message: `Line ${line}: quantity (${item.quantity}) × unit price (${item.unit_price}) != net (${item.net})`,
+      expected: net,
+      actual: item.net,
+      line,
+    });
+  }
+
+  // 0 WDT, 0 EX, zw, np and oo lines carry no VAT
+  const vat = round((item.net * vatRatePercent(item.vat_rate)) / 100);
+  if (!matches(vat, item.vat)) {
+    warnings.push({
+      code: 'LINE_VAT_MISMATCH',
+      fields: ['line_items'],
+      message: `Line ${line}: net (${item.net}) at ${formatVATRateCode(item.vat_rate)} != VAT (${item.vat})`,
+      expected: vat,
+      actual: item.vat,
+      line,
+    });
+  }
+
+  const gross = round(item.net + item.vat);
+  if (!matches(gross, item.gross)) {
+    warnings.push({
+      code: 'LINE_GROSS_MISMATCH',
+      fields: ['line_items'],
+      message: `Line ${line}: net (${item.net}) + VAT (${item.vat}) != gross (${item.gross})`,
+      expected: gross,
+      actual: item.gross,
+      line,
+    });
+  }
+
+  return warnings;
+}
+
+/**
+ * VAT may be worked out per line or on the sum of each rate; either way the
+ * line VATs of a rate stay within a grosz per line of the VAT on their sum.
+ */
+function checkRates(lines: LineItem[]): ArithmeticWarning[] {
+  const warnings: ArithmeticWarning[] = [];
+
+  for (const rate of new Set(lines.map((item) => item.vat_rate))) {
+    const rateLines = lines.filter((item) => item.vat_rate === rate);
+    const net = sum(rateLines.map((item) => item.net));
+    const vat = sum(rateLines.map((item) => item.vat));
+    const expected = round((net * vatRatePercent(rate)) / 100);
+
+    if (!matches(expected, vat, ROUNDING_TOLERANCE * rateLines.length)) {
+      warnings.push({
+        code: 'RATE_VAT_MISMATCH',
+        fields: ['line_items', 'vat_amount'],
+        message: `VAT of the ${formatVATRateCode(rate)} lines (${vat}) != VAT on their net sum (${expected})`,
+        expected,
+        actual: vat,
+        vat_rate: rate,
+      });
+    }
+  }
+
+  return warnings;
+}
+
+function checkLineTotals(data: AmountData, lines: LineItem[]): ArithmeticWarning[] {
+  const warnings: ArithmeticWarning[] = [];
+  const tolerance = ROUNDING_TOLERANCE * lines.length;
+
+  const net = sum(lines.map((item) => item.net));
+  if (!matches(net, data.net_amount)) {
+    warnings.push({
+      code: 'LINES_NET_TOTAL_MISMATCH',
+      fields: ['line_items', 'net_amount'],
+      message: `Net of the lines (${net}) != invoice net (${data.net_amount})`,
+      expected: net,
+      actual: data.net_amount,
+    });
+  }
+
+  // With VAT worked out per rate the invoice VAT may differ from the sum of the line VATs
+  const vat = sum(lines.map((item) => item.vat));
+  if (!matches(vat, data.vat_amount, tolerance)) {
+    warnings.push({
+      code: 'LINES_VAT_TOTAL_MISMATCH',
+      fields: ['line_items', 'vat_amount'],
+      message: `VAT of the lines (${vat}) != invoice VAT (${data.vat_amount})`,
+      expected: vat,
+      actual: data.vat_amount,
+    });
+  }
+
+  const gross = sum(lines.map((item) => item.gross));
+  if (!matches(gross, data.gross_amount, tolerance)) {
+    warnings.push({
+      code: 'LINES_GROSS_TOTAL_MISMATCH',
+      fields: ['line_items', 'gross_amount'],
+      message: `Gross of the lines (${gross}) != invoice gross (${data.gross_amount})`,
+      expected: gross,
+      actual: data.gross_amount,
+    });
+  }
+
+  return warnings;
+}
+
+function matches(expected: number, actual: number, tolerance = ROUNDING_TOLERANCE): boolean {
+  // Compare in grosze so that floating-point noise doesn't count against the tolerance
+  return Math.abs(Math.round(expected * 100) - Math.round(actual * 100)) <= Math.round(tolerance * 100);
+}
+
+function sum(values: number[]): number {
+  return round(values.reduce((total, value) => total + value, 0));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
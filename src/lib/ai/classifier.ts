@@ -1,5 +1,7 @@
 ﻿import type { InvoiceExtraction } from './extractor'
-import { getOpenAIClient } from './client'
+import { getLlmProvider, type LlmProvider } from './providers'
+import { normalizeExtractedData } from './schemas/extracted-data'
+import type { ExtractedData } from '@/types/ocr'
 
 export type InvoiceClassification = {
   type: 'INCOMING' | 'OUTGOING' | 'UNKNOWN'
@@ -31,26 +33,31 @@ Respond with a valid JSON object matching this schema:
  * Classifies an invoice as INCOMING or OUTGOING based on extracted data and tenant information.
  * It first attempts a reliable heuristic based on NIP matching. If that fails, it falls back to an AI model.
  *
- * @param extractedData The structured data extracted from the invoice.
+ * @param extractedData The structured data extracted from the invoice, in any stored version.
  * @param tenantNip The NIP (tax ID) of the tenant's own company.
  * @param ocrText The raw OCR text, used as a fallback for the AI model.
+ * @param provider The tenant's LLM provider, defaults to LLM_PROVIDER.
  * @returns A promise that resolves to the classification result.
  */
 export async function classifyInvoiceType(
-  extractedData: InvoiceExtraction,
+  extractedData: InvoiceExtraction | ExtractedData,
   tenantNip: string,
   ocrText?: string,
+  provider: LlmProvider = getLlmProvider(),
 ): Promise<InvoiceClassification> {
+  const data = normalizeExtractedData(extractedData)
+  const nip = tenantNip.replace(/^PL/i, '').replace(/\D/g, '')
+
   // 1. Heuristic-based classification (most reliable)
-  if (tenantNip) {
-    if (extractedData.supplier?.vatId === tenantNip) {
+  if (nip && data) {
+    if (data.seller.nip === nip) {
       return {
         type: 'OUTGOING',
         confidence: 1.0,
         rationale: 'Classified as OUTGOING based on matching supplier NIP.',
       }
     }
-    if (extractedData.buyer?.vatId === tenantNip) {
+    if (data.buyer.nip === nip) {
       return {
         type: 'INCOMING',
         confidence: 1.0,
@@ -62,17 +69,18 @@ export async function classifyInvoiceType(
   // 2. AI-based classification (fallback)
   console.log('Heuristic classification failed, falling back to AI model...')
 
-  const textToAnalyze = ocrText || extractedData.rawText || JSON.stringify({
-    supplier: extractedData.supplier,
-    buyer: extractedData.buyer,
-    header: extractedData.header,
+  const rawText = 'rawText' in extractedData ? extractedData.rawText : undefined
+  const textToAnalyze = ocrText || rawText || JSON.stringify({
+    seller: data?.seller,
+    buyer: data?.buyer,
+    invoice_number: data?.invoice_number,
+    issue_date: data?.issue_date,
   });
 
   try {
-    const openai = getOpenAIClient();
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      response_format: { type: 'json_object' },
+    const response = await provider.chat({
+      task: 'classification',
+      json: true,
       messages: [
         { role: 'system', content: classificationSystemPrompt },
         {
@@ -83,7 +91,7 @@ export async function classifyInvoiceType(
       temperature: 0.1,
     })
 
-    const content = response.choices[0]?.message?.content
+    const content = response.content
     if (!content) {
       throw new Error('AI model returned an empty response for classification.')
     }
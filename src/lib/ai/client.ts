@@ -1,18 +0,0 @@
-import OpenAI from 'openai';
-
-let cachedClient: OpenAI | null = null;
-
-export function getOpenAIClient() {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY is not set. Update your environment or .env.local file.');
-  }
-
-  if (!cachedClient) {
-    cachedClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-
-  return cachedClient;
-}
-
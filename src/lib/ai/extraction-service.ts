@@ -1,16 +1,19 @@
 /**
  * AI-Powered Invoice Data Extraction Service
  *
- * Uses OpenAI GPT-4 to extract structured data from raw OCR text.
+ * Reads the invoice with local rules first (see rule-extraction.ts) and uses
+ * the tenant's LLM (see providers/) only for the fields the rules are unsure about.
  * Includes retry logic, confidence scoring, and validation.
  *
  * @see specs/002-ocr-pipeline/contracts/job-status.yaml
  */
 
-import { getOpenAIClient, AI_CONFIG } from './openai-client';
+import { AI_CONFIG } from './openai-client';
+import { getLlmProvider, type LlmProvider } from './providers';
 import {
   INVOICE_EXTRACTION_SYSTEM_PROMPT,
   generateExtractionPrompt,
+  type ExtractionPromptOptions,
 } from './prompts/invoice-extraction';
 import {
   AIExtractionResponseSchema,
@@ -18,28 +21,178 @@ import {
   type ExtractedData,
   type ConfidenceScores,
 } from './schemas/invoice-schema';
+import { extractInvoiceDataWithRules, type RuleExtractionResult } from './rule-extraction';
+import { isUnbalanced, validateInvoiceArithmetic, type ArithmeticWarning } from './arithmetic-validation';
 import type { AIExtractionResult } from '@/types/ocr';
+import type { LineItemCandidate } from '@/lib/ocr/layout/table';
 
 /**
- * Extract structured invoice data from OCR text using GPT-4
+ * hybrid: rules first, the LLM for low-confidence fields (default)
+ * rules: never call an LLM (air-gapped installs without a local model)
+ * ai: the LLM for every field
+ */
+export type ExtractionMode = 'hybrid' | 'rules' | 'ai';
+
+export type ExtractionOptions = {
+  /** line items reconstructed from the OCR word layout, for the model to verify */
+  lineItemCandidates?: LineItemCandidate[];
+  /** notes learned from reviewer corrections of the seller's invoices (see supplier-rules) */
+  hints?: string[];
+  /** defaults to EXTRACTION_MODE */
+  mode?: ExtractionMode;
+  /** defaults to LLM_PROVIDER (see getLlmProvider) */
+  provider?: LlmProvider;
+};
+
+type ExtractionField = keyof ConfidenceScores;
+
+const EXTRACTION_FIELDS: ExtractionField[] = [
+  'invoice_number',
+  'issue_date',
+  'due_date',
+  'seller_name',
+  'seller_nip',
+  'buyer_name',
+  'buyer_nip',
+  'net_amount',
+  'vat_amount',
+  'gross_amount',
+  'line_items',
+];
+
+const NO_TOKENS = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+/**
+ * Extraction mode from EXTRACTION_MODE (hybrid unless set to rules or ai)
+ */
+export function getExtractionMode(): ExtractionMode {
+  const mode = process.env.EXTRACTION_MODE?.trim().toLowerCase();
+  return mode === 'rules' || mode === 'ai' ? mode : 'hybrid';
+}
+
+/**
+ * Fields whose rule-based confidence is below EXTRACTION_RULES_MIN_CONFIDENCE (default 85)
+ */
+export function getEscalatedFields(scores: ConfidenceScores): ExtractionField[] {
+  const threshold = parseInt(process.env.EXTRACTION_RULES_MIN_CONFIDENCE || '85');
+  return EXTRACTION_FIELDS.filter((field) => scores[field] < threshold);
+}
+
+/**
+ * Extract structured invoice data from OCR text
+ *
+ * Runs the rule-based extractor and returns its result when every field is
+ * confident enough. Otherwise the LLM reads the invoice and its values are used
+ * for the uncertain fields only. When the provider is not configured the rule
+ * result is returned as is, leaving the uncertain fields for manual review.
  *
  * @param ocrText - Raw text from Tesseract.js OCR
+ * @param options - Line-item candidates from the table layout, seller hints, the extraction mode and the LLM provider
  * @returns Extracted data with confidence scores and token usage
  */
 export async function extractInvoiceData(
-  ocrText: string
+  ocrText: string,
+  options: ExtractionOptions = {}
+): Promise<AIExtractionResult> {
+  const mode = options.mode ?? getExtractionMode();
+  const provider = options.provider ?? getLlmProvider();
+  if (mode === 'ai') {
+    return { ...(await extractInvoiceDataWithAI(ocrText, { ...options, provider })), source: 'ai' };
+  }
+
+  const rules = extractInvoiceDataWithRules(ocrText, options);
+  const escalated = getEscalatedFields(rules.confidence_scores);
+
+  if (mode === 'rules' || escalated.length === 0 || !provider.isAvailable()) {
+    console.log(
+      `[AI Extraction] Rule-based extraction${escalated.length > 0 ? ` (uncertain: ${escalated.join(', ')})` : ''}`
+    );
+    return { ...rules, token_usage: NO_TOKENS, source: 'rules', escalated_fields: escalated };
+  }
+
+  const ai = await extractInvoiceDataWithAI(ocrText, {
+    ...options,
+    provider,
+    verifiedFields: rules.extracted_data,
+    escalatedFields: escalated,
+  });
+
+  return {
+    ...mergeRuleAndAIExtraction(rules, ai, escalated),
+    token_usage: ai.token_usage,
+    llm_model: ai.llm_model,
+    source: 'hybrid',
+    escalated_fields: escalated,
+  };
+}
+
+/**
+ * Combine the confident rule-based fields with GPT-4's values for the escalated ones
+ */
+export function mergeRuleAndAIExtraction(
+  rules: RuleExtractionResult,
+  ai: Pick<AIExtractionResult, 'extracted_data' | 'confidence_scores'>,
+  escalated: ExtractionField[]
+): RuleExtractionResult {
+  const data: RuleExtractionResult['extracted_data'] = {
+    ...ai.extracted_data,
+    seller: { ...ai.extracted_data.seller },
+    buyer: { ...ai.extracted_data.buyer },
+    bank_account: rules.extracted_data.bank_account ?? ai.extracted_data.bank_account ?? null,
+    vat_exemption: rules.extracted_data.vat_exemption ?? ai.extracted_data.vat_exemption ?? null,
+    reverse_charge: Boolean(rules.extracted_data.reverse_charge || ai.extracted_data.reverse_charge),
+  };
+  const scores = { ...ai.confidence_scores };
+
+  for (const field of EXTRACTION_FIELDS) {
+    if (escalated.includes(field)) {
+      continue;
+    }
+    scores[field] = rules.confidence_scores[field];
+
+    const from = rules.extracted_data;
+    switch (field) {
+      case 'seller_name':
+      case 'buyer_name': {
+        const party = field === 'seller_name' ? 'seller' : 'buyer';
+        data[party].name = from[party].name;
+        data[party].address = from[party].address ?? data[party].address;
+        break;
+      }
+      case 'seller_nip':
+        data.seller.nip = from.seller.nip;
+        break;
+      case 'buyer_nip':
+        data.buyer.nip = from.buyer.nip;
+        break;
+      default:
+        Object.assign(data, { [field]: from[field] });
+    }
+  }
+
+  return { extracted_data: data, confidence_scores: scores };
+}
+
+/**
+ * Extract structured invoice data from OCR text using an LLM
+ *
+ * @param ocrText - Raw text from Tesseract.js OCR
+ * @param options - Line-item candidates, rule-based fields to keep or re-check, and the LLM provider
+ * @returns Extracted data with confidence scores and token usage
+ */
+export async function extractInvoiceDataWithAI(
+  ocrText: string,
+  options: ExtractionPromptOptions & { provider?: LlmProvider } = {}
 ): Promise<AIExtractionResult> {
   const startTime = Date.now();
+  const provider = options.provider ?? getLlmProvider();
 
   try {
-    console.log('[AI Extraction] Starting GPT-4 extraction...');
-
-    // Get OpenAI client (lazy initialization)
-    const openai = getOpenAIClient();
+    console.log(`[AI Extraction] Starting ${provider.name} extraction...`);
 
-    // Call OpenAI GPT-4 with JSON mode
-    const completion = await openai.chat.completions.create({
-      model: AI_CONFIG.model,
+    // JSON mode
+    const completion = await provider.chat({
+      task: 'extraction',
       messages: [
         {
           role: 'system',
@@ -47,17 +200,17 @@ export async function extractInvoiceData(
         },
         {
           role: 'user',
-          content: generateExtractionPrompt(ocrText),
+          content: generateExtractionPrompt(ocrText, options),
         },
       ],
       temperature: AI_CONFIG.temperature,
-      max_tokens: AI_CONFIG.maxTokens,
-      response_format: { type: 'json_object' }, // Enable JSON mode
+      maxTokens: AI_CONFIG.maxTokens,
+      json: true,
     });
 
-    const responseText = completion.choices[0]?.message?.content;
+    const responseText = completion.content;
     if (!responseText) {
-      throw new Error('No response from GPT-4');
+      throw new Error(`No response from ${provider.name} (${completion.model})`);
     }
 
     // Parse and validate JSON response
@@ -65,20 +218,17 @@ export async function extractInvoiceData(
     const validated = AIExtractionResponseSchema.parse(parsed);
 
     const duration = Date.now() - startTime;
-    const tokenUsage = {
-      prompt_tokens: completion.usage?.prompt_tokens || 0,
-      completion_tokens: completion.usage?.completion_tokens || 0,
-      total_tokens: completion.usage?.total_tokens || 0,
-    };
+    const tokenUsage = completion.usage;
 
     console.log(
-      `[AI Extraction] Completed in ${duration}ms (${tokenUsage.total_tokens} tokens, ~$${((tokenUsage.total_tokens / 1000) * 0.01).toFixed(4)})`
+      `[AI Extraction] Completed in ${duration}ms with ${completion.provider}:${completion.model} (${tokenUsage.total_tokens} tokens)`
     );
 
     return {
       extracted_data: validated.extracted_data,
       confidence_scores: validated.confidence,
       token_usage: tokenUsage,
+      llm_model: `${completion.provider}:${completion.model}`,
     };
   } catch (error) {
     console.error('[AI Extraction] Failed:', error);
@@ -148,12 +298,17 @@ export function requiresReview(
 /**
  * Validate extracted data for basic consistency
  *
+ * Amounts are cross-checked by validateInvoiceArithmetic(); mismatches are
+ * returned as warnings, and those that leave the invoice unbalanced also as errors.
+ *
  * @param data - Extracted invoice data
- * @returns True if data passes validation
+ * @returns Whether data passes validation, with the arithmetic warnings
  */
 export function validateExtractedData(data: ExtractedData): {
   valid: boolean;
   errors: string[];
+  warnings: ArithmeticWarning[];
+  balanced: boolean;
 } {
   const errors: string[] = [];
 
@@ -175,14 +330,9 @@ export function validateExtractedData(data: ExtractedData): {
     errors.push(`Buyer NIP invalid: ${data.buyer.nip}`);
   }
 
-  // Check amount consistency (gross = net + vat, with 1 PLN tolerance for rounding)
-  const calculatedGross = data.net_amount + data.vat_amount;
-  const difference = Math.abs(calculatedGross - data.gross_amount);
-  if (difference > 1) {
-    errors.push(
-      `Amount mismatch: net (${data.net_amount}) + VAT (${data.vat_amount}) != gross (${data.gross_amount})`
-    );
-  }
+  // Check that lines, rates and totals add up
+  const { balanced, warnings } = validateInvoiceArithmetic(data);
+  errors.push(...warnings.filter(isUnbalanced).map((warning) => warning.message));
 
   // Check amounts are positive
   if (data.net_amount < 0 || data.vat_amount < 0 || data.gross_amount < 0) {
@@ -192,5 +342,7 @@ export function validateExtractedData(data: ExtractedData): {
   return {
     valid: errors.length === 0,
     errors,
+    warnings,
+    balanced,
   };
 }
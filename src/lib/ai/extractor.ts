@@ -1,6 +1,4 @@
-import type OpenAI from "openai";
-
-import { getOpenAIClient } from "./client";
+import { getLlmProvider, type LlmProvider } from "./providers";
 
 export type InvoiceParty = {
   name: string | null;
@@ -33,6 +31,10 @@ export type InvoiceHeader = {
   confidence: number;
 };
 
+/**
+ * Version 0 of the stored extraction data; read it back with normalizeExtractedData()
+ * from ./schemas/extracted-data
+ */
 export type InvoiceExtraction = {
   supplier: InvoiceParty;
   buyer: InvoiceParty;
@@ -51,10 +53,10 @@ export type InvoiceExtractionOptions = {
   model?: string;
   retries?: number;
   hints?: string[];
-  client?: OpenAI;
+  /** defaults to LLM_PROVIDER; the model defaults to the provider's extraction model */
+  provider?: LlmProvider;
 };
 
-const DEFAULT_MODEL = process.env.OPENAI_MODEL ?? "gpt-4.1-mini";
 const MAX_RETRIES = Number(process.env.OPENAI_MAX_RETRIES ?? "2");
 
 const SYSTEM_PROMPT = `You are an assistant that extracts structured data from Polish VAT invoices.
@@ -132,18 +134,18 @@ export async function extractInvoiceData(
     throw new Error("Cannot extract invoice data from empty OCR text.");
   }
 
-  const client = options.client ?? getOpenAIClient();
-  const model = options.model ?? DEFAULT_MODEL;
+  const provider = options.provider ?? getLlmProvider();
   const locale = options.locale ?? "pl-PL";
   const retries = options.retries ?? MAX_RETRIES;
   const hints = options.hints ?? [];
 
   const response = await withRetries(
     () =>
-      client.chat.completions.create({
-        model,
+      provider.chat({
+        task: "extraction",
+        model: options.model,
         temperature: 0.2,
-        response_format: { type: "json_object" },
+        json: true,
         messages: [
           { role: "system", content: SYSTEM_PROMPT },
           { role: "user", content: buildUserPrompt(trimmed, locale, hints) },
@@ -152,22 +154,22 @@ export async function extractInvoiceData(
     retries,
   );
 
-  const message = response.choices[0]?.message?.content?.trim();
+  const message = response.content?.trim();
   if (!message) {
-    throw new Error("OpenAI returned an empty response.");
+    throw new Error(`${provider.name} returned an empty response.`);
   }
 
   let parsed: InvoiceExtraction;
   try {
     parsed = JSON.parse(message) as InvoiceExtraction;
   } catch (error) {
-    throw new Error(`Failed to parse OpenAI response: ${(error as Error).message}`);
+    throw new Error(`Failed to parse ${provider.name} response: ${(error as Error).message}`);
   }
 
   return {
     ...parsed,
     locale,
-    model,
+    model: response.model,
     rawText: trimmed,
   };
 }
@@ -7,6 +7,20 @@
  * @see specs/002-ocr-pipeline/research.md - Polish invoice format patterns
  */
 
+import type { LineItemCandidate } from '@/lib/ocr/layout/table';
+import type { ConfidenceScores, ExtractedData } from '@/types/ocr';
+
+export type ExtractionPromptOptions = {
+  /** line items read from the table layout */
+  lineItemCandidates?: LineItemCandidate[];
+  /** result of the rule-based extractor */
+  verifiedFields?: ExtractedData;
+  /** fields the rule-based extractor was unsure about; the others are passed on as read */
+  escalatedFields?: Array<keyof ConfidenceScores>;
+  /** notes learned from reviewer corrections of the seller's earlier invoices */
+  hints?: string[];
+};
+
 /**
  * System prompt for invoice extraction
  */
@@ -21,7 +35,8 @@ IMPORTANT RULES:
 4. NIP (tax ID) is always 10 digits
 5. Dates should be in YYYY-MM-DD format
 6. Amounts must be numeric (no currency symbols)
-7. VAT rates in Poland: 23%, 8%, 5%, 0%
+7. VAT rates in Poland: 23%, 8%, 5%, 0%. Lines without a percentage use a code as vat_rate: "zw" (exempt, zwolnione), "np" (not subject to VAT), "oo" (reverse charge, odwrotne obciążenie), "0 WDT" (0% intra-community supply) or "0 EX" (0% export)
+8. Invoices with "zw" lines state the legal basis of the exemption: return it as vat_exemption with basis "A" (ustawa o VAT, e.g. "art. 43 ust. 1 pkt 37 ustawy o VAT"), "B" (dyrektywa 2006/112/WE) or "C" (other). Set reverse_charge to true when the invoice says "odwrotne obciążenie"
 
 COMMON POLISH TERMS:
 - "Sprzedawca" = Seller
@@ -34,9 +49,85 @@ COMMON POLISH TERMS:
 - "Razem" / "Do zapłaty" = Total to pay`;
 
 /**
- * Generate user prompt with OCR text
+ * Line-item rows read from the layout of the OCR word boxes, given to the model
+ * to verify against the OCR text instead of rebuilding the table from flat text
+ */
+export function formatLineItemCandidates(candidates: LineItemCandidate[]): string {
+  const rows = candidates.map((candidate) => ({
+    position: candidate.position,
+    description: candidate.description,
+    quantity: candidate.quantity,
+    unit: candidate.unit,
+    unit_price: candidate.unit_price,
+    vat_rate: candidate.vat_rate,
+    net: candidate.net,
+    vat: candidate.vat,
+    gross: candidate.gross,
+    amounts_consistent: candidate.consistent,
+  }));
+
+  return `Line items read from the table layout (columns matched by position on the page):
+${JSON.stringify(rows, null, 2)}
+
+Use these as the starting point for "line_items": keep rows marked "amounts_consistent": true unless the OCR text clearly contradicts them, correct misread digits in the other rows (quantity × unit_price = net, net + vat = gross), and fill in null fields from the OCR text. Do not invent rows that are neither here nor in the OCR text.`;
+}
+
+/**
+ * Fields the rule-based extractor already read with confidence, so the model
+ * concentrates on the rest
  */
-export function generateExtractionPrompt(ocrText: string): string {
+export function formatVerifiedFields(
+  data: ExtractedData,
+  escalatedFields: Array<keyof ConfidenceScores>
+): string {
+  const values: Record<keyof ConfidenceScores, unknown> = {
+    invoice_number: data.invoice_number,
+    issue_date: data.issue_date,
+    due_date: data.due_date ?? null,
+    seller_name: data.seller.name,
+    seller_nip: data.seller.nip,
+    buyer_name: data.buyer.name,
+    buyer_nip: data.buyer.nip,
+    net_amount: data.net_amount,
+    vat_amount: data.vat_amount,
+    gross_amount: data.gross_amount,
+    line_items: data.line_items,
+  };
+  const verified = Object.fromEntries(
+    Object.entries(values).filter(([field]) => !escalatedFields.includes(field as keyof ConfidenceScores))
+  );
+
+  return `These fields were already read reliably; return them unchanged:
+${JSON.stringify(verified, null, 2)}
+
+Concentrate on: ${escalatedFields.join(', ')}.`;
+}
+
+/**
+ * Corrections reviewers keep making on one seller's invoices
+ */
+export function formatSupplierHints(hints: string[]): string {
+  return `Notes from earlier reviews of this seller's invoices (follow them unless the OCR text clearly contradicts them):
+${hints.map((hint) => `- ${hint}`).join('\n')}`;
+}
+
+/**
+ * Generate user prompt with OCR text, plus line-item candidates when the table
+ * layout was recognised, rule-based fields when only some fields are needed and
+ * notes learned from the seller's earlier invoices
+ */
+export function generateExtractionPrompt(
+  ocrText: string,
+  options: ExtractionPromptOptions = {}
+): string {
+  const { lineItemCandidates = [], verifiedFields, escalatedFields, hints = [] } = options;
+  const sections = [
+    ...(verifiedFields && escalatedFields ? [formatVerifiedFields(verifiedFields, escalatedFields)] : []),
+    ...(lineItemCandidates.length > 0 ? [formatLineItemCandidates(lineItemCandidates)] : []),
+    ...(hints.length > 0 ? [formatSupplierHints(hints)] : []),
+  ];
+  const hintsSection = sections.map((section) => `${section}\n\n`).join('');
+
   return `Extract invoice data from this Polish invoice OCR text.
 
 Return ONLY valid JSON matching this exact structure:
@@ -71,7 +162,12 @@ Return ONLY valid JSON matching this exact structure:
         "gross": number
       }
     ],
-    "invoice_type": "SALE"
+    "invoice_type": "SALE",
+    "vat_exemption": {
+      "basis": "A",
+      "description": "art. 43 ust. 1 pkt 37 ustawy o VAT"
+    } or null,
+    "reverse_charge": false
   },
   "confidence": {
     "invoice_number": 95,
@@ -90,7 +186,7 @@ Return ONLY valid JSON matching this exact structure:
 
 Confidence scores (0-100) indicate how certain you are about each extracted field.
 
-OCR Text:
+${hintsSection}OCR Text:
 ${ocrText}`;
 }
 
@@ -0,0 +1,47 @@
+import { AzureOpenAI } from 'openai';
+import { AI_CONFIG } from '../openai-client';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+
+const DEFAULT_API_VERSION = '2024-10-21';
+
+let azureClient: AzureOpenAI | null = null;
+
+function getAzureOpenAIClient(): AzureOpenAI {
+  if (!azureClient) {
+    const endpoint = process.env.AZURE_OPENAI_ENDPOINT?.trim();
+    const apiKey = process.env.AZURE_OPENAI_API_KEY?.trim();
+    if (!endpoint || !apiKey) {
+      throw new Error('AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY environment variables are required for Azure OpenAI');
+    }
+    azureClient = new AzureOpenAI({
+      endpoint,
+      apiKey,
+      apiVersion: process.env.AZURE_OPENAI_API_VERSION || DEFAULT_API_VERSION,
+      maxRetries: AI_CONFIG.maxRetries,
+    });
+  }
+  return azureClient;
+}
+
+/**
+ * Azure OpenAI; models are deployment names, so the data stays in the
+ * resource's region (e.g. Sweden Central, West Europe)
+ */
+export const azureProvider = createOpenAICompatibleProvider({
+  name: 'azure',
+  isAvailable: () =>
+    Boolean(
+      process.env.AZURE_OPENAI_ENDPOINT?.trim() &&
+        process.env.AZURE_OPENAI_API_KEY?.trim() &&
+        process.env.AZURE_OPENAI_DEPLOYMENT?.trim()
+    ),
+  getClient: getAzureOpenAIClient,
+  models: () => {
+    const deployment = process.env.AZURE_OPENAI_DEPLOYMENT?.trim() || undefined;
+    return {
+      extraction: deployment,
+      classification: process.env.AZURE_OPENAI_CLASSIFICATION_DEPLOYMENT || deployment,
+      vision: process.env.AZURE_OPENAI_VISION_DEPLOYMENT || deployment,
+    };
+  },
+});
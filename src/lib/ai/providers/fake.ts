@@ -0,0 +1,44 @@
+import type { LlmChatRequest, LlmProvider, LlmTask } from './types';
+
+export type FakeLlmReply =
+  | string
+  | Record<string, unknown>
+  | ((request: LlmChatRequest) => string | Record<string, unknown>);
+
+export type FakeLlmProvider = LlmProvider & {
+  /** every request, in order */
+  requests: LlmChatRequest[];
+};
+
+/**
+ * Provider that answers every request with a fixed reply, for tests
+ *
+ * Objects are returned as JSON; token usage is counted as one token per
+ * four characters so results are the same on every run.
+ */
+export function createFakeLlmProvider(reply: FakeLlmReply): FakeLlmProvider {
+  const requests: LlmChatRequest[] = [];
+  const model = (task: LlmTask) => `fake-${task}`;
+
+  return {
+    name: 'fake',
+    requests,
+    isAvailable: () => true,
+    model,
+    async chat(request) {
+      requests.push(request);
+      const answer = typeof reply === 'function' ? reply(request) : reply;
+      const content = typeof answer === 'string' ? answer : JSON.stringify(answer);
+      const prompt = request.messages.map((message) => JSON.stringify(message.content ?? '')).join('');
+
+      const prompt_tokens = Math.ceil(prompt.length / 4);
+      const completion_tokens = Math.ceil(content.length / 4);
+      return {
+        content,
+        model: request.model ?? model(request.task),
+        provider: 'fake',
+        usage: { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens },
+      };
+    },
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * LLM Providers
+ *
+ * Every AI call (text extraction, image extraction, classification) goes
+ * through an LlmProvider: OpenAI, Azure OpenAI or an OpenAI-compatible server
+ * on premises (llama.cpp, Ollama). Tests inject createFakeLlmProvider.
+ *
+ * The provider comes from Tenant.settings.ai, then the LLM_PROVIDER env var,
+ * then OpenAI. Tenant.settings.ai.models overrides the model of a task. There
+ * is no fallback to another provider: a tenant that may not send invoices to
+ * OpenAI gets rule-based extraction and manual review when its provider is
+ * unavailable.
+ */
+
+import { azureProvider } from './azure';
+import { localProvider } from './local';
+import { openaiProvider } from './openai';
+import type { LlmProvider, LlmProviderName, LlmTask, TenantAiSettings } from './types';
+
+export const LLM_PROVIDERS: Record<LlmProviderName, LlmProvider> = {
+  openai: openaiProvider,
+  azure: azureProvider,
+  local: localProvider,
+};
+
+const DEFAULT_PROVIDER: LlmProviderName = 'openai';
+
+const LLM_TASKS: LlmTask[] = ['extraction', 'classification', 'vision'];
+
+export function isLlmProviderName(value: unknown): value is LlmProviderName {
+  return typeof value === 'string' && value in LLM_PROVIDERS;
+}
+
+/**
+ * Read Tenant.settings.ai, dropping unknown provider names and tasks
+ */
+export function getTenantAiSettings(settings: unknown): TenantAiSettings {
+  const ai =
+    typeof settings === 'object' && settings !== null
+      ? (settings as Record<string, unknown>).ai
+      : undefined;
+
+  if (typeof ai !== 'object' || ai === null) {
+    return {};
+  }
+
+  const { provider, models } = ai as Record<string, unknown>;
+  const taskModels = Object.fromEntries(
+    LLM_TASKS.flatMap((task) => {
+      const model = typeof models === 'object' && models !== null ? (models as Record<string, unknown>)[task] : null;
+      return typeof model === 'string' && model.trim() ? [[task, model.trim()]] : [];
+    })
+  ) as Partial<Record<LlmTask, string>>;
+
+  return {
+    ...(isLlmProviderName(provider) && { provider }),
+    ...(Object.keys(taskModels).length > 0 && { models: taskModels }),
+  };
+}
+
+/**
+ * Provider name for a tenant
+ */
+export function resolveLlmProviderName(aiSettings: TenantAiSettings = {}): LlmProviderName {
+  const envProvider = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  return aiSettings.provider ?? (isLlmProviderName(envProvider) ? envProvider : DEFAULT_PROVIDER);
+}
+
+/**
+ * Why a tenant's AI settings cannot be used on this server, or null if they can
+ *
+ * Only a provider the tenant chose is checked: without a fallback, choosing an
+ * unconfigured provider would silently leave every field to the rules.
+ */
+export function checkTenantAiSettings(aiSettings: TenantAiSettings): string | null {
+  if (aiSettings.provider && !LLM_PROVIDERS[aiSettings.provider].isAvailable()) {
+    return `LLM provider "${aiSettings.provider}" is not configured on this server`;
+  }
+  return null;
+}
+
+/**
+ * Provider for a tenant, with the tenant's models
+ *
+ * @param aiSettings - Tenant.settings.ai, see getTenantAiSettings
+ */
+export function getLlmProvider(aiSettings: TenantAiSettings = {}): LlmProvider {
+  const provider = LLM_PROVIDERS[resolveLlmProviderName(aiSettings)];
+  const { models } = aiSettings;
+  if (!models) {
+    return provider;
+  }
+
+  return {
+    ...provider,
+    model: (task) => models[task] ?? provider.model(task),
+    chat: (request) => provider.chat({ ...request, model: request.model ?? models[request.task] }),
+  };
+}
+
+export { createFakeLlmProvider } from './fake';
+export type { FakeLlmProvider, FakeLlmReply } from './fake';
+export type {
+  LlmChatRequest,
+  LlmChatResponse,
+  LlmMessage,
+  LlmProvider,
+  LlmProviderName,
+  LlmTask,
+  LlmTokenUsage,
+  TenantAiSettings,
+} from './types';
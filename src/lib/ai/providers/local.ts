@@ -0,0 +1,40 @@
+import OpenAI from 'openai';
+import { AI_CONFIG } from '../openai-client';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+
+let localClient: OpenAI | null = null;
+
+function getLocalLlmClient(): OpenAI {
+  if (!localClient) {
+    const baseURL = process.env.LOCAL_LLM_BASE_URL?.trim();
+    if (!baseURL) {
+      throw new Error('LOCAL_LLM_BASE_URL environment variable is required for a local LLM');
+    }
+    localClient = new OpenAI({
+      baseURL,
+      // llama.cpp and Ollama accept any key unless started with one
+      apiKey: process.env.LOCAL_LLM_API_KEY?.trim() || 'local',
+      maxRetries: AI_CONFIG.maxRetries,
+    });
+  }
+  return localClient;
+}
+
+/**
+ * OpenAI-compatible server on premises, e.g. Ollama (http://localhost:11434/v1)
+ * or llama.cpp (http://localhost:8080/v1); invoices never leave the network.
+ * Invoice images need LOCAL_LLM_VISION_MODEL, a model that reads images.
+ */
+export const localProvider = createOpenAICompatibleProvider({
+  name: 'local',
+  isAvailable: () => Boolean(process.env.LOCAL_LLM_BASE_URL?.trim() && process.env.LOCAL_LLM_MODEL?.trim()),
+  getClient: getLocalLlmClient,
+  models: () => {
+    const model = process.env.LOCAL_LLM_MODEL?.trim() || undefined;
+    return {
+      extraction: model,
+      classification: process.env.LOCAL_LLM_CLASSIFICATION_MODEL || model,
+      vision: process.env.LOCAL_LLM_VISION_MODEL || undefined,
+    };
+  },
+});
@@ -0,0 +1,49 @@
+import type OpenAI from 'openai';
+import type { LlmProvider, LlmProviderName, LlmTask } from './types';
+
+type OpenAICompatibleOptions = {
+  name: LlmProviderName;
+  isAvailable: () => boolean;
+  getClient: () => OpenAI;
+  /** models per task, read when called so env changes apply */
+  models: () => Partial<Record<LlmTask, string>>;
+};
+
+/**
+ * Provider for an endpoint speaking the OpenAI chat completions API
+ * (OpenAI, Azure OpenAI, llama.cpp server, Ollama, vLLM, ...)
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LlmProvider {
+  const { name, getClient, models } = options;
+
+  return {
+    name,
+    isAvailable: options.isAvailable,
+    model: (task) => models()[task],
+    async chat(request) {
+      const model = request.model ?? models()[request.task];
+      if (!model) {
+        throw new Error(`No ${request.task} model configured for the ${name} LLM provider`);
+      }
+
+      const completion = await getClient().chat.completions.create({
+        model,
+        messages: request.messages,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+        ...(request.json && { response_format: { type: 'json_object' as const } }),
+      });
+
+      return {
+        content: completion.choices[0]?.message?.content ?? null,
+        model,
+        provider: name,
+        usage: {
+          prompt_tokens: completion.usage?.prompt_tokens || 0,
+          completion_tokens: completion.usage?.completion_tokens || 0,
+          total_tokens: completion.usage?.total_tokens || 0,
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,13 @@
+import { AI_CONFIG, getOpenAIClient } from '../openai-client';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+
+export const openaiProvider = createOpenAICompatibleProvider({
+  name: 'openai',
+  isAvailable: () => Boolean(process.env.OPENAI_API_KEY?.trim()),
+  getClient: getOpenAIClient,
+  models: () => ({
+    extraction: AI_CONFIG.model,
+    classification: process.env.OPENAI_CLASSIFICATION_MODEL || 'gpt-4o-mini',
+    vision: process.env.OPENAI_VISION_MODEL || 'gpt-4o',
+  }),
+});
@@ -0,0 +1,49 @@
+import type OpenAI from 'openai';
+
+export type LlmProviderName = 'openai' | 'azure' | 'local';
+
+/** What a model is called for; each task can use its own model (deployment on Azure) */
+export type LlmTask = 'extraction' | 'classification' | 'vision';
+
+export type LlmMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+export type LlmChatRequest = {
+  task: LlmTask;
+  messages: LlmMessage[];
+  /** overrides the provider's model for the task */
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** ask for a JSON object (JSON mode) */
+  json?: boolean;
+};
+
+export type LlmTokenUsage = {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+};
+
+export type LlmChatResponse = {
+  content: string | null;
+  model: string;
+  provider: LlmProvider['name'];
+  usage: LlmTokenUsage;
+};
+
+export interface LlmProvider {
+  name: LlmProviderName | 'fake';
+  /** false when the provider cannot run here (missing credentials or endpoint) */
+  isAvailable(): boolean;
+  /** model for a task, undefined when none is configured (e.g. no vision model on a local endpoint) */
+  model(task: LlmTask): string | undefined;
+  chat(request: LlmChatRequest): Promise<LlmChatResponse>;
+}
+
+/**
+ * Tenant.settings.ai
+ */
+export type TenantAiSettings = {
+  provider?: LlmProviderName;
+  models?: Partial<Record<LlmTask, string>>;
+};
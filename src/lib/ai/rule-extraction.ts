@@ -0,0 +1,412 @@
+/**
+ * Rule-Based Invoice Data Extraction
+ *
+ * Reads the key fields of Polish invoices from OCR text with regular expressions
+ * and layout heuristics, without calling OpenAI: invoice number, issue and due
+ * dates, seller/buyer names and NIPs (checksum-validated), bank account (IBAN
+ * checksum), VAT exemption basis, reverse charge, totals and "Do zapłaty". Every field gets a confidence score so
+ * that only the uncertain ones are escalated to GPT-4.
+ */
+
+import { validateNIPFormat } from '@/lib/weis/client';
+import { parsePolishNumber, type LineItemCandidate } from '@/lib/ocr/layout/table';
+import { parseVATExemption, VAT_RATE_SYMBOLS } from '@/lib/vat-rates';
+import type {
+  ConfidenceScores,
+  Currency,
+  ExtractedData,
+  LineItem,
+  VATExemption,
+  VATRate,
+} from '@/types/ocr';
+
+export type RuleExtractionResult = {
+  extracted_data: ExtractedData;
+  confidence_scores: ConfidenceScores;
+};
+
+export type RuleExtractionOptions = {
+  /** line items reconstructed from the OCR word layout */
+  lineItemCandidates?: LineItemCandidate[];
+};
+
+type Party = 'seller' | 'buyer';
+
+const SECTION_HEADERS: Record<Party, RegExp> = {
+  seller: /\b(?:sprzedawca|wystawca|dostawca|sprzedający|sprzedajacy)\b/i,
+  buyer: /\b(?:nabywca|odbiorca|kupujący|kupujacy|płatnik|platnik)\b/i,
+};
+
+const LEGAL_FORM = /\b(?:sp\.?\s*z\s*o\.?\s*o\.?|s\.?\s?a\.?|sp\.?\s?k\.?|sp\.?\s?j\.?|spółka|spolka)(?:\s|$|,)/i;
+
+const NIP_PATTERN =
+  /\bNIP\b[^\d\n]{0,12}((?:PL)?\s?\d{3}[-\s]?\d{3}[-\s]?\d{2}[-\s]?\d{2}|(?:PL)?\s?\d{3}[-\s]?\d{2}[-\s]?\d{2}[-\s]?\d{3})\b/gi;
+
+const IBAN_PATTERN = /\b(?:PL\s?)?\d{2}(?:\s?\d{4}){6}\b/g;
+
+const DATE_PATTERN = /\b(\d{4})[-./](\d{1,2})[-./](\d{1,2})\b|\b(\d{1,2})[-./](\d{1,2})[-./](\d{4})\b/;
+
+// Amounts always carry two decimal places ("1 234,56", "1234.56")
+const AMOUNT_PATTERN = /-?\d{1,3}(?:[  .]\d{3})+[,.]\d{2}\b|-?\d+[,.]\d{2}\b/g;
+
+const VAT_RATES: VATRate[] = [23, 8, 5, 0, ...VAT_RATE_SYMBOLS];
+
+const REVERSE_CHARGE = /odwrotne\s+obci[aą][zż]eni/i;
+
+/**
+ * Extract invoice fields from OCR text without AI
+ *
+ * Fields that are not found are left empty (empty string, 0 or null) with a
+ * confidence of 0.
+ *
+ * @param ocrText - Raw OCR text (page markers are ignored)
+ * @param options - Line-item candidates from the table layout
+ * @returns Extracted data and per-field confidence scores
+ */
+export function extractInvoiceDataWithRules(
+  ocrText: string,
+  options: RuleExtractionOptions = {}
+): RuleExtractionResult {
+  const lines = ocrText
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !/^--- Page \d+ of \d+ ---$/.test(line));
+
+  const invoiceNumber = findInvoiceNumber(lines);
+  const issueDate = findLabelledDate(lines, /data\s+wystawienia|wystawiono\s+dnia/i);
+  const dueDate = findDueDate(lines, issueDate.value);
+  const seller = findParty(lines, 'seller');
+  const buyer = findParty(lines, 'buyer');
+  const totals = findTotals(lines);
+  const lineItems = toLineItems(options.lineItemCandidates ?? []);
+
+  // Rows missing from the table show up as a gap between the items and the invoice total
+  const itemsNet = lineItems.value.reduce((sum, item) => sum + item.net, 0);
+  if (lineItems.value.length > 0 && totals.net.value !== null && Math.abs(itemsNet - totals.net.value) > 0.05) {
+    lineItems.confidence = Math.min(lineItems.confidence, 50);
+  }
+
+  return {
+    extracted_data: {
+      invoice_number: invoiceNumber.value ?? '',
+      issue_date: issueDate.value ?? '',
+      due_date: dueDate.value,
+      seller: { name: seller.name.value ?? '', nip: seller.nip.value ?? '', address: seller.address },
+      buyer: { name: buyer.name.value ?? '', nip: buyer.nip.value ?? '', address: buyer.address },
+      currency: findCurrency(ocrText),
+      net_amount: totals.net.value ?? 0,
+      vat_amount: totals.vat.value ?? 0,
+      gross_amount: totals.gross.value ?? 0,
+      line_items: lineItems.value,
+      invoice_type: /faktura\s+korygująca|faktura\s+korygujaca|korekta/i.test(ocrText) ? 'CORRECTION' : 'SALE',
+      bank_account: findBankAccount(ocrText),
+      vat_exemption: findVATExemption(ocrText),
+      reverse_charge: REVERSE_CHARGE.test(ocrText),
+    },
+    confidence_scores: {
+      invoice_number: invoiceNumber.confidence,
+      issue_date: issueDate.confidence,
+      due_date: dueDate.confidence,
+      seller_name: seller.name.confidence,
+      seller_nip: seller.nip.confidence,
+      buyer_name: buyer.name.confidence,
+      buyer_nip: buyer.nip.confidence,
+      net_amount: totals.net.confidence,
+      vat_amount: totals.vat.confidence,
+      gross_amount: totals.gross.confidence,
+      line_items: lineItems.confidence,
+    },
+  };
+}
+
+type Found<T> = { value: T | null; confidence: number };
+
+const NOT_FOUND: Found<never> = { value: null, confidence: 0 };
+
+function findInvoiceNumber(lines: string[]): Found<string> {
+  const patterns: Array<[RegExp, number]> = [
+    [/faktura(?:\s+vat)?(?:\s+korygująca|\s+korygujaca)?\s+(?:nr|numer)\.?\s*:?\s*([A-Z0-9][\w/\-.]*)/i, 95],
+    [/(?:nr|numer)\s+faktury\s*:?\s*([A-Z0-9][\w/\-.]*)/i, 90],
+    [/faktura(?:\s+vat)?\s*:?\s*([A-Z]{1,4}[/\-][\w/\-.]*\d[\w/\-.]*)/i, 80],
+  ];
+
+  for (const [pattern, confidence] of patterns) {
+    for (const line of lines) {
+      const match = pattern.exec(line);
+      // A number has at least one digit ("nr" alone followed by a word is not one)
+      if (match && /\d/.test(match[1])) {
+        return { value: match[1].replace(/[.,]$/, ''), confidence };
+      }
+    }
+  }
+
+  return NOT_FOUND;
+}
+
+/**
+ * Convert a printed date to YYYY-MM-DD
+ */
+export function parseInvoiceDate(text: string): string | null {
+  const match = DATE_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day] = match[1]
+    ? [Number(match[1]), Number(match[2]), Number(match[3])]
+    : [Number(match[6]), Number(match[5]), Number(match[4])];
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date.toISOString().slice(0, 10);
+}
+
+function findLabelledDate(lines: string[], label: RegExp): Found<string> {
+  for (let index = 0; index < lines.length; index++) {
+    const match = label.exec(lines[index]);
+    if (!match) {
+      continue;
+    }
+
+    // Date after the label, or on the line below it (two-column headers)
+    const sameLine = parseInvoiceDate(lines[index].slice(match.index + match[0].length));
+    if (sameLine) {
+      return { value: sameLine, confidence: 95 };
+    }
+    const nextLine = lines[index + 1] ? parseInvoiceDate(lines[index + 1]) : null;
+    if (nextLine) {
+      return { value: nextLine, confidence: 80 };
+    }
+  }
+
+  return NOT_FOUND;
+}
+
+function findDueDate(lines: string[], issueDate: string | null): Found<string> {
+  const label = /termin\s+(?:płatności|platnosci|zapłaty|zaplaty)|płatne\s+do|platne\s+do/i;
+  const labelled = findLabelledDate(lines, label);
+  if (labelled.value) {
+    return labelled;
+  }
+
+  // "Termin płatności: 14 dni" counts from the issue date
+  for (const line of lines) {
+    const match = label.exec(line);
+    const days = match ? /(\d{1,3})\s*dni/i.exec(line.slice(match.index)) : null;
+    if (days && issueDate) {
+      const due = new Date(`${issueDate}T00:00:00Z`);
+      due.setUTCDate(due.getUTCDate() + Number(days[1]));
+      return { value: due.toISOString().slice(0, 10), confidence: 85 };
+    }
+  }
+
+  // No payment term printed at all (e.g. paid in cash): an empty due date is most likely right
+  return lines.some((line) => label.test(line)) ? NOT_FOUND : { value: null, confidence: 80 };
+}
+
+type PartyFields = { name: Found<string>; nip: Found<string>; address: string | null };
+
+/**
+ * Name, address and NIP of the seller or buyer
+ *
+ * Each NIP belongs to the section header ("Sprzedawca", "Nabywca") above it. When
+ * both headers share a line (two-column layout flattened by OCR), NIPs are given
+ * out in the order of the headers.
+ */
+function findParty(lines: string[], party: Party): PartyFields {
+  const other: Party = party === 'seller' ? 'buyer' : 'seller';
+  const headerIndex = lines.findIndex((line) => SECTION_HEADERS[party].test(line));
+  if (headerIndex === -1) {
+    return { name: NOT_FOUND, nip: findNipByOrder(lines, party), address: null };
+  }
+
+  const headerLine = lines[headerIndex];
+  const sideBySide = SECTION_HEADERS[other].test(headerLine);
+  if (sideBySide) {
+    return { name: NOT_FOUND, nip: findNipByOrder(lines, party, headerLine), address: null };
+  }
+
+  // Lines of this section: up to the other party's header or a blank-ish table header
+  const section: string[] = [];
+  for (let index = headerIndex; index < lines.length && section.length < 6; index++) {
+    const line = index === headerIndex ? lines[index].replace(SECTION_HEADERS[party], '').replace(/^\s*:?\s*/, '') : lines[index];
+    if (index > headerIndex && (SECTION_HEADERS[other].test(line) || /^(?:lp\.?|nazwa\s+towaru)/i.test(line))) {
+      break;
+    }
+    if (line) {
+      section.push(line);
+    }
+  }
+
+  const nip = findNip(section.join('\n'));
+  const nameLine = section.find((line) => !/\bNIP\b|\d{2}-\d{3}|^ul\.|^al\./i.test(line));
+  const addressLines = section.filter(
+    (line) => line !== nameLine && !/\bNIP\b|\bREGON\b|\bKRS\b|\btel\.?|@/i.test(line)
+  );
+
+  return {
+    name: nameLine ? { value: nameLine.replace(/[,;]$/, ''), confidence: LEGAL_FORM.test(nameLine) ? 90 : 75 } : NOT_FOUND,
+    nip: nip.value ? { value: nip.value, confidence: nip.valid ? 95 : 40 } : NOT_FOUND,
+    address: addressLines.length > 0 ? addressLines.slice(0, 2).join(', ') : null,
+  };
+}
+
+function findNip(text: string): { value: string | null; valid: boolean } {
+  const matches = [...text.matchAll(NIP_PATTERN)].map((match) => match[1].replace(/\D/g, ''));
+  const valid = matches.find((nip) => validateNIPFormat(nip));
+  if (valid) {
+    return { value: valid, valid: true };
+  }
+  return { value: matches.find((nip) => nip.length === 10) ?? null, valid: false };
+}
+
+function findNipByOrder(lines: string[], party: Party, headerLine?: string): Found<string> {
+  const nips = [...lines.join('\n').matchAll(NIP_PATTERN)]
+    .map((match) => match[1].replace(/\D/g, ''))
+    .filter((nip) => validateNIPFormat(nip));
+
+  // Without headers the seller is conventionally printed first
+  let position = party === 'seller' ? 0 : 1;
+  if (headerLine) {
+    const sellerAt = headerLine.search(SECTION_HEADERS.seller);
+    const buyerAt = headerLine.search(SECTION_HEADERS.buyer);
+    position = (party === 'seller') === sellerAt < buyerAt ? 0 : 1;
+  }
+
+  const nip = nips[position];
+  return nip ? { value: nip, confidence: headerLine ? 80 : 60 } : NOT_FOUND;
+}
+
+type Totals = { net: Found<number>; vat: Found<number>; gross: Found<number> };
+
+/**
+ * Invoice totals from the "Razem" row, labelled amounts and "Do zapłaty"
+ *
+ * Confidence is high only when the amounts agree with each other.
+ */
+function findTotals(lines: string[]): Totals {
+  let net: number | null = null;
+  let vat: number | null = null;
+  let gross: number | null = null;
+
+  const amounts = (line: string) =>
+    (line.match(AMOUNT_PATTERN) ?? [])
+      .map((amount) => parsePolishNumber(amount))
+      .filter((amount): amount is number => amount !== null);
+
+  // "Razem  2 790,00  625,50  3 415,50": the last three amounts are net, VAT, gross
+  const totalsRow = [...lines].reverse().find((line) => /^(?:razem|suma|ogółem|ogolem)\b/i.test(line) && amounts(line).length >= 3);
+  if (totalsRow) {
+    [net, vat, gross] = amounts(totalsRow).slice(-3);
+  }
+
+  const labelled = (label: RegExp) => {
+    const line = lines.find((candidate) => label.test(candidate) && amounts(candidate).length > 0);
+    return line ? amounts(line.slice(line.search(label)))[0] ?? null : null;
+  };
+  net ??= labelled(/(?:wartość|wartosc|razem|suma)\s+netto/i);
+  vat ??= labelled(/(?:kwota|wartość|wartosc|razem|suma)\s+(?:podatku\s+)?vat/i);
+  gross ??= labelled(/(?:wartość|wartosc|razem|suma)\s+brutto/i);
+
+  const toPay = labelled(/do\s+zapłaty|do\s+zaplaty|kwota\s+do\s+zapłaty/i);
+  gross ??= toPay;
+
+  const sumMatches = net !== null && vat !== null && gross !== null && Math.abs(net + vat - gross) <= 0.02;
+  const toPayMatches = toPay !== null && gross !== null && Math.abs(toPay - gross) <= 0.01;
+
+  const confidence = (value: number | null, base: number) =>
+    value === null ? 0 : sumMatches ? (toPayMatches ? 97 : 90) : base;
+
+  return {
+    net: { value: net, confidence: confidence(net, 60) },
+    vat: { value: vat, confidence: confidence(vat, 60) },
+    gross: { value: gross, confidence: confidence(gross, toPayMatches ? 85 : 60) },
+  };
+}
+
+function findCurrency(text: string): Currency {
+  if (/\bEUR\b|€/.test(text)) {
+    return 'EUR';
+  }
+  if (/\bUSD\b|\$/.test(text)) {
+    return 'USD';
+  }
+  return 'PLN';
+}
+
+/**
+ * Bank account number in IBAN form (PL + 26 digits), checked with the ISO 13616 checksum
+ */
+export function findBankAccount(text: string): string | null {
+  for (const match of text.matchAll(IBAN_PATTERN)) {
+    const digits = match[0].replace(/\D/g, '');
+    if (digits.length === 26 && isValidPolishIban(digits)) {
+      return `PL${digits}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Basis of the VAT exemption, from the line that mentions the exemption ("Zwolnienie
+ * z VAT na podstawie art. 43 ust. 1 pkt 37 ustawy o VAT") or the line after it
+ */
+export function findVATExemption(text: string): VATExemption | null {
+  const lines = text.split('\n');
+  for (const [index, line] of lines.entries()) {
+    if (!/zwoln/i.test(line)) {
+      continue;
+    }
+    // From the provision on: "art. 43 ust. 1 pkt 37 ustawy o VAT"; other bases are not told apart from free text
+    const provision = [line, lines[index + 1] ?? '']
+      .map((candidate) => /\bart\.?\s*\d+.*/i.exec(candidate)?.[0])
+      .find(Boolean);
+    if (provision) {
+      return parseVATExemption(provision);
+    }
+  }
+  return null;
+}
+
+function isValidPolishIban(digits: string): boolean {
+  // Country code moved to the end, letters as numbers (P = 25, L = 21), mod 97 must be 1
+  const rearranged = `${digits.slice(2)}2521${digits.slice(0, 2)}`;
+  let remainder = 0;
+  for (const digit of rearranged) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+/**
+ * Line items from table rows whose amounts add up; anything less leaves the table to the AI
+ */
+function toLineItems(candidates: LineItemCandidate[]): Found<LineItem[]> & { value: LineItem[] } {
+  const items: LineItem[] = candidates.flatMap((candidate) => {
+    const vatRate = VAT_RATES.find((rate) => rate === candidate.vat_rate);
+    const { quantity, unit_price, net, vat, gross } = candidate;
+    if (
+      !candidate.consistent ||
+      !candidate.description ||
+      vatRate === undefined ||
+      quantity === null ||
+      unit_price === null ||
+      net === null ||
+      vat === null ||
+      gross === null
+    ) {
+      return [];
+    }
+    return [{ description: candidate.description, quantity, unit_price, vat_rate: vatRate, net, vat, gross }];
+  });
+
+  if (candidates.length === 0) {
+    return { value: [], confidence: 0 };
+  }
+
+  const confidence = items.length === candidates.length ? Math.min(...candidates.map((candidate) => candidate.confidence), 95) : 50;
+  return { value: items, confidence: Math.round(confidence) };
+}
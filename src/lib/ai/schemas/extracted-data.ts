@@ -0,0 +1,247 @@
+/**
+ * Canonical Invoice Extraction Model
+ *
+ * Invoice.extractedData has been stored in several shapes:
+ * - version 0: supplier/buyer/header/totals with 0-1 confidences (src/lib/ai/extractor.ts,
+ *   the former ai-data-extractor edge function, FA(3) imports)
+ * - version 1: ExtractedData (seller/buyer, snake_case) without a version tag (OCR worker,
+ *   vision upload)
+ * - version 2: ExtractedData tagged with schema_version, with details that have no field
+ *   of their own (FA(3) payment data, VAT breakdown, ...) under `details`
+ *
+ * Writers store toStoredExtractedData() output; readers (KSeF conversion, review, detail
+ * view, classifier) go through normalizeExtractedData() and always see version 2.
+ * supabase/migrations/20251104000000_canonical_extracted_data.sql applies the same
+ * migrations to rows already in the database.
+ *
+ * @see src/types/ocr.ts - ExtractedData
+ */
+
+import { parseVATRateCode, VAT_RATE_SYMBOLS } from '@/lib/vat-rates';
+import type { CompanyInfo, Currency, ExtractedData, InvoiceType, LineItem, VATRate } from '@/types/ocr';
+
+export const EXTRACTED_DATA_VERSION = 2;
+
+export type StoredExtractedData = ExtractedData & {
+  schema_version: typeof EXTRACTED_DATA_VERSION;
+  details?: Record<string, unknown>;
+};
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Migration from one stored version to the next
+ */
+type ExtractedDataMigration = {
+  from: number;
+  migrate: (data: JsonObject) => JsonObject;
+};
+
+const CURRENCIES: Currency[] = ['PLN', 'EUR', 'USD'];
+const INVOICE_TYPES: InvoiceType[] = ['SALE', 'PURCHASE', 'CORRECTION'];
+const VAT_RATES: VATRate[] = [23, 8, 5, 0, ...VAT_RATE_SYMBOLS];
+
+// Version 0 keys that are mapped to canonical fields or details (rawText is in raw_ocr_text already)
+const LEGACY_KEYS = [
+  'supplier',
+  'buyer',
+  'header',
+  'totals',
+  'lineItems',
+  'notes',
+  'locale',
+  'model',
+  'confidenceOverall',
+  'rawText',
+  'source',
+  'invoiceType',
+  'sellDate',
+  'paymentMethod',
+  'bankAccount',
+  'vatBreakdown',
+  'annotations',
+  'correction',
+];
+
+const MIGRATIONS: ExtractedDataMigration[] = [
+  { from: 0, migrate: migrateFromLegacyExtraction },
+  { from: 1, migrate: migrateToTaggedExtractedData },
+];
+
+/**
+ * Stored version of extractedData, or null when it is not extraction data at all
+ */
+export function getExtractedDataVersion(data: unknown): number | null {
+  if (!isObject(data)) {
+    return null;
+  }
+  if (typeof data.schema_version === 'number') {
+    return data.schema_version;
+  }
+  if ('supplier' in data || 'header' in data || 'totals' in data) {
+    return 0;
+  }
+  if ('seller' in data || 'invoice_number' in data) {
+    return 1;
+  }
+  return null;
+}
+
+/**
+ * Read stored extractedData of any version as the canonical model
+ *
+ * @returns The canonical data, or null for empty or unrecognised values
+ */
+export function normalizeExtractedData(data: unknown): StoredExtractedData | null {
+  let version = getExtractedDataVersion(data);
+  if (version === null || version > EXTRACTED_DATA_VERSION) {
+    return null;
+  }
+
+  let current = data as JsonObject;
+  for (const migration of MIGRATIONS) {
+    if (migration.from === version) {
+      current = migration.migrate(current);
+      version = migration.from + 1;
+    }
+  }
+
+  return current as unknown as StoredExtractedData;
+}
+
+/**
+ * Tag freshly extracted data with the current version before it is stored
+ */
+export function toStoredExtractedData(
+  data: ExtractedData,
+  details?: Record<string, unknown>
+): StoredExtractedData {
+  return {
+    ...data,
+    schema_version: EXTRACTED_DATA_VERSION,
+    ...(details && Object.keys(details).length > 0 && { details }),
+  };
+}
+
+/**
+ * VAT rate of a canonical line item; percentages other than 23/8/5/0 are stored as 0
+ */
+export function toExtractedVATRate(value: unknown): VATRate {
+  const rate = parseVATRateCode(value);
+  return VAT_RATES.includes(rate as VATRate) ? (rate as VATRate) : 0;
+}
+
+/**
+ * Version 0 → 1: supplier/header/totals to seller/snake_case
+ *
+ * Line items of version 0 carry a single total without a VAT rate, so they are kept
+ * under details.legacy_line_items rather than guessed into net/VAT/gross.
+ */
+function migrateFromLegacyExtraction(data: JsonObject): JsonObject {
+  const header = asObject(data.header);
+  const totals = asObject(data.totals);
+  const { lineItems, notes } = data;
+  const rest = Object.fromEntries(Object.entries(data).filter(([key]) => !LEGACY_KEYS.includes(key)));
+
+  const details = withoutEmpty({
+    ...rest,
+    source: data.source,
+    fa3_invoice_type: data.invoiceType,
+    sale_date: data.sellDate,
+    payment_method: data.paymentMethod,
+    vat_breakdown: data.vatBreakdown,
+    annotations: data.annotations,
+    correction: data.correction,
+    notes: Array.isArray(notes) && notes.length > 0 ? notes : undefined,
+    locale: data.locale,
+    model: data.model,
+    confidence_overall: data.confidenceOverall,
+    legacy_line_items: Array.isArray(lineItems) && lineItems.length > 0 ? lineItems : undefined,
+  });
+
+  return {
+    invoice_number: header.number ?? '',
+    issue_date: header.issueDate ?? '',
+    due_date: header.dueDate ?? null,
+    seller: fromLegacyParty(data.supplier),
+    buyer: fromLegacyParty(data.buyer),
+    currency: header.currency ?? totals.currency ?? 'PLN',
+    net_amount: totals.subtotal ?? 0,
+    vat_amount: totals.tax ?? 0,
+    gross_amount: totals.total ?? 0,
+    line_items: [],
+    invoice_type: data.invoiceType === 'CORRECTIVE' ? 'CORRECTION' : 'SALE',
+    bank_account: typeof data.bankAccount === 'string' ? data.bankAccount : null,
+    ...(Object.keys(details).length > 0 && { details }),
+  };
+}
+
+/**
+ * Version 1 → 2: tag the data and fill fields older writers left out
+ */
+function migrateToTaggedExtractedData(data: JsonObject): JsonObject {
+  return {
+    ...data,
+    schema_version: EXTRACTED_DATA_VERSION,
+    invoice_number: asString(data.invoice_number),
+    issue_date: asString(data.issue_date),
+    due_date: typeof data.due_date === 'string' && data.due_date ? data.due_date : null,
+    seller: toCompanyInfo(data.seller),
+    buyer: toCompanyInfo(data.buyer),
+    currency: CURRENCIES.includes(data.currency as Currency) ? data.currency : 'PLN',
+    net_amount: asNumber(data.net_amount),
+    vat_amount: asNumber(data.vat_amount),
+    gross_amount: asNumber(data.gross_amount),
+    line_items: Array.isArray(data.line_items) ? data.line_items.map(toLineItem) : [],
+    invoice_type: INVOICE_TYPES.includes(data.invoice_type as InvoiceType) ? data.invoice_type : 'SALE',
+  };
+}
+
+function fromLegacyParty(party: unknown): CompanyInfo {
+  const { name, vatId, address } = asObject(party);
+  return { name: asString(name), nip: asString(vatId), address: typeof address === 'string' ? address : null };
+}
+
+function toCompanyInfo(party: unknown): CompanyInfo {
+  const { name, nip, address } = asObject(party);
+  return {
+    name: asString(name),
+    // "123-456-32-18" and "PL1234563218" are the same NIP
+    nip: asString(nip).replace(/^PL/i, '').replace(/\D/g, ''),
+    address: typeof address === 'string' ? address : null,
+  };
+}
+
+function toLineItem(item: unknown): LineItem {
+  const data = asObject(item);
+  return {
+    description: asString(data.description),
+    quantity: asNumber(data.quantity),
+    unit_price: asNumber(data.unit_price),
+    vat_rate: toExtractedVATRate(data.vat_rate),
+    net: asNumber(data.net),
+    vat: asNumber(data.vat),
+    gross: asNumber(data.gross),
+  };
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asObject(value: unknown): JsonObject {
+  return isObject(value) ? value : {};
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value : value === null || value === undefined ? '' : String(value);
+}
+
+function asNumber(value: unknown): number {
+  const number = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(number) ? number : 0;
+}
+
+function withoutEmpty(data: JsonObject): JsonObject {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined && value !== null));
+}
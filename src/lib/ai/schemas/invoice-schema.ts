@@ -9,6 +9,7 @@
  */
 
 import { z } from 'zod';
+import { VAT_RATE_SYMBOLS } from '@/lib/vat-rates';
 
 // ============================================================================
 // Basic Types
@@ -20,13 +21,14 @@ import { z } from 'zod';
 export const CurrencySchema = z.enum(['PLN', 'EUR', 'USD']);
 
 /**
- * VAT rate enum schema (Polish VAT rates)
+ * VAT rate enum schema (Polish VAT rates, or the code of a line without a percentage)
  */
 export const VATRateSchema = z.union([
   z.literal(23),
   z.literal(8),
   z.literal(5),
   z.literal(0),
+  z.enum(VAT_RATE_SYMBOLS),
 ]);
 
 /**
@@ -97,6 +99,15 @@ export const ExtractedDataSchema = z.object({
   gross_amount: z.number().nonnegative('Gross amount must be non-negative'),
   line_items: z.array(LineItemSchema).min(0, 'Line items must be an array'),
   invoice_type: InvoiceTypeSchema,
+  bank_account: z.string().nullable().optional(),
+  vat_exemption: z
+    .object({
+      basis: z.enum(['A', 'B', 'C']),
+      description: z.string().min(1, 'Exemption basis is required'),
+    })
+    .nullable()
+    .optional(),
+  reverse_charge: z.boolean().optional(),
 });
 
 /**
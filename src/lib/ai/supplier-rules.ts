@@ -0,0 +1,320 @@
+/**
+ * Supplier Templates Learned from Reviewer Corrections
+ *
+ * Every field a reviewer fixes is recorded in correction_history with the
+ * seller NIP of the invoice. Corrections that recur on the same seller's
+ * invoices become rules for that seller:
+ * - value_mapping: the same wrong value is always corrected to the same value
+ * - invoice_number_format: corrected invoice numbers share one format
+ * - date_label: the corrected issue/due date is printed next to the same label
+ *   (e.g. the seller's "Data sprzedaży" rather than "Data wystawienia")
+ * - default_vat_rate: line items are corrected to the same VAT rate
+ *
+ * Rules are passed to the AI extraction as hints and applied to its result
+ * afterwards; the applied rules are stored with the extracted data so that
+ * reviewers can see what was changed and why.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { parseInvoiceDate } from './rule-extraction';
+import { toExtractedVATRate } from './schemas/extracted-data';
+import { formatVATRateCode, vatRatePercent } from '@/lib/vat-rates';
+import type { AppliedSupplierRule, ExtractedData, VATRate } from '@/types/ocr';
+
+/**
+ * correction_history row
+ */
+export type CorrectionRecord = {
+  field_name: string;
+  original_value: string | null;
+  corrected_value: string;
+  context?: { label?: string } | null;
+};
+
+export type DateField = 'issue_date' | 'due_date';
+
+export type SupplierRule =
+  | { kind: 'value_mapping'; field: string; from: string; to: string; occurrences: number }
+  | { kind: 'invoice_number_format'; pattern: string; example: string; occurrences: number }
+  | { kind: 'date_label'; field: DateField; label: string; occurrences: number }
+  | { kind: 'default_vat_rate'; vat_rate: VATRate; occurrences: number };
+
+/** A correction has to recur this often before it becomes a rule */
+const MIN_OCCURRENCES = 2;
+
+/** Most recent corrections of a seller taken into account */
+const CORRECTION_WINDOW = 200;
+
+const DATE_FIELDS: DateField[] = ['issue_date', 'due_date'];
+
+const LINE_VAT_RATE_FIELD = /^line_items\.\d+\.vat_rate$/;
+
+const DATE_TOKEN = /\b\d{4}[-./]\d{1,2}[-./]\d{1,2}\b|\b\d{1,2}[-./]\d{1,2}[-./]\d{4}\b/g;
+
+/**
+ * Seller NIP as stored with corrections: digits only, without the PL prefix
+ */
+export function toSupplierNip(nip: string | null | undefined): string | null {
+  const digits = (nip ?? '').replace(/^\s*PL/i, '').replace(/\D/g, '');
+  return digits.length > 0 ? digits : null;
+}
+
+/**
+ * Load the rules learned from the corrections of a seller's invoices
+ */
+export async function loadSupplierRules(
+  supabase: SupabaseClient,
+  tenantId: string,
+  nip: string | null | undefined
+): Promise<SupplierRule[]> {
+  const sellerNip = toSupplierNip(nip);
+  if (!sellerNip) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('correction_history')
+    .select('field_name, original_value, corrected_value, context')
+    .eq('tenant_id', tenantId)
+    .eq('seller_nip', sellerNip)
+    .order('created_at', { ascending: false })
+    .limit(CORRECTION_WINDOW);
+
+  if (error) {
+    throw new Error(`Failed to load corrections for seller ${sellerNip}: ${error.message}`);
+  }
+
+  return learnSupplierRules(data ?? []);
+}
+
+/**
+ * Turn the recurring corrections of one seller into rules
+ *
+ * Where the corrections of a field disagree, the most frequent outcome wins
+ * only if it accounts for more than half of them.
+ */
+export function learnSupplierRules(corrections: CorrectionRecord[]): SupplierRule[] {
+  const rules: SupplierRule[] = [];
+
+  // Same wrong value, same fix
+  const byOriginal = groupBy(
+    corrections.filter((correction) => correction.original_value),
+    (correction) => `${correction.field_name}\u0000${correction.original_value}`
+  );
+  for (const group of byOriginal.values()) {
+    const winner = majority(group.map((correction) => correction.corrected_value));
+    if (winner && winner.value !== group[0].original_value) {
+      rules.push({
+        kind: 'value_mapping',
+        field: group[0].field_name,
+        from: group[0].original_value as string,
+        to: winner.value,
+        occurrences: winner.count,
+      });
+    }
+  }
+
+  const numbers = corrections.filter((correction) => correction.field_name === 'invoice_number');
+  const format = majority(numbers.map((correction) => invoiceNumberPattern(correction.corrected_value)));
+  if (format) {
+    rules.push({
+      kind: 'invoice_number_format',
+      pattern: format.value,
+      example: numbers.find((correction) => invoiceNumberPattern(correction.corrected_value) === format.value)!
+        .corrected_value,
+      occurrences: format.count,
+    });
+  }
+
+  for (const field of DATE_FIELDS) {
+    const labels = corrections
+      .filter((correction) => correction.field_name === field && correction.context?.label)
+      .map((correction) => correction.context!.label as string);
+    const label = majority(labels);
+    if (label) {
+      rules.push({ kind: 'date_label', field, label: label.value, occurrences: label.count });
+    }
+  }
+
+  const rates = corrections
+    .filter((correction) => LINE_VAT_RATE_FIELD.test(correction.field_name))
+    .map((correction) => String(toExtractedVATRate(correction.corrected_value)));
+  const rate = majority(rates);
+  if (rate) {
+    rules.push({ kind: 'default_vat_rate', vat_rate: toExtractedVATRate(rate.value), occurrences: rate.count });
+  }
+
+  return rules;
+}
+
+/**
+ * What a rule does, for the extraction prompt and for reviewers
+ */
+export function describeSupplierRule(rule: SupplierRule): string {
+  switch (rule.kind) {
+    case 'value_mapping':
+      return `${rule.field} "${rule.from}" is corrected to "${rule.to}"`;
+    case 'invoice_number_format':
+      return `Invoice numbers follow the format of "${rule.example}"`;
+    case 'date_label':
+      return `${rule.field === 'issue_date' ? 'Issue date' : 'Due date'} is the date labelled "${rule.label}"`;
+    case 'default_vat_rate':
+      return `Line items are usually at ${formatVATRateCode(rule.vat_rate)} VAT`;
+  }
+}
+
+/**
+ * Hints for extractInvoiceData
+ */
+export function supplierRuleHints(rules: SupplierRule[]): string[] {
+  return rules.map(
+    (rule) => `${describeSupplierRule(rule)} (corrected by reviewers ${rule.occurrences} times)`
+  );
+}
+
+/**
+ * Apply the rules of a seller to extracted data
+ *
+ * @param ocrText - Raw OCR text, searched for invoice numbers and labelled dates
+ * @returns The corrected data and the rules that changed it
+ */
+export function applySupplierRules<T extends ExtractedData>(
+  data: T,
+  rules: SupplierRule[],
+  ocrText: string
+): { extracted_data: T; applied: AppliedSupplierRule[] } {
+  const applied: AppliedSupplierRule[] = [];
+  const result = structuredClone(data);
+  const fields = result as unknown as Record<string, unknown>;
+
+  const set = (rule: SupplierRule, field: string, to: unknown) => {
+    const from = getField(fields, field);
+    if (to === undefined || to === null || to === from) {
+      return;
+    }
+    setField(fields, field, to);
+    applied.push({ kind: rule.kind, field, from, to, description: describeSupplierRule(rule) });
+  };
+
+  for (const rule of rules) {
+    switch (rule.kind) {
+      case 'value_mapping':
+        if (String(getField(fields, rule.field) ?? '') === rule.from) {
+          set(rule, rule.field, coerce(getField(fields, rule.field), rule.to));
+        }
+        break;
+      case 'invoice_number_format': {
+        const format = new RegExp(`^${rule.pattern}$`);
+        if (!format.test(result.invoice_number)) {
+          const found = new RegExp(`(?<![\\w/-])${rule.pattern}(?![\\w/-])`).exec(ocrText);
+          set(rule, 'invoice_number', found?.[0]);
+        }
+        break;
+      }
+      case 'date_label':
+        set(rule, rule.field, findLabelledDate(ocrText, rule.label));
+        break;
+      case 'default_vat_rate':
+        result.line_items.forEach((item, index) => {
+          if (fitsRate(item, rule.vat_rate) && (!fitsRate(item, item.vat_rate) || vatRatePercent(item.vat_rate) === vatRatePercent(rule.vat_rate))) {
+            set(rule, `line_items.${index}.vat_rate`, rule.vat_rate);
+          }
+        });
+        break;
+    }
+  }
+
+  return { extracted_data: result, applied };
+}
+
+/**
+ * Label printed before a date in the OCR text ("data sprzedaży" for
+ * "Data sprzedaży: 01.10.2025"), recorded with a corrected date
+ */
+export function findDateLabel(ocrText: string, date: string): string | null {
+  for (const line of ocrText.split('\n')) {
+    for (const match of line.matchAll(DATE_TOKEN)) {
+      if (parseInvoiceDate(match[0]) !== date) {
+        continue;
+      }
+      // Only the field right before the date: "Warszawa, data sprzedaży:" → "data sprzedaży"
+      const label = line
+        .slice(0, match.index)
+        .split(/[,;|]|\s{2,}/)
+        .pop()
+        ?.replace(/[\s:.–-]+$/, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .toLowerCase();
+      if (label && /\p{L}/u.test(label)) {
+        return label;
+      }
+    }
+  }
+  return null;
+}
+
+function findLabelledDate(ocrText: string, label: string): string | null {
+  for (const line of ocrText.split('\n')) {
+    const index = line.toLowerCase().indexOf(label);
+    if (index >= 0) {
+      const date = parseInvoiceDate(line.slice(index + label.length));
+      if (date) {
+        return date;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Format of an invoice number as a pattern: digit runs may vary, the rest is literal
+ */
+function invoiceNumberPattern(value: string): string {
+  return value
+    .trim()
+    .split(/(\d+)/)
+    .filter(Boolean)
+    .map((part) => (/^\d+$/.test(part) ? '\\d+' : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+}
+
+function fitsRate(item: ExtractedData['line_items'][number], rate: VATRate): boolean {
+  return Math.abs(Math.round((item.net * vatRatePercent(rate)) / 100 * 100) - Math.round(item.vat * 100)) <= 1;
+}
+
+function majority(values: string[]): { value: string; count: number } | null {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  const [value, count] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+  return value !== undefined && count! >= MIN_OCCURRENCES && count! * 2 > values.length
+    ? { value, count: count! }
+    : null;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    groups.set(key(item), [...(groups.get(key(item)) ?? []), item]);
+  }
+  return groups;
+}
+
+function getField(data: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], data);
+}
+
+function setField(data: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  const parent = keys.slice(0, -1).reduce<unknown>((node, key) => (node as Record<string, unknown>)[key], data);
+  (parent as Record<string, unknown>)[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Corrections are stored as text; keep numbers numbers
+ */
+function coerce(current: unknown, value: string): unknown {
+  return typeof current === 'number' && Number.isFinite(Number(value)) ? Number(value) : value;
+}
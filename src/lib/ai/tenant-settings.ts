@@ -0,0 +1,51 @@
+/**
+ * Tenant AI Settings
+ * Loads and stores Tenant.settings.ai (LLM provider and per-task models)
+ *
+ * Other keys of Tenant.settings are left untouched.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { getTenantAiSettings, type TenantAiSettings } from './providers';
+
+const prisma = new PrismaClient();
+
+async function loadTenantSettings(tenantId: string): Promise<Record<string, unknown>> {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { settings: true },
+  });
+
+  if (!tenant) {
+    throw new Error('Tenant not found');
+  }
+
+  return typeof tenant.settings === 'object' && tenant.settings !== null
+    ? (tenant.settings as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * AI settings of a tenant
+ */
+export async function loadTenantAiSettings(tenantId: string): Promise<TenantAiSettings> {
+  return getTenantAiSettings(await loadTenantSettings(tenantId));
+}
+
+/**
+ * Replace the AI settings of a tenant
+ */
+export async function saveTenantAiSettings(
+  tenantId: string,
+  input: TenantAiSettings
+): Promise<TenantAiSettings> {
+  const settings = await loadTenantSettings(tenantId);
+  const ai = getTenantAiSettings({ ai: input });
+
+  await prisma.tenant.update({
+    where: { id: tenantId },
+    data: { settings: { ...settings, ai } },
+  });
+
+  return ai;
+}
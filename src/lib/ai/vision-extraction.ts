@@ -4,9 +4,10 @@
  * Uses GPT-4 Vision to do BOTH OCR and structured data extraction in one API call.
  * Much faster than Tesseract.js + GPT-4 separately (~5-10s vs 60s+).
  * Perfect for serverless environments with timeout constraints.
+ * Runs on the tenant's LLM provider when it has a vision model (see providers/).
  */
 
-import { getOpenAIClient } from './openai-client';
+import { getLlmProvider, type LlmProvider } from './providers';
 import type { AIExtractionResult } from '@/types/ocr';
 import { AIExtractionResponseSchema } from './schemas/invoice-schema';
 
@@ -34,7 +35,12 @@ Analyze this invoice image and extract ALL data into this exact JSON structure:
       "name": "string (nazwa nabywcy)",
       "nip": "string (10 digits, NIP nabywcy)",
       "address": "string (full address)"
-    }
+    },
+    "vat_exemption": {
+      "basis": "A (ustawa o VAT), B (dyrektywa 2006/112/WE) or C (inna podstawa)",
+      "description": "string (podstawa zwolnienia, e.g. art. 43 ust. 1 pkt 37 ustawy o VAT)"
+    } or null,
+    "reverse_charge": boolean (true if the invoice says "odwrotne obciążenie")
   },
   "confidence": {
     "overall": number (0-100, how confident you are),
@@ -58,64 +64,57 @@ Return ONLY the JSON, nothing else.`;
 /**
  * Extract invoice data using GPT-4 Vision (OCR + extraction in one call)
  *
- * @param imageBuffer - Invoice image as Buffer
+ * @param imageBuffer - Invoice image as Buffer, or one image per page of a multi-page invoice
+ * @param provider - LLM provider, defaults to LLM_PROVIDER
  * @returns Extracted data with confidence scores
+ * @throws Error when the provider is not configured or has no vision model
  */
 export async function extractInvoiceWithVision(
-  imageBuffer: Buffer
+  imageBuffer: Buffer | Buffer[],
+  provider: LlmProvider = getLlmProvider()
 ): Promise<AIExtractionResult> {
   const startTime = Date.now();
 
   try {
+    const pages = Array.isArray(imageBuffer) ? imageBuffer : [imageBuffer];
     console.log('[Vision Extraction] Starting GPT-4 Vision analysis...');
-    console.log('[Vision Extraction] Buffer size:', imageBuffer.length, 'bytes');
-
-    const openai = getOpenAIClient();
-
-    // Convert buffer to base64
-    const base64Image = imageBuffer.toString('base64');
-
-    // Detect file type from buffer header
-    let mimeType = 'image/jpeg';
-    if (imageBuffer[0] === 0x25 && imageBuffer[1] === 0x50 && imageBuffer[2] === 0x44 && imageBuffer[3] === 0x46) {
-      mimeType = 'application/pdf';
-      console.log('[Vision Extraction] Detected PDF file');
-    } else if (imageBuffer[0] === 0x89 && imageBuffer[1] === 0x50 && imageBuffer[2] === 0x4E && imageBuffer[3] === 0x47) {
-      mimeType = 'image/png';
-      console.log('[Vision Extraction] Detected PNG file');
-    } else {
-      console.log('[Vision Extraction] Detected JPEG file (or unknown, defaulting to JPEG)');
-    }
+    console.log('[Vision Extraction] Pages:', pages.length, 'buffer size:', pages.reduce((sum, page) => sum + page.length, 0), 'bytes');
 
-    const dataUrl = `data:${mimeType};base64,${base64Image}`;
-    console.log('[Vision Extraction] Data URL created with mime type:', mimeType);
+    if (!provider.isAvailable() || !provider.model('vision')) {
+      throw new Error(`The ${provider.name} LLM provider has no vision model configured`);
+    }
 
-    // Call GPT-4o (has vision capabilities built-in)
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
+    const imageParts = pages.map((page) => ({
+      type: 'image_url' as const,
+      image_url: {
+        url: toDataUrl(page),
+        detail: 'high' as const, // High detail for better OCR
+      },
+    }));
+
+    // Vision model (GPT-4o by default)
+    const response = await provider.chat({
+      task: 'vision',
       messages: [
         {
           role: 'user',
           content: [
             {
               type: 'text',
-              text: VISION_EXTRACTION_PROMPT,
-            },
-            {
-              type: 'image_url',
-              image_url: {
-                url: dataUrl,
-                detail: 'high', // High detail for better OCR
-              },
+              text:
+                pages.length > 1
+                  ? `${VISION_EXTRACTION_PROMPT}\n\nThe invoice has ${pages.length} pages, attached in order. Combine data from all pages.`
+                  : VISION_EXTRACTION_PROMPT,
             },
+            ...imageParts,
           ],
         },
       ],
-      max_tokens: 2000,
+      maxTokens: 2000,
       temperature: 0.1,
     });
 
-    const responseText = response.choices[0]?.message?.content;
+    const responseText = response.content;
     if (!responseText) {
       throw new Error('No response from GPT-4 Vision');
     }
@@ -127,20 +126,17 @@ export async function extractInvoiceWithVision(
     const validated = AIExtractionResponseSchema.parse(parsed);
 
     const duration = Date.now() - startTime;
-    const tokenUsage = {
-      prompt_tokens: response.usage?.prompt_tokens || 0,
-      completion_tokens: response.usage?.completion_tokens || 0,
-      total_tokens: response.usage?.total_tokens || 0,
-    };
+    const tokenUsage = response.usage;
 
     console.log(
-      `[Vision Extraction] Completed in ${duration}ms (${tokenUsage.total_tokens} tokens)`
+      `[Vision Extraction] Completed in ${duration}ms with ${response.provider}:${response.model} (${tokenUsage.total_tokens} tokens)`
     );
 
     return {
       extracted_data: validated.extracted_data,
       confidence_scores: validated.confidence,
       token_usage: tokenUsage,
+      llm_model: `${response.provider}:${response.model}`,
     };
   } catch (error) {
     console.error('[Vision Extraction] Failed:', error);
@@ -152,3 +148,21 @@ export async function extractInvoiceWithVision(
     throw new Error('Vision extraction failed with unknown error');
   }
 }
+
+/**
+ * Data URL for an image buffer, with the mime type detected from the file header
+ */
+function toDataUrl(imageBuffer: Buffer): string {
+  let mimeType = 'image/jpeg';
+  if (imageBuffer[0] === 0x25 && imageBuffer[1] === 0x50 && imageBuffer[2] === 0x44 && imageBuffer[3] === 0x46) {
+    mimeType = 'application/pdf';
+    console.log('[Vision Extraction] Detected PDF file');
+  } else if (imageBuffer[0] === 0x89 && imageBuffer[1] === 0x50 && imageBuffer[2] === 0x4E && imageBuffer[3] === 0x47) {
+    mimeType = 'image/png';
+    console.log('[Vision Extraction] Detected PNG file');
+  } else {
+    console.log('[Vision Extraction] Detected JPEG file (or unknown, defaulting to JPEG)');
+  }
+
+  return `data:${mimeType};base64,${imageBuffer.toString('base64')}`;
+}
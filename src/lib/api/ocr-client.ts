@@ -9,6 +9,7 @@ import type {
   OCRJobStatus,
   ExtractedData,
   ConfidenceScores,
+  AppliedSupplierRule,
 } from '@/types/ocr';
 
 /**
@@ -38,6 +39,7 @@ export interface OCRStatusResponse {
     ocr_confidence_overall: number;
     requires_review: boolean;
     raw_ocr_text: string;
+    applied_rules?: AppliedSupplierRule[];
   };
 
   // FAILED-specific
@@ -19,6 +19,12 @@ function getResendClient(): Resend {
   return resendClient;
 }
 
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
 export interface EmailOptions {
   to: string | string[];
   subject: string;
@@ -27,6 +33,7 @@ export interface EmailOptions {
   replyTo?: string;
   cc?: string | string[];
   bcc?: string | string[];
+  attachments?: EmailAttachment[];
 }
 
 export interface EmailResult {
@@ -108,6 +115,7 @@ class EmailService {
         replyTo: options.replyTo,
         cc: options.cc,
         bcc: options.bcc,
+        attachments: options.attachments,
       });
 
       if (response.error) {
@@ -9,10 +9,12 @@ import {
   ksefSubmissionEmail,
   manualReviewEmail,
   monthlyDigestEmail,
+  invoiceVisualisationEmail,
   type OCRCompletedEmailData,
   type KSeFSubmissionEmailData,
   type ManualReviewEmailData,
   type MonthlyDigestEmailData,
+  type InvoiceVisualisationEmailData,
 } from './templates';
 
 export interface NotificationPreferences {
@@ -93,6 +95,27 @@ export async function sendMonthlyDigestNotification(
   });
 }
 
+/**
+ * Send an invoice visualisation (PDF) to the invoice recipient
+ */
+export async function sendInvoiceVisualisationEmail(
+  email: string | string[],
+  data: InvoiceVisualisationEmailData,
+  attachment: { fileName: string; pdf: Buffer },
+  replyTo?: string
+) {
+  const subject = `Faktura ${data.invoiceNumber} - ${data.tenantName}`;
+  const html = invoiceVisualisationEmail(data);
+
+  return await emailService.sendEmail({
+    to: email,
+    subject,
+    html,
+    replyTo,
+    attachments: [{ filename: attachment.fileName, content: attachment.pdf, contentType: 'application/pdf' }],
+  });
+}
+
 /**
  * Send notification based on type and user preferences
  */
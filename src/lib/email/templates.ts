@@ -18,6 +18,7 @@ export interface KSeFSubmissionEmailData {
   ksefNumber?: string;
   success: boolean;
   errorMessage?: string;
+  retryCount?: number; // Set when automatic retries have stopped
   tenantName: string;
   invoiceUrl: string;
 }
@@ -44,6 +45,14 @@ export interface MonthlyDigestEmailData {
   dashboardUrl: string;
 }
 
+export interface InvoiceVisualisationEmailData {
+  invoiceNumber: string;
+  ksefNumber?: string;
+  senderName: string;
+  tenantName: string;
+  message?: string;
+}
+
 /**
  * Base email template with header and footer
  */
@@ -250,7 +259,9 @@ export function ksefSubmissionEmail(data: KSeFSubmissionEmailData): string {
       ❌ Błąd: ${data.errorMessage || 'Nieznany błąd'}
     </div>
 
-    <p>System automatycznie spróbuje ponownie za chwilę. Jeśli problem będzie się powtarzał, sprawdź dane faktury i spróbuj ponownie ręcznie.</p>
+    ${data.retryCount !== undefined
+      ? `<p>Automatyczne ponawianie zostało zatrzymane po ${data.retryCount} próbach. Sprawdź dane faktury i prześlij ją ponownie ręcznie.</p>`
+      : `<p>System automatycznie spróbuje ponownie za chwilę. Jeśli problem będzie się powtarzał, sprawdź dane faktury i spróbuj ponownie ręcznie.</p>`}
 
     <p>
       <a href="${data.invoiceUrl}" class="button">Zobacz szczegóły</a>
@@ -326,3 +337,37 @@ export function monthlyDigestEmail(data: MonthlyDigestEmailData): string {
 
   return baseTemplate(content);
 }
+
+/**
+ * Invoice Visualisation Email (PDF attached)
+ */
+export function invoiceVisualisationEmail(data: InvoiceVisualisationEmailData): string {
+  const content = `
+    <h2>Faktura ${escapeHtml(data.invoiceNumber)}</h2>
+    <p>Dzień dobry,</p>
+    <p>W załączniku przesyłamy wizualizację faktury <strong>${escapeHtml(data.invoiceNumber)}</strong> w formacie PDF.</p>
+
+    ${data.ksefNumber ? `
+    <div class="alert alert-success">
+      Numer KSeF: <strong>${escapeHtml(data.ksefNumber)}</strong>
+    </div>
+    <p>Fakturę można zweryfikować w KSeF, skanując kod QR umieszczony na wizualizacji.</p>
+    ` : ''}
+
+    ${data.message ? `<p>${escapeHtml(data.message).replace(/\n/g, '<br>')}</p>` : ''}
+
+    <p style="color: #666; font-size: 14px;">Nadawca: ${escapeHtml(data.senderName)} (${escapeHtml(data.tenantName)})</p>
+  `;
+
+  return baseTemplate(content);
+}
+
+// Free text entered by users ends up in the email body
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
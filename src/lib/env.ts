@@ -11,12 +11,29 @@ const optionalEnv: Record<string, string | undefined> = {
   NEXT_PUBLIC_APP_URL: process.env.NEXT_PUBLIC_APP_URL ?? "http://localhost:3000",
   WEIS_API_KEY: process.env.WEIS_API_KEY,
   OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+  LLM_PROVIDER: process.env.LLM_PROVIDER,
+  AZURE_OPENAI_ENDPOINT: process.env.AZURE_OPENAI_ENDPOINT,
+  AZURE_OPENAI_API_KEY: process.env.AZURE_OPENAI_API_KEY,
+  AZURE_OPENAI_DEPLOYMENT: process.env.AZURE_OPENAI_DEPLOYMENT,
+  LOCAL_LLM_BASE_URL: process.env.LOCAL_LLM_BASE_URL,
+  LOCAL_LLM_MODEL: process.env.LOCAL_LLM_MODEL,
+  EXTRACTION_MODE: process.env.EXTRACTION_MODE,
+  EXTRACTION_RULES_MIN_CONFIDENCE: process.env.EXTRACTION_RULES_MIN_CONFIDENCE,
   STRIPE_SECRET_KEY: process.env.STRIPE_SECRET_KEY,
   STRIPE_WEBHOOK_SECRET: process.env.STRIPE_WEBHOOK_SECRET,
   GOOGLE_OAUTH_CLIENT_ID: process.env.GOOGLE_OAUTH_CLIENT_ID,
   GOOGLE_OAUTH_CLIENT_SECRET: process.env.GOOGLE_OAUTH_CLIENT_SECRET,
+  OCR_PROVIDER: process.env.OCR_PROVIDER,
+  OCR_FALLBACK_PROVIDER: process.env.OCR_FALLBACK_PROVIDER,
+  OCR_PREPROCESS_PROFILES: process.env.OCR_PREPROCESS_PROFILES,
+  TESSERACT_LANG_PATH: process.env.TESSERACT_LANG_PATH,
   KSEF_CERTIFICATE_PATH: process.env.KSEF_CERTIFICATE_PATH,
   KSEF_CERTIFICATE_PASSWORD: process.env.KSEF_CERTIFICATE_PASSWORD,
+  KSEF_API_URL: process.env.KSEF_API_URL,
+  KSEF_AUTH_METHOD: process.env.KSEF_AUTH_METHOD,
+  KSEF_TOKEN: process.env.KSEF_TOKEN,
+  KSEF_PUBLIC_KEY: process.env.KSEF_PUBLIC_KEY,
+  KSEF_SETTINGS_ENCRYPTION_KEY: process.env.KSEF_SETTINGS_ENCRYPTION_KEY,
 };
 
 // Direct access to environment variables (required for Next.js webpack replacement)
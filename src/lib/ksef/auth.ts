@@ -0,0 +1,200 @@
+/**
+ * KSeF Session Authentication
+ * XML builders and parsers for the token-based session initialisation flow
+ *
+ * Flow:
+ * 1. POST /online/Session/AuthorisationChallenge → challenge + server timestamp
+ * 2. Encrypt "<token>|<challenge timestamp in ms>" with the Ministry of Finance public key
+ * 3. POST /online/Session/InitToken with InitSessionTokenRequest XML
+ * 4. Parse the SessionToken from the InitSessionResponse
+ *
+ * Certificate mode replaces steps 2-3 with an XAdES-signed InitSessionSignedRequest
+ * sent to POST /online/Session/InitSigned.
+ */
+
+import { constants, publicEncrypt } from 'crypto';
+import { XMLParser } from 'fast-xml-parser';
+import type { KSeFCertificate } from './certificate';
+import type { KSeFAuthorisationChallenge, KSeFSessionToken } from './types';
+import { signEnveloped } from './xades';
+import { element, serializeCanonical, type XmlElement } from './xml-c14n';
+
+export const KSEF_AUTH_NAMESPACES = {
+  onlineTypes: 'http://ksef.mf.gov.pl/schema/gtw/svc/online/types/2021/10/01/0001',
+  types: 'http://ksef.mf.gov.pl/schema/gtw/svc/types/2021/10/01/0001',
+  authRequest: 'http://ksef.mf.gov.pl/schema/gtw/svc/online/auth/request/2021/10/01/0001',
+  xsi: 'http://www.w3.org/2001/XMLSchema-instance',
+} as const;
+
+/**
+ * Form code announced in the session context (must match the documents sent in the session)
+ */
+export const FA3_FORM_CODE = {
+  systemCode: 'FA (3)',
+  schemaVersion: '1-0E',
+  targetNamespace: 'http://crd.gov.pl/wzor/2025/06/25/13775/',
+  value: 'FA',
+} as const;
+
+// Used when the server does not announce when the session expires
+export const DEFAULT_SESSION_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Encrypt the KSeF authorisation token for InitToken
+ * KSeF expects base64(RSA-PKCS#1 v1.5("<token>|<challengeTimestampMillis>"))
+ */
+export function encryptAuthorisationToken(
+  token: string,
+  challengeTimestamp: Date,
+  publicKeyPem: string
+): string {
+  const payload = Buffer.from(`${token}|${challengeTimestamp.getTime()}`, 'utf8');
+  const encrypted = publicEncrypt(
+    { key: publicKeyPem, padding: constants.RSA_PKCS1_PADDING },
+    payload
+  );
+  return encrypted.toString('base64');
+}
+
+/**
+ * Build the session context shared by token and signed session requests
+ */
+export function buildSessionContext(challenge: string, nip: string): XmlElement[] {
+  return [
+    element('Challenge', challenge),
+    element(
+      'Identifier',
+      [element('ns2:Identifier', nip.replace(/[^0-9]/g, ''))],
+      { 'xsi:type': 'ns2:SubjectIdentifierByCompanyType' },
+      { xsi: KSEF_AUTH_NAMESPACES.xsi }
+    ),
+    element('DocumentType', [
+      element('ns2:Service', 'KSeF'),
+      element('ns2:FormCode', [
+        element('ns2:SystemCode', FA3_FORM_CODE.systemCode),
+        element('ns2:SchemaVersion', FA3_FORM_CODE.schemaVersion),
+        element('ns2:TargetNamespace', FA3_FORM_CODE.targetNamespace),
+        element('ns2:Value', FA3_FORM_CODE.value),
+      ]),
+    ]),
+  ];
+}
+
+function buildSessionRequest(rootName: string, context: XmlElement[]): XmlElement {
+  return element(rootName, [element('ns3:Context', context)], undefined, {
+    '': KSEF_AUTH_NAMESPACES.onlineTypes,
+    ns2: KSEF_AUTH_NAMESPACES.types,
+    ns3: KSEF_AUTH_NAMESPACES.authRequest,
+  });
+}
+
+/**
+ * Build InitSessionTokenRequest XML
+ */
+export function buildInitSessionTokenRequest(params: {
+  challenge: string;
+  nip: string;
+  encryptedToken: string;
+}): string {
+  const request = buildSessionRequest('ns3:InitSessionTokenRequest', [
+    ...buildSessionContext(params.challenge, params.nip),
+    element('Token', params.encryptedToken),
+  ]);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${serializeCanonical(request)}`;
+}
+
+/**
+ * Build InitSessionSignedRequest XML signed with XAdES-BES
+ */
+export function buildInitSessionSignedRequest(params: {
+  challenge: string;
+  nip: string;
+  certificate: KSeFCertificate;
+  signingTime?: Date;
+}): string {
+  const request = buildSessionRequest(
+    'ns3:InitSessionSignedRequest',
+    buildSessionContext(params.challenge, params.nip)
+  );
+
+  return signEnveloped(request, params.certificate, { signingTime: params.signingTime });
+}
+
+/**
+ * Parse AuthorisationChallenge JSON response
+ */
+export function parseAuthorisationChallenge(data: {
+  challenge?: string;
+  timestamp?: string;
+}): KSeFAuthorisationChallenge {
+  if (!data.challenge || !data.timestamp) {
+    throw new Error('KSeF returned an incomplete authorisation challenge');
+  }
+
+  const timestamp = new Date(data.timestamp);
+  if (Number.isNaN(timestamp.getTime())) {
+    throw new Error(`Invalid challenge timestamp: ${data.timestamp}`);
+  }
+
+  return {
+    challenge: data.challenge,
+    timestamp,
+  };
+}
+
+/**
+ * Parse InitSessionResponse XML into a session token
+ *
+ * Expected structure (namespace prefixes are ignored):
+ * <InitSessionResponse>
+ *   <Timestamp/>
+ *   <ReferenceNumber/>
+ *   <SessionToken>
+ *     <Token/>
+ *     <ExpirationTime/>   (optional)
+ *   </SessionToken>
+ * </InitSessionResponse>
+ */
+export function parseInitSessionResponse(xml: string, now = new Date()): KSeFSessionToken {
+  const parser = new XMLParser({
+    removeNSPrefix: true,
+    ignoreAttributes: true,
+    parseTagValue: false,
+    trimValues: true,
+  });
+
+  const parsed = parser.parse(xml) as {
+    InitSessionResponse?: {
+      Timestamp?: string;
+      ReferenceNumber?: string;
+      SessionToken?: {
+        Token?: string;
+        ExpirationTime?: string;
+      };
+    };
+  };
+
+  const response = parsed.InitSessionResponse;
+  const token = response?.SessionToken?.Token;
+  const referenceNumber = response?.ReferenceNumber;
+
+  if (!token || !referenceNumber) {
+    throw new Error('KSeF session response is missing SessionToken or ReferenceNumber');
+  }
+
+  const expirationTime = response.SessionToken?.ExpirationTime;
+  const expiresAt = expirationTime
+    ? new Date(expirationTime)
+    : new Date(now.getTime() + DEFAULT_SESSION_TTL_MS);
+
+  if (Number.isNaN(expiresAt.getTime())) {
+    throw new Error(`Invalid session expiration time: ${expirationTime}`);
+  }
+
+  return {
+    token,
+    expiresAt,
+    sessionId: referenceNumber,
+  };
+}
@@ -0,0 +1,323 @@
+/**
+ * KSeF Batch (wsadowa) Sessions
+ * Packaging, encryption and XML builders/parsers for batch submission
+ *
+ * Flow:
+ * 1. Zip the FA(3) documents, split the archive into parts and encrypt every part
+ *    with AES-256-CBC under a one-off key
+ * 2. POST /batch/Init with an XAdES-signed InitRequest describing the package, its
+ *    parts and the AES key encrypted with the Ministry of Finance public key
+ * 3. PUT each encrypted part to the upload URL returned for it
+ * 4. POST /batch/Finish with the session reference number
+ * 5. Poll GET /common/Status/{referenceNumber}; once processed, the UPO lists the
+ *    KSeF number of every accepted document
+ *
+ * Batch sessions are not tied to an online session: the signed InitRequest is the
+ * authorisation, so a qualified seal/signature certificate is required.
+ */
+
+import { constants, createCipheriv, createHash, publicEncrypt, randomBytes } from 'crypto';
+import JSZip from 'jszip';
+import { XMLParser } from 'fast-xml-parser';
+import { FA3_FORM_CODE, KSEF_AUTH_NAMESPACES } from './auth';
+import type { KSeFCertificate } from './certificate';
+import type {
+  KSeFBatchDocument,
+  KSeFBatchDocumentResult,
+  KSeFBatchPackage,
+  KSeFBatchStatus,
+  KSeFBatchUpload,
+} from './types';
+import { signEnveloped } from './xades';
+import { element, serializeCanonical } from './xml-c14n';
+
+export const KSEF_BATCH_NAMESPACES = {
+  types: 'http://ksef.mf.gov.pl/schema/gtw/svc/batch/types/2021/10/01/0001',
+  initRequest: 'http://ksef.mf.gov.pl/schema/gtw/svc/batch/init/request/2021/10/01/0001',
+  finishRequest: 'http://ksef.mf.gov.pl/schema/gtw/svc/batch/finish/request/2021/10/01/0001',
+} as const;
+
+// KSeF accepts parts of up to 50 MB
+export const DEFAULT_BATCH_PART_SIZE = 50 * 1024 * 1024;
+
+function sha256Base64(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('base64');
+}
+
+/**
+ * SHA-256 (base64) of an FA(3) document, as reported in the batch UPO (SkrotDokumentu)
+ */
+export function hashBatchDocument(content: string): string {
+  return sha256Base64(Buffer.from(content, 'utf8'));
+}
+
+/**
+ * Zip, split and encrypt documents into a batch package
+ */
+export async function buildBatchPackage(
+  documents: KSeFBatchDocument[],
+  options: { partSize?: number; fileName?: string } = {}
+): Promise<KSeFBatchPackage> {
+  if (documents.length === 0) {
+    throw new Error('A KSeF batch needs at least one document');
+  }
+
+  const zip = new JSZip();
+  for (const document of documents) {
+    zip.file(document.fileName, document.content);
+  }
+  const archive = await zip.generateAsync({
+    type: 'nodebuffer',
+    compression: 'DEFLATE',
+  });
+
+  const fileName = options.fileName ?? 'batch.zip';
+  const partSize = options.partSize ?? DEFAULT_BATCH_PART_SIZE;
+  const encryptionKey = randomBytes(32);
+  const iv = randomBytes(16);
+
+  const parts = [];
+  for (let offset = 0, ordinalNumber = 1; offset < archive.length; offset += partSize, ordinalNumber++) {
+    const cipher = createCipheriv('aes-256-cbc', encryptionKey, iv);
+    const content = Buffer.concat([
+      cipher.update(archive.subarray(offset, offset + partSize)),
+      cipher.final(),
+    ]);
+    parts.push({
+      ordinalNumber,
+      fileName: `${fileName}.${String(ordinalNumber).padStart(3, '0')}.aes`,
+      content,
+      hash: sha256Base64(content),
+      size: content.length,
+    });
+  }
+
+  return {
+    fileName,
+    hash: sha256Base64(archive),
+    size: archive.length,
+    parts,
+    encryptionKey,
+    iv,
+  };
+}
+
+function fileHash(hash: string, size: number) {
+  return [
+    element('HashSHA', [
+      element('Algorithm', 'SHA-256'),
+      element('Encoding', 'Base64'),
+      element('Value', hash),
+    ]),
+    element('FileSize', size.toString()),
+  ];
+}
+
+/**
+ * Build the XAdES-signed InitRequest for a batch package
+ * The AES key is encrypted with the Ministry of Finance public key (RSA PKCS#1 v1.5).
+ */
+export function buildBatchInitRequest(params: {
+  nip: string;
+  batchPackage: KSeFBatchPackage;
+  publicKey: string;
+  certificate: KSeFCertificate;
+  signingTime?: Date;
+}): string {
+  const { batchPackage } = params;
+  const encryptedKey = publicEncrypt(
+    { key: params.publicKey, padding: constants.RSA_PKCS1_PADDING },
+    batchPackage.encryptionKey
+  );
+
+  const request = element(
+    'ns3:InitRequest',
+    [
+      element(
+        'ns3:Identifier',
+        [element('Identifier', params.nip.replace(/[^0-9]/g, ''))],
+        { 'xsi:type': 'SubjectIdentifierByCompanyType' },
+        { xsi: KSEF_AUTH_NAMESPACES.xsi }
+      ),
+      element('ns3:DocumentType', [
+        element('Service', 'KSeF'),
+        element('FormCode', [
+          element('SystemCode', FA3_FORM_CODE.systemCode),
+          element('SchemaVersion', FA3_FORM_CODE.schemaVersion),
+          element('TargetNamespace', FA3_FORM_CODE.targetNamespace),
+          element('Value', FA3_FORM_CODE.value),
+        ]),
+      ]),
+      element('ns3:Encryption', [
+        element('ns2:EncryptionKey', [
+          element('Encoding', 'Base64'),
+          element('Algorithm', 'AES'),
+          element('Size', '256'),
+          element('Value', encryptedKey.toString('base64')),
+        ]),
+        element('ns2:EncryptionInitializationVector', [
+          element('Encoding', 'Base64'),
+          element('Bytes', batchPackage.iv.length.toString()),
+          element('Value', batchPackage.iv.toString('base64')),
+        ]),
+        element('ns2:EncryptionAlgorithmKey', [
+          element('Algorithm', 'RSA'),
+          element('Mode', 'ECB'),
+          element('Padding', 'PKCS#1'),
+        ]),
+        element('ns2:EncryptionAlgorithmData', [
+          element('Algorithm', 'AES'),
+          element('Mode', 'CBC'),
+          element('Padding', 'PKCS#7'),
+        ]),
+      ]),
+      element('ns3:PackageSignature', [
+        element('ns2:Package', [
+          element('ns2:PackageType', batchPackage.parts.length > 1 ? 'split' : 'single'),
+          element('ns2:CompressionType', 'zip'),
+          element('ns2:Value', batchPackage.fileName),
+        ]),
+        element('ns2:PackageFileHash', fileHash(batchPackage.hash, batchPackage.size)),
+        element(
+          'ns2:PackagePartsList',
+          batchPackage.parts.map((part) =>
+            element('ns2:PackagePartSignature', [
+              element('ns2:OrdinalNumber', part.ordinalNumber.toString()),
+              element('ns2:PartFileName', part.fileName),
+              element('ns2:PartFileHash', fileHash(part.hash, part.size)),
+            ])
+          )
+        ),
+      ]),
+    ],
+    undefined,
+    {
+      '': KSEF_AUTH_NAMESPACES.types,
+      ns2: KSEF_BATCH_NAMESPACES.types,
+      ns3: KSEF_BATCH_NAMESPACES.initRequest,
+    }
+  );
+
+  return signEnveloped(request, params.certificate, { signingTime: params.signingTime });
+}
+
+/**
+ * Build the FinishRequest closing a batch session
+ */
+export function buildBatchFinishRequest(referenceNumber: string): string {
+  const request = element(
+    'ns3:FinishRequest',
+    [element('ns3:ReferenceNumber', referenceNumber)],
+    undefined,
+    { ns3: KSEF_BATCH_NAMESPACES.finishRequest }
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${serializeCanonical(request)}`;
+}
+
+/**
+ * Parse the /batch/Init JSON response into a reference number and part upload targets
+ */
+export function parseBatchInitResponse(data: {
+  referenceNumber?: string;
+  timestamp?: string;
+  packageSignature?: {
+    packagePartSignatureList?: Array<{
+      ordinalNumber: number;
+      partFileName: string;
+      url: string;
+      method?: string;
+      headerEntryList?: Array<{ key: string; value: string }>;
+    }>;
+  };
+}): { referenceNumber: string; timestamp: Date; uploads: KSeFBatchUpload[] } {
+  const parts = data.packageSignature?.packagePartSignatureList;
+  if (!data.referenceNumber || !parts?.length) {
+    throw new Error('KSeF batch init response is missing the reference number or part upload list');
+  }
+
+  return {
+    referenceNumber: data.referenceNumber,
+    timestamp: data.timestamp ? new Date(data.timestamp) : new Date(),
+    uploads: parts.map((part) => ({
+      ordinalNumber: part.ordinalNumber,
+      fileName: part.partFileName,
+      url: part.url,
+      method: part.method ?? 'PUT',
+      headers: Object.fromEntries((part.headerEntryList ?? []).map((h) => [h.key, h.value])),
+    })),
+  };
+}
+
+/**
+ * Parse the accepted documents from a batch UPO
+ *
+ * Expected structure (namespace prefixes are ignored):
+ * <Potwierdzenie>
+ *   <Dokument>
+ *     <NumerKSeFDokumentu/>
+ *     <NumerFaktury/>
+ *     <DataNadaniaNumeruKSeF/>
+ *     <SkrotDokumentu/>   (SHA-256 of the document, base64)
+ *   </Dokument>
+ * </Potwierdzenie>
+ */
+export function parseBatchUpo(xml: string): KSeFBatchDocumentResult[] {
+  const parser = new XMLParser({
+    removeNSPrefix: true,
+    ignoreAttributes: true,
+    parseTagValue: false,
+    trimValues: true,
+    isArray: (name) => name === 'Dokument',
+  });
+
+  const parsed = parser.parse(xml) as {
+    Potwierdzenie?: {
+      Dokument?: Array<{
+        NumerKSeFDokumentu?: string;
+        NumerFaktury?: string;
+        DataNadaniaNumeruKSeF?: string;
+        SkrotDokumentu?: string;
+      }>;
+    };
+  };
+
+  return (parsed.Potwierdzenie?.Dokument ?? [])
+    .filter((document) => document.NumerKSeFDokumentu && document.SkrotDokumentu)
+    .map((document) => ({
+      ksefNumber: document.NumerKSeFDokumentu!,
+      invoiceNumber: document.NumerFaktury,
+      documentHash: document.SkrotDokumentu!,
+      acquisitionDate: document.DataNadaniaNumeruKSeF
+        ? new Date(document.DataNadaniaNumeruKSeF)
+        : undefined,
+    }));
+}
+
+/**
+ * Parse the /common/Status JSON response of a batch session
+ * processingCode 200 means processed; codes from 400 up mean the batch failed.
+ */
+export function parseBatchStatus(data: {
+  referenceNumber?: string;
+  processingCode?: number;
+  processingDescription?: string;
+  upo?: string;
+}): KSeFBatchStatus {
+  if (!data.referenceNumber || typeof data.processingCode !== 'number') {
+    throw new Error('KSeF batch status response is missing the reference number or processing code');
+  }
+
+  const upo = data.upo ? Buffer.from(data.upo, 'base64').toString('utf8') : undefined;
+  const status =
+    data.processingCode === 200 ? 'PROCESSED' : data.processingCode >= 400 ? 'FAILED' : 'PROCESSING';
+
+  return {
+    referenceNumber: data.referenceNumber,
+    status,
+    processingCode: data.processingCode,
+    processingDescription: data.processingDescription,
+    documents: status === 'PROCESSED' && upo ? parseBatchUpo(upo) : [],
+    upo,
+  };
+}
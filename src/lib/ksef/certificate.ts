@@ -0,0 +1,93 @@
+/**
+ * KSeF Certificate Loading
+ * Reads PKCS#12 (.p12/.pfx) containers holding a qualified seal/signature
+ * certificate and its private key for XAdES session authentication
+ */
+
+import { createPrivateKey, X509Certificate, type KeyObject } from 'crypto';
+import { readFile } from 'fs/promises';
+import forge from 'node-forge';
+
+export interface KSeFCertificate {
+  certificate: X509Certificate;
+  privateKey: KeyObject;
+}
+
+export interface KSeFCertificateSource {
+  path?: string; // Path to .p12/.pfx file
+  data?: Buffer | string; // Raw container or base64 encoded container
+  password?: string;
+}
+
+function toBuffer(bytes: string): Buffer {
+  return Buffer.from(bytes, 'binary');
+}
+
+/**
+ * Parse a PKCS#12 container
+ *
+ * RSA and EC keys are supported. node-forge only decodes RSA keys itself, so keys
+ * are re-encoded as PKCS#8 and handed to Node's crypto module.
+ */
+export function parsePkcs12(data: Buffer, password = ''): KSeFCertificate {
+  let p12: forge.pkcs12.Pkcs12Pfx;
+  try {
+    const asn1 = forge.asn1.fromDer(forge.util.createBuffer(data.toString('binary')));
+    p12 = forge.pkcs12.pkcs12FromAsn1(asn1, password);
+  } catch (error) {
+    throw new Error(
+      `Unable to read PKCS#12 certificate: ${error instanceof Error ? error.message : 'invalid file or password'}`
+    );
+  }
+
+  const keyBags = [
+    ...(p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag] ?? []),
+    ...(p12.getBags({ bagType: forge.pki.oids.keyBag })[forge.pki.oids.keyBag] ?? []),
+  ];
+  const certBags = p12.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] ?? [];
+
+  const keyBag = keyBags[0];
+  if (!keyBag) {
+    throw new Error('PKCS#12 certificate does not contain a private key');
+  }
+
+  const keyInfo = keyBag.key
+    ? forge.pki.wrapRsaPrivateKey(forge.pki.privateKeyToAsn1(keyBag.key))
+    : keyBag.asn1;
+  const privateKey = createPrivateKey({
+    key: toBuffer(forge.asn1.toDer(keyInfo).getBytes()),
+    format: 'der',
+    type: 'pkcs8',
+  });
+
+  // Pick the certificate that matches the private key (containers may carry the CA chain)
+  const certificate = certBags
+    .map((bag) => {
+      const certAsn1 = bag.cert ? forge.pki.certificateToAsn1(bag.cert) : bag.asn1;
+      return certAsn1 ? new X509Certificate(toBuffer(forge.asn1.toDer(certAsn1).getBytes())) : null;
+    })
+    .find((cert) => cert?.checkPrivateKey(privateKey));
+
+  if (!certificate) {
+    throw new Error('PKCS#12 certificate does not contain a certificate matching the private key');
+  }
+
+  return { certificate, privateKey };
+}
+
+/**
+ * Load a KSeF certificate from a file path or inline data
+ */
+export async function loadKSeFCertificate(source: KSeFCertificateSource): Promise<KSeFCertificate> {
+  let data: Buffer;
+
+  if (source.data) {
+    data = typeof source.data === 'string' ? Buffer.from(source.data, 'base64') : source.data;
+  } else if (source.path) {
+    data = await readFile(source.path);
+  } else {
+    throw new Error('KSeF certificate is not configured');
+  }
+
+  return parsePkcs12(data, source.password);
+}
@@ -3,9 +3,33 @@
  * Handles communication with Polish National e-Invoice System
  */
 
+import {
+  buildInitSessionSignedRequest,
+  buildInitSessionTokenRequest,
+  encryptAuthorisationToken,
+  parseAuthorisationChallenge,
+  parseInitSessionResponse,
+} from './auth';
+import {
+  buildBatchFinishRequest,
+  buildBatchInitRequest,
+  buildBatchPackage,
+  parseBatchInitResponse,
+  parseBatchStatus,
+} from './batch';
+import { loadKSeFCertificate, type KSeFCertificate } from './certificate';
 import type {
+  KSeFAuthMethod,
+  KSeFAuthorisationChallenge,
+  KSeFBatchDocument,
+  KSeFBatchSession,
+  KSeFBatchStatus,
+  KSeFClientOptions,
   KSeFConfig,
   KSeFEnvironment,
+  KSeFInvoiceHeader,
+  KSeFInvoiceQuery,
+  KSeFInvoiceQueryPage,
   KSeFSessionToken,
   KSeFSubmissionResponse,
   KSeFInvoiceStatus,
@@ -13,82 +37,79 @@ import type {
   KSeFError,
 } from './types';
 
-const KSEF_URLS = {
-  test: 'https://ksef-test.mf.gov.pl',
-  production: 'https://ksef.mf.gov.pl',
-  demo: 'https://ksef-demo.mf.gov.pl',
+export const KSEF_URLS = {
+  test: 'https://ksef-test.mf.gov.pl/api',
+  production: 'https://ksef.mf.gov.pl/api',
+  demo: 'https://ksef-demo.mf.gov.pl/api',
 } as const;
 
-// Note: The actual KSeF API endpoints require:
-// 1. XML-based requests (not JSON)
-// 2. Certificate-based authentication for production
-// 3. Proper namespace declarations in XML
-//
-// Example endpoints:
-// - POST /api/online/Session/InitToken
-// - POST /api/online/Invoice/Send
-// - GET /api/online/Invoice/Status/{invoiceId}
-// - GET /api/online/Invoice/Upo/{ksefNumber}
+// Refresh the session slightly before the server-side expiry
+const SESSION_EXPIRY_MARGIN_MS = 30 * 1000;
+
+// Endpoints:
+// - POST /online/Session/AuthorisationChallenge
+// - POST /online/Session/InitToken
+// - POST /online/Session/InitSigned
+// - POST /online/Invoice/Send
+// - GET /online/Invoice/Status/{elementReferenceNumber}
+// - GET /online/Invoice/Upo/{ksefNumber}
+// - POST /online/Query/Invoice/Sync?PageSize={n}&PageOffset={n}
+// - GET /online/Invoice/Get/{ksefNumber}
+// - POST /batch/Init
+// - PUT /batch/Upload/{referenceNumber}/{partFileName} (URL returned by /batch/Init)
+// - POST /batch/Finish
+// - GET /common/Status/{referenceNumber}
 
 export class KSeFClient {
   private config: KSeFConfig;
   private sessionToken: KSeFSessionToken | null = null;
+  private fetchImpl: typeof fetch;
 
-  constructor(environment: KSeFEnvironment = 'test', nip: string) {
+  constructor(
+    environment: KSeFEnvironment = 'test',
+    nip: string,
+    options: KSeFClientOptions = {}
+  ) {
     this.config = {
       environment,
-      apiUrl: KSEF_URLS[environment],
+      apiUrl: (options.apiUrl ?? KSEF_URLS[environment]).replace(/\/$/, ''),
+      authMethod: options.authMethod ?? 'token',
+      token: options.token,
+      publicKey: options.publicKey ?? process.env.KSEF_PUBLIC_KEY,
+      certificatePath: options.certificatePath,
+      certificatePassword: options.certificatePassword,
+      certificateData: options.certificateData,
       nip,
     };
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
   }
 
   /**
    * Authenticate with KSeF and obtain session token
    *
-   * IMPORTANT: This is a MOCK implementation for development.
-   * The real KSeF API requires:
-   * 1. XML-based requests (not JSON)
-   * 2. Digital certificate authentication (.pfx/.p12 files)
-   * 3. Proper XML namespaces and structure
+   * Requests an authorisation challenge and initialises an online session with either:
+   * - token: the tenant's KSeF token encrypted with the Ministry of Finance public key
+   *   (InitSessionTokenRequest)
+   * - certificate: an XAdES-signed InitSessionSignedRequest using the tenant's
+   *   qualified seal/signature certificate (.p12/.pfx)
    *
-   * To implement real authentication, you need to:
-   * - Load the digital certificate
-   * - Create an XML InitSessionTokenRequest
-   * - Sign the request with the certificate
-   * - Send as application/octet-stream
-   *
-   * See: https://github.com/ksef4dev/sample-requests for real examples
+   * The session expiry announced by the server is honoured.
    */
   async authenticate(): Promise<KSeFSessionToken> {
     try {
-      // MOCK IMPLEMENTATION - Replace with real XML-based authentication
-      const response = await fetch(`${this.config.apiUrl}/online/Session/InitToken`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          context: {
-            challenge: await this.generateChallenge(),
-            identifier: {
-              type: 'onip',
-              identifier: this.config.nip,
-            },
-          },
-        }),
-      });
+      const response =
+        this.config.authMethod === 'certificate'
+          ? await this.initSignedSession()
+          : await this.initTokenSession();
 
       if (!response.ok) {
-        throw new Error(`KSeF authentication failed: ${response.statusText}`);
+        throw {
+          code: response.status.toString(),
+          message: `KSeF authentication failed: ${response.status} ${response.statusText}`,
+        } satisfies KSeFError;
       }
 
-      const data = await response.json();
-
-      this.sessionToken = {
-        token: data.sessionToken.token,
-        expiresAt: new Date(Date.now() + 3600000), // 1 hour
-        sessionId: data.sessionToken.sessionId,
-      };
+      this.sessionToken = parseInitSessionResponse(await response.text());
 
       return this.sessionToken;
     } catch (error) {
@@ -96,20 +117,40 @@ export class KSeFClient {
     }
   }
 
+  /**
+   * Auth method in use for this client
+   */
+  getAuthMethod(): KSeFAuthMethod {
+    return this.config.authMethod;
+  }
+
+  /**
+   * Current session (if authenticated)
+   */
+  getSession(): KSeFSessionToken | null {
+    return this.sessionToken;
+  }
+
   /**
    * Submit invoice to KSeF
+   *
+   * @param options.offlineMode - The invoice was issued offline (with KOD I / KOD II) and is uploaded late
    */
-  async submitInvoice(fa3Xml: string): Promise<KSeFSubmissionResponse> {
+  async submitInvoice(
+    fa3Xml: string,
+    options: { offlineMode?: boolean } = {}
+  ): Promise<KSeFSubmissionResponse> {
     await this.ensureAuthenticated();
 
     try {
-      const response = await fetch(
+      const response = await this.fetchImpl(
         `${this.config.apiUrl}/online/Invoice/Send`,
         {
           method: 'POST',
           headers: {
             'Content-Type': 'application/xml',
             'SessionToken': this.sessionToken!.token,
+            ...(options.offlineMode && { 'OfflineMode': 'true' }),
           },
           body: fa3Xml,
         }
@@ -129,10 +170,10 @@ export class KSeFClient {
 
       const data = await response.json();
 
+      // KSeF assigns the KSeF number asynchronously - poll getInvoiceStatus()
       return {
         success: true,
-        ksefNumber: data.elementReferenceNumber,
-        referenceNumber: data.processingCode,
+        referenceNumber: data.elementReferenceNumber,
         timestamp: new Date(data.timestamp),
       };
     } catch (error) {
@@ -145,13 +186,14 @@ export class KSeFClient {
 
   /**
    * Check invoice status in KSeF
+   * The KSeF number is returned once the invoice has been accepted.
    */
-  async getInvoiceStatus(ksefNumber: string): Promise<KSeFInvoiceStatus> {
+  async getInvoiceStatus(referenceNumber: string): Promise<KSeFInvoiceStatus> {
     await this.ensureAuthenticated();
 
     try {
-      const response = await fetch(
-        `${this.config.apiUrl}/online/Invoice/Status/${ksefNumber}`,
+      const response = await this.fetchImpl(
+        `${this.config.apiUrl}/online/Invoice/Status/${referenceNumber}`,
         {
           method: 'GET',
           headers: {
@@ -166,11 +208,24 @@ export class KSeFClient {
 
       const data = await response.json();
 
+      const status = this.mapStatus(data.processingCode);
+
       return {
-        ksefNumber,
-        status: this.mapStatus(data.processingCode),
+        referenceNumber,
+        ksefNumber: data.invoiceStatus?.ksefReferenceNumber,
+        status,
+        processingCode: data.processingCode,
+        processingDescription: data.processingDescription,
         upoUrl: data.upo?.url,
-        processingDate: data.timestamp ? new Date(data.timestamp) : undefined,
+        processingDate: data.invoiceStatus?.acquisitionTimestamp
+          ? new Date(data.invoiceStatus.acquisitionTimestamp)
+          : data.timestamp ? new Date(data.timestamp) : undefined,
+        error: status === 'REJECTED'
+          ? {
+              code: String(data.processingCode),
+              message: data.processingDescription || 'Invoice rejected by KSeF',
+            }
+          : undefined,
       };
     } catch (error) {
       throw this.handleError(error);
@@ -184,7 +239,7 @@ export class KSeFClient {
     await this.ensureAuthenticated();
 
     try {
-      const response = await fetch(
+      const response = await this.fetchImpl(
         `${this.config.apiUrl}/online/Invoice/Upo/${ksefNumber}`,
         {
           method: 'GET',
@@ -199,18 +254,235 @@ export class KSeFClient {
       }
 
       const buffer = Buffer.from(await response.arrayBuffer());
+      const contentType = response.headers.get('Content-Type') || 'application/pdf';
 
       return {
         ksefNumber,
         content: buffer,
-        contentType: response.headers.get('Content-Type') || 'application/pdf',
-        fileName: `UPO_${ksefNumber}.pdf`,
+        contentType,
+        fileName: `UPO_${ksefNumber}.${contentType.includes('xml') ? 'xml' : 'pdf'}`,
       };
     } catch (error) {
       throw this.handleError(error);
     }
   }
 
+  /**
+   * Query invoice headers by acquisition timestamp (synchronous query)
+   * Use subjectType 'subject2' for invoices where the context NIP is the buyer.
+   */
+  async queryInvoices(query: KSeFInvoiceQuery): Promise<KSeFInvoiceQueryPage> {
+    await this.ensureAuthenticated();
+
+    const pageSize = query.pageSize ?? 100;
+    const pageOffset = query.pageOffset ?? 0;
+
+    try {
+      const response = await this.fetchImpl(
+        `${this.config.apiUrl}/online/Query/Invoice/Sync?PageSize=${pageSize}&PageOffset=${pageOffset}`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'SessionToken': this.sessionToken!.token,
+          },
+          body: JSON.stringify({
+            queryCriteria: {
+              subjectType: query.subjectType,
+              type: 'incremental',
+              acquisitionTimestampThresholdFrom: query.acquiredFrom.toISOString(),
+              acquisitionTimestampThresholdTo: query.acquiredTo.toISOString(),
+            },
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to query invoices: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+
+      return {
+        invoices: (data.invoiceHeaderList ?? []).map(
+          (header: {
+            ksefReferenceNumber: string;
+            invoiceReferenceNumber: string;
+            invoicingDate?: string;
+            acquisitionTimestamp: string;
+            subjectBy?: {
+              issuedByIdentifier?: { identifier?: string };
+              issuedByName?: { fullName?: string; tradeName?: string };
+            };
+            gross?: string;
+            currency?: string;
+          }): KSeFInvoiceHeader => ({
+            ksefNumber: header.ksefReferenceNumber,
+            invoiceNumber: header.invoiceReferenceNumber,
+            issueDate: header.invoicingDate?.slice(0, 10),
+            acquisitionTimestamp: new Date(header.acquisitionTimestamp),
+            sellerNip: header.subjectBy?.issuedByIdentifier?.identifier,
+            sellerName: header.subjectBy?.issuedByName?.fullName ?? header.subjectBy?.issuedByName?.tradeName,
+            grossAmount: header.gross !== undefined ? Number(header.gross) : undefined,
+            currency: header.currency,
+          })
+        ),
+        total: data.numberOfElements ?? 0,
+        pageSize: data.pageSize ?? pageSize,
+        pageOffset: data.pageOffset ?? pageOffset,
+      };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Download the FA(3) XML of an invoice by its KSeF number
+   */
+  async downloadInvoice(ksefNumber: string): Promise<string> {
+    await this.ensureAuthenticated();
+
+    try {
+      const response = await this.fetchImpl(
+        `${this.config.apiUrl}/online/Invoice/Get/${ksefNumber}`,
+        {
+          method: 'GET',
+          headers: {
+            'SessionToken': this.sessionToken!.token,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to download invoice: ${response.statusText}`);
+      }
+
+      return await response.text();
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Submit FA(3) documents in a batch (wsadowa) session
+   *
+   * Packages the documents (see batch.ts), initialises the batch with an
+   * XAdES-signed InitRequest, uploads every encrypted part and closes the batch.
+   * Processing is asynchronous: poll getBatchStatus() with the returned reference number.
+   */
+  async submitBatch(
+    documents: KSeFBatchDocument[],
+    options: { partSize?: number } = {}
+  ): Promise<KSeFBatchSession> {
+    try {
+      if (!this.config.publicKey) {
+        throw credentialsError('KSeF public key is not configured');
+      }
+
+      const certificate = await this.loadCertificate('KSeF batch sessions require a certificate');
+      const batchPackage = await buildBatchPackage(documents, options);
+
+      const initResponse = await this.fetchImpl(`${this.config.apiUrl}/batch/Init`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          Accept: 'application/json',
+        },
+        body: buildBatchInitRequest({
+          nip: this.config.nip,
+          batchPackage,
+          publicKey: this.config.publicKey,
+          certificate,
+        }),
+      });
+
+      if (!initResponse.ok) {
+        throw new Error(`KSeF batch init failed: ${initResponse.status} ${initResponse.statusText}`);
+      }
+
+      const session = parseBatchInitResponse(await initResponse.json());
+
+      for (const part of batchPackage.parts) {
+        const upload = session.uploads.find((u) => u.ordinalNumber === part.ordinalNumber);
+        if (!upload) {
+          throw new Error(`KSeF did not return an upload target for batch part ${part.ordinalNumber}`);
+        }
+
+        const response = await this.fetchImpl(upload.url, {
+          method: upload.method,
+          headers: {
+            'Content-Type': 'application/octet-stream',
+            ...upload.headers,
+          },
+          body: new Uint8Array(part.content),
+        });
+
+        if (!response.ok) {
+          throw new Error(
+            `KSeF batch part ${part.ordinalNumber} upload failed: ${response.status} ${response.statusText}`
+          );
+        }
+      }
+
+      const finishResponse = await this.fetchImpl(`${this.config.apiUrl}/batch/Finish`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          Accept: 'application/json',
+        },
+        body: buildBatchFinishRequest(session.referenceNumber),
+      });
+
+      if (!finishResponse.ok) {
+        throw new Error(`KSeF batch finish failed: ${finishResponse.status} ${finishResponse.statusText}`);
+      }
+
+      return {
+        referenceNumber: session.referenceNumber,
+        partCount: batchPackage.parts.length,
+        timestamp: session.timestamp,
+      };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Check processing status of a batch session
+   * Once processed, the result lists the KSeF number of every accepted document.
+   */
+  async getBatchStatus(referenceNumber: string): Promise<KSeFBatchStatus> {
+    try {
+      const response = await this.fetchImpl(
+        `${this.config.apiUrl}/common/Status/${referenceNumber}`,
+        {
+          method: 'GET',
+          headers: {
+            Accept: 'application/json',
+          },
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to get batch status: ${response.statusText}`);
+      }
+
+      return parseBatchStatus(await response.json());
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Verify credentials and connectivity by opening a session and terminating it right away
+   */
+  async testConnection(): Promise<{ sessionId: string; expiresAt: Date }> {
+    const session = await this.authenticate();
+    await this.logout();
+
+    return { sessionId: session.sessionId, expiresAt: session.expiresAt };
+  }
+
   /**
    * Terminate session
    */
@@ -220,7 +492,7 @@ export class KSeFClient {
     }
 
     try {
-      await fetch(`${this.config.apiUrl}/online/Session/Terminate`, {
+      await this.fetchImpl(`${this.config.apiUrl}/online/Session/Terminate`, {
         method: 'POST',
         headers: {
           'SessionToken': this.sessionToken.token,
@@ -233,10 +505,80 @@ export class KSeFClient {
     }
   }
 
+  /**
+   * POST InitSessionTokenRequest
+   */
+  private async initTokenSession(): Promise<Response> {
+    if (!this.config.token) {
+      throw credentialsError('KSeF authorisation token is not configured');
+    }
+    if (!this.config.publicKey) {
+      throw credentialsError('KSeF public key is not configured');
+    }
+
+    const challenge = await this.requestChallenge();
+    const encryptedToken = encryptAuthorisationToken(
+      this.config.token,
+      challenge.timestamp,
+      this.config.publicKey
+    );
+
+    return this.fetchImpl(`${this.config.apiUrl}/online/Session/InitToken`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        Accept: 'application/xml',
+      },
+      body: buildInitSessionTokenRequest({
+        challenge: challenge.challenge,
+        nip: this.config.nip,
+        encryptedToken,
+      }),
+    });
+  }
+
+  /**
+   * POST XAdES-signed InitSessionSignedRequest
+   */
+  private async initSignedSession(): Promise<Response> {
+    const certificate = await this.loadCertificate('KSeF certificate is not configured');
+    const challenge = await this.requestChallenge();
+
+    return this.fetchImpl(`${this.config.apiUrl}/online/Session/InitSigned`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        Accept: 'application/xml',
+      },
+      body: buildInitSessionSignedRequest({
+        challenge: challenge.challenge,
+        nip: this.config.nip,
+        certificate,
+      }),
+    });
+  }
+
   /**
    * Private helpers
    */
 
+  private async loadCertificate(missingMessage: string): Promise<KSeFCertificate> {
+    if (!this.config.certificateData && !this.config.certificatePath) {
+      throw credentialsError(missingMessage);
+    }
+
+    try {
+      return await loadKSeFCertificate({
+        path: this.config.certificatePath,
+        data: this.config.certificateData,
+        password: this.config.certificatePassword,
+      });
+    } catch (error) {
+      // Unreadable file, wrong password, no private key
+      throw credentialsError(error instanceof Error ? error.message : 'KSeF certificate cannot be loaded');
+    }
+  }
+
   private async ensureAuthenticated(): Promise<void> {
     if (!this.sessionToken || this.isTokenExpired()) {
       await this.authenticate();
@@ -247,16 +589,35 @@ export class KSeFClient {
     if (!this.sessionToken) {
       return true;
     }
-    return new Date() >= this.sessionToken.expiresAt;
+    return Date.now() >= this.sessionToken.expiresAt.getTime() - SESSION_EXPIRY_MARGIN_MS;
   }
 
-  private async generateChallenge(): Promise<string> {
-    // Generate random challenge for authentication
-    const array = new Uint8Array(32);
-    if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
-      crypto.getRandomValues(array);
+  private async requestChallenge(): Promise<KSeFAuthorisationChallenge> {
+    const response = await this.fetchImpl(
+      `${this.config.apiUrl}/online/Session/AuthorisationChallenge`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+        },
+        body: JSON.stringify({
+          contextIdentifier: {
+            type: 'onip',
+            identifier: this.config.nip.replace(/[^0-9]/g, ''),
+          },
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw {
+        code: response.status.toString(),
+        message: `KSeF authorisation challenge failed: ${response.status} ${response.statusText}`,
+      } satisfies KSeFError;
     }
-    return Buffer.from(array).toString('base64');
+
+    return parseAuthorisationChallenge(await response.json());
   }
 
   private mapStatus(processingCode: number): 'PENDING' | 'ACCEPTED' | 'REJECTED' {
@@ -266,6 +627,9 @@ export class KSeFClient {
   }
 
   private handleError(error: unknown): KSeFError {
+    if (isKSeFError(error)) {
+      return error;
+    }
     if (error instanceof Error) {
       return {
         code: 'CLIENT_ERROR',
@@ -280,11 +644,39 @@ export class KSeFClient {
 }
 
 /**
- * Create a KSeF client instance
+ * Missing or unusable credentials: nothing changes until the tenant's settings do
+ */
+function credentialsError(message: string): KSeFError {
+  return { code: 'CREDENTIALS_ERROR', message };
+}
+
+function isKSeFError(error: unknown): error is KSeFError {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    !(error instanceof Error) &&
+    typeof (error as KSeFError).code === 'string' &&
+    typeof (error as KSeFError).message === 'string'
+  );
+}
+
+/**
+ * Create the server-wide KSeF client
+ *
+ * Options not given fall back to the KSEF_* environment variables. Tenant clients
+ * (createTenantKSeFClient) never use them.
  */
 export function createKSeFClient(
   environment: KSeFEnvironment = 'test',
-  nip: string
+  nip: string,
+  options: KSeFClientOptions = {}
 ): KSeFClient {
-  return new KSeFClient(environment, nip);
+  return new KSeFClient(environment, nip, {
+    ...options,
+    apiUrl: options.apiUrl ?? process.env.KSEF_API_URL,
+    authMethod: options.authMethod ?? (process.env.KSEF_AUTH_METHOD === 'certificate' ? 'certificate' : 'token'),
+    token: options.token ?? process.env.KSEF_TOKEN,
+    certificatePath: options.certificatePath ?? process.env.KSEF_CERTIFICATE_PATH,
+    certificatePassword: options.certificatePassword ?? process.env.KSEF_CERTIFICATE_PASSWORD,
+  });
 }
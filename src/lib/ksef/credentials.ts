@@ -0,0 +1,202 @@
+/**
+ * KSeF Credentials
+ * Resolves per-tenant KSeF environment, seller NIP and authentication options from Tenant.settings
+ *
+ * Expected shape (Tenant.settings.ksef):
+ * {
+ *   environment: 'test' | 'demo' | 'production',
+ *   nip: string,                         // Seller NIP the KSeF session is opened for
+ *   authMethod: 'token' | 'certificate',
+ *   token?: string,                      // Encrypted (secrets.ts)
+ *   certificate?: string,                // Uploaded .p12/.pfx, base64, encrypted
+ *   certificatePassword?: string,        // Encrypted
+ *   offlineCertificate?: string,         // KSeF offline certificate signing KOD II, base64, encrypted
+ *   offlineCertificatePassword?: string  // Encrypted
+ * }
+ *
+ * Tenant clients use these settings only: missing credentials fail with CREDENTIALS_ERROR
+ * instead of falling back to the server-wide KSEF_* environment variables.
+ */
+
+import type { KSeFCertificateSource } from './certificate';
+import { KSeFClient } from './client';
+import { decryptKSeFSecret, encryptKSeFSecret } from './secrets';
+import type { KSeFAuthMethod, KSeFClientOptions, KSeFEnvironment } from './types';
+
+export const KSEF_ENVIRONMENTS: readonly KSeFEnvironment[] = ['test', 'demo', 'production'];
+
+export interface TenantKSeFSettings {
+  environment?: KSeFEnvironment;
+  nip?: string;
+  authMethod?: KSeFAuthMethod;
+  token?: string;
+  certificate?: string;
+  certificatePassword?: string;
+  offlineCertificate?: string;
+  offlineCertificatePassword?: string;
+}
+
+/**
+ * Settings update from the tenant settings screen
+ * Secrets and certificates (base64 .p12/.pfx uploads) left undefined keep their stored value;
+ * an empty string removes them.
+ */
+export interface TenantKSeFSettingsInput {
+  environment: KSeFEnvironment;
+  nip: string;
+  authMethod: KSeFAuthMethod;
+  token?: string;
+  certificate?: string;
+  certificatePassword?: string;
+  offlineCertificate?: string;
+  offlineCertificatePassword?: string;
+}
+
+/**
+ * Settings as shown to users: secrets are reduced to whether they are set
+ */
+export interface PublicTenantKSeFSettings {
+  environment: KSeFEnvironment;
+  nip: string | null;
+  authMethod: KSeFAuthMethod | null;
+  hasToken: boolean;
+  hasCertificate: boolean;
+  hasCertificatePassword: boolean;
+  hasOfflineCertificate: boolean;
+  hasOfflineCertificatePassword: boolean;
+}
+
+export function isKSeFEnvironment(value: unknown): value is KSeFEnvironment {
+  return KSEF_ENVIRONMENTS.includes(value as KSeFEnvironment);
+}
+
+/**
+ * Tenant.settings.ksef as stored (secrets still encrypted)
+ */
+export function getTenantKSeFSettings(settings: unknown): TenantKSeFSettings {
+  if (typeof settings !== 'object' || settings === null) {
+    return {};
+  }
+
+  const ksef = (settings as { ksef?: unknown }).ksef;
+  return typeof ksef === 'object' && ksef !== null ? (ksef as TenantKSeFSettings) : {};
+}
+
+/**
+ * KSeF environment of a tenant (test until one is configured)
+ */
+export function getTenantKSeFEnvironment(settings: unknown): KSeFEnvironment {
+  const { environment } = getTenantKSeFSettings(settings);
+  return isKSeFEnvironment(environment) ? environment : 'test';
+}
+
+/**
+ * Build KSeFClient options for a tenant (token vs certificate authentication)
+ */
+export function getTenantKSeFAuthOptions(settings: unknown): KSeFClientOptions {
+  const ksef = getTenantKSeFSettings(settings);
+
+  if (ksef.authMethod === 'certificate') {
+    return {
+      authMethod: 'certificate',
+      certificateData: ksef.certificate && decryptKSeFSecret(ksef.certificate),
+      certificatePassword: ksef.certificatePassword && decryptKSeFSecret(ksef.certificatePassword),
+    };
+  }
+
+  if (ksef.authMethod === 'token') {
+    return {
+      authMethod: 'token',
+      token: ksef.token && decryptKSeFSecret(ksef.token),
+    };
+  }
+
+  return {};
+}
+
+/**
+ * KSeF client for a tenant, in the tenant's environment and with its credentials
+ *
+ * @param options - Extra client options (e.g. apiUrl of a local stand-in)
+ */
+export function createTenantKSeFClient(
+  settings: unknown,
+  tenantNip: string,
+  options: KSeFClientOptions = {}
+): KSeFClient {
+  return new KSeFClient(getTenantKSeFEnvironment(settings), tenantNip, {
+    ...getTenantKSeFAuthOptions(settings),
+    ...options,
+  });
+}
+
+/**
+ * KSeF offline certificate of a tenant (KOD II), if configured
+ */
+export function getTenantKSeFOfflineCertificate(settings: unknown): KSeFCertificateSource | undefined {
+  const ksef = getTenantKSeFSettings(settings);
+
+  if (!ksef.offlineCertificate) {
+    return undefined;
+  }
+
+  return {
+    data: decryptKSeFSecret(ksef.offlineCertificate),
+    password: ksef.offlineCertificatePassword && decryptKSeFSecret(ksef.offlineCertificatePassword),
+  };
+}
+
+/**
+ * Apply a settings update to the stored KSeF settings
+ * Secrets are encrypted; credentials of the other auth method are kept so switching back does not lose them.
+ */
+export function mergeTenantKSeFSettings(
+  current: TenantKSeFSettings,
+  input: TenantKSeFSettingsInput
+): TenantKSeFSettings {
+  const merged: TenantKSeFSettings = {
+    ...current,
+    environment: input.environment,
+    nip: input.nip,
+    authMethod: input.authMethod,
+  };
+
+  const secrets = [
+    'token',
+    'certificate',
+    'certificatePassword',
+    'offlineCertificate',
+    'offlineCertificatePassword',
+  ] as const;
+
+  for (const key of secrets) {
+    const value = input[key];
+    if (value !== undefined) {
+      merged[key] = value ? encryptKSeFSecret(value) : undefined;
+    }
+  }
+
+  // Drop cleared values instead of storing empty strings / nulls in Tenant.settings
+  for (const key of Object.keys(merged) as Array<keyof TenantKSeFSettings>) {
+    if (!merged[key]) {
+      delete merged[key];
+    }
+  }
+
+  return merged;
+}
+
+export function toPublicKSeFSettings(settings: unknown): PublicTenantKSeFSettings {
+  const ksef = getTenantKSeFSettings(settings);
+
+  return {
+    environment: getTenantKSeFEnvironment(settings),
+    nip: ksef.nip ?? null,
+    authMethod: ksef.authMethod ?? null,
+    hasToken: Boolean(ksef.token),
+    hasCertificate: Boolean(ksef.certificate),
+    hasCertificatePassword: Boolean(ksef.certificatePassword),
+    hasOfflineCertificate: Boolean(ksef.offlineCertificate),
+    hasOfflineCertificatePassword: Boolean(ksef.offlineCertificatePassword),
+  };
+}
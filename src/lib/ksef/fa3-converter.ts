@@ -4,85 +4,122 @@
  */
 
 import { XMLBuilder } from 'fast-xml-parser';
-import type { FA3Invoice, FA3LineItem } from './types';
+import { FA3_FORM_CODE } from './auth';
+import type {
+  FA3Address,
+  FA3Annotations,
+  FA3Invoice,
+  FA3InvoiceType,
+  FA3LineItem,
+  FA3Party,
+  FA3VatRate,
+} from './types';
+
+/**
+ * RodzajFaktury values per invoice type
+ */
+const INVOICE_KIND: Record<Exclude<FA3InvoiceType, 'PROFORMA'>, string> = {
+  VAT: 'VAT',
+  CORRECTIVE: 'KOR',
+  ADVANCE: 'ZAL',
+  SETTLEMENT: 'ROZ',
+  SIMPLIFIED: 'UPR',
+};
+
+/**
+ * Per-rate summary buckets (P_13_x net / P_14_x VAT), in schema order
+ */
+const VAT_BUCKETS = [
+  { net: 'P_13_1', vat: 'P_14_1', matches: (rate: FA3VatRate) => rate === 23 || rate === 22 },
+  { net: 'P_13_2', vat: 'P_14_2', matches: (rate: FA3VatRate) => rate === 8 || rate === 7 },
+  { net: 'P_13_3', vat: 'P_14_3', matches: (rate: FA3VatRate) => rate === 5 },
+  { net: 'P_13_6_1', matches: (rate: FA3VatRate) => rate === 0 },
+  { net: 'P_13_6_2', matches: (rate: FA3VatRate) => rate === '0 WDT' },
+  { net: 'P_13_6_3', matches: (rate: FA3VatRate) => rate === '0 EX' },
+  { net: 'P_13_7', matches: (rate: FA3VatRate) => rate === 'zw' },
+  { net: 'P_13_8', matches: (rate: FA3VatRate) => rate === 'np' },
+  { net: 'P_13_10', matches: (rate: FA3VatRate) => rate === 'oo' },
+] as const;
+
+/**
+ * FormaPlatnosci codes
+ */
+const PAYMENT_METHODS: Array<{ code: string; pattern: RegExp }> = [
+  { code: '1', pattern: /cash|gotówk|gotowk/i },
+  { code: '2', pattern: /card|kart/i },
+  { code: '3', pattern: /voucher|bon/i },
+  { code: '4', pattern: /cheque|check|czek/i },
+  { code: '5', pattern: /credit|kredyt/i },
+  { code: '6', pattern: /transfer|przelew|bank/i },
+  { code: '7', pattern: /mobile|mobiln|blik/i },
+];
+
+const MARGIN_SCHEME_ELEMENTS: Record<NonNullable<FA3Annotations['marginScheme']>, string> = {
+  travel: 'P_PMarzy_2',
+  'used-goods': 'P_PMarzy_3_1',
+  'works-of-art': 'P_PMarzy_3_2',
+  antiques: 'P_PMarzy_3_3',
+};
 
 /**
  * Convert FA3Invoice to XML string compliant with FA(3) schema
+ *
+ * @param options.generatedAt - DataWytworzeniaFa timestamp (defaults to now)
  */
-export function convertToFA3Xml(invoice: FA3Invoice): string {
+export function convertToFA3Xml(
+  invoice: FA3Invoice,
+  options: { generatedAt?: Date } = {}
+): string {
+  if (invoice.header.invoiceType === 'PROFORMA') {
+    throw new Error('Proforma invoices are not submitted to KSeF');
+  }
+  if (invoice.header.invoiceType === 'CORRECTIVE' && !invoice.correction?.correctedInvoices.length) {
+    throw new Error('Corrective invoices must reference the corrected invoice');
+  }
+
   const fa3Data = {
     '?xml': {
       '@_version': '1.0',
       '@_encoding': 'UTF-8',
     },
     Faktura: {
-      '@_xmlns': 'http://crd.gov.pl/wzor/2023/06/29/12648/',
+      '@_xmlns': FA3_FORM_CODE.targetNamespace,
       '@_xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
       Naglowek: {
         KodFormularza: {
-          '@_kodSystemowy': 'FA (3)',
-          '@_wersjaSchemy': '1-0E',
-          '#text': 'FA',
+          '@_kodSystemowy': FA3_FORM_CODE.systemCode,
+          '@_wersjaSchemy': FA3_FORM_CODE.schemaVersion,
+          '#text': FA3_FORM_CODE.value,
         },
         WariantFormularza: '3',
-        DataWytworzeniaFa: new Date().toISOString().split('T')[0],
+        DataWytworzeniaFa: (options.generatedAt ?? new Date()).toISOString(),
         SystemInfo: 'Deklaro Invoice Management System v1.0',
       },
       Podmiot1: {
         // Seller (Sprzedawca)
-        DaneIdentyfikacyjne: {
-          NIP: invoice.parties.seller.nip.replace(/[^0-9]/g, ''),
-          Nazwa: invoice.parties.seller.name,
-        },
-        Adres: {
-          KodKraju: invoice.parties.seller.address.country,
-          Wojewodztwo: 'PL', // Simplified - should be actual province
-          Powiat: invoice.parties.seller.address.city,
-          Gmina: invoice.parties.seller.address.city,
-          Ulica: invoice.parties.seller.address.street,
-          NrDomu: invoice.parties.seller.address.houseNumber,
-          ...(invoice.parties.seller.address.apartmentNumber && {
-            NrLokalu: invoice.parties.seller.address.apartmentNumber,
-          }),
-          Miejscowosc: invoice.parties.seller.address.city,
-          KodPocztowy: invoice.parties.seller.address.postalCode.replace(
-            /[^0-9]/g,
-            ''
-          ),
-        },
+        DaneIdentyfikacyjne: convertIdentification(invoice.parties.seller),
+        Adres: convertAddress(invoice.parties.seller.address),
       },
       Podmiot2: {
         // Buyer (Nabywca)
-        DaneIdentyfikacyjne: {
-          NIP: invoice.parties.buyer.nip.replace(/[^0-9]/g, ''),
-          Nazwa: invoice.parties.buyer.name,
-        },
-        Adres: {
-          KodKraju: invoice.parties.buyer.address.country,
-          Wojewodztwo: 'PL',
-          Powiat: invoice.parties.buyer.address.city,
-          Gmina: invoice.parties.buyer.address.city,
-          Ulica: invoice.parties.buyer.address.street,
-          NrDomu: invoice.parties.buyer.address.houseNumber,
-          ...(invoice.parties.buyer.address.apartmentNumber && {
-            NrLokalu: invoice.parties.buyer.address.apartmentNumber,
-          }),
-          Miejscowosc: invoice.parties.buyer.address.city,
-          KodPocztowy: invoice.parties.buyer.address.postalCode.replace(
-            /[^0-9]/g,
-            ''
-          ),
-        },
+        DaneIdentyfikacyjne: convertIdentification(invoice.parties.buyer),
+        Adres: convertAddress(invoice.parties.buyer.address),
+        JST: '2', // Not a local government unit subordinate
+        GV: '2', // Not a VAT group member
       },
       Fa: {
+        KodWaluty: invoice.header.currency,
         P_1: invoice.header.issueDate, // Data wystawienia
         P_2: invoice.header.invoiceNumber, // Numer faktury
         ...(invoice.header.sellDate && { P_6: invoice.header.sellDate }), // Data sprzedaży
-        P_13_1: formatAmount(invoice.summary.netAmount), // Wartość netto
-        P_14_1: formatAmount(invoice.summary.vatAmount), // Kwota VAT
+        ...convertVatSummary(invoice),
         P_15: formatAmount(invoice.summary.grossAmount), // Wartość brutto
+        Adnotacje: convertAnnotations(invoice),
+        RodzajFaktury: INVOICE_KIND[invoice.header.invoiceType],
+        ...convertCorrection(invoice),
         // Line items
         FaWiersz: invoice.lineItems.map((item) => convertLineItem(item)),
+        ...convertPayment(invoice),
       },
     },
   };
@@ -97,64 +134,196 @@ export function convertToFA3Xml(invoice: FA3Invoice): string {
   return builder.build(fa3Data);
 }
 
-/**
- * Convert line item to FA(3) format
- */
-function convertLineItem(item: FA3LineItem) {
+function convertIdentification(party: FA3Party) {
   return {
-    NrWierszaFa: item.lineNumber,
-    P_7: item.description, // Nazwa towaru/usługi
-    P_8A: item.quantity.toFixed(2), // Ilość
-    P_8B: item.unitOfMeasure, // Jednostka miary
-    P_9A: formatAmount(item.unitPrice), // Cena jednostkowa netto
-    P_11: formatAmount(item.netAmount), // Wartość netto
-    P_12: item.vatRate.toString(), // Stawka VAT
+    NIP: party.nip.replace(/[^0-9]/g, ''),
+    Nazwa: party.name,
   };
 }
 
 /**
- * Format amount to 2 decimal places as string
+ * FA(3) addresses are two free-form lines: street + number, postal code + city
  */
-function formatAmount(amount: number): string {
-  return amount.toFixed(2);
+function convertAddress(address: FA3Address) {
+  const number = address.apartmentNumber
+    ? `${address.houseNumber}/${address.apartmentNumber}`
+    : address.houseNumber;
+  const postalDigits = address.postalCode.replace(/[^0-9]/g, '');
+  const postalCode =
+    address.country === 'PL' && postalDigits.length === 5
+      ? `${postalDigits.slice(0, 2)}-${postalDigits.slice(2)}`
+      : address.postalCode;
+
+  return {
+    KodKraju: address.country,
+    AdresL1: `${address.street} ${number}`.trim(),
+    AdresL2: `${postalCode} ${address.city}`.trim(),
+  };
 }
 
 /**
- * Validate FA(3) XML against basic schema rules
+ * Sum line items into the per-rate P_13_x / P_14_x buckets
+ * Invoices without line items report their totals in the 23% bucket.
+ * On corrective invoices StanPrzed rows are subtracted, so the buckets carry the difference.
  */
-export function validateFA3Xml(xml: string): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
+function convertVatSummary(invoice: FA3Invoice): Record<string, string> {
+  if (invoice.lineItems.length === 0) {
+    return {
+      P_13_1: formatAmount(invoice.summary.netAmount),
+      P_14_1: formatAmount(invoice.summary.vatAmount),
+    };
+  }
 
-  // Basic validation checks
-  if (!xml.includes('xmlns="http://crd.gov.pl/wzor/2023/06/29/12648/"')) {
-    errors.push('Missing required XML namespace');
+  const totals = new Map<string, { net: number; vat: number }>();
+  for (const item of invoice.lineItems) {
+    const bucket = VAT_BUCKETS.find((b) => b.matches(item.vatRate));
+    if (!bucket) {
+      throw new Error(`Unsupported VAT rate on line ${item.lineNumber}: ${item.vatRate}`);
+    }
+    const sign = item.beforeCorrection ? -1 : 1;
+    const total = totals.get(bucket.net) ?? { net: 0, vat: 0 };
+    total.net += sign * item.netAmount;
+    total.vat += sign * item.vatAmount;
+    totals.set(bucket.net, total);
   }
 
-  if (!xml.includes('<KodFormularza')) {
-    errors.push('Missing KodFormularza element');
+  const summary: Record<string, string> = {};
+  for (const bucket of VAT_BUCKETS) {
+    const total = totals.get(bucket.net);
+    if (!total) continue;
+    summary[bucket.net] = formatAmount(total.net);
+    if ('vat' in bucket) {
+      summary[bucket.vat] = formatAmount(total.vat);
+    }
   }
+  return summary;
+}
+
+/**
+ * Build the mandatory Adnotacje section (1 = yes, 2 = no; *N elements mark "not applicable")
+ */
+function convertAnnotations(invoice: FA3Invoice) {
+  const annotations = invoice.annotations ?? {};
+  const flag = (value: boolean | undefined) => (value ? '1' : '2');
 
-  if (!xml.includes('FA (3)')) {
-    errors.push('Invalid form code - must be FA (3)');
+  const hasExemptLines = invoice.lineItems.some((item) => item.vatRate === 'zw');
+  if (hasExemptLines && !annotations.exemption) {
+    throw new Error('Exempt (zw) line items require an exemption basis in annotations');
   }
 
-  // Check for required seller/buyer data
-  if (!xml.includes('<Podmiot1>') || !xml.includes('<Podmiot2>')) {
-    errors.push('Missing seller or buyer data');
+  const reverseCharge =
+    annotations.reverseCharge || invoice.lineItems.some((item) => item.vatRate === 'oo');
+
+  return {
+    P_16: flag(annotations.cashAccounting),
+    P_17: flag(annotations.selfBilling),
+    P_18: flag(reverseCharge),
+    P_18A: flag(annotations.splitPayment),
+    Zwolnienie: annotations.exemption
+      ? {
+          P_19: '1',
+          [`P_19${annotations.exemption.basis}`]: annotations.exemption.description,
+        }
+      : { P_19N: '1' },
+    NoweSrodkiTransportu: { P_22N: '1' },
+    P_23: '2', // Simplified triangular procedure not used
+    PMarzy: annotations.marginScheme
+      ? { P_PMarzy: '1', [MARGIN_SCHEME_ELEMENTS[annotations.marginScheme]]: '1' }
+      : { P_PMarzyN: '1' },
+  };
+}
+
+/**
+ * Build PrzyczynaKorekty, TypKorekty and DaneFaKorygowanej for corrective invoices
+ */
+function convertCorrection(invoice: FA3Invoice) {
+  const correction = invoice.correction;
+  if (invoice.header.invoiceType !== 'CORRECTIVE' || !correction) {
+    return {};
   }
 
-  // Check for NIP numbers
-  const nipMatches = xml.match(/<NIP>(\d{10})<\/NIP>/g);
-  if (!nipMatches || nipMatches.length < 2) {
-    errors.push('Invalid or missing NIP numbers');
+  return {
+    PrzyczynaKorekty: correction.reason,
+    ...(correction.type && { TypKorekty: correction.type }),
+    DaneFaKorygowanej: correction.correctedInvoices.map((corrected) => ({
+      DataWystFaKorygowanej: corrected.issueDate,
+      NrFaKorygowanej: corrected.invoiceNumber,
+      ...(corrected.ksefNumber
+        ? { NrKSeF: '1', NrKSeFFaKorygowanej: corrected.ksefNumber }
+        : { NrKSeFN: '1' }),
+    })),
+  };
+}
+
+/**
+ * Build the Platnosc section from due date, payment method and bank account
+ */
+function convertPayment(invoice: FA3Invoice) {
+  const { paymentMethod, bankAccount } = invoice.summary;
+  const dueDate = invoice.header.dueDate;
+
+  if (!dueDate && !paymentMethod && !bankAccount) {
+    return {};
   }
 
+  const methodCode = paymentMethod
+    ? PAYMENT_METHODS.find((method) => method.pattern.test(paymentMethod))?.code
+    : bankAccount
+      ? '6'
+      : undefined;
+
+  return {
+    Platnosc: {
+      ...(dueDate && { TerminPlatnosci: { Termin: dueDate } }),
+      ...(methodCode && { FormaPlatnosci: methodCode }),
+      ...(bankAccount && {
+        RachunekBankowy: { NrRB: bankAccount.replace(/\s/g, '') },
+      }),
+    },
+  };
+}
+
+/**
+ * Convert line item to FA(3) format
+ */
+function convertLineItem(item: FA3LineItem) {
   return {
-    valid: errors.length === 0,
-    errors,
+    NrWierszaFa: item.lineNumber,
+    P_7: item.description, // Nazwa towaru/usługi
+    P_8A: item.unitOfMeasure, // Miara (jednostka miary)
+    P_8B: formatQuantity(item.quantity), // Ilość
+    P_9A: formatAmount(item.unitPrice), // Cena jednostkowa netto
+    P_11: formatAmount(item.netAmount), // Wartość netto
+    P_11A: formatAmount(item.grossAmount), // Wartość brutto
+    P_12: formatVatRate(item.vatRate), // Stawka VAT
+    ...(item.beforeCorrection && { StanPrzed: '1' }), // Wiersz sprzed korekty
   };
 }
 
+/**
+ * Format VAT rate for P_12 (0% is reported as domestic "0 KR", np as "np I";
+ * 0 WDT, 0 EX, zw and oo are P_12 values as they are)
+ */
+function formatVatRate(rate: FA3VatRate): string {
+  if (rate === 0) return '0 KR';
+  if (rate === 'np') return 'np I';
+  return rate.toString();
+}
+
+/**
+ * Format quantity (up to 6 decimal places, trailing zeros dropped)
+ */
+function formatQuantity(quantity: number): string {
+  return Number(quantity.toFixed(6)).toString();
+}
+
+/**
+ * Format amount to 2 decimal places as string
+ */
+function formatAmount(amount: number): string {
+  return (Math.round((amount + Number.EPSILON) * 100) / 100).toFixed(2);
+}
+
 /**
  * Parse address string into components
  * Helper for extracting address from OCR text
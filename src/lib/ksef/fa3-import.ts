@@ -0,0 +1,226 @@
+/**
+ * FA(3) Invoice Import
+ * Maps parsed FA(3) documents to Invoice, InvoiceLineItem and Company records
+ *
+ * Used for XML files uploaded by users and for invoices downloaded from KSeF.
+ * The structured document is authoritative, so OCR and AI extraction are skipped
+ * and the invoice is stored as PROCESSED with full confidence.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { parseFA3Xml } from './fa3-parser';
+import { toExtractedVATRate, toStoredExtractedData, type StoredExtractedData } from '@/lib/ai/schemas/extracted-data';
+import { toLineItemVatRate } from '@/lib/vat-rates';
+import type { Currency } from '@/types/ocr';
+import type { FA3Address, FA3Invoice, FA3LineItem, FA3Party } from './types';
+
+const prisma = new PrismaClient();
+
+export type FA3ImportSource = 'UPLOAD' | 'KSEF';
+
+export interface FA3ImportOptions {
+  source: FA3ImportSource;
+  originalFileUrl: string; // Storage path of the XML document
+  fileName: string;
+  uploadedBy: string;
+  tenantNip?: string; // Decides the direction: the tenant as seller makes the invoice OUTGOING
+  invoiceType?: 'INCOMING' | 'OUTGOING'; // Overrides the NIP-based direction
+  ksefNumber?: string;
+  ksefAcquiredAt?: Date;
+}
+
+export interface FA3ImportResult {
+  invoiceId: string;
+  invoiceNumber: string;
+  invoiceType: 'INCOMING' | 'OUTGOING';
+  companyId: string | null;
+}
+
+/**
+ * Invoice direction and counterparty (the party that is not the tenant)
+ */
+export function resolveFA3Direction(
+  fa3: FA3Invoice,
+  options: { tenantNip?: string; invoiceType?: 'INCOMING' | 'OUTGOING' } = {}
+): { invoiceType: 'INCOMING' | 'OUTGOING'; counterparty: FA3Party } {
+  const invoiceType =
+    options.invoiceType ??
+    (options.tenantNip && normalizeNip(fa3.parties.seller.nip) === normalizeNip(options.tenantNip)
+      ? 'OUTGOING'
+      : 'INCOMING');
+
+  return {
+    invoiceType,
+    counterparty: invoiceType === 'OUTGOING' ? fa3.parties.buyer : fa3.parties.seller,
+  };
+}
+
+/**
+ * InvoiceLineItem rows for an FA(3) invoice
+ * 0 WDT / 0 EX / zw / np / oo are stored as vatRate 0 with the code in vatRateCode.
+ */
+export function toFA3LineItemData(items: FA3LineItem[]) {
+  return items.map((item) => ({
+    lineNumber: item.lineNumber,
+    description: item.description,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    ...toLineItemVatRate(item.vatRate),
+    netAmount: item.netAmount,
+    vatAmount: item.vatAmount,
+    grossAmount: item.grossAmount,
+    beforeCorrection: item.beforeCorrection ?? false,
+    metadata: { unitOfMeasure: item.unitOfMeasure },
+  }));
+}
+
+/**
+ * Invoice.extractedData in the canonical extraction model, plus the FA(3) details
+ * that have no field of their own
+ */
+export function toFA3ExtractedData(
+  fa3: FA3Invoice,
+  source: FA3ImportSource,
+  invoiceType: 'INCOMING' | 'OUTGOING' = 'INCOMING'
+): StoredExtractedData {
+  const party = (p: FA3Party) => ({
+    name: p.name,
+    nip: normalizeNip(p.nip),
+    address: formatAddress(p.address),
+  });
+
+  return toStoredExtractedData(
+    {
+      invoice_number: fa3.header.invoiceNumber,
+      issue_date: fa3.header.issueDate,
+      due_date: fa3.header.dueDate ?? null,
+      seller: party(fa3.parties.seller),
+      buyer: party(fa3.parties.buyer),
+      currency: (['PLN', 'EUR', 'USD'].includes(fa3.header.currency) ? fa3.header.currency : 'PLN') as Currency,
+      net_amount: fa3.summary.netAmount,
+      vat_amount: fa3.summary.vatAmount,
+      gross_amount: fa3.summary.grossAmount,
+      line_items: fa3.lineItems
+        .filter((item) => !item.beforeCorrection)
+        .map((item) => ({
+          description: item.description,
+          quantity: item.quantity,
+          unit_price: item.unitPrice,
+          vat_rate: toExtractedVATRate(item.vatRate),
+          net: item.netAmount,
+          vat: item.vatAmount,
+          gross: item.grossAmount,
+        })),
+      invoice_type:
+        fa3.header.invoiceType === 'CORRECTIVE' ? 'CORRECTION' : invoiceType === 'OUTGOING' ? 'SALE' : 'PURCHASE',
+      bank_account: fa3.summary.bankAccount ?? null,
+      vat_exemption: fa3.annotations?.exemption ?? null,
+      reverse_charge: fa3.annotations?.reverseCharge ?? false,
+    },
+    {
+      source,
+      fa3_invoice_type: fa3.header.invoiceType,
+      sale_date: fa3.header.sellDate,
+      payment_method: fa3.summary.paymentMethod,
+      vat_breakdown: fa3.summary.vatBreakdown,
+      annotations: fa3.annotations,
+      correction: fa3.correction,
+    }
+  );
+}
+
+/**
+ * Parse an FA(3) document and create the invoice with its line items
+ *
+ * The counterparty is added to the tenant's companies (tenantId + NIP) unless it
+ * is already there; existing company data is left untouched.
+ */
+export async function importFA3Invoice(
+  tenantId: string,
+  xml: string,
+  options: FA3ImportOptions
+): Promise<FA3ImportResult> {
+  const fa3 = parseFA3Xml(xml);
+  const { invoiceType, counterparty } = resolveFA3Direction(fa3, options);
+  const companyId = await upsertCounterparty(tenantId, counterparty);
+
+  const invoice = await prisma.invoice.create({
+    data: {
+      tenantId,
+      companyId,
+      originalFileUrl: options.originalFileUrl,
+      fileName: options.fileName,
+      fileSize: Buffer.byteLength(xml, 'utf8'),
+      uploadedBy: options.uploadedBy,
+      status: 'PROCESSED',
+      invoiceType,
+      ocrConfidence: 1,
+      ocrProcessedAt: new Date(),
+      extractedData: toFA3ExtractedData(fa3, options.source, invoiceType) as never,
+      invoiceNumber: fa3.header.invoiceNumber,
+      invoiceDate: new Date(fa3.header.issueDate),
+      dueDate: fa3.header.dueDate ? new Date(fa3.header.dueDate) : null,
+      currency: fa3.header.currency,
+      netAmount: fa3.summary.netAmount,
+      vatAmount: fa3.summary.vatAmount,
+      grossAmount: fa3.summary.grossAmount,
+      ...(options.ksefNumber && { ksefNumber: options.ksefNumber, ksefStatus: 'ACCEPTED' }),
+      metadata: {
+        source: options.source,
+        ...(options.ksefAcquiredAt && { ksefAcquiredAt: options.ksefAcquiredAt.toISOString() }),
+      },
+      lineItems: {
+        create: toFA3LineItemData(fa3.lineItems),
+      },
+    },
+    select: { id: true },
+  });
+
+  return {
+    invoiceId: invoice.id,
+    invoiceNumber: fa3.header.invoiceNumber,
+    invoiceType,
+    companyId,
+  };
+}
+
+async function upsertCounterparty(tenantId: string, party: FA3Party): Promise<string | null> {
+  const nip = normalizeNip(party.nip);
+  if (!nip) {
+    return null;
+  }
+
+  const company = await prisma.company.upsert({
+    where: { tenantId_nip: { tenantId, nip } },
+    create: {
+      tenantId,
+      nip,
+      name: party.name || nip,
+      address: formatStreet(party.address) || null,
+      city: party.address.city || null,
+      postalCode: party.address.postalCode || null,
+      country: party.address.country || 'PL',
+    },
+    update: {},
+    select: { id: true },
+  });
+
+  return company.id;
+}
+
+function normalizeNip(nip: string): string {
+  return nip.replace(/[\s-]/g, '');
+}
+
+function formatStreet(address: FA3Address): string {
+  const number = address.apartmentNumber
+    ? `${address.houseNumber}/${address.apartmentNumber}`
+    : address.houseNumber;
+  return `${address.street} ${number}`.trim();
+}
+
+function formatAddress(address: FA3Address): string {
+  return [formatStreet(address), `${address.postalCode} ${address.city}`.trim()]
+    .filter(Boolean)
+    .join(', ');
+}
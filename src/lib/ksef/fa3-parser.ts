@@ -0,0 +1,315 @@
+/**
+ * FA(3) XML Parser
+ * Reads Polish FA(3) e-invoices (e.g. downloaded from KSeF) into FA3Invoice
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import { parseVATRateCode, vatRatePercent } from '@/lib/vat-rates';
+import type {
+  FA3Address,
+  FA3Annotations,
+  FA3Correction,
+  FA3CorrectionType,
+  FA3Invoice,
+  FA3InvoiceType,
+  FA3LineItem,
+  FA3Party,
+  FA3VatRate,
+  FA3VatTotal,
+} from './types';
+
+/**
+ * Invoice types per RodzajFaktury (KOR_ZAL / KOR_ROZ are corrections of advance invoices)
+ */
+const INVOICE_TYPES: Record<string, FA3InvoiceType> = {
+  VAT: 'VAT',
+  KOR: 'CORRECTIVE',
+  ZAL: 'ADVANCE',
+  ROZ: 'SETTLEMENT',
+  UPR: 'SIMPLIFIED',
+  KOR_ZAL: 'CORRECTIVE',
+  KOR_ROZ: 'CORRECTIVE',
+};
+
+/**
+ * FormaPlatnosci codes
+ */
+const PAYMENT_METHODS: Record<string, string> = {
+  '1': 'cash',
+  '2': 'card',
+  '3': 'voucher',
+  '4': 'cheque',
+  '5': 'credit',
+  '6': 'transfer',
+  '7': 'mobile',
+};
+
+/**
+ * Per-rate summary buckets (P_13_x net / P_14_x VAT)
+ * P_13_5 (OSS) and P_13_11 (margin) have no single rate and only count towards the totals.
+ */
+const VAT_BUCKETS: Array<{ net: string; vat?: string; vatRate: FA3VatRate }> = [
+  { net: 'P_13_1', vat: 'P_14_1', vatRate: 23 },
+  { net: 'P_13_2', vat: 'P_14_2', vatRate: 8 },
+  { net: 'P_13_3', vat: 'P_14_3', vatRate: 5 },
+  { net: 'P_13_4', vat: 'P_14_4', vatRate: 4 },
+  { net: 'P_13_6_1', vatRate: 0 }, // 0% domestic
+  { net: 'P_13_6_2', vatRate: '0 WDT' },
+  { net: 'P_13_6_3', vatRate: '0 EX' },
+  { net: 'P_13_7', vatRate: 'zw' },
+  { net: 'P_13_8', vatRate: 'np' }, // np I
+  { net: 'P_13_9', vatRate: 'np' }, // np II
+  { net: 'P_13_10', vatRate: 'oo' },
+];
+
+const MARGIN_SCHEMES: Record<string, NonNullable<FA3Annotations['marginScheme']>> = {
+  P_PMarzy_2: 'travel',
+  P_PMarzy_3_1: 'used-goods',
+  P_PMarzy_3_2: 'works-of-art',
+  P_PMarzy_3_3: 'antiques',
+};
+
+const ARRAY_ELEMENTS = new Set(['FaWiersz', 'TerminPlatnosci', 'RachunekBankowy', 'DaneFaKorygowanej']);
+
+type XmlNode = Record<string, unknown>;
+
+/**
+ * Parse an FA(3) XML document
+ *
+ * Amounts missing from line items are derived from the ones present: invoices
+ * priced gross (P_9B / P_11A) get their net value from the VAT rate and vice versa.
+ */
+export function parseFA3Xml(xml: string): FA3Invoice {
+  const parser = new XMLParser({
+    removeNSPrefix: true,
+    ignoreAttributes: true,
+    parseTagValue: false,
+    trimValues: true,
+    isArray: (name) => ARRAY_ELEMENTS.has(name),
+  });
+
+  const invoice = (parser.parse(xml) as { Faktura?: XmlNode }).Faktura;
+  const fa = invoice?.Fa as XmlNode | undefined;
+  if (!invoice || !fa) {
+    throw new Error('Not an FA(3) invoice: missing Faktura/Fa');
+  }
+
+  const invoiceNumber = text(fa.P_2);
+  const issueDate = text(fa.P_1);
+  if (!invoiceNumber || !issueDate) {
+    throw new Error('FA(3) invoice is missing its number (P_2) or issue date (P_1)');
+  }
+
+  const kind = text(fa.RodzajFaktury) ?? 'VAT';
+  const invoiceType = INVOICE_TYPES[kind];
+  if (!invoiceType) {
+    throw new Error(`Unsupported FA(3) invoice kind: ${kind}`);
+  }
+
+  const currency = text(fa.KodWaluty) ?? 'PLN';
+  const lineItems = ((fa.FaWiersz as XmlNode[] | undefined) ?? []).map(parseLineItem);
+  const payment = fa.Platnosc as XmlNode | undefined;
+  const bankAccount = (payment?.RachunekBankowy as XmlNode[] | undefined)?.[0];
+
+  const netAmount = sumElements(fa, /^P_13_/);
+  const vatAmount = sumElements(fa, /^P_14_\d+$/);
+
+  return {
+    header: {
+      invoiceNumber,
+      issueDate,
+      sellDate: text(fa.P_6),
+      dueDate: text(((payment?.TerminPlatnosci as XmlNode[] | undefined)?.[0])?.Termin),
+      currency,
+      invoiceType,
+    },
+    parties: {
+      seller: parseParty(invoice.Podmiot1 as XmlNode | undefined),
+      buyer: parseParty(invoice.Podmiot2 as XmlNode | undefined),
+    },
+    lineItems,
+    summary: {
+      netAmount,
+      vatAmount,
+      grossAmount: amount(fa.P_15) ?? round(netAmount + vatAmount),
+      currency,
+      paymentMethod: PAYMENT_METHODS[text(payment?.FormaPlatnosci) ?? ''],
+      bankAccount: text(bankAccount?.NrRB),
+      vatBreakdown: parseVatBreakdown(fa),
+    },
+    annotations: parseAnnotations(fa.Adnotacje as XmlNode | undefined),
+    correction: invoiceType === 'CORRECTIVE' ? parseCorrection(fa) : undefined,
+  };
+}
+
+/**
+ * Per-rate totals from the P_13_x / P_14_x buckets, merged by rate (e.g. the three 0% buckets)
+ */
+function parseVatBreakdown(fa: XmlNode): FA3VatTotal[] {
+  const totals: FA3VatTotal[] = [];
+
+  for (const bucket of VAT_BUCKETS) {
+    const netAmount = amount(fa[bucket.net]);
+    if (netAmount === undefined) continue;
+
+    const vatAmount = bucket.vat ? amount(fa[bucket.vat]) ?? 0 : 0;
+    const total = totals.find((candidate) => candidate.vatRate === bucket.vatRate);
+    if (total) {
+      total.netAmount = round(total.netAmount + netAmount);
+      total.vatAmount = round(total.vatAmount + vatAmount);
+    } else {
+      totals.push({ vatRate: bucket.vatRate, netAmount, vatAmount });
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Adnotacje flags (1 = yes, 2 = no); undefined when none of them apply
+ */
+function parseAnnotations(node: XmlNode | undefined): FA3Annotations | undefined {
+  if (!node) return undefined;
+
+  const exemption = (node.Zwolnienie ?? {}) as XmlNode;
+  const margin = (node.PMarzy ?? {}) as XmlNode;
+  const basis = (['A', 'B', 'C'] as const).find((letter) => text(exemption[`P_19${letter}`]));
+  const marginElement = Object.keys(MARGIN_SCHEMES).find((name) => text(margin[name]) === '1');
+
+  const annotations: FA3Annotations = {
+    ...(text(node.P_16) === '1' && { cashAccounting: true }),
+    ...(text(node.P_17) === '1' && { selfBilling: true }),
+    ...(text(node.P_18) === '1' && { reverseCharge: true }),
+    ...(text(node.P_18A) === '1' && { splitPayment: true }),
+    ...(text(exemption.P_19) === '1' &&
+      basis && {
+        exemption: { basis, description: text(exemption[`P_19${basis}`]) ?? '' },
+      }),
+    ...(text(margin.P_PMarzy) === '1' &&
+      marginElement && { marginScheme: MARGIN_SCHEMES[marginElement] }),
+  };
+
+  return Object.keys(annotations).length > 0 ? annotations : undefined;
+}
+
+function parseCorrection(fa: XmlNode): FA3Correction {
+  const type = Number(text(fa.TypKorekty));
+
+  return {
+    reason: text(fa.PrzyczynaKorekty) ?? '',
+    ...([1, 2, 3].includes(type) && { type: type as FA3CorrectionType }),
+    correctedInvoices: ((fa.DaneFaKorygowanej as XmlNode[] | undefined) ?? []).map((corrected) => ({
+      invoiceNumber: text(corrected.NrFaKorygowanej) ?? '',
+      issueDate: text(corrected.DataWystFaKorygowanej) ?? '',
+      ...(text(corrected.NrKSeFFaKorygowanej) && {
+        ksefNumber: text(corrected.NrKSeFFaKorygowanej),
+      }),
+    })),
+  };
+}
+
+function parseParty(node: XmlNode | undefined): FA3Party {
+  const identification = (node?.DaneIdentyfikacyjne ?? {}) as XmlNode;
+  const address = (node?.Adres ?? {}) as XmlNode;
+
+  return {
+    // Foreign buyers are identified by NrVatUE / NrID instead of NIP
+    nip: text(identification.NIP) ?? text(identification.NrVatUE) ?? text(identification.NrID) ?? '',
+    name: text(identification.Nazwa) ?? '',
+    address: parseFA3Address(
+      text(address.AdresL1) ?? '',
+      text(address.AdresL2) ?? '',
+      text(address.KodKraju) ?? 'PL'
+    ),
+  };
+}
+
+/**
+ * Split the two free-form FA(3) address lines into FA3Address
+ * AdresL1: "ul. Długa 5/3", AdresL2: "00-950 Warszawa"
+ */
+export function parseFA3Address(line1: string, line2: string, country: string): FA3Address {
+  const street = line1.match(/^(.*?)\s+(\d+[A-Za-z]?)(?:\s*\/\s*(\w+))?$/);
+  const city = line2.match(/^(\d{2}-?\d{3})\s+(.+)$/);
+
+  return {
+    street: street ? street[1].replace(/^ul\.\s*/i, '') : line1,
+    houseNumber: street?.[2] ?? '',
+    apartmentNumber: street?.[3],
+    postalCode: city?.[1] ?? '',
+    city: city ? city[2] : line2,
+    country,
+  };
+}
+
+function parseLineItem(node: XmlNode, index: number): FA3LineItem {
+  const vatRate = parseVatRate(text(node.P_12));
+  const percent = vatRatePercent(vatRate);
+  const quantity = amount(node.P_8B) ?? 1;
+
+  let netAmount = amount(node.P_11);
+  let grossAmount = amount(node.P_11A);
+
+  if (netAmount === undefined && grossAmount === undefined) {
+    const netPrice = amount(node.P_9A);
+    const grossPrice = amount(node.P_9B);
+    if (netPrice !== undefined) netAmount = round(netPrice * quantity);
+    else if (grossPrice !== undefined) grossAmount = round(grossPrice * quantity);
+  }
+
+  netAmount ??= round((grossAmount ?? 0) / (1 + percent / 100));
+  const vatAmount = amount(node.P_11Vat) ?? (grossAmount !== undefined
+    ? round(grossAmount - netAmount)
+    : round((netAmount * percent) / 100));
+  grossAmount ??= round(netAmount + vatAmount);
+
+  return {
+    lineNumber: Number(text(node.NrWierszaFa) ?? index + 1),
+    description: text(node.P_7) ?? '',
+    quantity,
+    unitOfMeasure: text(node.P_8A) ?? 'szt',
+    unitPrice: amount(node.P_9A) ?? round(netAmount / (quantity || 1)),
+    netAmount,
+    vatRate,
+    vatAmount,
+    grossAmount,
+    ...(text(node.StanPrzed) === '1' && { beforeCorrection: true }),
+  };
+}
+
+/**
+ * P_12 values: "23", "8", "5", "0 KR" / "0 WDT" / "0 EX", "zw", "np I" / "np II", "oo"
+ */
+function parseVatRate(value: string | undefined): FA3VatRate {
+  if (!value) return 0;
+
+  const rate = parseVATRateCode(value);
+  if (rate === null) {
+    throw new Error(`Unsupported VAT rate in P_12: ${value}`);
+  }
+  return rate;
+}
+
+function sumElements(node: XmlNode, pattern: RegExp): number {
+  return round(
+    Object.entries(node)
+      .filter(([name]) => pattern.test(name))
+      .reduce((sum, [, value]) => sum + (amount(value) ?? 0), 0)
+  );
+}
+
+function text(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  return String(value);
+}
+
+function amount(value: unknown): number | undefined {
+  const raw = text(value);
+  if (raw === undefined) return undefined;
+  const parsed = Number(raw.replace(',', '.'));
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+function round(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
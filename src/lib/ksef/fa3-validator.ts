@@ -0,0 +1,238 @@
+/**
+ * FA(3) XML Validator
+ * Validates generated invoices against the bundled FA(3) XSD (schemas/FA3.xsd); schemas it
+ * imports are read from the same directory
+ *
+ * Each violation carries the element path and line number reported by libxml2,
+ * plus the invoice field the element was generated from so the UI can point the
+ * reviewer at it.
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { validateXML, type XMLFileInfo } from 'xmllint-wasm';
+import type { FA3ValidationError, FA3ValidationResult } from './types';
+
+const SCHEMA_DIR = path.join(process.cwd(), 'src', 'lib', 'ksef', 'schemas');
+const SCHEMA_FILE = 'FA3.xsd';
+
+interface FA3Schemas {
+  schema: XMLFileInfo;
+  preload: XMLFileInfo[]; // Imported schemas (StrukturyDanych, ElementarneTypyDanych, KodyKrajow)
+}
+
+let schemasPromise: Promise<FA3Schemas> | null = null;
+
+/**
+ * Point schemaLocation URLs at the file of the same name in schemas/
+ * (xmllint-wasm has no network access; imports are passed as preloaded files)
+ */
+function resolveImportsLocally(xsd: string): string {
+  return xsd.replace(/schemaLocation="[^"]*\/([^/"]+\.xsd)"/g, 'schemaLocation="$1"');
+}
+
+async function readSchemas(): Promise<FA3Schemas> {
+  const fileNames = (await readdir(SCHEMA_DIR)).filter((fileName) => fileName.endsWith('.xsd'));
+  const files = await Promise.all(
+    fileNames.map(async (fileName) => ({
+      fileName,
+      contents: resolveImportsLocally(await readFile(path.join(SCHEMA_DIR, fileName), 'utf8')),
+    }))
+  );
+
+  const schema = files.find((file) => file.fileName === SCHEMA_FILE);
+  if (!schema) {
+    throw new Error(`FA(3) schema ${SCHEMA_FILE} not found in ${SCHEMA_DIR}`);
+  }
+
+  return { schema, preload: files.filter((file) => file !== schema) };
+}
+
+function loadSchemas(): Promise<FA3Schemas> {
+  if (!schemasPromise) {
+    schemasPromise = readSchemas().catch((error) => {
+      schemasPromise = null;
+      throw error;
+    });
+  }
+  return schemasPromise;
+}
+
+/**
+ * Invoice fields per FA(3) element path (indices stripped)
+ */
+const FIELD_BY_PATH: Record<string, string> = {
+  '/Faktura/Fa/KodWaluty': 'currency',
+  '/Faktura/Fa/P_1': 'invoiceDate',
+  '/Faktura/Fa/P_2': 'invoiceNumber',
+  '/Faktura/Fa/P_6': 'sellDate',
+  '/Faktura/Fa/P_15': 'grossAmount',
+  '/Faktura/Fa/Adnotacje': 'annotations',
+  '/Faktura/Fa/RodzajFaktury': 'invoiceType',
+  '/Faktura/Fa/PrzyczynaKorekty': 'correction.reason',
+  '/Faktura/Fa/TypKorekty': 'correction.type',
+  '/Faktura/Fa/DaneFaKorygowanej': 'correction.correctedInvoice',
+  '/Faktura/Fa/Platnosc/TerminPlatnosci/Termin': 'dueDate',
+  '/Faktura/Fa/Platnosc/RachunekBankowy/NrRB': 'bankAccount',
+  '/Faktura/Podmiot1/DaneIdentyfikacyjne/NIP': 'seller.nip',
+  '/Faktura/Podmiot1/DaneIdentyfikacyjne/Nazwa': 'seller.name',
+  '/Faktura/Podmiot1/Adres': 'seller.address',
+  '/Faktura/Podmiot2/DaneIdentyfikacyjne/NIP': 'buyer.nip',
+  '/Faktura/Podmiot2/DaneIdentyfikacyjne/Nazwa': 'buyer.name',
+  '/Faktura/Podmiot2/Adres': 'buyer.address',
+};
+
+const LINE_ITEM_FIELDS: Record<string, string> = {
+  P_7: 'description',
+  P_8A: 'unitOfMeasure',
+  P_8B: 'quantity',
+  P_9A: 'unitPrice',
+  P_11: 'netAmount',
+  P_11A: 'grossAmount',
+  P_12: 'vatRate',
+  StanPrzed: 'beforeCorrection',
+};
+
+interface ElementLocation {
+  name: string;
+  line: number;
+  path: string;
+}
+
+/**
+ * Locate every element start tag with its line number and indexed path
+ * (repeated siblings get a 1-based [n] suffix)
+ */
+function locateElements(xml: string): ElementLocation[] {
+  const tagPattern =
+    /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[[\s\S]*?\]\]>|<!DOCTYPE[^>]*>|<(\/?)([A-Za-z_][\w.:-]*)(?:[^>"']|"[^"]*"|'[^']*')*?(\/?)>/g;
+
+  interface Node {
+    name: string;
+    line: number;
+    parent: Node | null;
+    index: number;
+    siblingCounts: Map<string, number>;
+  }
+
+  const root: Node = { name: '', line: 0, parent: null, index: 0, siblingCounts: new Map() };
+  const nodes: Node[] = [];
+  let current = root;
+  let line = 1;
+  let lastIndex = 0;
+
+  for (const match of xml.matchAll(tagPattern)) {
+    line += countNewlines(xml, lastIndex, match.index);
+    lastIndex = match.index;
+
+    const [, closing, qualifiedName, selfClosing] = match;
+    if (!qualifiedName) continue;
+    const name = qualifiedName.replace(/^.*:/, '');
+
+    if (closing) {
+      current = current.parent ?? root;
+      continue;
+    }
+
+    const index = (current.siblingCounts.get(name) ?? 0) + 1;
+    current.siblingCounts.set(name, index);
+    const node: Node = { name, line, parent: current, index, siblingCounts: new Map() };
+    nodes.push(node);
+
+    if (!selfClosing) {
+      current = node;
+    }
+  }
+
+  const pathOf = (node: Node): string => {
+    if (!node.parent) return '';
+    const repeated = (node.parent.siblingCounts.get(node.name) ?? 1) > 1;
+    return `${pathOf(node.parent)}/${node.name}${repeated ? `[${node.index}]` : ''}`;
+  };
+
+  return nodes.map((node) => ({ name: node.name, line: node.line, path: pathOf(node) }));
+}
+
+function countNewlines(text: string, from: number, to: number): number {
+  let count = 0;
+  for (let i = from; i < to; i++) {
+    if (text.charCodeAt(i) === 10) count++;
+  }
+  return count;
+}
+
+/**
+ * Map an element path to the invoice field it was generated from
+ */
+export function fieldForPath(elementPath: string): string | undefined {
+  const lineItem = elementPath.match(/^\/Faktura\/Fa\/FaWiersz(?:\[(\d+)\])?(?:\/(\w+))?/);
+  if (lineItem) {
+    const base = `lineItems.${Number(lineItem[1] ?? 1) - 1}`;
+    const property = lineItem[2] ? LINE_ITEM_FIELDS[lineItem[2]] : undefined;
+    return property ? `${base}.${property}` : base;
+  }
+
+  const plain = elementPath.replace(/\[\d+\]/g, '');
+  if (/^\/Faktura\/Fa\/P_13_/.test(plain)) return 'netAmount';
+  if (/^\/Faktura\/Fa\/P_14_/.test(plain)) return 'vatAmount';
+
+  // Walk up so e.g. /Faktura/Podmiot1/Adres/AdresL1 resolves to seller.address
+  for (let candidate = plain; candidate; candidate = candidate.replace(/\/[^/]*$/, '')) {
+    if (FIELD_BY_PATH[candidate]) return FIELD_BY_PATH[candidate];
+  }
+  return undefined;
+}
+
+/**
+ * Validate FA(3) XML against the bundled XSD
+ */
+export async function validateFA3Xml(xml: string): Promise<FA3ValidationResult> {
+  const { schema, preload } = await loadSchemas();
+  const result = await validateXML({
+    xml: [{ fileName: 'invoice.xml', contents: xml }],
+    schema: [schema],
+    preload,
+  });
+
+  if (result.valid) {
+    return { valid: true, errors: [] };
+  }
+
+  const elements = locateElements(xml);
+
+  const errors = result.errors.map((error): FA3ValidationError => {
+    const elementName = error.message.match(/Element '(?:\{[^}]*\})?([^']+)'/)?.[1];
+    const message = error.message
+      .replace(/^Schemas validity error\s*:\s*/, '')
+      .replace(/\{[^}]*\}/g, '');
+
+    const line = error.loc?.lineNumber;
+    const element = line
+      ? (elements.find((e) => e.line === line && e.name === elementName) ??
+        elements.filter((e) => e.line <= line).pop())
+      : undefined;
+
+    return {
+      message,
+      line,
+      path: element?.path,
+      field: element ? fieldForPath(element.path) : undefined,
+    };
+  });
+
+  return { valid: false, errors };
+}
+
+/**
+ * Human readable summary of validation errors
+ */
+export function formatFA3ValidationErrors(errors: FA3ValidationError[]): string {
+  return errors
+    .map((error) => {
+      const location = [error.path, error.line ? `line ${error.line}` : undefined]
+        .filter(Boolean)
+        .join(', ');
+      return location ? `${error.message} (${location})` : error.message;
+    })
+    .join('; ');
+}
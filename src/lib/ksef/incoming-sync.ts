@@ -0,0 +1,200 @@
+/**
+ * KSeF Incoming Invoice Sync
+ * Imports invoices issued to a tenant (Podmiot2) from KSeF
+ *
+ * Each run queries invoices acquired by KSeF since the tenant's last synced
+ * acquisition timestamp (KSeFSyncState), downloads their FA(3) XML and imports
+ * them as INCOMING invoices (fa3-import.ts).
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { KSeFClient } from './client';
+import {
+  createTenantKSeFClient,
+  getTenantKSeFAuthOptions,
+  getTenantKSeFSettings,
+} from './credentials';
+import { importFA3Invoice } from './fa3-import';
+import { storeKSeFInvoiceXml } from './storage';
+import type { KSeFInvoiceHeader } from './types';
+
+const prisma = new PrismaClient();
+
+// How far back the first sync of a tenant reaches
+export const KSEF_SYNC_INITIAL_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+const QUERY_PAGE_SIZE = 100;
+
+// uploadedBy of invoices created by the sync (no user involved)
+export const KSEF_SYNC_USER = 'system:ksef-sync';
+
+/**
+ * Tenants with a seller NIP and KSeF credentials configured in Tenant.settings.ksef
+ */
+export async function listKSeFSyncTenants(): Promise<Array<{ id: string; nip: string }>> {
+  const tenants: Array<{ id: string; settings: unknown }> = await prisma.tenant.findMany({
+    select: { id: true, settings: true },
+  });
+
+  const configured: Array<{ id: string; nip: string }> = [];
+  for (const tenant of tenants) {
+    const { nip } = getTenantKSeFSettings(tenant.settings);
+    if (nip && getTenantKSeFAuthOptions(tenant.settings).authMethod !== undefined) {
+      configured.push({ id: tenant.id, nip });
+    }
+  }
+
+  return configured;
+}
+
+/**
+ * Import new incoming invoices of a tenant from KSeF
+ *
+ * Invoices are processed in acquisition order and the cursor only advances past
+ * invoices that were imported (or already present), so a failure is retried on
+ * the next run.
+ */
+export async function syncIncomingInvoices(
+  tenantId: string,
+  tenantNip: string,
+  options: { now?: Date } = {}
+): Promise<{
+  success: boolean;
+  imported: number;
+  skipped: number;
+  lastAcquiredAt?: Date;
+  error?: string;
+}> {
+  const now = options.now ?? new Date();
+  let imported = 0;
+  let skipped = 0;
+  let lastAcquiredAt: Date | undefined;
+
+  try {
+    const [tenant, state] = await Promise.all([
+      prisma.tenant.findUnique({ where: { id: tenantId }, select: { settings: true } }),
+      prisma.kSeFSyncState.findUnique({ where: { tenantId } }),
+    ]);
+
+    if (!tenant) {
+      throw new Error('Tenant not found');
+    }
+
+    const client = createTenantKSeFClient(tenant.settings, tenantNip);
+    const acquiredFrom: Date =
+      state?.lastAcquiredAt ?? new Date(now.getTime() - KSEF_SYNC_INITIAL_WINDOW_MS);
+    lastAcquiredAt = state?.lastAcquiredAt ?? undefined;
+
+    const headers = await queryAllIncoming(client, acquiredFrom, now);
+
+    for (const header of headers) {
+      // Per tenant: when the seller is a tenant too, it holds the same KSeF number
+      const existing = await prisma.invoice.findUnique({
+        where: { tenantId_ksefNumber: { tenantId, ksefNumber: header.ksefNumber } },
+        select: { id: true },
+      });
+
+      if (existing) {
+        skipped++;
+      } else {
+        const xml = await client.downloadInvoice(header.ksefNumber);
+        await importIncomingInvoice(tenantId, header, xml);
+        imported++;
+      }
+
+      lastAcquiredAt = header.acquisitionTimestamp;
+    }
+
+    await saveSyncState(tenantId, now, lastAcquiredAt ?? now, imported, null);
+
+    return { success: true, imported, skipped, lastAcquiredAt };
+  } catch (error) {
+    const message =
+      error instanceof Error
+        ? error.message
+        : (error as { message?: string })?.message ?? 'Sync failed';
+    console.error('[KSeF] Incoming sync error:', error);
+
+    await saveSyncState(tenantId, now, lastAcquiredAt, imported, message).catch((stateError) => {
+      console.error('[KSeF] Failed to save sync state:', stateError);
+    });
+
+    return { success: false, imported, skipped, lastAcquiredAt, error: message };
+  }
+}
+
+/**
+ * All invoice headers acquired in the range, oldest first
+ */
+async function queryAllIncoming(
+  client: KSeFClient,
+  acquiredFrom: Date,
+  acquiredTo: Date
+): Promise<KSeFInvoiceHeader[]> {
+  const headers: KSeFInvoiceHeader[] = [];
+
+  for (let pageOffset = 0; ; pageOffset++) {
+    const page = await client.queryInvoices({
+      subjectType: 'subject2',
+      acquiredFrom,
+      acquiredTo,
+      pageSize: QUERY_PAGE_SIZE,
+      pageOffset,
+    });
+
+    headers.push(...page.invoices);
+    if (page.invoices.length < QUERY_PAGE_SIZE || headers.length >= page.total) {
+      break;
+    }
+  }
+
+  return headers.sort(
+    (a, b) => a.acquisitionTimestamp.getTime() - b.acquisitionTimestamp.getTime()
+  );
+}
+
+/**
+ * Store the FA(3) document and create the INCOMING invoice with its line items
+ */
+async function importIncomingInvoice(
+  tenantId: string,
+  header: KSeFInvoiceHeader,
+  xml: string
+): Promise<void> {
+  const path = await storeKSeFInvoiceXml(tenantId, header.ksefNumber, xml);
+
+  await importFA3Invoice(tenantId, xml, {
+    source: 'KSEF',
+    originalFileUrl: path,
+    fileName: `${header.ksefNumber}.xml`,
+    uploadedBy: KSEF_SYNC_USER,
+    invoiceType: 'INCOMING', // Queried as Podmiot2
+    ksefNumber: header.ksefNumber,
+    ksefAcquiredAt: header.acquisitionTimestamp,
+  });
+}
+
+async function saveSyncState(
+  tenantId: string,
+  lastRunAt: Date,
+  lastAcquiredAt: Date | undefined,
+  imported: number,
+  lastError: string | null
+): Promise<void> {
+  await prisma.kSeFSyncState.upsert({
+    where: { tenantId },
+    create: {
+      tenantId,
+      lastRunAt,
+      lastAcquiredAt,
+      lastError,
+      importedCount: imported,
+    },
+    update: {
+      lastRunAt,
+      lastAcquiredAt,
+      lastError,
+      importedCount: { increment: imported },
+    },
+  });
+}
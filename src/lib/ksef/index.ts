@@ -3,22 +3,144 @@
  * Polish National e-Invoice System
  */
 
-export { createKSeFClient, KSeFClient } from './client';
-export { convertToFA3Xml, validateFA3Xml, parseAddress } from './fa3-converter';
-export { submitInvoiceToKSeF, downloadUPODocument } from './submission-service';
+export { createKSeFClient, KSeFClient, KSEF_URLS } from './client';
+export {
+  buildInitSessionSignedRequest,
+  buildInitSessionTokenRequest,
+  encryptAuthorisationToken,
+  parseInitSessionResponse,
+} from './auth';
+export {
+  buildBatchPackage,
+  buildBatchInitRequest,
+  buildBatchFinishRequest,
+  hashBatchDocument,
+  parseBatchStatus,
+  parseBatchUpo,
+} from './batch';
+export { loadKSeFCertificate, parsePkcs12 } from './certificate';
+export type { KSeFCertificate, KSeFCertificateSource } from './certificate';
+export {
+  createTenantKSeFClient,
+  getTenantKSeFAuthOptions,
+  getTenantKSeFEnvironment,
+  getTenantKSeFOfflineCertificate,
+  getTenantKSeFSettings,
+  isKSeFEnvironment,
+  KSEF_ENVIRONMENTS,
+  mergeTenantKSeFSettings,
+  toPublicKSeFSettings,
+} from './credentials';
+export type {
+  PublicTenantKSeFSettings,
+  TenantKSeFSettings,
+  TenantKSeFSettingsInput,
+} from './credentials';
+export { decryptKSeFSecret, encryptKSeFSecret, isEncryptedKSeFSecret } from './secrets';
+export {
+  getPublicTenantKSeFSettings,
+  getTenantKSeFNip,
+  getTenantKSeFNips,
+  saveTenantKSeFSettings,
+  testTenantKSeFConnection,
+} from './tenant-settings';
+export { convertToFA3Xml, parseAddress } from './fa3-converter';
+export { parseFA3Xml, parseFA3Address } from './fa3-parser';
+export {
+  importFA3Invoice,
+  resolveFA3Direction,
+  toFA3LineItemData,
+  toFA3ExtractedData,
+} from './fa3-import';
+export type { FA3ImportOptions, FA3ImportResult, FA3ImportSource } from './fa3-import';
+export { validateFA3Xml, formatFA3ValidationErrors, fieldForPath } from './fa3-validator';
+export {
+  getKSeFStatusPollDelay,
+  KSEF_STATUS_POLL_MAX_ATTEMPTS,
+} from './status-polling';
+export {
+  buildUPOStoragePath,
+  buildKSeFInvoiceStoragePath,
+  storeUPODocument,
+  storeKSeFInvoiceXml,
+  readStoredXml,
+} from './storage';
+export { listKSeFSyncTenants, syncIncomingInvoices } from './incoming-sync';
+export {
+  getKSeFMaxRetries,
+  getKSeFRetryDelay,
+  isRetryableKSeFError,
+  planKSeFRetry,
+} from './retry-policy';
+export type { KSeFRetryPlan } from './retry-policy';
+export { getKSeFOfflineDeadline, isKSeFOfflineMode, KSEF_OFFLINE_MODES } from './offline';
+export {
+  buildCertificateVerificationUrl,
+  buildInvoiceVerificationUrl,
+  generateKSeFVerificationCodes,
+  hashInvoiceForQR,
+  KSEF_QR_URLS,
+} from './verification-codes';
+export type { KSeFVerificationCode, KSeFVerificationCodes } from './verification-codes';
+export {
+  buildVisualisationFileName,
+  computeVatBreakdown,
+  renderInvoiceVisualisation,
+} from './visualisation';
+export type { InvoiceVisualisationOptions } from './visualisation';
+export {
+  submitInvoiceToKSeF,
+  submitInvoicesToKSeFBatch,
+  refreshKSeFBatchStatus,
+  checkKSeFSubmissionStatus,
+  storeKSeFSubmissionUPO,
+  storeKSeFBatchUPOs,
+  listDueKSeFRetries,
+  retryKSeFSubmission,
+  issueInvoiceOffline,
+  getKSeFVerificationCodes,
+  listKSeFOfflineQueueTenants,
+  submitKSeFOfflineQueue,
+  downloadUPODocument,
+  generateInvoiceVisualisation,
+} from './submission-service';
 export type {
   KSeFConfig,
+  KSeFAuthMethod,
+  KSeFOfflineMode,
+  KSeFClientOptions,
+  KSeFAuthorisationChallenge,
   KSeFEnvironment,
   KSeFSessionToken,
   KSeFSubmissionResponse,
   KSeFInvoiceStatus,
+  KSeFInvoiceHeader,
+  KSeFInvoiceQuery,
+  KSeFInvoiceQueryPage,
+  KSeFSubjectType,
   KSeFUPODocument,
+  KSeFBatchDocument,
+  KSeFBatchPart,
+  KSeFBatchPackage,
+  KSeFBatchUpload,
+  KSeFBatchSession,
+  KSeFBatchDocumentResult,
+  KSeFBatchStatus,
   KSeFError,
   FA3Invoice,
   FA3Header,
+  FA3InvoiceType,
+  FA3VatRate,
+  FA3Annotations,
+  FA3Correction,
+  FA3CorrectionType,
+  FA3CorrectedInvoice,
   FA3Parties,
   FA3Party,
   FA3Address,
   FA3LineItem,
   FA3Summary,
+  FA3VatTotal,
+  FA3ValidationError,
+  FA3ValidationResult,
 } from './types';
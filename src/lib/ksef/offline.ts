@@ -0,0 +1,47 @@
+/**
+ * KSeF Offline Issuance
+ * Upload deadlines for invoices issued while KSeF could not be used
+ *
+ * Offline invoices are handed to the buyer with KOD I and KOD II
+ * (verification-codes.ts) and must later be sent to KSeF unchanged.
+ */
+
+import type { KSeFOfflineMode } from './types';
+
+export const KSEF_OFFLINE_MODES: readonly KSeFOfflineMode[] = ['OFFLINE24', 'UNAVAILABILITY', 'EMERGENCY'];
+
+/**
+ * Business days granted after the reference date, per mode
+ */
+const UPLOAD_BUSINESS_DAYS: Record<KSeFOfflineMode, number> = {
+  OFFLINE24: 1,
+  UNAVAILABILITY: 1,
+  EMERGENCY: 7,
+};
+
+export function isKSeFOfflineMode(value: unknown): value is KSeFOfflineMode {
+  return KSEF_OFFLINE_MODES.includes(value as KSeFOfflineMode);
+}
+
+/**
+ * Latest upload time of an offline invoice (end of the last business day, UTC)
+ *
+ * `from` is the issue date for OFFLINE24 and the end of the outage for the other
+ * modes; while an outage lasts, the issue date gives the earliest possible deadline.
+ * Weekends are skipped; public holidays are not.
+ */
+export function getKSeFOfflineDeadline(mode: KSeFOfflineMode, from: Date): Date {
+  const deadline = new Date(from);
+  let remaining = UPLOAD_BUSINESS_DAYS[mode];
+
+  while (remaining > 0) {
+    deadline.setUTCDate(deadline.getUTCDate() + 1);
+    const day = deadline.getUTCDay();
+    if (day !== 0 && day !== 6) {
+      remaining--;
+    }
+  }
+
+  deadline.setUTCHours(23, 59, 59, 999);
+  return deadline;
+}
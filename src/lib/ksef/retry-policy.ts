@@ -0,0 +1,75 @@
+/**
+ * KSeF Retry Policy
+ * Decides whether a failed submission is retried and when
+ *
+ * Transport errors, timeouts, throttling and 5xx responses are retried with
+ * exponential backoff (5 min, 10 min, 20 min, ... capped at 6 hours). Any other
+ * HTTP or KSeF processing code (schema rejection, duplicate, invalid NIP, 401/403
+ * on authentication) and missing or unusable credentials are permanent: sending
+ * the same document again would fail the same way.
+ */
+
+import type { KSeFError } from './types';
+
+export const DEFAULT_KSEF_MAX_RETRIES = 5;
+export const KSEF_RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+export const KSEF_RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Retryable HTTP statuses besides 5xx
+const RETRYABLE_STATUS_CODES = new Set([408, 429]);
+
+export type KSeFRetryPlan =
+  | { retry: true; nextRetryAt: Date }
+  | { retry: false; reason: 'PERMANENT' | 'EXHAUSTED' };
+
+/**
+ * Maximum number of automatic retries (KSEF_MAX_RETRIES, default 5)
+ */
+export function getKSeFMaxRetries(): number {
+  const configured = Number.parseInt(process.env.KSEF_MAX_RETRIES ?? '', 10);
+  return Number.isNaN(configured) || configured < 0 ? DEFAULT_KSEF_MAX_RETRIES : configured;
+}
+
+/**
+ * Whether an error reported by the KSeF client is worth retrying
+ * Numeric codes are HTTP statuses or KSeF processing codes; CREDENTIALS_ERROR
+ * is a token, public key or certificate that is missing or cannot be used;
+ * CLIENT_ERROR and UNKNOWN_ERROR cover network failures that never reached KSeF.
+ */
+export function isRetryableKSeFError(error: Pick<KSeFError, 'code'>): boolean {
+  if (error.code === 'CREDENTIALS_ERROR') {
+    return false;
+  }
+  if (!/^\d+$/.test(error.code)) {
+    return true;
+  }
+
+  const status = Number(error.code);
+  return status >= 500 || RETRYABLE_STATUS_CODES.has(status);
+}
+
+/**
+ * Delay before the next retry, given the number of retries already made
+ */
+export function getKSeFRetryDelay(retryCount: number): number {
+  return Math.min(KSEF_RETRY_BASE_DELAY_MS * 2 ** Math.max(retryCount, 0), KSEF_RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Plan the follow-up for a failed submission
+ */
+export function planKSeFRetry(
+  error: Pick<KSeFError, 'code'>,
+  retryCount: number,
+  options: { maxRetries?: number; now?: Date } = {}
+): KSeFRetryPlan {
+  if (!isRetryableKSeFError(error)) {
+    return { retry: false, reason: 'PERMANENT' };
+  }
+  if (retryCount >= (options.maxRetries ?? getKSeFMaxRetries())) {
+    return { retry: false, reason: 'EXHAUSTED' };
+  }
+
+  const now = options.now ?? new Date();
+  return { retry: true, nextRetryAt: new Date(now.getTime() + getKSeFRetryDelay(retryCount)) };
+}
@@ -0,0 +1,67 @@
+/**
+ * KSeF Secret Encryption
+ * Encrypts KSeF tokens and certificate passwords stored in Tenant.settings
+ *
+ * AES-256-GCM with the key from KSEF_SETTINGS_ENCRYPTION_KEY (32 bytes, base64 or hex).
+ * Stored format: enc:v1:{iv}:{auth tag}:{ciphertext}, all base64.
+ * Values without the prefix are treated as plaintext so settings written before
+ * encryption was introduced keep working.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+
+function getEncryptionKey(): Buffer {
+  const raw = process.env.KSEF_SETTINGS_ENCRYPTION_KEY;
+  if (!raw) {
+    throw new Error('KSEF_SETTINGS_ENCRYPTION_KEY is not configured');
+  }
+
+  if (/^[0-9a-f]{64}$/i.test(raw)) {
+    return Buffer.from(raw, 'hex');
+  }
+
+  const decoded = Buffer.from(raw, 'base64');
+  // Passphrases of any other length are stretched to a 256-bit key
+  return decoded.length === 32 ? decoded : createHash('sha256').update(raw, 'utf8').digest();
+}
+
+export function isEncryptedKSeFSecret(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+/**
+ * Encrypt a secret for storage (already encrypted values are returned unchanged)
+ */
+export function encryptKSeFSecret(value: string): string {
+  if (isEncryptedKSeFSecret(value)) {
+    return value;
+  }
+
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+  return `${PREFIX}${iv.toString('base64')}:${cipher.getAuthTag().toString('base64')}:${ciphertext.toString('base64')}`;
+}
+
+/**
+ * Decrypt a stored secret (plaintext values are returned unchanged)
+ */
+export function decryptKSeFSecret(value: string): string {
+  if (!isEncryptedKSeFSecret(value)) {
+    return value;
+  }
+
+  const [iv, tag, ciphertext] = value.slice(PREFIX.length).split(':');
+  if (!iv || !tag || ciphertext === undefined) {
+    throw new Error('Malformed encrypted KSeF secret');
+  }
+
+  const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,31 @@
+/**
+ * KSeF Status Polling
+ * Backoff schedule for polling KSeF until a submission has been processed
+ *
+ * Online invoices are usually processed within a minute, batches can take
+ * considerably longer. Polls start after 15 seconds and double up to 30 minutes,
+ * giving up after roughly three hours; a cron sweep keeps re-polling what is still open.
+ */
+
+export const KSEF_STATUS_POLL_INITIAL_DELAY_MS = 15 * 1000;
+export const KSEF_STATUS_POLL_MAX_DELAY_MS = 30 * 60 * 1000;
+export const KSEF_STATUS_POLL_MAX_ATTEMPTS = 12;
+
+/**
+ * Delay before the given poll attempt (0-based)
+ */
+export function getKSeFStatusPollDelay(attempt: number): number {
+  return Math.min(
+    KSEF_STATUS_POLL_INITIAL_DELAY_MS * 2 ** Math.max(attempt, 0),
+    KSEF_STATUS_POLL_MAX_DELAY_MS
+  );
+}
+
+/**
+ * How long the status workers poll before giving up; submissions and batches still
+ * open after it are re-polled by the stale status sweep
+ */
+export const KSEF_STATUS_POLL_WINDOW_MS = Array.from(
+  { length: KSEF_STATUS_POLL_MAX_ATTEMPTS },
+  (_, attempt) => getKSeFStatusPollDelay(attempt)
+).reduce((total, delay) => total + delay, 0);
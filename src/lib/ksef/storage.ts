@@ -0,0 +1,94 @@
+/**
+ * KSeF Document Storage
+ * Keeps UPO (Urzędowe Poświadczenie Odbioru) documents and FA(3) invoices
+ * downloaded from KSeF in Supabase Storage
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { KSeFUPODocument } from './types';
+
+// KSeF documents live next to the invoice files, under the tenant's folder
+export const KSEF_STORAGE_BUCKET = 'invoices';
+
+// Lazy-initialize admin Supabase client for background jobs (no user session)
+let supabaseAdmin: SupabaseClient | null = null;
+
+function getSupabaseAdmin() {
+  if (!supabaseAdmin) {
+    supabaseAdmin = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+  }
+  return supabaseAdmin;
+}
+
+/**
+ * Storage path of a UPO, e.g. `{tenantId}/upo/UPO_{ksefNumber}.xml`
+ */
+export function buildUPOStoragePath(tenantId: string, upo: Pick<KSeFUPODocument, 'fileName'>): string {
+  return `${tenantId}/upo/${upo.fileName}`;
+}
+
+/**
+ * Storage path of an FA(3) invoice downloaded from KSeF, e.g. `{tenantId}/ksef/{ksefNumber}.xml`
+ */
+export function buildKSeFInvoiceStoragePath(tenantId: string, ksefNumber: string): string {
+  return `${tenantId}/ksef/${ksefNumber}.xml`;
+}
+
+async function upload(path: string, content: Buffer, contentType: string): Promise<string> {
+  const { data, error } = await getSupabaseAdmin()
+    .storage.from(KSEF_STORAGE_BUCKET)
+    .upload(path, content, {
+      contentType,
+      upsert: true,
+    });
+
+  if (error) {
+    throw new Error(`Failed to store ${path}: ${error.message}`);
+  }
+
+  return data.path;
+}
+
+/**
+ * Upload a UPO document and return its storage path
+ */
+export async function storeUPODocument(tenantId: string, upo: KSeFUPODocument): Promise<string> {
+  return upload(buildUPOStoragePath(tenantId, upo), upo.content, upo.contentType);
+}
+
+/**
+ * Upload an FA(3) invoice downloaded from KSeF and return its storage path
+ */
+export async function storeKSeFInvoiceXml(
+  tenantId: string,
+  ksefNumber: string,
+  xml: string
+): Promise<string> {
+  return upload(
+    buildKSeFInvoiceStoragePath(tenantId, ksefNumber),
+    Buffer.from(xml, 'utf8'),
+    'application/xml'
+  );
+}
+
+/**
+ * Read an XML document (e.g. an imported FA(3) invoice) from the invoices bucket
+ */
+export async function readStoredXml(path: string): Promise<string> {
+  const { data, error } = await getSupabaseAdmin().storage.from(KSEF_STORAGE_BUCKET).download(path);
+
+  if (error || !data) {
+    throw new Error(`Failed to read ${path}: ${error?.message ?? 'not found'}`);
+  }
+
+  return data.text();
+}
@@ -4,25 +4,96 @@
  */
 
 import { PrismaClient } from '@prisma/client';
-import { createKSeFClient } from './client';
-import { convertToFA3Xml, validateFA3Xml } from './fa3-converter';
-import type { FA3Invoice } from './types';
+import { normalizeExtractedData } from '@/lib/ai/schemas/extracted-data';
+import { fromLineItemVatRate } from '@/lib/vat-rates';
+import { hashBatchDocument } from './batch';
+import { loadKSeFCertificate, type KSeFCertificate } from './certificate';
+import {
+  createTenantKSeFClient,
+  getTenantKSeFEnvironment,
+  getTenantKSeFOfflineCertificate,
+} from './credentials';
+import { convertToFA3Xml } from './fa3-converter';
+import { parseFA3Xml } from './fa3-parser';
+import { formatFA3ValidationErrors, validateFA3Xml } from './fa3-validator';
+import { getKSeFOfflineDeadline } from './offline';
+import { planKSeFRetry, type KSeFRetryPlan } from './retry-policy';
+import { KSEF_STATUS_POLL_WINDOW_MS } from './status-polling';
+import type {
+  FA3Annotations,
+  FA3CorrectionType,
+  FA3Invoice,
+  FA3ValidationError,
+  KSeFError,
+  KSeFOfflineMode,
+  KSeFSubmissionResponse,
+  KSeFUPODocument,
+} from './types';
+import { readStoredXml, storeUPODocument } from './storage';
+import {
+  generateKSeFVerificationCodes,
+  hashInvoiceForQR,
+  type KSeFVerificationCodes,
+} from './verification-codes';
+import { buildVisualisationFileName, renderInvoiceVisualisation } from './visualisation';
 
 const prisma = new PrismaClient();
 
+/**
+ * TypKorekty per InvoiceCorrection.correctionType
+ */
+const CORRECTION_TYPES: Record<string, FA3CorrectionType> = {
+  ORIGINAL_PERIOD: 1,
+  CORRECTION_DATE: 2,
+  OTHER_DATE: 3,
+};
+
+/**
+ * Submissions a batch or a manual submission leaves alone: queued, in flight, sent or issued offline.
+ * Only FAILED and REJECTED submissions are sent again.
+ */
+const BATCH_SKIPPED_STATUSES: Partial<Record<string, string>> = {
+  PENDING: 'Invoice submission already in progress',
+  SUBMITTING: 'Invoice submission already in progress',
+  RETRYING: 'Invoice submission already in progress',
+  SUBMITTED: 'Invoice already submitted, awaiting KSeF confirmation',
+  ACCEPTED: 'Invoice already accepted by KSeF',
+  OFFLINE: 'Invoice issued offline, queued for upload',
+};
+
 /**
  * Submit invoice to KSeF
+ *
+ * A successful send only means KSeF received the document: the submission is
+ * SUBMITTED until checkKSeFSubmissionStatus() sees it accepted or rejected.
+ * Submissions already queued, being sent or issued offline are not sent again (`inProgress`).
+ *
+ * @param options.claimed - The retry or offline worker claimed the submission (RETRYING / OFFLINE) to send it
  */
 export async function submitInvoiceToKSeF(
   invoiceId: string,
-  tenantNip: string
-): Promise<{ success: boolean; ksefNumber?: string; error?: string }> {
+  tenantNip: string,
+  options: { claimed?: boolean } = {}
+): Promise<{
+  success: boolean;
+  submissionId?: string;
+  referenceNumber?: string;
+  ksefNumber?: string;
+  error?: string;
+  validationErrors?: FA3ValidationError[];
+  nextRetryAt?: Date;
+  inProgress?: boolean;
+}> {
   try {
     // Get invoice data
     const invoice = await prisma.invoice.findUnique({
       where: { id: invoiceId },
       include: {
         lineItems: true,
+        tenant: { select: { settings: true } },
+        correction: {
+          include: { correctedInvoice: { select: { ksefNumber: true } } },
+        },
       },
     });
 
@@ -42,18 +113,40 @@ export async function submitInvoiceToKSeF(
     if (existingSubmission && existingSubmission.status === 'ACCEPTED') {
       return {
         success: true,
+        submissionId: existingSubmission.id,
         ksefNumber: existingSubmission.ksefNumber || undefined,
       };
     }
 
-    // Convert invoice data to FA(3) format
-    const fa3Invoice = convertInvoiceToFA3(invoice);
-    const fa3Xml = convertToFA3Xml(fa3Invoice);
+    if (existingSubmission && existingSubmission.status === 'SUBMITTED') {
+      return {
+        success: true,
+        submissionId: existingSubmission.id,
+        referenceNumber: existingSubmission.referenceNumber || undefined,
+      };
+    }
+
+    const inProgress =
+      existingSubmission && !options.claimed && BATCH_SKIPPED_STATUSES[existingSubmission.status];
+    if (inProgress) {
+      return { success: false, submissionId: existingSubmission.id, error: inProgress, inProgress: true };
+    }
+
+    // Offline invoices were handed out with QR codes over the stored document: send it unchanged
+    const offline = Boolean(existingSubmission?.offlineMode);
+    const fa3Xml = offline
+      ? existingSubmission!.fa3Xml
+      : convertToFA3Xml(convertInvoiceToFA3(invoice));
 
-    // Validate XML
-    const validation = validateFA3Xml(fa3Xml);
+    // Validate XML against the FA(3) schema before anything is sent to KSeF
+    const validation = await validateFA3Xml(fa3Xml);
     if (!validation.valid) {
-      throw new Error(`FA(3) validation failed: ${validation.errors.join(', ')}`);
+      console.warn('[KSeF] FA(3) validation failed:', formatFA3ValidationErrors(validation.errors));
+      return {
+        success: false,
+        error: `FA(3) validation failed: ${formatFA3ValidationErrors(validation.errors)}`,
+        validationErrors: validation.errors,
+      };
     }
 
     // Create or update submission record
@@ -68,66 +161,1043 @@ export async function submitInvoiceToKSeF(
       update: {
         fa3Xml,
         status: 'SUBMITTING',
-        retryCount: { increment: 1 },
+        // The first upload of an offline invoice is not a retry
+        ...(existingSubmission?.status !== 'OFFLINE' && { retryCount: { increment: 1 } }),
       },
     });
 
     // Submit to KSeF
-    const ksefClient = createKSeFClient('test', tenantNip);
-    const result = await ksefClient.submitInvoice(fa3Xml);
+    const ksefClient = createTenantKSeFClient(invoice.tenant.settings, tenantNip);
+    const result = await ksefClient
+      .submitInvoice(fa3Xml, { offlineMode: offline })
+      .catch((error: KSeFError): KSeFSubmissionResponse => ({ success: false, error }));
+
+    if (result.success && result.referenceNumber) {
+      const submittedAt = result.timestamp ?? new Date();
 
-    if (result.success && result.ksefNumber) {
-      // Update submission as successful
       await prisma.kSeFSubmission.update({
         where: { id: submission.id },
         data: {
-          status: 'ACCEPTED',
-          ksefNumber: result.ksefNumber,
-          submittedAt: new Date(),
+          status: 'SUBMITTED',
+          referenceNumber: result.referenceNumber,
+          submittedAt,
+          errorCode: null,
+          errorMessage: null,
+          nextRetryAt: null,
         },
       });
-
-      // Update invoice
       await prisma.invoice.update({
         where: { id: invoiceId },
         data: {
-          ksefNumber: result.ksefNumber,
-          ksefStatus: 'ACCEPTED',
-          ksefSubmittedAt: new Date(),
+          ksefStatus: 'SUBMITTING',
+          ksefSubmittedAt: submittedAt,
           status: 'SUBMITTED',
         },
       });
 
       return {
         success: true,
-        ksefNumber: result.ksefNumber,
+        submissionId: submission.id,
+        referenceNumber: result.referenceNumber,
       };
     } else {
       // Handle submission failure
+      const error = result.error ?? { code: 'UNKNOWN_ERROR', message: 'Submission failed' };
+      const plan = await recordSubmissionFailure(submission, error);
+
+      return {
+        success: false,
+        submissionId: submission.id,
+        error: error.message || 'Submission failed',
+        nextRetryAt: plan.retry ? plan.nextRetryAt : undefined,
+      };
+    }
+  } catch (error) {
+    console.error('[KSeF] Submission error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Submit several invoices in one KSeF batch (wsadowa) session
+ *
+ * Invoices that cannot be sent (not approved, already sent or being sent,
+ * failing FA(3) validation) are skipped and reported; the rest go out as a single package.
+ * KSeF processes batches asynchronously - per-document results are recorded by
+ * refreshKSeFBatchStatus().
+ */
+export async function submitInvoicesToKSeFBatch(
+  invoiceIds: string[],
+  tenantId: string,
+  tenantNip: string
+): Promise<{
+  success: boolean;
+  batchId?: string;
+  referenceNumber?: string;
+  submitted: string[];
+  skipped: Array<{ invoiceId: string; error: string; validationErrors?: FA3ValidationError[] }>;
+  error?: string;
+}> {
+  const skipped: Array<{ invoiceId: string; error: string; validationErrors?: FA3ValidationError[] }> = [];
+
+  try {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { settings: true },
+    });
+
+    if (!tenant) {
+      throw new Error('Tenant not found');
+    }
+
+    const invoices = await prisma.invoice.findMany({
+      where: { id: { in: invoiceIds }, tenantId },
+      include: {
+        lineItems: true,
+        correction: {
+          include: { correctedInvoice: { select: { ksefNumber: true } } },
+        },
+        ksefSubmission: { select: { status: true } },
+      },
+    });
+
+    const documents: Array<{ invoiceId: string; fa3Xml: string; retry: boolean }> = [];
+    const found = new Set<string>();
+
+    for (const invoice of invoices) {
+      const invoiceId: string = invoice.id;
+      found.add(invoiceId);
+
+      if (invoice.status !== 'APPROVED' && invoice.status !== 'PROCESSED') {
+        skipped.push({ invoiceId, error: 'Invoice must be approved before KSeF submission' });
+        continue;
+      }
+      const skipReason = invoice.ksefSubmission && BATCH_SKIPPED_STATUSES[invoice.ksefSubmission.status];
+      if (skipReason) {
+        skipped.push({ invoiceId, error: skipReason });
+        continue;
+      }
+
+      let fa3Xml: string;
+      try {
+        fa3Xml = convertToFA3Xml(convertInvoiceToFA3(invoice));
+      } catch (error) {
+        skipped.push({ invoiceId, error: errorMessage(error, 'FA(3) conversion failed') });
+        continue;
+      }
+
+      const validation = await validateFA3Xml(fa3Xml);
+      if (!validation.valid) {
+        skipped.push({
+          invoiceId,
+          error: `FA(3) validation failed: ${formatFA3ValidationErrors(validation.errors)}`,
+          validationErrors: validation.errors,
+        });
+        continue;
+      }
+
+      // A FAILED or REJECTED submission is being sent again
+      documents.push({ invoiceId, fa3Xml, retry: Boolean(invoice.ksefSubmission) });
+    }
+
+    for (const invoiceId of invoiceIds) {
+      if (!found.has(invoiceId)) {
+        skipped.push({ invoiceId, error: 'Invoice not found' });
+      }
+    }
+
+    if (documents.length === 0) {
+      return {
+        success: false,
+        submitted: [],
+        skipped,
+        error: 'None of the invoices can be submitted',
+      };
+    }
+
+    const batch = await prisma.kSeFBatchSession.create({
+      data: {
+        tenantId,
+        documentCount: documents.length,
+        status: 'UPLOADING',
+      },
+    });
+
+    for (const document of documents) {
+      await prisma.kSeFSubmission.upsert({
+        where: { invoiceId: document.invoiceId },
+        create: {
+          invoiceId: document.invoiceId,
+          tenantId,
+          fa3Xml: document.fa3Xml,
+          status: 'SUBMITTING',
+          batchId: batch.id,
+        },
+        update: {
+          fa3Xml: document.fa3Xml,
+          status: 'SUBMITTING',
+          batchId: batch.id,
+          errorCode: null,
+          errorMessage: null,
+          ...(document.retry && { retryCount: { increment: 1 } }),
+        },
+      });
+    }
+
+    const ksefClient = createTenantKSeFClient(tenant.settings, tenantNip);
+
+    try {
+      const session = await ksefClient.submitBatch(
+        documents.map((document) => ({
+          fileName: `${document.invoiceId}.xml`,
+          content: document.fa3Xml,
+        }))
+      );
+
+      await prisma.kSeFBatchSession.update({
+        where: { id: batch.id },
+        data: {
+          referenceNumber: session.referenceNumber,
+          partCount: session.partCount,
+          status: 'SUBMITTED',
+          submittedAt: session.timestamp,
+        },
+      });
+      await prisma.kSeFSubmission.updateMany({
+        where: { batchId: batch.id },
+        data: { status: 'SUBMITTED', submittedAt: session.timestamp },
+      });
+      await prisma.invoice.updateMany({
+        where: { id: { in: documents.map((document) => document.invoiceId) } },
+        data: {
+          ksefStatus: 'SUBMITTING',
+          ksefSubmittedAt: session.timestamp,
+          status: 'SUBMITTED',
+        },
+      });
+
+      return {
+        success: true,
+        batchId: batch.id,
+        referenceNumber: session.referenceNumber,
+        submitted: documents.map((document) => document.invoiceId),
+        skipped,
+      };
+    } catch (error) {
+      const message = errorMessage(error, 'Batch submission failed');
+
+      await prisma.kSeFBatchSession.update({
+        where: { id: batch.id },
+        data: { status: 'FAILED', errorMessage: message },
+      });
+      await prisma.kSeFSubmission.updateMany({
+        where: { batchId: batch.id },
+        data: {
+          status: 'FAILED',
+          errorCode: (error as KSeFError).code,
+          errorMessage: message,
+        },
+      });
+
+      return {
+        success: false,
+        batchId: batch.id,
+        submitted: [],
+        skipped,
+        error: message,
+      };
+    }
+  } catch (error) {
+    console.error('[KSeF] Batch submission error:', error);
+    return {
+      success: false,
+      submitted: [],
+      skipped,
+      error: errorMessage(error, 'Unknown error'),
+    };
+  }
+}
+
+/**
+ * Poll KSeF for the result of a batch session and record per-document outcomes
+ *
+ * Documents listed in the batch UPO are matched to their submissions by document
+ * hash and marked ACCEPTED with their KSeF number; documents missing from the UPO
+ * were rejected by KSeF.
+ */
+export async function refreshKSeFBatchStatus(
+  batchId: string,
+  tenantNip: string
+): Promise<{
+  success: boolean;
+  status?: string;
+  accepted?: number;
+  rejected?: number;
+  error?: string;
+}> {
+  try {
+    const batch = await prisma.kSeFBatchSession.findUnique({
+      where: { id: batchId },
+      include: {
+        submissions: { select: { id: true, invoiceId: true, fa3Xml: true } },
+      },
+    });
+
+    if (!batch) {
+      throw new Error('Batch session not found');
+    }
+    if (!batch.referenceNumber) {
+      throw new Error('Batch session was not submitted to KSeF');
+    }
+    if (batch.status === 'COMPLETED' || batch.status === 'FAILED') {
+      return { success: true, status: batch.status };
+    }
+
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: batch.tenantId },
+      select: { settings: true },
+    });
+
+    const ksefClient = createTenantKSeFClient(tenant?.settings, tenantNip);
+    const result = await ksefClient.getBatchStatus(batch.referenceNumber);
+
+    if (result.status === 'PROCESSING') {
+      return { success: true, status: batch.status };
+    }
+
+    if (result.status === 'FAILED') {
+      await prisma.kSeFSubmission.updateMany({
+        where: { batchId },
+        data: {
+          status: 'REJECTED',
+          errorCode: result.processingCode.toString(),
+          errorMessage: result.processingDescription ?? 'Batch rejected by KSeF',
+        },
+      });
+      await prisma.kSeFBatchSession.update({
+        where: { id: batchId },
+        data: {
+          status: 'FAILED',
+          processingCode: result.processingCode,
+          processingDescription: result.processingDescription,
+          completedAt: new Date(),
+        },
+      });
+
+      return { success: true, status: 'FAILED', accepted: 0, rejected: batch.submissions.length };
+    }
+
+    const resultsByHash = new Map(result.documents.map((document) => [document.documentHash, document]));
+    let accepted = 0;
+
+    for (const submission of batch.submissions) {
+      const document = resultsByHash.get(hashBatchDocument(submission.fa3Xml));
+
+      if (document) {
+        await markSubmissionAccepted(submission.id, submission.invoiceId, document.ksefNumber);
+        accepted++;
+      } else {
+        await prisma.kSeFSubmission.update({
+          where: { id: submission.id },
+          data: {
+            status: 'REJECTED',
+            errorCode: result.processingCode.toString(),
+            errorMessage: 'Document is not listed in the batch UPO',
+          },
+        });
+        await prisma.invoice.update({
+          where: { id: submission.invoiceId },
+          data: { ksefStatus: 'REJECTED' },
+        });
+      }
+    }
+
+    await prisma.kSeFBatchSession.update({
+      where: { id: batchId },
+      data: {
+        status: 'COMPLETED',
+        processingCode: result.processingCode,
+        processingDescription: result.processingDescription,
+        upo: result.upo,
+        completedAt: new Date(),
+      },
+    });
+
+    return {
+      success: true,
+      status: 'COMPLETED',
+      accepted,
+      rejected: batch.submissions.length - accepted,
+    };
+  } catch (error) {
+    console.error('[KSeF] Batch status error:', error);
+    return {
+      success: false,
+      error: errorMessage(error, 'Status check failed'),
+    };
+  }
+}
+
+/**
+ * Check the processing status of a submission sent in an online session
+ *
+ * SUBMITTED submissions move to ACCEPTED (with their KSeF number) or REJECTED;
+ * the returned status is SUBMITTED while KSeF is still processing the invoice.
+ */
+export async function checkKSeFSubmissionStatus(
+  submissionId: string,
+  tenantNip: string
+): Promise<{
+  success: boolean;
+  status?: string;
+  ksefNumber?: string;
+  error?: string;
+}> {
+  try {
+    const submission = await prisma.kSeFSubmission.findUnique({
+      where: { id: submissionId },
+      include: {
+        invoice: { select: { tenant: { select: { settings: true } } } },
+      },
+    });
+
+    if (!submission) {
+      throw new Error('Submission not found');
+    }
+    if (submission.status !== 'SUBMITTED') {
+      return {
+        success: true,
+        status: submission.status,
+        ksefNumber: submission.ksefNumber || undefined,
+      };
+    }
+    if (!submission.referenceNumber) {
+      throw new Error('Submission has no KSeF reference number');
+    }
+
+    const ksefClient = createTenantKSeFClient(submission.invoice.tenant.settings, tenantNip);
+    const result = await ksefClient.getInvoiceStatus(submission.referenceNumber);
+
+    if (result.status === 'ACCEPTED' && result.ksefNumber) {
+      await markSubmissionAccepted(submission.id, submission.invoiceId, result.ksefNumber);
+      return { success: true, status: 'ACCEPTED', ksefNumber: result.ksefNumber };
+    }
+
+    if (result.status === 'REJECTED') {
       await prisma.kSeFSubmission.update({
         where: { id: submission.id },
         data: {
-          status: 'FAILED',
+          status: 'REJECTED',
           errorCode: result.error?.code,
           errorMessage: result.error?.message,
-          errorDetails: result.error?.details as never,
         },
       });
+      await prisma.invoice.update({
+        where: { id: submission.invoiceId },
+        data: { ksefStatus: 'REJECTED' },
+      });
+      return { success: true, status: 'REJECTED' };
+    }
+
+    return { success: true, status: 'SUBMITTED' };
+  } catch (error) {
+    console.error('[KSeF] Status check error:', error);
+    return {
+      success: false,
+      error: errorMessage(error, 'Status check failed'),
+    };
+  }
+}
 
+/**
+ * Download the UPO of an accepted submission into Supabase Storage
+ * and complete the invoice
+ */
+export async function storeKSeFSubmissionUPO(
+  submissionId: string,
+  tenantNip: string
+): Promise<{ success: boolean; upoUrl?: string; error?: string }> {
+  try {
+    const submission = await prisma.kSeFSubmission.findUnique({
+      where: { id: submissionId },
+      include: {
+        invoice: { select: { tenant: { select: { settings: true } } } },
+      },
+    });
+
+    if (!submission || submission.status !== 'ACCEPTED' || !submission.ksefNumber) {
+      throw new Error('Submission has not been accepted by KSeF');
+    }
+    if (submission.upoUrl) {
+      return { success: true, upoUrl: submission.upoUrl };
+    }
+
+    const ksefClient = createTenantKSeFClient(submission.invoice.tenant.settings, tenantNip);
+    const upo = await ksefClient.downloadUPO(submission.ksefNumber);
+
+    return {
+      success: true,
+      upoUrl: await saveUPO(submission, upo),
+    };
+  } catch (error) {
+    console.error('[KSeF] UPO storage error:', error);
+    return {
+      success: false,
+      error: errorMessage(error, 'UPO download failed'),
+    };
+  }
+}
+
+/**
+ * Store the UPO of every accepted submission of a batch session
+ */
+export async function storeKSeFBatchUPOs(
+  batchId: string,
+  tenantNip: string
+): Promise<{ success: boolean; stored: number; failed: number; error?: string }> {
+  try {
+    const submissions = await prisma.kSeFSubmission.findMany({
+      where: { batchId, status: 'ACCEPTED', upoUrl: null },
+      select: { id: true },
+    });
+
+    let stored = 0;
+    for (const submission of submissions) {
+      const result = await storeKSeFSubmissionUPO(submission.id, tenantNip);
+      if (result.success) stored++;
+    }
+
+    return { success: true, stored, failed: submissions.length - stored };
+  } catch (error) {
+    console.error('[KSeF] Batch UPO storage error:', error);
+    return {
+      success: false,
+      stored: 0,
+      failed: 0,
+      error: errorMessage(error, 'UPO download failed'),
+    };
+  }
+}
+
+/**
+ * Submissions whose scheduled retry is due
+ */
+export async function listDueKSeFRetries(
+  now: Date = new Date(),
+  limit = 50
+): Promise<Array<{ id: string; invoiceId: string; tenantId: string }>> {
+  return prisma.kSeFSubmission.findMany({
+    where: { status: 'FAILED', nextRetryAt: { lte: now } },
+    select: { id: true, invoiceId: true, tenantId: true },
+    orderBy: { nextRetryAt: 'asc' },
+    take: limit,
+  });
+}
+
+/**
+ * Online submissions and batch sessions still awaiting KSeF processing after the
+ * status workers stopped polling them (KSEF_STATUS_POLL_WINDOW_MS)
+ */
+export async function listStaleKSeFSubmissions(
+  now: Date = new Date(),
+  limit = 50
+): Promise<{
+  submissions: Array<{ id: string; invoiceId: string; tenantId: string }>;
+  batches: Array<{ id: string; tenantId: string }>;
+}> {
+  const submittedBefore = new Date(now.getTime() - KSEF_STATUS_POLL_WINDOW_MS);
+
+  const [submissions, batches] = await Promise.all([
+    // Documents sent in a batch follow their batch session
+    prisma.kSeFSubmission.findMany({
+      where: { status: 'SUBMITTED', batchId: null, submittedAt: { lte: submittedBefore } },
+      select: { id: true, invoiceId: true, tenantId: true },
+      orderBy: { submittedAt: 'asc' },
+      take: limit,
+    }),
+    prisma.kSeFBatchSession.findMany({
+      where: { status: 'SUBMITTED', submittedAt: { lte: submittedBefore } },
+      select: { id: true, tenantId: true },
+      orderBy: { submittedAt: 'asc' },
+      take: limit,
+    }),
+  ]);
+
+  return { submissions, batches };
+}
+
+/**
+ * Retry a FAILED submission whose nextRetryAt has passed
+ *
+ * The submission is claimed (RETRYING) before it is resent so overlapping
+ * scheduler runs cannot send it twice. `gaveUp` is set when no further retry
+ * is scheduled: the error was permanent or the retry cap was reached.
+ */
+export async function retryKSeFSubmission(
+  submissionId: string,
+  tenantNip: string
+): Promise<{
+  success: boolean;
+  claimed: boolean;
+  referenceNumber?: string;
+  nextRetryAt?: Date;
+  gaveUp?: boolean;
+  retryCount?: number;
+  error?: string;
+}> {
+  try {
+    const claim = await prisma.kSeFSubmission.updateMany({
+      where: { id: submissionId, status: 'FAILED', nextRetryAt: { lte: new Date() } },
+      data: { status: 'RETRYING', nextRetryAt: null },
+    });
+
+    if (claim.count === 0) {
+      return { success: false, claimed: false };
+    }
+
+    const submission = await prisma.kSeFSubmission.findUnique({
+      where: { id: submissionId },
+      select: { invoiceId: true },
+    });
+    const result = await submitInvoiceToKSeF(submission!.invoiceId, tenantNip, { claimed: true });
+
+    const current = await prisma.kSeFSubmission.findUnique({
+      where: { id: submissionId },
+      select: { status: true, retryCount: true },
+    });
+
+    // Rejected before reaching KSeF (invoice no longer approved, FA(3) invalid)
+    if (current?.status === 'RETRYING') {
+      await prisma.kSeFSubmission.update({
+        where: { id: submissionId },
+        data: { status: 'FAILED', errorCode: 'SUBMISSION_ERROR', errorMessage: result.error },
+      });
+    }
+
+    return {
+      success: result.success,
+      claimed: true,
+      referenceNumber: result.referenceNumber,
+      nextRetryAt: result.nextRetryAt,
+      gaveUp: !result.success && !result.nextRetryAt,
+      retryCount: current?.retryCount,
+      error: result.error,
+    };
+  } catch (error) {
+    console.error('[KSeF] Retry error:', error);
+    return {
+      success: false,
+      claimed: true,
+      error: errorMessage(error, 'Retry failed'),
+    };
+  }
+}
+
+/**
+ * Issue an invoice offline while KSeF cannot be used
+ *
+ * The FA(3) document is generated and validated now and stored on an OFFLINE
+ * submission; KOD I / KOD II are generated over exactly this document.
+ * submitKSeFOfflineQueue() uploads it once KSeF is reachable again.
+ */
+export async function issueInvoiceOffline(
+  invoiceId: string,
+  tenantNip: string,
+  mode: KSeFOfflineMode,
+  issuedAt: Date = new Date()
+): Promise<{
+  success: boolean;
+  submissionId?: string;
+  offlineDeadline?: Date;
+  verificationCodes?: KSeFVerificationCodes;
+  error?: string;
+  validationErrors?: FA3ValidationError[];
+}> {
+  try {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      include: {
+        lineItems: true,
+        tenant: { select: { settings: true } },
+        correction: {
+          include: { correctedInvoice: { select: { ksefNumber: true } } },
+        },
+      },
+    });
+
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+
+    if (invoice.status !== 'APPROVED' && invoice.status !== 'PROCESSED') {
+      throw new Error('Invoice must be approved before it is issued');
+    }
+
+    const existingSubmission = await prisma.kSeFSubmission.findUnique({
+      where: { invoiceId },
+      select: { status: true, offlineMode: true },
+    });
+
+    // Once QR codes are out, the document must not change
+    if (existingSubmission?.offlineMode) {
+      throw new Error('Invoice has already been issued offline');
+    }
+    if (existingSubmission && existingSubmission.status !== 'FAILED' && existingSubmission.status !== 'PENDING') {
+      throw new Error('Invoice has already been sent to KSeF');
+    }
+
+    const fa3 = convertInvoiceToFA3(invoice);
+    const fa3Xml = convertToFA3Xml(fa3, { generatedAt: issuedAt });
+
+    const validation = await validateFA3Xml(fa3Xml);
+    if (!validation.valid) {
       return {
         success: false,
-        error: result.error?.message || 'Submission failed',
+        error: `FA(3) validation failed: ${formatFA3ValidationErrors(validation.errors)}`,
+        validationErrors: validation.errors,
       };
     }
+
+    // KOD II needs the offline certificate: without it nothing is queued
+    const verificationCodes = await buildVerificationCodes(invoice.tenant.settings, {
+      sellerNip: fa3.parties.seller.nip,
+      contextNip: tenantNip,
+      issueDate: fa3.header.issueDate,
+      fa3Xml,
+      offline: true,
+    });
+
+    const offline = {
+      fa3Xml,
+      status: 'OFFLINE' as const,
+      offlineMode: mode,
+      offlineIssuedAt: issuedAt,
+      offlineDeadline: getKSeFOfflineDeadline(mode, issuedAt),
+      invoiceHash: hashInvoiceForQR(fa3Xml),
+      errorCode: null,
+      errorMessage: null,
+      nextRetryAt: null,
+    };
+
+    const submission = await prisma.kSeFSubmission.upsert({
+      where: { invoiceId },
+      create: { invoiceId, tenantId: invoice.tenantId, ...offline },
+      update: offline,
+    });
+
+    await prisma.invoice.update({
+      where: { id: invoiceId },
+      data: { ksefStatus: 'PENDING' },
+    });
+
+    return {
+      success: true,
+      submissionId: submission.id,
+      offlineDeadline: offline.offlineDeadline,
+      verificationCodes,
+    };
   } catch (error) {
-    console.error('[KSeF] Submission error:', error);
+    console.error('[KSeF] Offline issuance error:', error);
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
+      error: errorMessage(error, 'Offline issuance failed'),
     };
   }
 }
 
+/**
+ * KOD I / KOD II of an invoice's FA(3) document, or null before it was generated
+ *
+ * KOD II is included for offline invoices and requires the tenant's KSeF offline
+ * certificate (Tenant.settings.ksef.offlineCertificate).
+ */
+export async function getKSeFVerificationCodes(
+  invoiceId: string,
+  tenantNip: string
+): Promise<KSeFVerificationCodes | null> {
+  const submission = await prisma.kSeFSubmission.findUnique({
+    where: { invoiceId },
+    select: {
+      fa3Xml: true,
+      ksefNumber: true,
+      offlineMode: true,
+      invoice: { select: { tenant: { select: { settings: true } } } },
+    },
+  });
+
+  if (!submission) {
+    return null;
+  }
+
+  const fa3 = parseFA3Xml(submission.fa3Xml);
+
+  return buildVerificationCodes(submission.invoice.tenant.settings, {
+    sellerNip: fa3.parties.seller.nip,
+    contextNip: tenantNip,
+    issueDate: fa3.header.issueDate,
+    fa3Xml: submission.fa3Xml,
+    ksefNumber: submission.ksefNumber ?? undefined,
+    offline: Boolean(submission.offlineMode),
+  });
+}
+
+/**
+ * KOD I, plus KOD II signed with the tenant's offline certificate for offline invoices
+ */
+async function buildVerificationCodes(
+  tenantSettings: unknown,
+  document: {
+    sellerNip: string;
+    contextNip: string;
+    issueDate: string;
+    fa3Xml: string;
+    ksefNumber?: string;
+    offline: boolean;
+  }
+): Promise<KSeFVerificationCodes> {
+  const { offline, ...params } = document;
+  let offlineCertificate: KSeFCertificate | undefined;
+
+  if (offline) {
+    const source = getTenantKSeFOfflineCertificate(tenantSettings);
+    if (!source) {
+      throw new Error('KSeF offline certificate is not configured');
+    }
+    offlineCertificate = await loadKSeFCertificate(source);
+  }
+
+  return generateKSeFVerificationCodes({
+    environment: getTenantKSeFEnvironment(tenantSettings),
+    ...params,
+    offlineCertificate,
+  });
+}
+
+/**
+ * PDF visualisation of an invoice from its FA(3) content
+ *
+ * The document is, in order of preference: the FA(3) XML sent (or queued offline)
+ * to KSeF, the imported XML of invoices received from KSeF or uploaded as FA(3),
+ * or the document that submitInvoiceToKSeF would generate. KOD I is included once
+ * the invoice has a KSeF number or was issued offline (with KOD II).
+ */
+export async function generateInvoiceVisualisation(
+  invoiceId: string,
+  tenantNip?: string
+): Promise<{ pdf: Buffer; fileName: string; invoiceNumber: string } | null> {
+  const invoice = await prisma.invoice.findUnique({
+    where: { id: invoiceId },
+    include: {
+      lineItems: { orderBy: { lineNumber: 'asc' } },
+      tenant: { select: { settings: true } },
+      correction: {
+        include: { correctedInvoice: { select: { ksefNumber: true } } },
+      },
+      ksefSubmission: { select: { fa3Xml: true, status: true, offlineMode: true } },
+    },
+  });
+
+  if (!invoice) {
+    return null;
+  }
+
+  const submission = invoice.ksefSubmission;
+  const source = (invoice.metadata as { source?: string } | null)?.source;
+  let fa3Xml: string | undefined = submission?.fa3Xml;
+
+  if (!submission && (source === 'UPLOAD' || source === 'KSEF')) {
+    fa3Xml = await readStoredXml(invoice.originalFileUrl);
+  }
+
+  const fa3 = fa3Xml ? parseFA3Xml(fa3Xml) : convertInvoiceToFA3(invoice);
+  let verificationCodes: KSeFVerificationCodes | undefined;
+
+  if (submission && (invoice.ksefNumber || submission.offlineMode)) {
+    verificationCodes =
+      (await getKSeFVerificationCodes(invoiceId, tenantNip ?? fa3.parties.seller.nip)) ?? undefined;
+  } else if (fa3Xml && invoice.ksefNumber) {
+    // Invoices received from KSeF: KOD I over the downloaded document
+    verificationCodes = await generateKSeFVerificationCodes({
+      environment: getTenantKSeFEnvironment(invoice.tenant.settings),
+      sellerNip: fa3.parties.seller.nip,
+      issueDate: fa3.header.issueDate,
+      fa3Xml,
+      ksefNumber: invoice.ksefNumber,
+    });
+  }
+
+  const pdf = renderInvoiceVisualisation(fa3, {
+    ksefNumber: invoice.ksefNumber ?? undefined,
+    offline: submission?.status === 'OFFLINE',
+    verificationCodes,
+  });
+
+  return {
+    pdf,
+    fileName: buildVisualisationFileName(fa3.header.invoiceNumber),
+    invoiceNumber: fa3.header.invoiceNumber,
+  };
+}
+
+/**
+ * Tenants with offline invoices waiting for upload
+ */
+export async function listKSeFOfflineQueueTenants(): Promise<string[]> {
+  const queued: Array<{ tenantId: string }> = await prisma.kSeFSubmission.findMany({
+    where: { status: 'OFFLINE' },
+    select: { tenantId: true },
+    distinct: ['tenantId'],
+  });
+
+  return queued.map((submission) => submission.tenantId);
+}
+
+/**
+ * Upload a tenant's offline invoices once KSeF accepts a session again
+ *
+ * Nothing is sent while authentication fails (`available: false`). Invoices go
+ * out oldest first; failed uploads continue on the regular retry schedule.
+ */
+export async function submitKSeFOfflineQueue(
+  tenantId: string,
+  tenantNip: string
+): Promise<{
+  available: boolean;
+  submitted: Array<{ submissionId: string; invoiceId: string }>;
+  failed: number;
+  error?: string;
+}> {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { settings: true },
+  });
+
+  try {
+    await createTenantKSeFClient(tenant?.settings, tenantNip).authenticate();
+  } catch (error) {
+    return { available: false, submitted: [], failed: 0, error: errorMessage(error, 'KSeF unavailable') };
+  }
+
+  const queued: Array<{ id: string; invoiceId: string }> = await prisma.kSeFSubmission.findMany({
+    where: { tenantId, status: 'OFFLINE' },
+    select: { id: true, invoiceId: true },
+    orderBy: { offlineIssuedAt: 'asc' },
+  });
+
+  const submitted: Array<{ submissionId: string; invoiceId: string }> = [];
+  let failed = 0;
+
+  for (const submission of queued) {
+    const result = await submitInvoiceToKSeF(submission.invoiceId, tenantNip, { claimed: true });
+    if (result.success) {
+      submitted.push({ submissionId: submission.id, invoiceId: submission.invoiceId });
+    } else {
+      failed++;
+      console.error(`[KSeF] Offline upload failed for invoice ${submission.invoiceId}:`, result.error);
+    }
+  }
+
+  return { available: true, submitted, failed };
+}
+
+/**
+ * Record a failed send and schedule the next retry when the error is transient
+ * Permanent errors reject the submission; exhausted retries leave it FAILED.
+ */
+async function recordSubmissionFailure(
+  submission: { id: string; invoiceId: string; retryCount: number },
+  error: KSeFError
+): Promise<KSeFRetryPlan> {
+  const plan = planKSeFRetry(error, submission.retryCount);
+  const permanent = !plan.retry && plan.reason === 'PERMANENT';
+
+  await prisma.kSeFSubmission.update({
+    where: { id: submission.id },
+    data: {
+      status: permanent ? 'REJECTED' : 'FAILED',
+      errorCode: error.code,
+      errorMessage: error.message,
+      errorDetails: error.details as never,
+      nextRetryAt: plan.retry ? plan.nextRetryAt : null,
+    },
+  });
+
+  if (permanent) {
+    await prisma.invoice.update({
+      where: { id: submission.invoiceId },
+      data: { ksefStatus: 'REJECTED' },
+    });
+  }
+
+  return plan;
+}
+
+/**
+ * Record a KSeF number on the submission and its invoice
+ */
+async function markSubmissionAccepted(
+  submissionId: string,
+  invoiceId: string,
+  ksefNumber: string
+): Promise<void> {
+  await prisma.kSeFSubmission.update({
+    where: { id: submissionId },
+    data: {
+      status: 'ACCEPTED',
+      ksefNumber,
+      errorCode: null,
+      errorMessage: null,
+    },
+  });
+
+  await prisma.invoice.update({
+    where: { id: invoiceId },
+    data: {
+      ksefNumber,
+      ksefStatus: 'ACCEPTED',
+    },
+  });
+}
+
+/**
+ * Store a downloaded UPO and move the invoice to COMPLETED
+ */
+async function saveUPO(
+  submission: { id: string; invoiceId: string; tenantId: string },
+  upo: KSeFUPODocument
+): Promise<string> {
+  const upoUrl = await storeUPODocument(submission.tenantId, upo);
+
+  await prisma.kSeFSubmission.update({
+    where: { id: submission.id },
+    data: { upoUrl },
+  });
+
+  await prisma.invoice.update({
+    where: { id: submission.invoiceId },
+    data: {
+      ksefStatus: 'UPO_DOWNLOADED',
+      status: 'COMPLETED',
+    },
+  });
+
+  return upoUrl;
+}
+
+/**
+ * Message of an Error or KSeFError thrown by the client
+ */
+function errorMessage(error: unknown, fallback: string): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === 'object' && error !== null && typeof (error as KSeFError).message === 'string') {
+    return (error as KSeFError).message;
+  }
+  return fallback;
+}
+
 /**
  * Download UPO document for submitted invoice
  */
@@ -138,22 +1208,21 @@ export async function downloadUPODocument(
   try {
     const submission = await prisma.kSeFSubmission.findUnique({
       where: { invoiceId },
+      include: {
+        invoice: { select: { tenant: { select: { settings: true } } } },
+      },
     });
 
     if (!submission || !submission.ksefNumber) {
       throw new Error('Invoice not submitted to KSeF');
     }
 
-    const ksefClient = createKSeFClient('test', tenantNip);
+    const ksefClient = createTenantKSeFClient(submission.invoice.tenant.settings, tenantNip);
     const upo = await ksefClient.downloadUPO(submission.ksefNumber);
 
-    // Update submission with UPO URL
-    await prisma.kSeFSubmission.update({
-      where: { id: submission.id },
-      data: {
-        upoUrl: `upo/${submission.ksefNumber}.pdf`,
-      },
-    });
+    if (!submission.upoUrl) {
+      await saveUPO(submission, upo);
+    }
 
     return {
       success: true,
@@ -170,8 +1239,12 @@ export async function downloadUPODocument(
 
 /**
  * Convert Prisma invoice to FA(3) format
+ *
+ * Payment method, bank account, VAT exemption basis and reverse charge come from
+ * the canonical extracted data; FA(3) imports keep their other Adnotacje flags
+ * in details.annotations.
  */
-function convertInvoiceToFA3(
+export function convertInvoiceToFA3(
   invoice: {
     invoiceNumber: string | null;
     invoiceDate: Date | null;
@@ -187,16 +1260,29 @@ function convertInvoiceToFA3(
       quantity: unknown;
       unitPrice: unknown;
       vatRate: unknown;
+      vatRateCode: string | null;
       netAmount: unknown;
       vatAmount: unknown;
       grossAmount: unknown;
+      beforeCorrection: boolean;
     }>;
+    correction: {
+      correctedInvoiceNumber: string;
+      correctedInvoiceDate: Date;
+      correctedKsefNumber: string | null;
+      reason: string;
+      correctionType: string;
+      correctedInvoice: { ksefNumber: string | null } | null;
+    } | null;
   }
 ): FA3Invoice {
-  const extracted = invoice.extractedData as {
-    supplier?: { name?: string; vatId?: string; address?: string };
-    buyer?: { name?: string; vatId?: string; address?: string };
-  } | null;
+  const extracted = normalizeExtractedData(invoice.extractedData);
+  const paymentMethod = extracted?.details?.payment_method;
+  const annotations: FA3Annotations = {
+    ...(extracted?.details?.annotations as FA3Annotations | undefined),
+    ...(extracted?.reverse_charge && { reverseCharge: true }),
+    ...(extracted?.vat_exemption && { exemption: extracted.vat_exemption }),
+  };
 
   return {
     header: {
@@ -205,12 +1291,12 @@ function convertInvoiceToFA3(
       sellDate: invoice.invoiceDate?.toISOString().split('T')[0],
       dueDate: invoice.dueDate?.toISOString().split('T')[0],
       currency: invoice.currency,
-      invoiceType: 'VAT',
+      invoiceType: invoice.correction ? 'CORRECTIVE' : 'VAT',
     },
     parties: {
       seller: {
-        nip: extracted?.supplier?.vatId || '0000000000',
-        name: extracted?.supplier?.name || 'Unknown Seller',
+        nip: extracted?.seller.nip || '0000000000',
+        name: extracted?.seller.name || 'Unknown Seller',
         address: {
           street: 'Unknown',
           houseNumber: '0',
@@ -220,8 +1306,8 @@ function convertInvoiceToFA3(
         },
       },
       buyer: {
-        nip: extracted?.buyer?.vatId || '0000000000',
-        name: extracted?.buyer?.name || 'Unknown Buyer',
+        nip: extracted?.buyer.nip || '0000000000',
+        name: extracted?.buyer.name || 'Unknown Buyer',
         address: {
           street: 'Unknown',
           houseNumber: '0',
@@ -238,15 +1324,35 @@ function convertInvoiceToFA3(
       unitOfMeasure: 'szt',
       unitPrice: Number(item.unitPrice),
       netAmount: Number(item.netAmount),
-      vatRate: Number(item.vatRate),
+      vatRate: fromLineItemVatRate(item),
       vatAmount: Number(item.vatAmount),
       grossAmount: Number(item.grossAmount),
+      beforeCorrection: item.beforeCorrection,
     })),
+    ...(Object.keys(annotations).length > 0 && { annotations }),
+    ...(invoice.correction && {
+      correction: {
+        reason: invoice.correction.reason,
+        type: CORRECTION_TYPES[invoice.correction.correctionType],
+        correctedInvoices: [
+          {
+            invoiceNumber: invoice.correction.correctedInvoiceNumber,
+            issueDate: invoice.correction.correctedInvoiceDate.toISOString().split('T')[0],
+            ksefNumber:
+              invoice.correction.correctedKsefNumber ??
+              invoice.correction.correctedInvoice?.ksefNumber ??
+              undefined,
+          },
+        ],
+      },
+    }),
     summary: {
       netAmount: Number(invoice.netAmount || 0),
       vatAmount: Number(invoice.vatAmount || 0),
       grossAmount: Number(invoice.grossAmount || 0),
       currency: invoice.currency,
+      paymentMethod: typeof paymentMethod === 'string' ? paymentMethod : undefined,
+      bankAccount: extracted?.bank_account ?? undefined,
     },
   };
 }
@@ -0,0 +1,134 @@
+/**
+ * Tenant KSeF Settings
+ * Loads and stores Tenant.settings.ksef and tests the configured connection
+ *
+ * Other keys of Tenant.settings are left untouched.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import {
+  createTenantKSeFClient,
+  getTenantKSeFEnvironment,
+  getTenantKSeFSettings,
+  mergeTenantKSeFSettings,
+  toPublicKSeFSettings,
+  type PublicTenantKSeFSettings,
+  type TenantKSeFSettingsInput,
+} from './credentials';
+import type { KSeFClientOptions, KSeFEnvironment, KSeFError } from './types';
+
+const prisma = new PrismaClient();
+
+async function loadTenantSettings(tenantId: string): Promise<Record<string, unknown>> {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { settings: true },
+  });
+
+  if (!tenant) {
+    throw new Error('Tenant not found');
+  }
+
+  return typeof tenant.settings === 'object' && tenant.settings !== null
+    ? (tenant.settings as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * KSeF settings of a tenant without secrets
+ */
+export async function getPublicTenantKSeFSettings(tenantId: string): Promise<PublicTenantKSeFSettings> {
+  return toPublicKSeFSettings(await loadTenantSettings(tenantId));
+}
+
+/**
+ * Seller NIP configured for a tenant, if any
+ */
+export async function getTenantKSeFNip(tenantId: string): Promise<string | undefined> {
+  return getTenantKSeFSettings(await loadTenantSettings(tenantId)).nip;
+}
+
+/**
+ * Seller NIPs of several tenants; tenants without one are left out
+ */
+export async function getTenantKSeFNips(tenantIds: string[]): Promise<Record<string, string>> {
+  const tenants: Array<{ id: string; settings: unknown }> = await prisma.tenant.findMany({
+    where: { id: { in: tenantIds } },
+    select: { id: true, settings: true },
+  });
+
+  const nips: Record<string, string> = {};
+  for (const tenant of tenants) {
+    const { nip } = getTenantKSeFSettings(tenant.settings);
+    if (nip) {
+      nips[tenant.id] = nip;
+    }
+  }
+
+  return nips;
+}
+
+/**
+ * Store a KSeF settings update (secrets encrypted, omitted secrets kept)
+ */
+export async function saveTenantKSeFSettings(
+  tenantId: string,
+  input: TenantKSeFSettingsInput
+): Promise<PublicTenantKSeFSettings> {
+  const settings = await loadTenantSettings(tenantId);
+  const updated = {
+    ...settings,
+    ksef: mergeTenantKSeFSettings(getTenantKSeFSettings(settings), input),
+  };
+
+  await prisma.tenant.update({
+    where: { id: tenantId },
+    data: { settings: updated },
+  });
+
+  return toPublicKSeFSettings(updated);
+}
+
+/**
+ * Open and terminate a KSeF session with the tenant's stored settings
+ *
+ * @param options - Extra client options (e.g. apiUrl of a local stand-in)
+ */
+export async function testTenantKSeFConnection(
+  tenantId: string,
+  options: KSeFClientOptions = {}
+): Promise<{
+  success: boolean;
+  environment: KSeFEnvironment;
+  sessionId?: string;
+  error?: string;
+}> {
+  const settings = await loadTenantSettings(tenantId);
+  const environment = getTenantKSeFEnvironment(settings);
+  const { nip } = getTenantKSeFSettings(settings);
+
+  if (!nip) {
+    return { success: false, environment, error: 'Seller NIP is not configured' };
+  }
+
+  try {
+    const { sessionId } = await createTenantKSeFClient(settings, nip, options).testConnection();
+    return { success: true, environment, sessionId };
+  } catch (error) {
+    const { code, message } = error as KSeFError;
+    console.error(`[KSeF Settings] Connection test failed for tenant ${tenantId}:`, message ?? String(error));
+    return { success: false, environment, error: describeConnectionError(code) };
+  }
+}
+
+/**
+ * Generic outcome of a failed connection test: certificate read/parse errors and server
+ * responses are only logged
+ */
+function describeConnectionError(code: string | undefined): string {
+  if (code === 'CREDENTIALS_ERROR') {
+    return 'KSeF credentials are missing or cannot be used';
+  }
+
+  return /^\d+$/.test(code ?? '') ? `KSeF connection failed (${code})` : 'KSeF connection failed';
+}
@@ -3,16 +3,48 @@
  * Polish National e-Invoice System
  */
 
-export type KSeFEnvironment = 'test' | 'production';
+import type { VATRateCode } from '@/lib/vat-rates';
+
+export type KSeFEnvironment = 'test' | 'demo' | 'production';
+
+export type KSeFAuthMethod = 'token' | 'certificate';
+
+/**
+ * Offline issuance modes (Prisma enum KSeFOfflineMode)
+ * - OFFLINE24: issuer-side problems, upload by the next business day
+ * - UNAVAILABILITY: KSeF outage announced by the Ministry, upload by the next business day after it ends
+ * - EMERGENCY: emergency mode (awaria) announced by the Ministry, upload within 7 business days after it ends
+ */
+export type KSeFOfflineMode = 'OFFLINE24' | 'UNAVAILABILITY' | 'EMERGENCY';
 
 export interface KSeFConfig {
   environment: KSeFEnvironment;
   apiUrl: string;
-  certificatePath?: string;
+  authMethod: KSeFAuthMethod;
+  certificatePath?: string; // PKCS#12 (.p12/.pfx) with qualified seal/signature certificate
   certificatePassword?: string;
+  certificateData?: Buffer | string; // Inline PKCS#12 (raw or base64), takes precedence over the path
+  token?: string; // KSeF authorisation token generated in the KSeF portal
+  publicKey?: string; // Ministry of Finance public key (PEM) used to encrypt the token
   nip: string; // Company's tax ID
 }
 
+export interface KSeFClientOptions {
+  apiUrl?: string; // Override base URL (e.g. local stand-in server)
+  authMethod?: KSeFAuthMethod;
+  token?: string;
+  publicKey?: string;
+  certificatePath?: string;
+  certificatePassword?: string;
+  certificateData?: Buffer | string;
+  fetch?: typeof fetch;
+}
+
+export interface KSeFAuthorisationChallenge {
+  challenge: string;
+  timestamp: Date;
+}
+
 export interface KSeFSessionToken {
   token: string;
   expiresAt: Date;
@@ -27,8 +59,8 @@ export interface KSeFInvoiceSubmission {
 
 export interface KSeFSubmissionResponse {
   success: boolean;
-  ksefNumber?: string;
-  referenceNumber?: string;
+  ksefNumber?: string; // Only known once KSeF has processed the invoice
+  referenceNumber?: string; // Element reference number used to poll the status
   timestamp?: Date;
   error?: KSeFError;
 }
@@ -40,13 +72,102 @@ export interface KSeFError {
 }
 
 export interface KSeFInvoiceStatus {
-  ksefNumber: string;
+  referenceNumber: string;
+  ksefNumber?: string; // Assigned when the invoice is accepted
   status: 'PENDING' | 'ACCEPTED' | 'REJECTED';
+  processingCode?: number;
+  processingDescription?: string;
   upoUrl?: string;
   processingDate?: Date;
   error?: KSeFError;
 }
 
+// Invoice queries (incoming invoices)
+/**
+ * subject1: invoices issued by the context NIP (seller, Podmiot1)
+ * subject2: invoices received by the context NIP (buyer, Podmiot2)
+ */
+export type KSeFSubjectType = 'subject1' | 'subject2' | 'subject3';
+
+export interface KSeFInvoiceQuery {
+  subjectType: KSeFSubjectType;
+  acquiredFrom: Date; // Acquisition (KSeF number assignment) timestamp range
+  acquiredTo: Date;
+  pageSize?: number;
+  pageOffset?: number;
+}
+
+export interface KSeFInvoiceHeader {
+  ksefNumber: string;
+  invoiceNumber: string;
+  issueDate?: string; // ISO date
+  acquisitionTimestamp: Date;
+  sellerNip?: string;
+  sellerName?: string;
+  grossAmount?: number;
+  currency?: string;
+}
+
+export interface KSeFInvoiceQueryPage {
+  invoices: KSeFInvoiceHeader[];
+  total: number;
+  pageSize: number;
+  pageOffset: number;
+}
+
+// Batch (wsadowa) sessions
+export interface KSeFBatchDocument {
+  fileName: string; // Entry name inside the zip package
+  content: string; // FA(3) XML
+}
+
+export interface KSeFBatchPart {
+  ordinalNumber: number;
+  fileName: string;
+  content: Buffer; // AES-256-CBC encrypted
+  hash: string; // SHA-256 of the encrypted part (base64)
+  size: number;
+}
+
+export interface KSeFBatchPackage {
+  fileName: string;
+  hash: string; // SHA-256 of the unencrypted zip (base64)
+  size: number;
+  parts: KSeFBatchPart[];
+  encryptionKey: Buffer; // One-off AES-256 key
+  iv: Buffer;
+}
+
+export interface KSeFBatchUpload {
+  ordinalNumber: number;
+  fileName: string;
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+}
+
+export interface KSeFBatchSession {
+  referenceNumber: string;
+  partCount: number;
+  timestamp: Date;
+}
+
+export interface KSeFBatchDocumentResult {
+  ksefNumber: string;
+  invoiceNumber?: string;
+  documentHash: string; // SHA-256 of the FA(3) document (base64)
+  acquisitionDate?: Date;
+}
+
+export interface KSeFBatchStatus {
+  referenceNumber: string;
+  status: 'PROCESSING' | 'PROCESSED' | 'FAILED';
+  processingCode: number;
+  processingDescription?: string;
+  documents: KSeFBatchDocumentResult[]; // Accepted documents listed in the UPO
+  upo?: string; // UPO XML
+}
+
 export interface KSeFUPODocument {
   ksefNumber: string;
   content: Buffer;
@@ -60,6 +181,8 @@ export interface FA3Invoice {
   parties: FA3Parties;
   lineItems: FA3LineItem[];
   summary: FA3Summary;
+  annotations?: FA3Annotations;
+  correction?: FA3Correction; // Required for CORRECTIVE invoices
 }
 
 export interface FA3Header {
@@ -68,7 +191,64 @@ export interface FA3Header {
   sellDate?: string; // ISO date
   dueDate?: string; // ISO date
   currency: string; // ISO currency code (e.g., PLN)
-  invoiceType: 'VAT' | 'CORRECTIVE' | 'PROFORMA';
+  invoiceType: FA3InvoiceType;
+}
+
+/**
+ * Invoice kinds (RodzajFaktury). Proforma invoices are not submitted to KSeF.
+ */
+export type FA3InvoiceType =
+  | 'VAT'
+  | 'CORRECTIVE'
+  | 'ADVANCE'
+  | 'SETTLEMENT'
+  | 'SIMPLIFIED'
+  | 'PROFORMA';
+
+/**
+ * VAT rate of a line item: percentage or one of the codes 0 WDT, 0 EX, zw, np, oo
+ * @see src/lib/vat-rates.ts
+ */
+export type FA3VatRate = VATRateCode;
+
+/**
+ * Adnotacje section flags. Omitted flags default to "no".
+ * Reverse charge is also implied by any 'oo' line item.
+ */
+export interface FA3Annotations {
+  cashAccounting?: boolean; // P_16 - metoda kasowa
+  selfBilling?: boolean; // P_17 - samofakturowanie
+  reverseCharge?: boolean; // P_18 - odwrotne obciążenie
+  splitPayment?: boolean; // P_18A - mechanizm podzielonej płatności
+  exemption?: {
+    // P_19 - required when any line item is 'zw'
+    basis: 'A' | 'B' | 'C'; // A: ustawa, B: dyrektywa 2006/112/WE, C: inna podstawa
+    description: string; // e.g. "art. 43 ust. 1 pkt 37 ustawy o VAT"
+  };
+  marginScheme?: 'travel' | 'used-goods' | 'works-of-art' | 'antiques'; // P_PMarzy
+}
+
+/**
+ * Correction data of a corrective (KOR) invoice
+ * Line items flagged beforeCorrection carry the corrected invoice's rows (StanPrzed);
+ * the P_13_x / P_14_x summaries then report the difference.
+ */
+export interface FA3Correction {
+  reason: string; // PrzyczynaKorekty
+  type?: FA3CorrectionType; // TypKorekty
+  correctedInvoices: FA3CorrectedInvoice[]; // DaneFaKorygowanej
+}
+
+/**
+ * TypKorekty - when the correction takes effect for VAT purposes
+ * 1: in the corrected invoice's period, 2: on the correction's issue date, 3: other date
+ */
+export type FA3CorrectionType = 1 | 2 | 3;
+
+export interface FA3CorrectedInvoice {
+  invoiceNumber: string;
+  issueDate: string; // ISO date
+  ksefNumber?: string; // Omitted when the corrected invoice was issued outside KSeF
 }
 
 export interface FA3Parties {
@@ -98,9 +278,10 @@ export interface FA3LineItem {
   unitOfMeasure: string; // e.g., 'szt', 'kg', 'godz'
   unitPrice: number;
   netAmount: number;
-  vatRate: number; // Percentage (e.g., 23 for 23%)
+  vatRate: FA3VatRate; // Percentage (e.g., 23 for 23%) or zw/np/oo
   vatAmount: number;
   grossAmount: number;
+  beforeCorrection?: boolean; // StanPrzed - row as it was on the corrected invoice
 }
 
 export interface FA3Summary {
@@ -110,4 +291,23 @@ export interface FA3Summary {
   currency: string;
   paymentMethod?: string;
   bankAccount?: string;
+  vatBreakdown?: FA3VatTotal[]; // Per-rate totals (P_13_x / P_14_x), filled in by parseFA3Xml
+}
+
+export interface FA3VatTotal {
+  vatRate: FA3VatRate;
+  netAmount: number;
+  vatAmount: number;
+}
+
+export interface FA3ValidationError {
+  message: string;
+  path?: string; // Element path, e.g. /Faktura/Fa/FaWiersz[2]/P_12
+  line?: number; // Line number in the generated XML
+  field?: string; // Invoice field the element is generated from, e.g. lineItems.1.vatRate
+}
+
+export interface FA3ValidationResult {
+  valid: boolean;
+  errors: FA3ValidationError[];
 }
@@ -0,0 +1,159 @@
+/**
+ * KSeF Verification QR Codes
+ * KOD I (invoice verification) and KOD II (issuer certificate) links printed on
+ * invoice visualisations
+ *
+ * KOD I:  https://{qr host}/invoice/{seller NIP}/{DD-MM-YYYY}/{SHA-256 of the FA(3) XML}
+ * KOD II: https://{qr host}/certificate/Nip/{context NIP}/{seller NIP}/{certificate serial}/{hash}/{signature}
+ *
+ * Hashes and signatures are Base64URL without padding. KOD II is required on invoices
+ * issued offline and is signed with the tenant's KSeF offline certificate: RSA-PSS
+ * (SHA-256, 32 byte salt) or ECDSA P-256 in IEEE P1363 format, over the link
+ * without "https://" and without the signature segment.
+ */
+
+import { createHash, sign, constants } from 'crypto';
+import QRCode from 'qrcode';
+import type { KSeFCertificate } from './certificate';
+import type { KSeFEnvironment } from './types';
+
+export const KSEF_QR_URLS = {
+  test: 'https://qr-test.ksef.mf.gov.pl',
+  production: 'https://qr.ksef.mf.gov.pl',
+  demo: 'https://qr-demo.ksef.mf.gov.pl',
+} as const;
+
+// Printed under KOD I until the invoice has a KSeF number, and under KOD II
+export const KSEF_QR_OFFLINE_LABEL = 'OFFLINE';
+export const KSEF_QR_CERTIFICATE_LABEL = 'CERTYFIKAT';
+
+export interface KSeFVerificationCode {
+  url: string;
+  label: string; // Text printed under the QR code
+  svg: string;
+}
+
+export interface KSeFVerificationCodes {
+  invoice: KSeFVerificationCode; // KOD I
+  certificate?: KSeFVerificationCode; // KOD II, offline invoices only
+}
+
+/**
+ * SHA-256 of the FA(3) document as Base64URL
+ * The hash covers the exact bytes sent to KSeF, so offline invoices must be uploaded unchanged.
+ */
+export function hashInvoiceForQR(fa3Xml: string): string {
+  return createHash('sha256').update(fa3Xml, 'utf8').digest('base64url');
+}
+
+/**
+ * KOD I link
+ */
+export function buildInvoiceVerificationUrl(params: {
+  environment: KSeFEnvironment;
+  sellerNip: string;
+  issueDate: string; // ISO date
+  fa3Xml: string;
+}): string {
+  const [year, month, day] = params.issueDate.slice(0, 10).split('-');
+
+  return [
+    KSEF_QR_URLS[params.environment],
+    'invoice',
+    params.sellerNip,
+    `${day}-${month}-${year}`,
+    hashInvoiceForQR(params.fa3Xml),
+  ].join('/');
+}
+
+/**
+ * KOD II link, signed with the KSeF offline certificate
+ */
+export function buildCertificateVerificationUrl(params: {
+  environment: KSeFEnvironment;
+  contextNip: string; // Subject the invoice is issued in the context of
+  sellerNip: string;
+  certificate: KSeFCertificate;
+  fa3Xml: string;
+}): string {
+  const unsigned = [
+    KSEF_QR_URLS[params.environment],
+    'certificate',
+    'Nip',
+    params.contextNip,
+    params.sellerNip,
+    params.certificate.certificate.serialNumber,
+    hashInvoiceForQR(params.fa3Xml),
+  ].join('/');
+
+  const signature = signVerificationPath(unsigned.replace(/^https:\/\//, ''), params.certificate);
+
+  return `${unsigned}/${signature}`;
+}
+
+function signVerificationPath(path: string, certificate: KSeFCertificate): string {
+  const { privateKey } = certificate;
+  const data = Buffer.from(path, 'utf8');
+
+  if (privateKey.asymmetricKeyType === 'rsa') {
+    return sign('sha256', data, {
+      key: privateKey,
+      padding: constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: 32,
+    }).toString('base64url');
+  }
+
+  if (privateKey.asymmetricKeyType === 'ec') {
+    return sign('sha256', data, { key: privateKey, dsaEncoding: 'ieee-p1363' }).toString('base64url');
+  }
+
+  throw new Error(`Unsupported KSeF offline certificate key type: ${privateKey.asymmetricKeyType}`);
+}
+
+/**
+ * KOD I (and KOD II when an offline certificate is given) as SVG QR codes
+ *
+ * @param params.ksefNumber - Label of KOD I; omitted for invoices not yet accepted by KSeF
+ */
+export async function generateKSeFVerificationCodes(params: {
+  environment: KSeFEnvironment;
+  sellerNip: string;
+  contextNip?: string;
+  issueDate: string;
+  fa3Xml: string;
+  ksefNumber?: string;
+  offlineCertificate?: KSeFCertificate;
+}): Promise<KSeFVerificationCodes> {
+  const invoiceUrl = buildInvoiceVerificationUrl(params);
+
+  const codes: KSeFVerificationCodes = {
+    invoice: {
+      url: invoiceUrl,
+      label: params.ksefNumber ?? KSEF_QR_OFFLINE_LABEL,
+      svg: await renderQRCode(invoiceUrl),
+    },
+  };
+
+  if (params.offlineCertificate) {
+    const certificateUrl = buildCertificateVerificationUrl({
+      environment: params.environment,
+      contextNip: params.contextNip ?? params.sellerNip,
+      sellerNip: params.sellerNip,
+      certificate: params.offlineCertificate,
+      fa3Xml: params.fa3Xml,
+    });
+
+    codes.certificate = {
+      url: certificateUrl,
+      label: KSEF_QR_CERTIFICATE_LABEL,
+      svg: await renderQRCode(certificateUrl),
+    };
+  }
+
+  return codes;
+}
+
+function renderQRCode(url: string): Promise<string> {
+  // Medium error correction keeps long KOD II links printable at small sizes
+  return QRCode.toString(url, { type: 'svg', errorCorrectionLevel: 'M', margin: 2 });
+}
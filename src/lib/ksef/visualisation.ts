@@ -0,0 +1,416 @@
+/**
+ * FA(3) Invoice Visualisation
+ * Human-readable PDF of an FA(3) document (jsPDF + jspdf-autotable)
+ *
+ * The PDF shows what was (or will be) sent to KSeF: parties, line items, per-rate
+ * VAT totals, annotations, correction data, the KSeF number and the verification
+ * QR codes (KOD I, and KOD II for offline invoices) with their labels.
+ *
+ * Standard PDF fonts have no Polish characters, so Liberation Sans is embedded
+ * from pdfjs-dist (node_modules/pdfjs-dist/standard_fonts).
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import QRCode from 'qrcode';
+import type { KSeFVerificationCode, KSeFVerificationCodes } from './verification-codes';
+import type { FA3Address, FA3Invoice, FA3InvoiceType, FA3Party, FA3VatRate, FA3VatTotal } from './types';
+
+const FONT_DIR = path.join(process.cwd(), 'node_modules', 'pdfjs-dist', 'standard_fonts');
+const FONT_FAMILY = 'LiberationSans';
+const FONT_FILES = {
+  normal: 'LiberationSans-Regular.ttf',
+  bold: 'LiberationSans-Bold.ttf',
+} as const;
+
+const PAGE_MARGIN = 15; // mm
+const QR_SIZE = 32; // mm
+
+const INVOICE_TITLES: Record<FA3InvoiceType, string> = {
+  VAT: 'Faktura VAT',
+  CORRECTIVE: 'Faktura korygująca',
+  ADVANCE: 'Faktura zaliczkowa',
+  SETTLEMENT: 'Faktura rozliczeniowa',
+  SIMPLIFIED: 'Faktura uproszczona',
+  PROFORMA: 'Faktura pro forma',
+};
+
+const CORRECTION_TYPES: Record<number, string> = {
+  1: 'w okresie faktury korygowanej',
+  2: 'w dacie wystawienia korekty',
+  3: 'w innej dacie',
+};
+
+const MARGIN_SCHEMES: Record<string, string> = {
+  travel: 'procedura marży dla biur podróży',
+  'used-goods': 'procedura marży - towary używane',
+  'works-of-art': 'procedura marży - dzieła sztuki',
+  antiques: 'procedura marży - przedmioty kolekcjonerskie i antyki',
+};
+
+export interface InvoiceVisualisationOptions {
+  ksefNumber?: string; // Shown in the header once KSeF has accepted the invoice
+  verificationCodes?: KSeFVerificationCodes;
+  offline?: boolean; // Issued in offline mode, not yet in KSeF
+  generatedAt?: Date;
+}
+
+let fontCache: Record<keyof typeof FONT_FILES, string> | null = null;
+
+function loadFonts(): Record<keyof typeof FONT_FILES, string> {
+  if (!fontCache) {
+    fontCache = {
+      normal: readFileSync(path.join(FONT_DIR, FONT_FILES.normal)).toString('base64'),
+      bold: readFileSync(path.join(FONT_DIR, FONT_FILES.bold)).toString('base64'),
+    };
+  }
+  return fontCache;
+}
+
+/**
+ * Render an FA(3) invoice as an A4 PDF
+ */
+export function renderInvoiceVisualisation(
+  invoice: FA3Invoice,
+  options: InvoiceVisualisationOptions = {}
+): Buffer {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const fonts = loadFonts();
+  for (const style of ['normal', 'bold'] as const) {
+    doc.addFileToVFS(FONT_FILES[style], fonts[style]);
+    doc.addFont(FONT_FILES[style], FONT_FAMILY, style);
+  }
+  doc.setFont(FONT_FAMILY, 'normal');
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const contentWidth = pageWidth - 2 * PAGE_MARGIN;
+  const { header, summary } = invoice;
+  const currency = summary.currency || header.currency;
+
+  // Header: document type and number, KSeF status on the right
+  doc.setFont(FONT_FAMILY, 'bold');
+  doc.setFontSize(16);
+  doc.text(INVOICE_TITLES[header.invoiceType] ?? INVOICE_TITLES.VAT, PAGE_MARGIN, 20);
+  doc.setFontSize(11);
+  doc.text(`nr ${header.invoiceNumber}`, PAGE_MARGIN, 27);
+
+  doc.setFont(FONT_FAMILY, 'normal');
+  doc.setFontSize(9);
+  doc.text(ksefStatusLine(options), pageWidth - PAGE_MARGIN, 20, { align: 'right' });
+
+  const dates = [
+    `Data wystawienia: ${formatDate(header.issueDate)}`,
+    header.sellDate && header.sellDate !== header.issueDate
+      ? `Data sprzedaży: ${formatDate(header.sellDate)}`
+      : undefined,
+  ].filter((line): line is string => Boolean(line));
+  doc.text(dates, pageWidth - PAGE_MARGIN, 26, { align: 'right' });
+
+  // Parties
+  let y = 40;
+  const columnWidth = (contentWidth - 10) / 2;
+  const sellerHeight = drawParty(doc, 'Sprzedawca', invoice.parties.seller, PAGE_MARGIN, y, columnWidth);
+  const buyerHeight = drawParty(
+    doc,
+    'Nabywca',
+    invoice.parties.buyer,
+    PAGE_MARGIN + columnWidth + 10,
+    y,
+    columnWidth
+  );
+  y += Math.max(sellerHeight, buyerHeight) + 6;
+
+  // Correction data
+  if (invoice.correction) {
+    const lines = [
+      `Przyczyna korekty: ${invoice.correction.reason}`,
+      ...(invoice.correction.type
+        ? [`Skutek korekty ujmowany ${CORRECTION_TYPES[invoice.correction.type]}`]
+        : []),
+      ...invoice.correction.correctedInvoices.map(
+        (corrected) =>
+          `Faktura korygowana: ${corrected.invoiceNumber} z dnia ${formatDate(corrected.issueDate)}` +
+          (corrected.ksefNumber ? ` (KSeF: ${corrected.ksefNumber})` : ' (poza KSeF)')
+      ),
+    ];
+    y = drawSection(doc, 'Dane korekty', lines, y, contentWidth);
+  }
+
+  // Line items
+  autoTable(doc, {
+    startY: y,
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+    head: [['Lp.', 'Nazwa', 'Ilość', 'J.m.', 'Cena netto', 'Wartość netto', 'VAT', 'Kwota VAT', 'Wartość brutto']],
+    body: invoice.lineItems.map((item) => [
+      item.beforeCorrection ? `${item.lineNumber}\n(przed)` : String(item.lineNumber),
+      item.description,
+      formatQuantity(item.quantity),
+      item.unitOfMeasure,
+      formatAmount(item.unitPrice),
+      formatAmount(item.netAmount),
+      formatVatRate(item.vatRate),
+      formatAmount(item.vatAmount),
+      formatAmount(item.grossAmount),
+    ]),
+    styles: { font: FONT_FAMILY, fontSize: 8, cellPadding: 1.5 },
+    headStyles: { font: FONT_FAMILY, fontStyle: 'bold', fillColor: [51, 65, 85] },
+    columnStyles: {
+      0: { cellWidth: 10 },
+      2: { halign: 'right' },
+      4: { halign: 'right' },
+      5: { halign: 'right' },
+      6: { halign: 'right' },
+      7: { halign: 'right' },
+      8: { halign: 'right' },
+    },
+  });
+  y = lastTableY(doc) + 6;
+
+  // Per-rate VAT totals and the invoice total
+  const breakdown = summary.vatBreakdown ?? computeVatBreakdown(invoice);
+  autoTable(doc, {
+    startY: y,
+    margin: { left: pageWidth / 2, right: PAGE_MARGIN },
+    head: [['Stawka VAT', 'Wartość netto', 'Kwota VAT', 'Wartość brutto']],
+    body: breakdown.map((total) => [
+      formatVatRate(total.vatRate),
+      formatAmount(total.netAmount),
+      formatAmount(total.vatAmount),
+      formatAmount(total.netAmount + total.vatAmount),
+    ]),
+    foot: [[
+      'Razem',
+      formatAmount(summary.netAmount),
+      formatAmount(summary.vatAmount),
+      formatAmount(summary.grossAmount),
+    ]],
+    styles: { font: FONT_FAMILY, fontSize: 8, cellPadding: 1.5, halign: 'right' },
+    headStyles: { font: FONT_FAMILY, fontStyle: 'bold', fillColor: [51, 65, 85] },
+    footStyles: { font: FONT_FAMILY, fontStyle: 'bold', fillColor: [226, 232, 240], textColor: [15, 23, 42] },
+  });
+  y = lastTableY(doc) + 6;
+
+  doc.setFont(FONT_FAMILY, 'bold');
+  doc.setFontSize(11);
+  doc.text(`Do zapłaty: ${formatAmount(summary.grossAmount)} ${currency}`, pageWidth - PAGE_MARGIN, y, {
+    align: 'right',
+  });
+  y += 8;
+
+  // Payment and annotations
+  const payment = [
+    header.dueDate ? `Termin płatności: ${formatDate(header.dueDate)}` : undefined,
+    summary.paymentMethod ? `Forma płatności: ${summary.paymentMethod}` : undefined,
+    summary.bankAccount ? `Rachunek bankowy: ${summary.bankAccount}` : undefined,
+  ].filter((line): line is string => Boolean(line));
+  if (payment.length > 0) {
+    y = drawSection(doc, 'Płatność', payment, y, contentWidth);
+  }
+
+  const annotations = describeAnnotations(invoice);
+  if (annotations.length > 0) {
+    y = drawSection(doc, 'Adnotacje', annotations, y, contentWidth);
+  }
+
+  // Verification QR codes
+  if (options.verificationCodes) {
+    drawVerificationCodes(doc, options.verificationCodes, y);
+  }
+
+  drawFooter(doc, options.generatedAt ?? new Date());
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
+
+/**
+ * File name of the visualisation, e.g. `FV_001_2026.pdf`
+ */
+export function buildVisualisationFileName(invoiceNumber: string): string {
+  const safe = invoiceNumber.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '');
+  return `${safe || 'faktura'}.pdf`;
+}
+
+/**
+ * Per-rate totals from the line items, for documents without P_13_x / P_14_x data
+ * Rows before correction are subtracted, as in the FA(3) summaries.
+ */
+export function computeVatBreakdown(invoice: FA3Invoice): FA3VatTotal[] {
+  const totals = new Map<FA3VatRate, FA3VatTotal>();
+
+  for (const item of invoice.lineItems) {
+    const sign = item.beforeCorrection ? -1 : 1;
+    const total = totals.get(item.vatRate) ?? { vatRate: item.vatRate, netAmount: 0, vatAmount: 0 };
+    total.netAmount = round(total.netAmount + sign * item.netAmount);
+    total.vatAmount = round(total.vatAmount + sign * item.vatAmount);
+    totals.set(item.vatRate, total);
+  }
+
+  return [...totals.values()];
+}
+
+function ksefStatusLine(options: InvoiceVisualisationOptions): string {
+  if (options.ksefNumber) {
+    return `Numer KSeF: ${options.ksefNumber}`;
+  }
+  return options.offline ? 'Faktura wystawiona w trybie offline' : 'Faktura nieprzesłana do KSeF';
+}
+
+function drawParty(doc: jsPDF, title: string, party: FA3Party, x: number, y: number, width: number): number {
+  doc.setFont(FONT_FAMILY, 'bold');
+  doc.setFontSize(10);
+  doc.text(title, x, y);
+
+  doc.setFont(FONT_FAMILY, 'normal');
+  doc.setFontSize(9);
+  const lines = [
+    ...doc.splitTextToSize(party.name, width),
+    `NIP: ${party.nip}`,
+    ...formatAddress(party.address),
+  ];
+  doc.text(lines, x, y + 5);
+
+  return 5 + lines.length * 4;
+}
+
+function drawSection(doc: jsPDF, title: string, lines: string[], y: number, width: number): number {
+  const wrapped: string[] = lines.flatMap((line) => doc.splitTextToSize(line, width));
+  y = ensureSpace(doc, y, 6 + wrapped.length * 4);
+
+  doc.setFont(FONT_FAMILY, 'bold');
+  doc.setFontSize(10);
+  doc.text(title, PAGE_MARGIN, y);
+
+  doc.setFont(FONT_FAMILY, 'normal');
+  doc.setFontSize(9);
+  doc.text(wrapped, PAGE_MARGIN, y + 5);
+
+  return y + 7 + wrapped.length * 4;
+}
+
+function drawVerificationCodes(doc: jsPDF, codes: KSeFVerificationCodes, y: number): void {
+  const entries: Array<{ title: string; code: KSeFVerificationCode }> = [
+    { title: 'Sprawdź fakturę w KSeF', code: codes.invoice },
+    ...(codes.certificate ? [{ title: 'Weryfikacja wystawcy', code: codes.certificate }] : []),
+  ];
+
+  y = ensureSpace(doc, y, QR_SIZE + 18);
+
+  entries.forEach((entry, index) => {
+    const x = PAGE_MARGIN + index * (QR_SIZE + 20);
+
+    doc.setFont(FONT_FAMILY, 'bold');
+    doc.setFontSize(8);
+    doc.text(entry.title, x, y);
+
+    drawQRCode(doc, entry.code.url, x, y + 2, QR_SIZE);
+
+    doc.setFont(FONT_FAMILY, 'normal');
+    doc.setFontSize(6);
+    doc.text(doc.splitTextToSize(entry.code.label, QR_SIZE + 16), x, y + QR_SIZE + 6);
+  });
+}
+
+/**
+ * Draw a QR code as vector modules (sharp at any print resolution)
+ */
+function drawQRCode(doc: jsPDF, url: string, x: number, y: number, size: number): void {
+  const qr = QRCode.create(url, { errorCorrectionLevel: 'M' });
+  const count = qr.modules.size;
+  const moduleSize = size / count;
+
+  doc.setFillColor(0, 0, 0);
+  for (let row = 0; row < count; row++) {
+    for (let col = 0; col < count; col++) {
+      if (qr.modules.get(row, col)) {
+        doc.rect(x + col * moduleSize, y + row * moduleSize, moduleSize, moduleSize, 'F');
+      }
+    }
+  }
+}
+
+function drawFooter(doc: jsPDF, generatedAt: Date): void {
+  const pageCount = doc.getNumberOfPages();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont(FONT_FAMILY, 'normal');
+    doc.setFontSize(7);
+    doc.setTextColor(100, 116, 139);
+    doc.text(
+      `Wizualizacja faktury ustrukturyzowanej FA(3) - wygenerowano ${generatedAt.toISOString().slice(0, 10)} w Deklaro`,
+      PAGE_MARGIN,
+      pageHeight - 8
+    );
+    doc.text(`${page} / ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - 8, { align: 'right' });
+    doc.setTextColor(0, 0, 0);
+  }
+}
+
+function ensureSpace(doc: jsPDF, y: number, height: number): number {
+  if (y + height > doc.internal.pageSize.getHeight() - 15) {
+    doc.addPage();
+    return 20;
+  }
+  return y;
+}
+
+function lastTableY(doc: jsPDF): number {
+  return (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+}
+
+function describeAnnotations(invoice: FA3Invoice): string[] {
+  const annotations = invoice.annotations ?? {};
+  const lines: string[] = [];
+
+  if (annotations.cashAccounting) lines.push('Metoda kasowa');
+  if (annotations.selfBilling) lines.push('Samofakturowanie');
+  if (annotations.reverseCharge || invoice.lineItems.some((item) => item.vatRate === 'oo')) {
+    lines.push('Odwrotne obciążenie');
+  }
+  if (annotations.splitPayment) lines.push('Mechanizm podzielonej płatności');
+  if (annotations.exemption) {
+    lines.push(`Zwolnienie z VAT: ${annotations.exemption.description}`);
+  }
+  if (annotations.marginScheme) {
+    lines.push(MARGIN_SCHEMES[annotations.marginScheme]);
+  }
+
+  return lines;
+}
+
+function formatAddress(address: FA3Address): string[] {
+  const number = address.apartmentNumber
+    ? `${address.houseNumber}/${address.apartmentNumber}`
+    : address.houseNumber;
+
+  return [
+    `${address.street} ${number}`.trim(),
+    `${address.postalCode} ${address.city}`.trim(),
+    address.country && address.country !== 'PL' ? address.country : '',
+  ].filter(Boolean);
+}
+
+function formatDate(isoDate: string): string {
+  const [year, month, day] = isoDate.slice(0, 10).split('-');
+  return `${day}.${month}.${year}`;
+}
+
+function formatAmount(value: number): string {
+  return value.toLocaleString('pl-PL', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatQuantity(value: number): string {
+  return value.toLocaleString('pl-PL', { maximumFractionDigits: 6 });
+}
+
+function formatVatRate(rate: FA3VatRate): string {
+  return typeof rate === 'number' ? `${rate}%` : rate;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,164 @@
+/**
+ * XAdES-BES Enveloped Signatures
+ * Signs KSeF requests (InitSessionSignedRequest) with a qualified seal/signature certificate
+ *
+ * Signature layout:
+ * - Reference URI="" (enveloped-signature + Canonical XML 1.0) covering the request
+ * - Reference URI="#SignedProperties" (exclusive C14N) covering the XAdES properties
+ * - SignedInfo canonicalised with exclusive C14N and signed with RSA-SHA256 or ECDSA-SHA256
+ */
+
+import { createHash, sign } from 'crypto';
+import type { KSeFCertificate } from './certificate';
+import {
+  element,
+  serializeCanonical,
+  serializeExclusiveCanonical,
+  type XmlElement,
+} from './xml-c14n';
+
+export const XMLDSIG_NAMESPACE = 'http://www.w3.org/2000/09/xmldsig#';
+export const XADES_NAMESPACE = 'http://uri.etsi.org/01903/v1.3.2#';
+
+export const XMLDSIG_ALGORITHMS = {
+  c14n: 'http://www.w3.org/TR/2001/REC-xml-c14n-20010315',
+  excC14n: 'http://www.w3.org/2001/10/xml-exc-c14n#',
+  envelopedSignature: 'http://www.w3.org/2000/09/xmldsig#enveloped-signature',
+  sha256: 'http://www.w3.org/2001/04/xmlenc#sha256',
+  rsaSha256: 'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256',
+  ecdsaSha256: 'http://www.w3.org/2001/04/xmldsig-more#ecdsa-sha256',
+  signedPropertiesType: 'http://uri.etsi.org/01903#SignedProperties',
+} as const;
+
+const SIGNATURE_ID = 'Signature';
+const SIGNED_PROPERTIES_ID = 'SignedProperties';
+
+export interface XadesSignOptions {
+  signingTime?: Date;
+}
+
+function sha256Base64(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('base64');
+}
+
+/**
+ * Convert Node's multi-line issuer ("C=PL\nO=...\nCN=...") to RFC 2253 order
+ */
+function formatIssuerName(issuer: string): string {
+  return issuer
+    .split('\n')
+    .filter(Boolean)
+    .reverse()
+    .join(', ');
+}
+
+function signatureMethod(credentials: KSeFCertificate): string {
+  switch (credentials.privateKey.asymmetricKeyType) {
+    case 'rsa':
+      return XMLDSIG_ALGORITHMS.rsaSha256;
+    case 'ec':
+      return XMLDSIG_ALGORITHMS.ecdsaSha256;
+    default:
+      throw new Error(
+        `Unsupported certificate key type: ${credentials.privateKey.asymmetricKeyType ?? 'unknown'}`
+      );
+  }
+}
+
+function digestMethod(): XmlElement {
+  return element('ds:DigestMethod', [], { Algorithm: XMLDSIG_ALGORITHMS.sha256 });
+}
+
+function buildSignedProperties(credentials: KSeFCertificate, signingTime: Date): XmlElement {
+  const { certificate } = credentials;
+
+  return element('xades:SignedProperties', [
+    element('xades:SignedSignatureProperties', [
+      element('xades:SigningTime', signingTime.toISOString()),
+      element('xades:SigningCertificate', [
+        element('xades:Cert', [
+          element('xades:CertDigest', [
+            digestMethod(),
+            element('ds:DigestValue', sha256Base64(certificate.raw)),
+          ]),
+          element('xades:IssuerSerial', [
+            element('ds:X509IssuerName', formatIssuerName(certificate.issuer)),
+            element('ds:X509SerialNumber', BigInt(`0x${certificate.serialNumber}`).toString()),
+          ]),
+        ]),
+      ]),
+    ]),
+  ], { Id: SIGNED_PROPERTIES_ID });
+}
+
+/**
+ * Append an enveloped XAdES-BES signature to the document root and serialise it
+ *
+ * @param document - Root element; must not contain a signature yet
+ * @returns Signed XML document (canonical form, with XML declaration)
+ */
+export function signEnveloped(
+  document: XmlElement,
+  credentials: KSeFCertificate,
+  options: XadesSignOptions = {}
+): string {
+  const rootScope = document.namespaces ?? {};
+  const signatureScope = { ...rootScope, ds: XMLDSIG_NAMESPACE };
+  const propertiesScope = { ...signatureScope, xades: XADES_NAMESPACE };
+
+  const documentDigest = sha256Base64(serializeCanonical(document));
+
+  const signedProperties = buildSignedProperties(credentials, options.signingTime ?? new Date());
+  const propertiesDigest = sha256Base64(
+    serializeExclusiveCanonical(signedProperties, propertiesScope)
+  );
+
+  const signedInfo = element('ds:SignedInfo', [
+    element('ds:CanonicalizationMethod', [], { Algorithm: XMLDSIG_ALGORITHMS.excC14n }),
+    element('ds:SignatureMethod', [], { Algorithm: signatureMethod(credentials) }),
+    element('ds:Reference', [
+      element('ds:Transforms', [
+        element('ds:Transform', [], { Algorithm: XMLDSIG_ALGORITHMS.envelopedSignature }),
+        element('ds:Transform', [], { Algorithm: XMLDSIG_ALGORITHMS.c14n }),
+      ]),
+      digestMethod(),
+      element('ds:DigestValue', documentDigest),
+    ], { URI: '' }),
+    element('ds:Reference', [
+      element('ds:Transforms', [
+        element('ds:Transform', [], { Algorithm: XMLDSIG_ALGORITHMS.excC14n }),
+      ]),
+      digestMethod(),
+      element('ds:DigestValue', propertiesDigest),
+    ], { URI: `#${SIGNED_PROPERTIES_ID}`, Type: XMLDSIG_ALGORITHMS.signedPropertiesType }),
+  ]);
+
+  const signedInfoCanonical = serializeExclusiveCanonical(signedInfo, signatureScope);
+  const signatureValue = sign('sha256', Buffer.from(signedInfoCanonical, 'utf8'), {
+    key: credentials.privateKey,
+    // XML-DSig expects raw r||s for ECDSA rather than DER
+    dsaEncoding: 'ieee-p1363',
+  }).toString('base64');
+
+  const signature = element('ds:Signature', [
+    signedInfo,
+    element('ds:SignatureValue', signatureValue),
+    element('ds:KeyInfo', [
+      element('ds:X509Data', [
+        element('ds:X509Certificate', credentials.certificate.raw.toString('base64')),
+      ]),
+    ]),
+    element('ds:Object', [
+      element('xades:QualifyingProperties', [signedProperties], { Target: `#${SIGNATURE_ID}` }, {
+        xades: XADES_NAMESPACE,
+      }),
+    ]),
+  ], { Id: SIGNATURE_ID }, { ds: XMLDSIG_NAMESPACE });
+
+  const signedDocument: XmlElement = {
+    ...document,
+    children: [...(document.children ?? []), signature],
+  };
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${serializeCanonical(signedDocument)}`;
+}
@@ -0,0 +1,217 @@
+/**
+ * Minimal XML tree with canonical serialisation
+ *
+ * KSeF signed requests are built as trees and serialised directly in canonical
+ * form, so the bytes that are digested/signed are exactly the bytes that are sent.
+ *
+ * - serializeCanonical: Canonical XML 1.0 (inclusive) of a document root
+ * - serializeExclusiveCanonical: Exclusive XML Canonicalization 1.0 of a subtree
+ * - parseXmlTree: read a document back into the tree (e.g. to verify a signature)
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+
+export interface XmlElement {
+  name: string; // Qualified name, e.g. "ds:Signature" or "Challenge"
+  namespaces?: Record<string, string>; // prefix → URI, '' for the default namespace
+  attributes?: Record<string, string>; // qualified attribute name → value
+  children?: Array<XmlElement | string>;
+}
+
+export function element(
+  name: string,
+  children: Array<XmlElement | string> | string = [],
+  attributes?: Record<string, string>,
+  namespaces?: Record<string, string>
+): XmlElement {
+  return {
+    name,
+    attributes,
+    namespaces,
+    children: typeof children === 'string' ? [children] : children,
+  };
+}
+
+function prefixOf(qualifiedName: string): string {
+  const index = qualifiedName.indexOf(':');
+  return index === -1 ? '' : qualifiedName.slice(0, index);
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\r/g, '&#xD;');
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\t/g, '&#x9;')
+    .replace(/\n/g, '&#xA;')
+    .replace(/\r/g, '&#xD;');
+}
+
+function renderNamespaces(namespaces: Array<[string, string]>): string {
+  return namespaces
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([prefix, uri]) =>
+      prefix === '' ? ` xmlns="${escapeAttribute(uri)}"` : ` xmlns:${prefix}="${escapeAttribute(uri)}"`
+    )
+    .join('');
+}
+
+function renderAttributes(
+  attributes: Record<string, string> | undefined,
+  scope: Record<string, string>
+): string {
+  if (!attributes) {
+    return '';
+  }
+
+  // Sorted by namespace URI (unqualified attributes first), then local name
+  return Object.entries(attributes)
+    .map(([name, value]) => {
+      const prefix = prefixOf(name);
+      const uri = prefix ? (scope[prefix] ?? '') : '';
+      const localName = prefix ? name.slice(prefix.length + 1) : name;
+      return { name, value, key: `${uri}\u0000${localName}` };
+    })
+    .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+    .map(({ name, value }) => ` ${name}="${escapeAttribute(value)}"`)
+    .join('');
+}
+
+/**
+ * Canonical XML 1.0 (inclusive, without comments) of a document root.
+ * Namespace declarations are emitted where declared unless an output ancestor
+ * already declared the same binding.
+ */
+export function serializeCanonical(
+  node: XmlElement,
+  inScope: Record<string, string> = {},
+  rendered: Record<string, string> = {}
+): string {
+  const scope = { ...inScope, ...(node.namespaces ?? {}) };
+  const declarations = Object.entries(node.namespaces ?? {}).filter(
+    ([prefix, uri]) => rendered[prefix] !== uri
+  );
+  const nextRendered = { ...rendered, ...Object.fromEntries(declarations) };
+
+  const children = (node.children ?? [])
+    .map((child) =>
+      typeof child === 'string' ? escapeText(child) : serializeCanonical(child, scope, nextRendered)
+    )
+    .join('');
+
+  return `<${node.name}${renderNamespaces(declarations)}${renderAttributes(node.attributes, scope)}>${children}</${node.name}>`;
+}
+
+/**
+ * Exclusive XML Canonicalization 1.0 (without comments) of a subtree.
+ * Only visibly utilised namespaces are emitted, at the first element that uses them.
+ *
+ * @param inScope - Namespace bindings inherited from the subtree's ancestors
+ */
+export function serializeExclusiveCanonical(
+  node: XmlElement,
+  inScope: Record<string, string> = {},
+  rendered: Record<string, string> = {}
+): string {
+  const scope = { ...inScope, ...(node.namespaces ?? {}) };
+
+  const visiblyUsed = new Set<string>([prefixOf(node.name)]);
+  for (const attribute of Object.keys(node.attributes ?? {})) {
+    const prefix = prefixOf(attribute);
+    if (prefix) {
+      visiblyUsed.add(prefix);
+    }
+  }
+
+  const declarations: Array<[string, string]> = [];
+  for (const prefix of visiblyUsed) {
+    const uri = scope[prefix];
+    if (uri === undefined) {
+      if (prefix === '') continue;
+      throw new Error(`Unbound namespace prefix: ${prefix}`);
+    }
+    if (rendered[prefix] !== uri) {
+      declarations.push([prefix, uri]);
+    }
+  }
+  const nextRendered = { ...rendered, ...Object.fromEntries(declarations) };
+
+  const children = (node.children ?? [])
+    .map((child) =>
+      typeof child === 'string'
+        ? escapeText(child)
+        : serializeExclusiveCanonical(child, scope, nextRendered)
+    )
+    .join('');
+
+  return `<${node.name}${renderNamespaces(declarations)}${renderAttributes(node.attributes, scope)}>${children}</${node.name}>`;
+}
+
+type OrderedNode = Record<string, unknown> & { ':@'?: Record<string, string> };
+
+function fromOrderedNode(node: OrderedNode): XmlElement | string | null {
+  if ('#text' in node) {
+    return String(node['#text']);
+  }
+
+  const name = Object.keys(node).find((key) => key !== ':@');
+  if (!name || name.startsWith('?')) {
+    return null;
+  }
+
+  const namespaces: Record<string, string> = {};
+  const attributes: Record<string, string> = {};
+  for (const [key, value] of Object.entries(node[':@'] ?? {})) {
+    if (key === 'xmlns') {
+      namespaces[''] = value;
+    } else if (key.startsWith('xmlns:')) {
+      namespaces[key.slice('xmlns:'.length)] = value;
+    } else {
+      attributes[key] = value;
+    }
+  }
+
+  const children = (node[name] as OrderedNode[])
+    .map(fromOrderedNode)
+    .filter((child): child is XmlElement | string => child !== null);
+
+  return {
+    name,
+    namespaces: Object.keys(namespaces).length > 0 ? namespaces : undefined,
+    attributes: Object.keys(attributes).length > 0 ? attributes : undefined,
+    children,
+  };
+}
+
+/**
+ * Parse an XML document into a tree (comments and processing instructions are dropped)
+ */
+export function parseXmlTree(xml: string): XmlElement {
+  const parser = new XMLParser({
+    preserveOrder: true,
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    parseTagValue: false,
+    parseAttributeValue: false,
+    trimValues: false,
+    ignoreDeclaration: true,
+  });
+
+  const root = (parser.parse(xml) as OrderedNode[])
+    .map(fromOrderedNode)
+    .find((node): node is XmlElement => typeof node === 'object' && node !== null);
+
+  if (!root) {
+    throw new Error('XML document has no root element');
+  }
+
+  return root;
+}
@@ -1,6 +1,28 @@
-export { recogniseInvoice, terminateOcr, warmupOcr } from "./tesseract";
+export { recogniseInvoice, recogniseInvoiceWithProfiles, terminateOcr, warmupOcr } from "./tesseract";
 export { processInvoiceImage } from "./services/processor";
 export { processAndExtractInvoice } from "./services/extraction";
-export type { OcrResult, OcrWord } from "./types";
+export { combineOcrPages, formatPageMarker, splitTextByPageMarkers } from "./pages";
+export { detectInvoiceBoundaries, splitOcrPages, validateInvoiceSegments } from "./splitting";
+export type { InvoiceSegment, SplitDocument, SplitReason } from "./splitting";
+export { groupWordsIntoRows, parsePolishNumber, parseVatRate, reconstructLineItemTable } from "./layout/table";
+export type { LineItemCandidate, LineItemTable, TableColumn, TableColumnKind } from "./layout/table";
+export {
+  getTenantOcrSettings,
+  recogniseDocumentWithProviders,
+  recogniseWithProviders,
+  resolveOcrProviderChain,
+  resolvePreprocessProfiles,
+  OCR_PROVIDERS,
+} from "./providers";
+export type {
+  OcrDocumentResult,
+  OcrExtractionPath,
+  OcrProvider,
+  OcrProviderInput,
+  OcrProviderName,
+  OcrProviderResult,
+  TenantOcrSettings,
+} from "./providers";
+export type { OcrPageResult, OcrResult, OcrWord } from "./types";
 export type { OcrProcessorOptions, OcrProcessorResult } from "./services/processor";
 
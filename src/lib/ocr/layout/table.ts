@@ -0,0 +1,419 @@
+/**
+ * Line-item table reconstruction from OCR word boxes
+ *
+ * Flat OCR text loses the column structure of invoice item tables (a wrapped
+ * description or a missing cell shifts every value after it). Here words are
+ * clustered into rows by their vertical position, the header row (Lp., Nazwa,
+ * Ilość, J.m., Cena netto, Stawka VAT, Wartość netto, Kwota VAT, Wartość brutto)
+ * defines the columns, and each row becomes a line-item candidate with
+ * arithmetic checks, for the AI step to verify rather than guess.
+ */
+
+import { parseVATRateCode, vatRatePercent, type VATRateCode } from '@/lib/vat-rates';
+import type { OcrWord } from '../types';
+
+export type TableColumnKind =
+  | 'index'
+  | 'description'
+  | 'quantity'
+  | 'unit'
+  | 'unitPrice'
+  | 'vatRate'
+  | 'net'
+  | 'vat'
+  | 'gross';
+
+export type TableColumn = {
+  kind: TableColumnKind;
+  /** header text as printed */
+  header: string;
+  x0: number;
+  x1: number;
+};
+
+/**
+ * One row of the item table, in the shape of the extraction LineItem
+ */
+export type LineItemCandidate = {
+  page: number;
+  /** number from the Lp. column */
+  position: number | null;
+  description: string;
+  quantity: number | null;
+  unit: string | null;
+  unit_price: number | null;
+  /** percentage, or a lowercase code for non-percentage rates ('zw', 'np', 'oo') */
+  vat_rate: VATRateCode | null;
+  net: number | null;
+  vat: number | null;
+  gross: number | null;
+  /** mean OCR confidence of the row's words (0-100) */
+  confidence: number;
+  /** quantity × unit price = net, net × rate = VAT and net + VAT = gross, where present */
+  consistent: boolean;
+};
+
+export type LineItemTable = {
+  columns: TableColumn[];
+  items: LineItemCandidate[];
+};
+
+type TableRow = {
+  page: number;
+  y0: number;
+  y1: number;
+  words: OcrWord[];
+};
+
+// Order matters: "Cena netto" is a unit price, "Wartość netto" a net value
+const HEADER_PATTERNS: Array<[TableColumnKind, RegExp]> = [
+  ['index', /^(?:l\.?\s?p\.?|nr|#)$/i],
+  ['gross', /brutto/i],
+  ['unitPrice', /cena/i],
+  ['net', /netto/i],
+  ['vatRate', /stawka|(?:^|\s)%|%(?:\s|$)|^%$/i],
+  ['vat', /(?:^|\s)vat(?:\s|$)|podatek/i],
+  ['quantity', /^il(?:o[sś][cć]|\.)?$|ilo[sś][cć]/i],
+  ['unit', /^j\.?\s?m\.?$|jedn|miary/i],
+  ['description', /nazwa|opis|towar|us[lł]ug|asortyment/i],
+];
+
+/** The header must name at least this many different columns */
+const MIN_HEADER_COLUMNS = 3;
+
+const AMOUNT_COLUMNS: TableColumnKind[] = ['unitPrice', 'net', 'vat', 'gross'];
+
+const TOTALS_ROW = /^(?:razem|suma|ogółem|ogolem|podsumowanie|do zapłaty|do zaplaty|w tym)\b/i;
+
+// Rounding tolerance for the arithmetic checks (1 grosz per operation, or 0.5%)
+const AMOUNT_TOLERANCE = 0.02;
+
+/**
+ * Parse a number printed on a Polish invoice
+ *
+ * Handles "1 234,56", "1.234,56", "1,234.56", "2.500" (a quantity), "23%" and
+ * trailing currency ("zł", "PLN").
+ *
+ * @returns The number, or null when the text holds none
+ */
+export function parsePolishNumber(text: string): number | null {
+  const match = /-?\d[\d\s .,]*/.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  let value = match[0].replace(/[\s ]/g, '').replace(/[.,]$/, '');
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    // The separator that comes last is the decimal one
+    const decimal = lastComma > lastDot ? ',' : '.';
+    const thousands = decimal === ',' ? '.' : ',';
+    value = value.split(thousands).join('').replace(decimal, '.');
+  } else if (lastComma !== -1) {
+    value = value.split(',').length > 2 ? value.split(',').join('') : value.replace(',', '.');
+  } else if (value.split('.').length > 2) {
+    value = value.split('.').join('');
+  }
+
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Parse a VAT rate cell: "23%", "23", "zw", "np", "oo", "0% WDT", "0 EX"
+ */
+export function parseVatRate(text: string): VATRateCode | null {
+  return parseVATRateCode(text);
+}
+
+/**
+ * Cluster words into text rows, per page, top to bottom
+ *
+ * A word joins a row when its vertical centre is within half a line height of
+ * the row's centre; words in a row are ordered left to right.
+ */
+export function groupWordsIntoRows(words: OcrWord[]): TableRow[] {
+  const heights = words.map((word) => word.bbox.y1 - word.bbox.y0).filter((height) => height > 0);
+  const lineHeight = median(heights) || 10;
+
+  const rows: Array<TableRow & { centre: number }> = [];
+  const sorted = [...words].sort(
+    (a, b) => (a.page ?? 1) - (b.page ?? 1) || centreY(a) - centreY(b)
+  );
+
+  for (const word of sorted) {
+    const page = word.page ?? 1;
+    const row = rows.find(
+      (candidate) => candidate.page === page && Math.abs(candidate.centre - centreY(word)) <= lineHeight / 2
+    );
+
+    if (row) {
+      row.words.push(word);
+      row.centre = row.words.reduce((sum, rowWord) => sum + centreY(rowWord), 0) / row.words.length;
+      row.y0 = Math.min(row.y0, word.bbox.y0);
+      row.y1 = Math.max(row.y1, word.bbox.y1);
+    } else {
+      rows.push({ page, y0: word.bbox.y0, y1: word.bbox.y1, centre: centreY(word), words: [word] });
+    }
+  }
+
+  return rows
+    .sort((a, b) => a.page - b.page || a.centre - b.centre)
+    .map(({ page, y0, y1, words: rowWords }) => ({
+      page,
+      y0,
+      y1,
+      words: rowWords.sort((a, b) => a.bbox.x0 - b.bbox.x0),
+    }));
+}
+
+/**
+ * Rebuild the line-item table of an invoice from OCR words
+ *
+ * Tables continued on the next page without a repeated header keep the columns
+ * of the previous page.
+ *
+ * @param words - OCR words with bounding boxes (and page numbers for multi-page documents)
+ * @returns The table, or null when no item table header was found
+ */
+export function reconstructLineItemTable(words: OcrWord[]): LineItemTable | null {
+  const rows = groupWordsIntoRows(words.filter((word) => word.text.trim()));
+  const lineHeight = median(rows.map((row) => row.y1 - row.y0)) || 10;
+
+  let columns: TableColumn[] | null = null;
+  let firstColumns: TableColumn[] | null = null;
+  // rows: reading items; continued: table ran past the page break, skipping the
+  // next page's letterhead until its first item; closed: totals row reached
+  let state: 'none' | 'rows' | 'continued' | 'closed' = 'none';
+  let currentPage: number | null = null;
+  // last row of the current item, while following lines may still continue its description
+  let itemRow: TableRow | null = null;
+  const items: LineItemCandidate[] = [];
+
+  for (let index = 0; index < rows.length; index++) {
+    const row = rows[index];
+
+    const header = readHeader(row, rows[index + 1]);
+    if (header) {
+      columns = header.columns;
+      firstColumns ??= columns;
+      state = 'rows';
+      currentPage = row.page;
+      itemRow = null;
+      index += header.rowsUsed - 1;
+      continue;
+    }
+
+    if (row.page !== currentPage) {
+      currentPage = row.page;
+      itemRow = null;
+      if (state === 'rows') {
+        state = 'continued';
+      }
+    }
+    if (!columns || (state !== 'rows' && state !== 'continued')) {
+      continue;
+    }
+
+    const text = row.words.map((word) => word.text).join(' ').trim();
+    if (TOTALS_ROW.test(text)) {
+      state = 'closed';
+      continue;
+    }
+
+    const cells = assignToColumns(row, columns);
+    const item = toCandidate(row, cells);
+    const last = items[items.length - 1];
+
+    if (item) {
+      items.push(item);
+      state = 'rows';
+      itemRow = row;
+    } else if (last && itemRow && cells.description && row.y0 - itemRow.y1 < lineHeight * 1.5) {
+      // Description wrapped onto the next line
+      last.description = `${last.description} ${cells.description.text}`.trim();
+      itemRow = row;
+    } else {
+      // Notes and footers below the items are not part of any description
+      itemRow = null;
+    }
+  }
+
+  if (!firstColumns) {
+    return null;
+  }
+
+  return { columns: firstColumns, items };
+}
+
+/**
+ * Header of the item table: the row naming at least three columns, joined with a
+ * second header line ("Wartość" / "netto") when there is one
+ */
+function readHeader(row: TableRow, nextRow?: TableRow): { columns: TableColumn[]; rowsUsed: number } | null {
+  if (row.words.some((word) => parsePolishNumber(word.text) !== null && !/%/.test(word.text))) {
+    return null;
+  }
+
+  const cells = mergeIntoCells(row.words);
+  const twoLine =
+    !!nextRow &&
+    nextRow.page === row.page &&
+    nextRow.words.every((word) => !/\d/.test(word.text)) &&
+    nextRow.y0 - row.y1 < (row.y1 - row.y0) * 1.5;
+
+  const candidates = twoLine ? [cells, joinHeaderLines(cells, mergeIntoCells(nextRow!.words))] : [cells];
+
+  let best: TableColumn[] = [];
+  let rowsUsed = 1;
+  candidates.forEach((candidate, index) => {
+    const columns = classifyHeaderCells(candidate);
+    if (columns.length > best.length) {
+      best = columns;
+      rowsUsed = index + 1;
+    }
+  });
+
+  const kinds = new Set(best.map((column) => column.kind));
+  const hasAmount = AMOUNT_COLUMNS.some((kind) => kinds.has(kind));
+  return kinds.size >= MIN_HEADER_COLUMNS && hasAmount ? { columns: best, rowsUsed } : null;
+}
+
+type Cell = { text: string; x0: number; x1: number };
+
+/**
+ * Join words separated by a normal space into one cell ("Cena netto")
+ */
+function mergeIntoCells(words: OcrWord[]): Cell[] {
+  const cells: Cell[] = [];
+
+  for (const word of words) {
+    const last = cells[cells.length - 1];
+    const charWidth = (word.bbox.x1 - word.bbox.x0) / Math.max(word.text.length, 1);
+
+    if (last && word.bbox.x0 - last.x1 <= charWidth) {
+      last.text = `${last.text} ${word.text}`;
+      last.x1 = word.bbox.x1;
+    } else {
+      cells.push({ text: word.text, x0: word.bbox.x0, x1: word.bbox.x1 });
+    }
+  }
+
+  return cells;
+}
+
+function joinHeaderLines(top: Cell[], bottom: Cell[]): Cell[] {
+  const joined = top.map((cell) => ({ ...cell }));
+
+  for (const cell of bottom) {
+    const centre = (cell.x0 + cell.x1) / 2;
+    const target = joined.reduce((best, candidate) =>
+      Math.abs((candidate.x0 + candidate.x1) / 2 - centre) < Math.abs((best.x0 + best.x1) / 2 - centre)
+        ? candidate
+        : best
+    );
+    target.text = `${target.text} ${cell.text}`;
+    target.x0 = Math.min(target.x0, cell.x0);
+    target.x1 = Math.max(target.x1, cell.x1);
+  }
+
+  return joined;
+}
+
+function classifyHeaderCells(cells: Cell[]): TableColumn[] {
+  const columns: TableColumn[] = [];
+
+  for (const cell of cells) {
+    const kind = HEADER_PATTERNS.find(([, pattern]) => pattern.test(cell.text.trim()))?.[0];
+    if (kind && !columns.some((column) => column.kind === kind)) {
+      columns.push({ kind, header: cell.text, x0: cell.x0, x1: cell.x1 });
+    }
+  }
+
+  return columns.sort((a, b) => a.x0 - b.x0);
+}
+
+type RowCell = { text: string; words: OcrWord[] };
+
+/**
+ * Put each word in the column whose span (halfway to the neighbouring headers) holds its centre
+ */
+function assignToColumns(row: TableRow, columns: TableColumn[]): Partial<Record<TableColumnKind, RowCell>> {
+  const cells: Partial<Record<TableColumnKind, RowCell>> = {};
+
+  for (const word of row.words) {
+    const centre = (word.bbox.x0 + word.bbox.x1) / 2;
+    const index = columns.findIndex((column, position) => {
+      const next = columns[position + 1];
+      return !next || centre < (column.x1 + next.x0) / 2;
+    });
+    const { kind } = columns[index];
+
+    const cell = (cells[kind] ??= { text: '', words: [] });
+    cell.text = cell.text ? `${cell.text} ${word.text}` : word.text;
+    cell.words.push(word);
+  }
+
+  return cells;
+}
+
+function toCandidate(row: TableRow, cells: Partial<Record<TableColumnKind, RowCell>>): LineItemCandidate | null {
+  const number = (kind: TableColumnKind) => (cells[kind] ? parsePolishNumber(cells[kind].text) : null);
+
+  const amounts = AMOUNT_COLUMNS.map(number).filter((value) => value !== null);
+  const position = number('index');
+
+  // Rows without amounts are wrapped descriptions, notes or page furniture
+  if (amounts.length < 2 && !(position !== null && amounts.length === 1)) {
+    return null;
+  }
+
+  const item: LineItemCandidate = {
+    page: row.page,
+    position: position !== null && Number.isInteger(position) ? position : null,
+    description: cells.description?.text.trim() ?? '',
+    quantity: number('quantity'),
+    unit: cells.unit?.text.trim() || null,
+    unit_price: number('unitPrice'),
+    vat_rate: cells.vatRate ? parseVatRate(cells.vatRate.text) : null,
+    net: number('net'),
+    vat: number('vat'),
+    gross: number('gross'),
+    confidence: Math.round(row.words.reduce((sum, word) => sum + word.confidence, 0) / row.words.length),
+    consistent: false,
+  };
+  item.consistent = isConsistent(item);
+
+  return item;
+}
+
+function isConsistent(item: LineItemCandidate): boolean {
+  const checks: boolean[] = [];
+  const close = (a: number, b: number) => Math.abs(a - b) <= Math.max(AMOUNT_TOLERANCE, Math.abs(b) * 0.005);
+
+  if (item.quantity !== null && item.unit_price !== null && item.net !== null) {
+    checks.push(close(item.quantity * item.unit_price, item.net));
+  }
+  if (item.net !== null && item.vat_rate !== null && item.vat !== null) {
+    checks.push(close((item.net * vatRatePercent(item.vat_rate)) / 100, item.vat));
+  }
+  if (item.net !== null && item.vat !== null && item.gross !== null) {
+    checks.push(close(item.net + item.vat, item.gross));
+  }
+
+  return checks.length > 0 && checks.every(Boolean);
+}
+
+function centreY(word: OcrWord): number {
+  return (word.bbox.y0 + word.bbox.y1) / 2;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
@@ -0,0 +1,60 @@
+import type { OcrPageResult, OcrResult } from "./types";
+
+/**
+ * Marker put before each page's text, so extraction can tell where page 2+ starts
+ */
+export function formatPageMarker(page: number, pageCount: number): string {
+  return `--- Page ${page} of ${pageCount} ---`;
+}
+
+/**
+ * Combine per-page OCR results into one document result
+ *
+ * Text is joined with page markers (single pages are left as they are), words keep
+ * their page number and confidence is averaged over pages weighted by word count.
+ */
+export function combineOcrPages(pages: OcrPageResult[]): OcrResult {
+  if (pages.length === 0) {
+    throw new Error("No OCR pages to combine");
+  }
+
+  const text =
+    pages.length === 1
+      ? pages[0].text
+      : pages
+          .map((page) => `${formatPageMarker(page.page, pages.length)}\n${page.text}`)
+          .join("\n\n");
+
+  const weights = pages.map((page) => Math.max(page.words.length, 1));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const confidence =
+    pages.reduce((sum, page, index) => sum + page.confidence * weights[index], 0) / totalWeight;
+
+  return {
+    text,
+    confidence: Math.round(confidence * 100) / 100,
+    words: pages.flatMap((page) => page.words.map((word) => ({ ...word, page: page.page }))),
+    language: pages[0].language,
+    metadata: { pages: pages.length },
+  };
+}
+
+const PAGE_MARKER = /^--- Page (\d+) of (\d+) ---$/gm;
+
+/**
+ * Split text combined by combineOcrPages back into pages
+ *
+ * Text without page markers is returned as a single page.
+ */
+export function splitTextByPageMarkers(text: string): Array<{ page: number; text: string }> {
+  const markers = [...text.matchAll(PAGE_MARKER)];
+  if (markers.length === 0) {
+    return [{ page: 1, text }];
+  }
+
+  return markers.map((marker, index) => {
+    const start = (marker.index ?? 0) + marker[0].length;
+    const end = index + 1 < markers.length ? markers[index + 1].index : text.length;
+    return { page: Number(marker[1]), text: text.slice(start, end).trim() };
+  });
+}
@@ -0,0 +1,70 @@
+import { otsuThreshold, type GrayImage } from './raster';
+
+/** Steeper angles are treated as rotated pages, which EXIF rotation handles */
+const MAX_SKEW_ANGLE = 15;
+
+/**
+ * Estimate how far the text lines of a page are tilted
+ *
+ * Projection-profile method: ink pixels are projected along candidate angles and
+ * the angle at which they pile up into the sharpest rows (text lines) wins. A
+ * coarse 1° search is refined in 0.1° steps around the best angle.
+ *
+ * @param image - Grayscale page; ~1000px wide is plenty (the angle does not change with scale)
+ * @returns Degrees, positive when lines run down to the right (clockwise); rotate
+ *          by the negated value to straighten the page. 0 when there is too little text.
+ */
+export function estimateSkewAngle(image: GrayImage, maxAngle = MAX_SKEW_ANGLE): number {
+  const threshold = otsuThreshold(image);
+  const xs: number[] = [];
+  const ys: number[] = [];
+
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      if (image.data[y * image.width + x] < threshold) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+
+  // Blank page, or a page that is mostly ink (photo, inverted scan)
+  if (xs.length < 50 || xs.length > image.data.length / 2) {
+    return 0;
+  }
+
+  const score = (angle: number) => {
+    const slope = Math.tan((angle * Math.PI) / 180);
+    const offset = Math.ceil(Math.abs(slope) * image.width);
+    const rows = new Uint32Array(image.height + 2 * offset + 1);
+
+    for (let index = 0; index < xs.length; index++) {
+      rows[Math.round(ys[index] - xs[index] * slope) + offset]++;
+    }
+
+    // Sum of squares rewards ink concentrated in few rows
+    let sum = 0;
+    for (const count of rows) {
+      sum += count * count;
+    }
+    return sum;
+  };
+
+  const search = (from: number, to: number, step: number, start: number) => {
+    let bestAngle = start;
+    let bestScore = score(start);
+    for (let angle = from; angle <= to + step / 2; angle += step) {
+      const value = score(angle);
+      if (value > bestScore) {
+        bestScore = value;
+        bestAngle = angle;
+      }
+    }
+    return bestAngle;
+  };
+
+  const coarse = search(-maxAngle, maxAngle, 1, 0);
+  const fine = search(coarse - 1, coarse + 1, 0.1, coarse);
+
+  return Math.round(fine * 10) / 10;
+}
@@ -1,3 +1,12 @@
 export { preprocessImage } from './preprocess';
 export type { PreprocessOptions, PreprocessResult } from './preprocess';
-
+export {
+  DEFAULT_PREPROCESS_PROFILES,
+  PREPROCESS_PROFILES,
+  isPreprocessProfileName,
+} from './profiles';
+export type { PreprocessProfileName } from './profiles';
+export { estimateSkewAngle } from './deskew';
+export { adaptiveThreshold } from './threshold';
+export { computeHomography, findDocumentCorners, warpPerspective } from './perspective';
+export type { GrayImage } from './raster';
@@ -0,0 +1,182 @@
+import { otsuThreshold, type GrayImage } from './raster';
+
+export type Point = { x: number; y: number };
+
+/** Corners in order: top-left, top-right, bottom-right, bottom-left */
+export type Quad = [Point, Point, Point, Point];
+
+/** The sheet must cover at least this share of the photo to be trusted */
+const MIN_PAGE_AREA = 0.2;
+
+/** Corners closer than this (share of the image side) to the image corners need no correction */
+const CORNER_TOLERANCE = 0.03;
+
+/**
+ * Find the corners of a sheet of paper photographed on a darker background
+ *
+ * The paper is the bright region after Otsu thresholding; its corners are the
+ * bright pixels furthest towards each image corner. Pass a small, smoothed copy
+ * of the photo (see downscale) so stray bright specks do not count.
+ *
+ * @returns Corners, or null when the image is already a flat, cropped page or no
+ *          sheet could be found
+ */
+export function findDocumentCorners(image: GrayImage): Quad | null {
+  const { width, height, data } = image;
+  const threshold = otsuThreshold(image);
+
+  let topLeft: Point | null = null;
+  let topRight: Point | null = null;
+  let bottomRight: Point | null = null;
+  let bottomLeft: Point | null = null;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[y * width + x] < threshold) {
+        continue;
+      }
+      if (!topLeft || x + y < topLeft.x + topLeft.y) topLeft = { x, y };
+      if (!bottomRight || x + y > bottomRight.x + bottomRight.y) bottomRight = { x, y };
+      if (!topRight || x - y > topRight.x - topRight.y) topRight = { x, y };
+      if (!bottomLeft || y - x > bottomLeft.y - bottomLeft.x) bottomLeft = { x, y };
+    }
+  }
+
+  if (!topLeft || !topRight || !bottomRight || !bottomLeft) {
+    return null;
+  }
+
+  const corners: Quad = [topLeft, topRight, bottomRight, bottomLeft];
+  const imageCorners: Quad = [
+    { x: 0, y: 0 },
+    { x: width - 1, y: 0 },
+    { x: width - 1, y: height - 1 },
+    { x: 0, y: height - 1 },
+  ];
+
+  const alreadyFlat = corners.every(
+    (corner, index) =>
+      Math.abs(corner.x - imageCorners[index].x) <= width * CORNER_TOLERANCE &&
+      Math.abs(corner.y - imageCorners[index].y) <= height * CORNER_TOLERANCE
+  );
+
+  if (alreadyFlat || quadArea(corners) < width * height * MIN_PAGE_AREA) {
+    return null;
+  }
+
+  return corners;
+}
+
+/**
+ * Homography mapping each corner of `from` onto the matching corner of `to`
+ *
+ * @returns 3x3 matrix, row-major, with the last element fixed to 1
+ */
+export function computeHomography(from: Quad, to: Quad): number[] {
+  // Eight equations (two per corner) in the eight unknown matrix elements
+  const rows: number[][] = [];
+  from.forEach(({ x, y }, index) => {
+    const { x: u, y: v } = to[index];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  });
+
+  // Gaussian elimination with partial pivoting
+  for (let column = 0; column < 8; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < 8; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(rows[pivot][column]) < 1e-12) {
+      throw new Error('Corners do not form a quadrilateral');
+    }
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+
+    for (let row = 0; row < 8; row++) {
+      if (row === column) {
+        continue;
+      }
+      const factor = rows[row][column] / rows[column][column];
+      for (let k = column; k < 9; k++) {
+        rows[row][k] -= factor * rows[column][k];
+      }
+    }
+  }
+
+  return [...rows.map((row, index) => row[8] / row[index]), 1];
+}
+
+/**
+ * Apply a homography to a point
+ */
+export function projectPoint(matrix: number[], { x, y }: Point): Point {
+  const w = matrix[6] * x + matrix[7] * y + matrix[8];
+  return {
+    x: (matrix[0] * x + matrix[1] * y + matrix[2]) / w,
+    y: (matrix[3] * x + matrix[4] * y + matrix[5]) / w,
+  };
+}
+
+/**
+ * Cut the sheet out of a photo and warp it into an upright rectangle
+ *
+ * The output size follows the longer opposite edges of the sheet, so text keeps
+ * roughly its photographed resolution. Pixels are sampled bilinearly.
+ */
+export function warpPerspective(image: GrayImage, corners: Quad): GrayImage {
+  const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+  const width = Math.round(Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight)));
+  const height = Math.round(Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight)));
+
+  const target: Quad = [
+    { x: 0, y: 0 },
+    { x: width - 1, y: 0 },
+    { x: width - 1, y: height - 1 },
+    { x: 0, y: height - 1 },
+  ];
+  // Output pixel -> photo pixel, so every output pixel gets a value
+  const matrix = computeHomography(target, corners);
+  const data = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = projectPoint(matrix, { x, y });
+      data[y * width + x] = sampleBilinear(image, source.x, source.y);
+    }
+  }
+
+  return { data, width, height };
+}
+
+function sampleBilinear(image: GrayImage, x: number, y: number): number {
+  if (x < 0 || y < 0 || x > image.width - 1 || y > image.height - 1) {
+    return 255;
+  }
+
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, image.width - 1);
+  const y1 = Math.min(y0 + 1, image.height - 1);
+  const fx = x - x0;
+  const fy = y - y0;
+
+  const top = image.data[y0 * image.width + x0] * (1 - fx) + image.data[y0 * image.width + x1] * fx;
+  const bottom = image.data[y1 * image.width + x0] * (1 - fx) + image.data[y1 * image.width + x1] * fx;
+  return Math.round(top * (1 - fy) + bottom * fy);
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+// Shoelace formula
+function quadArea(quad: Quad): number {
+  let area = 0;
+  quad.forEach((point, index) => {
+    const next = quad[(index + 1) % quad.length];
+    area += point.x * next.y - next.x * point.y;
+  });
+  return Math.abs(area) / 2;
+}
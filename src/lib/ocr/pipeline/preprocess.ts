@@ -1,6 +1,11 @@
 import sharp from 'sharp';
 import type { Sharp } from 'sharp';
 
+import { estimateSkewAngle } from './deskew';
+import { findDocumentCorners, warpPerspective, type Quad } from './perspective';
+import { downscale, type GrayImage } from './raster';
+import { adaptiveThreshold } from './threshold';
+
 export type PreprocessOptions = {
   rotate?: boolean;
   grayscale?: boolean;
@@ -8,6 +13,14 @@ export type PreprocessOptions = {
   flatten?: boolean;
   trim?: boolean;
   threshold?: boolean;
+  /** straighten pages scanned at an angle (text-line angle estimation) */
+  deskew?: boolean;
+  /** find the sheet in a phone photo and warp it into an upright rectangle */
+  perspective?: boolean;
+  /** remove scanner speckle with a 3x3 median filter */
+  denoise?: boolean;
+  /** per-region (Sauvola) binarisation for shadows and uneven lighting; replaces `threshold` */
+  adaptiveThreshold?: boolean;
 };
 
 const DEFAULT_OPTIONS: PreprocessOptions = {
@@ -19,9 +32,16 @@ const DEFAULT_OPTIONS: PreprocessOptions = {
   threshold: false,
 };
 
+// Skew below this is left alone (rotating resamples the whole page)
+const MIN_DESKEW_ANGLE = 0.3;
+
 export type PreprocessResult = {
   buffer: Buffer;
   metadata: Awaited<ReturnType<Sharp['metadata']>>;
+  /** degrees the page was tilted by, when deskew ran */
+  skewAngle?: number;
+  /** whether a photographed sheet was found and flattened */
+  perspectiveCorrected?: boolean;
 };
 
 export async function preprocessImage(
@@ -30,6 +50,8 @@ export async function preprocessImage(
 ): Promise<PreprocessResult> {
   const buffer = input instanceof Buffer ? input : Buffer.from(new Uint8Array(input));
   let instance = sharp(buffer, { failOn: 'none' });
+  let skewAngle: number | undefined;
+  let perspectiveCorrected: boolean | undefined;
 
   if (options.rotate) {
     instance = instance.rotate();
@@ -47,11 +69,40 @@ export async function preprocessImage(
     instance = instance.grayscale();
   }
 
+  // Geometry fixes work on raw pixels; each one starts a new sharp pipeline
+  if (options.perspective) {
+    const image = await toGrayImage(instance);
+    const small = downscale(image, 400);
+    const corners = findDocumentCorners(small);
+    perspectiveCorrected = !!corners;
+
+    if (corners) {
+      const scale = image.width / small.width;
+      const scaled = corners.map(({ x, y }) => ({ x: x * scale, y: y * scale })) as Quad;
+      instance = fromGrayImage(warpPerspective(image, scaled));
+    }
+  }
+
+  if (options.deskew) {
+    const image = await toGrayImage(instance);
+    skewAngle = estimateSkewAngle(downscale(image, 1000));
+
+    if (Math.abs(skewAngle) >= MIN_DESKEW_ANGLE) {
+      instance = fromGrayImage(image).rotate(-skewAngle, { background: '#ffffff' });
+    }
+  }
+
+  if (options.denoise) {
+    instance = instance.median(3);
+  }
+
   if (options.normalize) {
     instance = instance.normalize();
   }
 
-  if (options.threshold) {
+  if (options.adaptiveThreshold) {
+    instance = fromGrayImage(adaptiveThreshold(await toGrayImage(instance)));
+  } else if (options.threshold) {
     instance = instance.threshold(160);
   }
 
@@ -63,6 +114,28 @@ export async function preprocessImage(
   return {
     buffer: processedBuffer,
     metadata,
+    ...(skewAngle !== undefined && { skewAngle }),
+    ...(perspectiveCorrected !== undefined && { perspectiveCorrected }),
   };
 }
 
+async function toGrayImage(instance: Sharp): Promise<GrayImage> {
+  const { data, info } = await instance.clone().grayscale().raw().toBuffer({ resolveWithObject: true });
+
+  if (info.channels === 1) {
+    return { data: new Uint8Array(data), width: info.width, height: info.height };
+  }
+
+  // Grayscale with alpha: keep the gray channel
+  const gray = new Uint8Array(info.width * info.height);
+  for (let index = 0; index < gray.length; index++) {
+    gray[index] = data[index * info.channels];
+  }
+  return { data: gray, width: info.width, height: info.height };
+}
+
+function fromGrayImage(image: GrayImage): Sharp {
+  return sharp(Buffer.from(image.data), {
+    raw: { width: image.width, height: image.height, channels: 1 },
+  });
+}
@@ -0,0 +1,43 @@
+import type { PreprocessOptions } from './preprocess';
+
+/**
+ * standard: clean scans and born-digital images
+ * scan: skewed, noisy or unevenly lit flatbed scans
+ * photo: phone photos of a sheet on a desk
+ */
+export type PreprocessProfileName = 'standard' | 'scan' | 'photo';
+
+export const PREPROCESS_PROFILES: Record<PreprocessProfileName, PreprocessOptions> = {
+  standard: {
+    rotate: true,
+    grayscale: true,
+    normalize: true,
+    flatten: true,
+  },
+  scan: {
+    rotate: true,
+    grayscale: true,
+    normalize: true,
+    flatten: true,
+    deskew: true,
+    denoise: true,
+    adaptiveThreshold: true,
+  },
+  photo: {
+    rotate: true,
+    grayscale: true,
+    normalize: true,
+    flatten: true,
+    perspective: true,
+    deskew: true,
+    denoise: true,
+    adaptiveThreshold: true,
+  },
+};
+
+/** Cheapest first: most uploads stop after the standard profile */
+export const DEFAULT_PREPROCESS_PROFILES: PreprocessProfileName[] = ['standard', 'scan', 'photo'];
+
+export function isPreprocessProfileName(value: unknown): value is PreprocessProfileName {
+  return typeof value === 'string' && value in PREPROCESS_PROFILES;
+}
@@ -0,0 +1,82 @@
+/**
+ * Single-channel (grayscale) raster, row-major, one byte per pixel
+ */
+export type GrayImage = {
+  data: Uint8Array;
+  width: number;
+  height: number;
+};
+
+/**
+ * Global threshold separating ink from paper (Otsu's method)
+ *
+ * @returns Gray level; pixels below it are dark
+ */
+export function otsuThreshold(image: GrayImage): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (const value of image.data) {
+    histogram[value]++;
+  }
+
+  const total = image.data.length;
+  const sumAll = histogram.reduce((sum, count, level) => sum + count * level, 0);
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = -1;
+  let threshold = 128;
+
+  for (let level = 0; level < 256; level++) {
+    weightBackground += histogram[level];
+    if (weightBackground === 0) {
+      continue;
+    }
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) {
+      break;
+    }
+
+    sumBackground += level * histogram[level];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = level + 1;
+    }
+  }
+
+  return threshold;
+}
+
+/**
+ * Shrink an image so its longer side is at most `maxSize` (box averaging)
+ *
+ * Averaging also smooths out speckles, which helps the page and skew detectors.
+ */
+export function downscale(image: GrayImage, maxSize: number): GrayImage {
+  const factor = Math.ceil(Math.max(image.width, image.height) / maxSize);
+  if (factor <= 1) {
+    return image;
+  }
+
+  const width = Math.floor(image.width / factor);
+  const height = Math.floor(image.height / factor);
+  const data = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let dy = 0; dy < factor; dy++) {
+        const row = (y * factor + dy) * image.width + x * factor;
+        for (let dx = 0; dx < factor; dx++) {
+          sum += image.data[row + dx];
+        }
+      }
+      data[y * width + x] = Math.round(sum / (factor * factor));
+    }
+  }
+
+  return { data, width, height };
+}
@@ -0,0 +1,73 @@
+import type { GrayImage } from './raster';
+
+export type AdaptiveThresholdOptions = {
+  /** Side of the square neighbourhood in pixels (odd); defaults to ~1/40 of the page width */
+  windowSize?: number;
+  /** Sauvola sensitivity: higher keeps less faint ink */
+  k?: number;
+};
+
+// Dynamic range of the standard deviation for 8-bit images
+const SAUVOLA_R = 128;
+
+/**
+ * Binarise an image with a threshold computed per pixel neighbourhood (Sauvola)
+ *
+ * Unlike a single global threshold this keeps text readable under shadows,
+ * uneven phone lighting and coloured backgrounds. Local mean and deviation come
+ * from integral images, so the cost does not depend on the window size.
+ *
+ * @returns Image with only black (0) and white (255) pixels
+ */
+export function adaptiveThreshold(image: GrayImage, options: AdaptiveThresholdOptions = {}): GrayImage {
+  const { width, height, data } = image;
+  const windowSize = options.windowSize ?? Math.max(15, Math.round(width / 40) | 1);
+  const k = options.k ?? 0.2;
+  const half = Math.floor(windowSize / 2);
+
+  // Integral images of values and squared values, with a zero first row/column
+  const stride = width + 1;
+  const sums = new Float64Array(stride * (height + 1));
+  const squares = new Float64Array(stride * (height + 1));
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    let rowSquares = 0;
+    for (let x = 0; x < width; x++) {
+      const value = data[y * width + x];
+      rowSum += value;
+      rowSquares += value * value;
+      sums[(y + 1) * stride + x + 1] = sums[y * stride + x + 1] + rowSum;
+      squares[(y + 1) * stride + x + 1] = squares[y * stride + x + 1] + rowSquares;
+    }
+  }
+
+  const output = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - half);
+    const bottom = Math.min(height, y + half + 1);
+
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - half);
+      const right = Math.min(width, x + half + 1);
+      const count = (bottom - top) * (right - left);
+
+      const sum =
+        sums[bottom * stride + right] - sums[top * stride + right] - sums[bottom * stride + left] + sums[top * stride + left];
+      const sumSquares =
+        squares[bottom * stride + right] -
+        squares[top * stride + right] -
+        squares[bottom * stride + left] +
+        squares[top * stride + left];
+
+      const mean = sum / count;
+      const deviation = Math.sqrt(Math.max(0, sumSquares / count - mean * mean));
+      const threshold = mean * (1 + k * (deviation / SAUVOLA_R - 1));
+
+      output[y * width + x] = data[y * width + x] > threshold ? 255 : 0;
+    }
+  }
+
+  return { data: output, width, height };
+}
@@ -0,0 +1,16 @@
+import { OCR_CONFIG } from '../config';
+import type { OcrProvider } from './types';
+
+/**
+ * Text recognised by tesseract.js in the browser and stored with the upload
+ */
+export const clientProvider: OcrProvider = {
+  name: 'client',
+  isAvailable: (input) => !!input.clientText?.trim(),
+  recognise: async (input) => ({
+    text: (input.clientText ?? '').trim(),
+    confidence: input.clientConfidence ?? 0,
+    words: [],
+    language: OCR_CONFIG.languages,
+  }),
+};
@@ -0,0 +1,245 @@
+/**
+ * OCR Providers
+ *
+ * Runs invoice OCR through a chain of engines: text already recognised in the
+ * browser, then the primary engine, then the fallback engine. Engines that are
+ * unavailable (no Vision credentials, no client text) are skipped and engines
+ * that fail or find no text hand over to the next one.
+ *
+ * The primary and fallback engines come from Tenant.settings.ocr, then the
+ * OCR_PROVIDER / OCR_FALLBACK_PROVIDER env vars, then Vision with a
+ * server-side Tesseract fallback. Image preprocessing profiles for Tesseract
+ * come from Tenant.settings.ocr.preprocessProfiles or OCR_PREPROCESS_PROFILES.
+ *
+ * Pages of born-digital PDFs are read from the PDF text layer without OCR; the
+ * remaining (scanned) pages are rendered and go through the chain one by one.
+ */
+
+import { DEFAULT_PREPROCESS_PROFILES, isPreprocessProfileName } from '../pipeline/profiles';
+import type { PreprocessProfileName } from '../pipeline/profiles';
+import { convertPdfToPngPages, isPdfBuffer } from '@/lib/pdf/server-convert';
+import { extractPdfTextLayer, hasUsableTextLayer } from '@/lib/pdf/text-layer';
+import { combineOcrPages } from '../pages';
+import { clientProvider } from './client';
+import { tesseractProvider } from './tesseract';
+import { visionProvider } from './vision';
+import type {
+  OcrDocumentResult,
+  OcrExtractionPath,
+  OcrProvider,
+  OcrProviderAttempt,
+  OcrProviderInput,
+  OcrProviderName,
+  OcrProviderPageResult,
+  OcrProviderResult,
+  TenantOcrSettings,
+} from './types';
+
+export const OCR_PROVIDERS: Record<OcrProviderName, OcrProvider> = {
+  vision: visionProvider,
+  tesseract: tesseractProvider,
+  client: clientProvider,
+};
+
+const DEFAULT_PROVIDER: OcrProviderName = 'vision';
+const DEFAULT_FALLBACK_PROVIDER: OcrProviderName = 'tesseract';
+
+export function isOcrProviderName(value: unknown): value is OcrProviderName {
+  return typeof value === 'string' && value in OCR_PROVIDERS;
+}
+
+/**
+ * Read Tenant.settings.ocr, dropping unknown provider names
+ */
+export function getTenantOcrSettings(settings: unknown): TenantOcrSettings {
+  const ocr =
+    typeof settings === 'object' && settings !== null
+      ? (settings as Record<string, unknown>).ocr
+      : undefined;
+
+  if (typeof ocr !== 'object' || ocr === null) {
+    return {};
+  }
+
+  const { provider, fallbackProvider, preprocessProfiles } = ocr as Record<string, unknown>;
+  const profiles = Array.isArray(preprocessProfiles) ? preprocessProfiles.filter(isPreprocessProfileName) : [];
+  return {
+    ...(isOcrProviderName(provider) && { provider }),
+    ...(isOcrProviderName(fallbackProvider) && { fallbackProvider }),
+    ...(profiles.length > 0 && { preprocessProfiles: profiles }),
+  };
+}
+
+/**
+ * Engines to try, in order, for a tenant
+ */
+export function resolveOcrProviderChain(tenantSettings?: unknown): OcrProviderName[] {
+  const { provider, fallbackProvider } = getTenantOcrSettings(tenantSettings);
+  const envProvider = process.env.OCR_PROVIDER;
+  const envFallbackProvider = process.env.OCR_FALLBACK_PROVIDER;
+
+  const primary = provider ?? (isOcrProviderName(envProvider) ? envProvider : DEFAULT_PROVIDER);
+  const fallback =
+    fallbackProvider ??
+    (isOcrProviderName(envFallbackProvider) ? envFallbackProvider : DEFAULT_FALLBACK_PROVIDER);
+
+  return [...new Set<OcrProviderName>(['client', primary, fallback])];
+}
+
+/**
+ * Preprocessing profiles to try, in order, for a tenant
+ */
+export function resolvePreprocessProfiles(tenantSettings?: unknown): PreprocessProfileName[] {
+  const { preprocessProfiles } = getTenantOcrSettings(tenantSettings);
+  const envProfiles = (process.env.OCR_PREPROCESS_PROFILES ?? '')
+    .split(',')
+    .map((profile) => profile.trim())
+    .filter(isPreprocessProfileName);
+
+  return preprocessProfiles ?? (envProfiles.length > 0 ? envProfiles : DEFAULT_PREPROCESS_PROFILES);
+}
+
+/**
+ * Recognise an invoice with the first engine in the chain that succeeds
+ *
+ * @param input - Lazily loaded file and optional client-side OCR text
+ * @param chain - Engines to try, see resolveOcrProviderChain
+ * @throws Error listing every attempt when no engine produced text
+ */
+export async function recogniseWithProviders(
+  input: OcrProviderInput,
+  chain: OcrProviderName[] = resolveOcrProviderChain()
+): Promise<OcrProviderResult> {
+  const attempts: OcrProviderAttempt[] = [];
+
+  // Download the file at most once, even when several engines need it
+  let image: Promise<Buffer> | null = null;
+  const sharedInput: OcrProviderInput = {
+    ...input,
+    loadImage: () => (image ??= input.loadImage()),
+  };
+
+  for (const name of chain) {
+    const provider = OCR_PROVIDERS[name];
+
+    if (!provider.isAvailable(sharedInput)) {
+      attempts.push({ provider: name, error: 'Not available' });
+      continue;
+    }
+
+    try {
+      const result = await provider.recognise(sharedInput);
+      if (!result.text.trim()) {
+        throw new Error('No text recognised');
+      }
+
+      if (attempts.some((attempt) => attempt.error !== 'Not available')) {
+        console.warn(`[OCR] Fell back to ${name} after:`, attempts);
+      }
+      return { ...result, provider: name, attempts };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[OCR] ${name} failed:`, message);
+      attempts.push({ provider: name, error: message });
+    }
+  }
+
+  throw new Error(
+    `All OCR providers failed: ${attempts.map((attempt) => `${attempt.provider} (${attempt.error})`).join(', ')}`
+  );
+}
+
+/**
+ * Recognise every page of an uploaded invoice
+ *
+ * Client-side text covers the whole document and is used as is. Otherwise PDF
+ * pages with a usable text layer are read directly, the other pages are rendered
+ * and each runs through the engines separately; the combined text has page
+ * markers for extraction.
+ *
+ * @param input - Lazily loaded file (image or PDF) and optional client-side OCR text
+ * @param chain - Engines to try, see resolveOcrProviderChain
+ */
+export async function recogniseDocumentWithProviders(
+  input: OcrProviderInput,
+  chain: OcrProviderName[] = resolveOcrProviderChain()
+): Promise<OcrDocumentResult> {
+  let pages: OcrProviderPageResult[];
+
+  if (chain.includes('client') && clientProvider.isAvailable(input)) {
+    pages = [{ ...(await recogniseWithProviders(input, ['client'])), page: 1 }];
+  } else {
+    const file = await input.loadImage();
+    const imageChain = chain.filter((name) => name !== 'client');
+    const engines = imageChain.length > 0 ? imageChain : chain;
+
+    const { preprocessProfiles } = input;
+
+    pages = isPdfBuffer(file)
+      ? await recognisePdfPages(file, engines, preprocessProfiles)
+      : [{ ...(await recogniseWithProviders({ loadImage: async () => file, preprocessProfiles }, engines)), page: 1 }];
+  }
+
+  return {
+    ...combineOcrPages(pages),
+    providers: [...new Set(pages.map((page) => page.provider))],
+    extractionPath: getExtractionPath(pages),
+    pages,
+  };
+}
+
+async function recognisePdfPages(
+  pdf: Buffer,
+  chain: OcrProviderName[],
+  preprocessProfiles?: PreprocessProfileName[]
+): Promise<OcrProviderPageResult[]> {
+  const textPages = await extractPdfTextLayer(pdf);
+  const scannedPages = textPages.filter((page) => !hasUsableTextLayer(page)).map((page) => page.page);
+  const images = scannedPages.length > 0 ? await convertPdfToPngPages(pdf, 2, undefined, scannedPages) : [];
+
+  if (scannedPages.length < textPages.length) {
+    console.log(`[OCR] Text layer used for ${textPages.length - scannedPages.length} of ${textPages.length} PDF pages`);
+  }
+
+  const pages: OcrProviderPageResult[] = [];
+  for (const textPage of textPages) {
+    const imageIndex = scannedPages.indexOf(textPage.page);
+    if (imageIndex === -1) {
+      pages.push({ ...textPage, provider: 'text-layer', attempts: [] });
+      continue;
+    }
+
+    const result = await recogniseWithProviders(
+      { loadImage: async () => images[imageIndex], preprocessProfiles },
+      chain
+    );
+    pages.push({ ...result, page: textPage.page });
+  }
+
+  return pages;
+}
+
+function getExtractionPath(pages: OcrProviderPageResult[]): OcrExtractionPath {
+  if (pages.some((page) => page.provider === 'client')) {
+    return 'CLIENT_OCR';
+  }
+
+  const textLayerPages = pages.filter((page) => page.provider === 'text-layer').length;
+  if (textLayerPages === 0) {
+    return 'OCR';
+  }
+  return textLayerPages === pages.length ? 'TEXT_LAYER' : 'MIXED';
+}
+
+export type {
+  OcrDocumentResult,
+  OcrExtractionPath,
+  OcrPageSource,
+  OcrProviderPageResult,
+  OcrProvider,
+  OcrProviderAttempt,
+  OcrProviderInput,
+  OcrProviderName,
+  OcrProviderResult,
+  TenantOcrSettings,
+} from './types';
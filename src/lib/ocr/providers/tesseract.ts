@@ -0,0 +1,12 @@
+import { recogniseInvoiceWithProfiles } from '../tesseract';
+import type { OcrProvider } from './types';
+
+/**
+ * tesseract.js running in the Node.js process; needs no external service.
+ * Tries the input's preprocessing profiles and keeps the most confident result.
+ */
+export const tesseractProvider: OcrProvider = {
+  name: 'tesseract',
+  isAvailable: () => true,
+  recognise: async (input) => recogniseInvoiceWithProfiles(await input.loadImage(), input.preprocessProfiles),
+};
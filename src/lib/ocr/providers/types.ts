@@ -0,0 +1,65 @@
+import type { PreprocessProfileName } from '../pipeline/profiles';
+import type { OcrPageResult, OcrResult } from '../types';
+
+export type OcrProviderName = 'vision' | 'tesseract' | 'client';
+
+/**
+ * What a provider can work from: the uploaded file, downloaded on first use,
+ * and text already recognised in the browser during upload
+ */
+export type OcrProviderInput = {
+  loadImage: () => Promise<Buffer>;
+  clientText?: string | null;
+  clientConfidence?: number | null;
+  /** image preprocessing variants engines that preprocess (Tesseract) try, best result wins */
+  preprocessProfiles?: PreprocessProfileName[];
+};
+
+export interface OcrProvider {
+  name: OcrProviderName;
+  /** false when the engine cannot run here (missing credentials, no client text) */
+  isAvailable(input: OcrProviderInput): boolean;
+  recognise(input: OcrProviderInput): Promise<OcrResult>;
+}
+
+/**
+ * Tenant.settings.ocr
+ */
+export type TenantOcrSettings = {
+  provider?: OcrProviderName;
+  fallbackProvider?: OcrProviderName;
+  preprocessProfiles?: PreprocessProfileName[];
+};
+
+export type OcrProviderAttempt = {
+  provider: OcrProviderName;
+  error: string;
+};
+
+export type OcrProviderResult = OcrResult & {
+  provider: OcrProviderName;
+  /** engines tried before `provider` and why they failed or were skipped */
+  attempts: OcrProviderAttempt[];
+};
+
+/** Where a page's text came from: an OCR engine or the PDF's own text layer */
+export type OcrPageSource = OcrProviderName | 'text-layer';
+
+/**
+ * How a document was read, recorded on the OCR job
+ * TEXT_LAYER: every page from the PDF text layer, OCR: every page through an engine,
+ * MIXED: both, CLIENT_OCR: text recognised in the browser
+ */
+export type OcrExtractionPath = 'TEXT_LAYER' | 'OCR' | 'MIXED' | 'CLIENT_OCR';
+
+export type OcrProviderPageResult = OcrPageResult & {
+  provider: OcrPageSource;
+  attempts: OcrProviderAttempt[];
+};
+
+export type OcrDocumentResult = OcrResult & {
+  /** sources that produced the text, in page order */
+  providers: OcrPageSource[];
+  extractionPath: OcrExtractionPath;
+  pages: OcrProviderPageResult[];
+};
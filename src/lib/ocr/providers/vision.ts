@@ -0,0 +1,8 @@
+import { isVisionConfigured, recogniseInvoiceWithVision } from '../vision';
+import type { OcrProvider } from './types';
+
+export const visionProvider: OcrProvider = {
+  name: 'vision',
+  isAvailable: () => isVisionConfigured(),
+  recognise: async (input) => recogniseInvoiceWithVision(await input.loadImage()),
+};
@@ -7,7 +7,9 @@
 
 import { recogniseInvoice } from '../tesseract';
 import type { OcrResult } from '../types';
+import { reconstructLineItemTable } from '../layout/table';
 import { extractInvoiceData, calculateOverallConfidence, requiresReview } from '@/lib/ai/extraction-service';
+import { applyArithmeticWarnings, validateInvoiceArithmetic } from '@/lib/ai/arithmetic-validation';
 import type { ExtractedData, ConfidenceScores } from '@/lib/ai/schemas/invoice-schema';
 
 export type InvoiceFullExtractionResult = {
@@ -75,11 +77,14 @@ export async function processAndExtractInvoice(
     throw new Error('OCR confidence below threshold - skipping GPT extraction.');
   }
 
-  // Step 2: Extract structured data with AI
-  const aiResult = await extractInvoiceData(ocrResult.text);
+  // Step 2: Extract structured data with AI, checking the line items read from the table layout
+  const lineItemCandidates = reconstructLineItemTable(ocrResult.words)?.items ?? [];
+  const aiResult = await extractInvoiceData(ocrResult.text, { lineItemCandidates });
 
-  // Step 3: Calculate overall confidence
-  const overallConfidence = calculateOverallConfidence(aiResult.confidence_scores);
+  // Step 3: Calculate overall confidence, distrusting amounts that don't add up
+  const { warnings } = validateInvoiceArithmetic(aiResult.extracted_data);
+  const confidenceScores = applyArithmeticWarnings(aiResult.confidence_scores, warnings);
+  const overallConfidence = calculateOverallConfidence(confidenceScores);
 
   // Step 4: Map to expected format (for backward compatibility)
   return {
@@ -117,7 +122,7 @@ export async function processAndExtractInvoice(
         total: item.gross,
       })),
       confidenceOverall: overallConfidence,
-      confidenceScores: aiResult.confidence_scores,
+      confidenceScores,
     },
   };
 }
@@ -0,0 +1,139 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { inngest } from '@/lib/queue/inngest-client';
+import type { LineItemCandidate } from '@/lib/ocr/layout/table';
+import type { SplitDocument } from '@/lib/ocr/splitting';
+
+/** Only the text, confidence and item table of each document are stored */
+type SplitDocumentText = {
+  segment: SplitDocument['segment'];
+  result: Pick<SplitDocument['result'], 'text' | 'confidence'>;
+  lineItemCandidates?: LineItemCandidate[];
+};
+
+/**
+ * Upload that holds several scanned invoices
+ */
+export type SplitSourceInvoice = {
+  id: string;
+  tenant_id: string;
+  original_file_url: string;
+  file_name: string;
+  file_size: number;
+  uploaded_by: string;
+};
+
+/** Child invoices in these states are no longer replaced by a re-split */
+export const LOCKED_SPLIT_STATUSES = ['APPROVED', 'SUBMITTED', 'COMPLETED'];
+
+/**
+ * Re-split refused because child invoices were already approved
+ */
+export class SplitLockedError extends Error {
+  constructor(public lockedInvoiceIds: string[]) {
+    super(`${lockedInvoiceIds.length} split invoice(s) are already approved and cannot be replaced`);
+    this.name = 'SplitLockedError';
+  }
+}
+
+/**
+ * Create one invoice per document found in a batch upload
+ *
+ * Each child keeps the source file and its page range and carries the text of
+ * its own pages, so the OCR worker queues a separate OCR job for it without
+ * reading the file again. The source invoice is marked SPLIT.
+ *
+ * @returns IDs of the child invoices, in page order
+ */
+export async function createSplitInvoices(
+  supabase: SupabaseClient,
+  source: SplitSourceInvoice,
+  documents: SplitDocumentText[]
+): Promise<string[]> {
+  const now = new Date().toISOString();
+  const baseName = source.file_name.replace(/\.pdf$/i, '');
+
+  const children = documents.map(({ segment, result, lineItemCandidates }) => ({
+    id: crypto.randomUUID(),
+    tenant_id: source.tenant_id,
+    original_file_url: source.original_file_url,
+    file_name:
+      segment.startPage === segment.endPage
+        ? `${baseName} (p. ${segment.startPage}).pdf`
+        : `${baseName} (p. ${segment.startPage}-${segment.endPage}).pdf`,
+    file_size: source.file_size,
+    uploaded_by: source.uploaded_by,
+    status: 'UPLOADED_WITH_OCR',
+    currency: 'PLN',
+    ocr_result: result.text,
+    ocr_confidence: result.confidence,
+    ocr_processed_at: now,
+    source_invoice_id: source.id,
+    source_page_start: segment.startPage,
+    source_page_end: segment.endPage,
+    metadata: {
+      split: { reason: segment.reason, invoice_number: segment.invoiceNumber ?? null },
+      ...(lineItemCandidates && lineItemCandidates.length > 0 && { line_item_candidates: lineItemCandidates }),
+    },
+    created_at: now,
+    updated_at: now,
+  }));
+
+  const { error: insertError } = await supabase.from('invoices').insert(children);
+  if (insertError) {
+    throw new Error(`Failed to create split invoices: ${insertError.message}`);
+  }
+
+  const { error: updateError } = await supabase
+    .from('invoices')
+    .update({ status: 'SPLIT', updated_at: now })
+    .eq('id', source.id);
+  if (updateError) {
+    throw new Error(`Failed to mark invoice as split: ${updateError.message}`);
+  }
+
+  await inngest.send(
+    children.map((child) => ({
+      name: 'invoice/uploaded' as const,
+      data: {
+        invoice_id: child.id,
+        tenant_id: source.tenant_id,
+        file_path: source.original_file_url,
+      },
+    }))
+  );
+
+  return children.map((child) => child.id);
+}
+
+/**
+ * Remove the child invoices of a split upload before it is split again
+ *
+ * @throws SplitLockedError when a child has already been approved or sent to KSeF
+ */
+export async function deleteSplitInvoices(supabase: SupabaseClient, sourceInvoiceId: string): Promise<number> {
+  const { data: children, error } = await supabase
+    .from('invoices')
+    .select('id, status, approved_at')
+    .eq('source_invoice_id', sourceInvoiceId);
+
+  if (error) {
+    throw new Error(`Failed to load split invoices: ${error.message}`);
+  }
+
+  const rows: Array<{ id: string; status: string; approved_at: string | null }> = children ?? [];
+  const locked = rows.filter((child) => child.approved_at || LOCKED_SPLIT_STATUSES.includes(child.status));
+  if (locked.length > 0) {
+    throw new SplitLockedError(locked.map((child) => child.id));
+  }
+
+  const ids = rows.map((child) => child.id);
+  if (ids.length > 0) {
+    await supabase.from('ocr_jobs').delete().in('invoice_id', ids);
+    const { error: deleteError } = await supabase.from('invoices').delete().in('id', ids);
+    if (deleteError) {
+      throw new Error(`Failed to remove split invoices: ${deleteError.message}`);
+    }
+  }
+
+  return ids.length;
+}
@@ -0,0 +1,176 @@
+import { combineOcrPages } from "./pages";
+import type { OcrPageResult, OcrResult } from "./types";
+
+/**
+ * Why a page was taken as the first page of a new invoice
+ */
+export type SplitReason = "first-page" | "page-count" | "invoice-number" | "parties-block" | "manual";
+
+/**
+ * One invoice found in a scanned batch (1-based, inclusive page range)
+ */
+export interface InvoiceSegment {
+  startPage: number;
+  endPage: number;
+  invoiceNumber?: string;
+  reason: SplitReason;
+}
+
+/**
+ * Invoice cut out of a batch: its pages are renumbered from 1
+ */
+export interface SplitDocument {
+  segment: InvoiceSegment;
+  result: OcrResult;
+}
+
+/**
+ * Boundary signals read from a single page
+ */
+export interface PageBoundarySignals {
+  /** "Strona 2 z 3", "Str. 2/3", "Page 2 of 3" */
+  pageHint?: { current: number; total: number };
+  /** Number from a "Faktura VAT nr ..." header near the top of the page */
+  invoiceNumber?: string;
+  /** Seller and buyer blocks with a NIP, printed on the first page of an invoice */
+  hasPartiesBlock: boolean;
+}
+
+// Only the top of the page is searched for the invoice header
+const HEADER_LINES = 15;
+
+const PAGE_HINT = /\b(?:strona|str\.|page)\s*(\d{1,3})\s*(?:z|\/|of)\s*(\d{1,3})\b/i;
+const INVOICE_HEADER =
+  /faktura(?:\s+vat)?(?:\s+(?:korygująca|korekta|zaliczkowa|końcowa|marża))?\s*(?:nr|numer|no\.?)\s*[:.]?\s*([\p{L}\p{N}][\p{L}\p{N}/\-_.]*)/iu;
+const SELLER_LABEL = /\b(?:sprzedawca|sprzedający|wystawca)\b/i;
+const BUYER_LABEL = /\b(?:nabywca|kupujący|odbiorca)\b/i;
+const NIP = /\bNIP\b/i;
+
+/**
+ * Read the boundary signals of one page
+ */
+export function getPageBoundarySignals(text: string): PageBoundarySignals {
+  const pageHintMatch = PAGE_HINT.exec(text);
+  const current = pageHintMatch ? Number(pageHintMatch[1]) : 0;
+  const total = pageHintMatch ? Number(pageHintMatch[2]) : 0;
+
+  const header = text.split("\n").slice(0, HEADER_LINES).join("\n");
+  const invoiceNumber = INVOICE_HEADER.exec(header)?.[1].replace(/[.\-_/]+$/, "");
+
+  return {
+    ...(current >= 1 && current <= total && { pageHint: { current, total } }),
+    // Numbers have at least one digit, which keeps words like "Faktura nr oryginał" out
+    ...(invoiceNumber && /\d/.test(invoiceNumber) && { invoiceNumber }),
+    hasPartiesBlock: SELLER_LABEL.test(text) && BUYER_LABEL.test(text) && NIP.test(text),
+  };
+}
+
+/**
+ * Find where each invoice of a scanned batch starts
+ *
+ * A page starts a new invoice when its page-count hint restarts at 1 (or the
+ * previous invoice reached its last page), when its header carries a different
+ * invoice number, or when it has its own seller/buyer NIP block. A page that says
+ * it is page 2+ of n, or repeats the current invoice number, always continues the
+ * current invoice.
+ *
+ * @param pages - OCR pages of the upload, in order
+ * @returns Segments covering every page; a single segment when nothing was split
+ */
+export function detectInvoiceBoundaries(pages: Pick<OcrPageResult, "page" | "text">[]): InvoiceSegment[] {
+  const segments: InvoiceSegment[] = [];
+  let lastHint: PageBoundarySignals["pageHint"];
+
+  for (const page of pages) {
+    const signals = getPageBoundarySignals(page.text);
+    const current = segments[segments.length - 1];
+    const reason = current ? getSplitReason(signals, current, lastHint) : "first-page";
+
+    if (reason) {
+      segments.push({
+        startPage: page.page,
+        endPage: page.page,
+        ...(signals.invoiceNumber && { invoiceNumber: signals.invoiceNumber }),
+        reason,
+      });
+    } else {
+      current.endPage = page.page;
+      current.invoiceNumber ??= signals.invoiceNumber;
+    }
+
+    lastHint = signals.pageHint;
+  }
+
+  return segments;
+}
+
+function getSplitReason(
+  signals: PageBoundarySignals,
+  current: InvoiceSegment,
+  lastHint: PageBoundarySignals["pageHint"]
+): SplitReason | null {
+  const { pageHint, invoiceNumber, hasPartiesBlock } = signals;
+
+  if (pageHint) {
+    return pageHint.current === 1 ? "page-count" : null;
+  }
+  if (lastHint && lastHint.current === lastHint.total) {
+    return "page-count";
+  }
+  if (invoiceNumber && current.invoiceNumber) {
+    return normaliseInvoiceNumber(invoiceNumber) === normaliseInvoiceNumber(current.invoiceNumber)
+      ? null
+      : "invoice-number";
+  }
+  return hasPartiesBlock ? "parties-block" : null;
+}
+
+function normaliseInvoiceNumber(invoiceNumber: string): string {
+  return invoiceNumber.replace(/\s+/g, "").toUpperCase();
+}
+
+/**
+ * Check segments chosen by a reviewer
+ *
+ * Segments must be in page order, must not overlap and must stay within the
+ * upload; pages between segments (blank separator sheets) may be left out.
+ *
+ * @returns Error message, or null when the segments are valid
+ */
+export function validateInvoiceSegments(
+  segments: Pick<InvoiceSegment, "startPage" | "endPage">[],
+  pageCount: number
+): string | null {
+  if (segments.length === 0) {
+    return "At least one page range is required";
+  }
+
+  let previousEnd = 0;
+  for (const { startPage, endPage } of segments) {
+    if (startPage > endPage) {
+      return `Page range ${startPage}-${endPage} ends before it starts`;
+    }
+    if (startPage <= previousEnd) {
+      return `Page range ${startPage}-${endPage} overlaps the previous range or is out of order`;
+    }
+    if (endPage > pageCount) {
+      return `Page range ${startPage}-${endPage} is beyond the last page (${pageCount})`;
+    }
+    previousEnd = endPage;
+  }
+
+  return null;
+}
+
+/**
+ * Cut a batch into one OCR result per segment
+ */
+export function splitOcrPages(pages: OcrPageResult[], segments: InvoiceSegment[]): SplitDocument[] {
+  return segments.map((segment) => {
+    const segmentPages = pages
+      .filter((page) => page.page >= segment.startPage && page.page <= segment.endPage)
+      .map((page, index) => ({ ...page, page: index + 1 }));
+
+    return { segment, result: combineOcrPages(segmentPages) };
+  });
+}
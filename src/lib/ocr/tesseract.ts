@@ -1,8 +1,9 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import type { RecognizeResult } from "tesseract.js";
+import type { RecognizeResult, Worker } from "tesseract.js";
 import { createWorker } from "tesseract.js";
 
-import { preprocessImage } from "./pipeline";
+import { DEFAULT_PREPROCESS_PROFILES, PREPROCESS_PROFILES, preprocessImage } from "./pipeline";
+import type { PreprocessProfileName } from "./pipeline";
 import { OCR_CONFIG } from "./config";
 import type { OcrResult } from "./types";
 
@@ -20,8 +21,8 @@ async function createOcrWorker() {
           console.log(`[Tesseract] Progress: ${Math.round(m.progress * 100)}%`);
         }
       },
-      // Use CDN for language data in serverless
-      langPath: 'https://tessdata.projectnaptha.com/4.0.0',
+      // Use CDN for language data in serverless; on-prem deployments can point at a local copy
+      langPath: process.env.TESSERACT_LANG_PATH ?? 'https://tessdata.projectnaptha.com/4.0.0',
     });
 
     console.log('[Tesseract] Worker initialized with Polish language support');
@@ -93,24 +94,79 @@ export async function recogniseInvoice(
   const worker = await createOcrWorker();
 
   try {
-    // Preprocess image if needed
-    const imageBuffer = normaliseSource(source);
-    const preprocessed = await preprocessImage(imageBuffer, options);
-
-    // Perform OCR
+    // Preprocess image, then perform OCR
     console.log('[Tesseract] Running text recognition...');
-    const result = await worker.recognize(preprocessed.buffer);
+    const result = await recogniseWithWorker(worker, normaliseSource(source), options);
 
     const elapsed = Date.now() - startTime;
-    console.log(`[Tesseract] OCR completed in ${elapsed}ms (${result.data.text.length} chars, ${Math.round(result.data.confidence)}% confidence)`);
+    console.log(`[Tesseract] OCR completed in ${elapsed}ms (${result.text.length} chars, ${Math.round(result.confidence)}% confidence)`);
 
-    return mapResult(result);
+    return result;
   } finally {
     // Always terminate worker to free memory (important in serverless)
     await worker.terminate();
   }
 }
 
+/**
+ * Perform OCR on an invoice image, trying several preprocessing profiles
+ *
+ * Profiles run in order on one worker and the most confident result is kept;
+ * once a result reaches `targetConfidence` the remaining profiles are skipped.
+ * A profile that fails (e.g. an unreadable photo) is logged and skipped.
+ *
+ * @param source - Image as Buffer, ArrayBuffer, or base64 string
+ * @param profiles - Profiles to try, see PREPROCESS_PROFILES
+ * @param targetConfidence - Confidence (0-100) that is good enough to stop
+ * @returns Best OCR result; metadata.preprocessProfile names the profile used
+ */
+export async function recogniseInvoiceWithProfiles(
+  source: string | Buffer | ArrayBuffer,
+  profiles: PreprocessProfileName[] = DEFAULT_PREPROCESS_PROFILES,
+  targetConfidence = 85,
+): Promise<OcrResult> {
+  const worker = await createOcrWorker();
+
+  try {
+    const imageBuffer = normaliseSource(source);
+    let best: OcrResult | null = null;
+    let lastError: unknown;
+
+    for (const profile of profiles) {
+      try {
+        const result = await recogniseWithWorker(worker, imageBuffer, PREPROCESS_PROFILES[profile]);
+        console.log(`[Tesseract] Profile ${profile}: ${Math.round(result.confidence)}% confidence`);
+
+        if (!best || result.confidence > best.confidence) {
+          best = { ...result, metadata: { ...result.metadata, preprocessProfile: profile } };
+        }
+        if (best.confidence >= targetConfidence) {
+          break;
+        }
+      } catch (error) {
+        console.error(`[Tesseract] Profile ${profile} failed:`, error);
+        lastError = error;
+      }
+    }
+
+    if (!best) {
+      throw lastError instanceof Error ? lastError : new Error("No preprocessing profile could be recognised");
+    }
+    return best;
+  } finally {
+    await worker.terminate();
+  }
+}
+
+async function recogniseWithWorker(
+  worker: Worker,
+  imageBuffer: Buffer,
+  options?: Parameters<typeof preprocessImage>[1],
+): Promise<OcrResult> {
+  const preprocessed = await preprocessImage(imageBuffer, options);
+  return mapResult(await worker.recognize(preprocessed.buffer));
+}
+
 /**
  * Terminate OCR (no-op in new implementation, kept for compatibility)
  */
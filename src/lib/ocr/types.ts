@@ -1,6 +1,8 @@
 export type OcrWord = {
   text: string;
   confidence: number;
+  /** 1-based page of multi-page documents; bbox is relative to that page */
+  page?: number;
   bbox: {
     x0: number;
     y0: number;
@@ -17,10 +19,16 @@ export type OcrResult = {
   metadata?: {
     pages?: number;
     durationMs?: number;
+    /** preprocessing profile of the image that was recognised */
+    preprocessProfile?: string;
     raw?: unknown;
   };
 };
 
+export type OcrPageResult = OcrResult & {
+  page: number;
+};
+
 export type OcrConfig = {
   languages: string;
   psm: number;
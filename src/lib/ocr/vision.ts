@@ -1,8 +1,9 @@
 /**
  * Google Cloud Vision API OCR Service
  *
- * This replaces Tesseract.js which doesn't work in Node.js server environments.
  * Google Cloud Vision provides superior OCR accuracy (95-99%) and supports Polish language.
+ * Used through the OCR provider chain (see ./providers), which falls back to server-side
+ * Tesseract when Vision is not configured or fails.
  */
 
 import vision from '@google-cloud/vision';
@@ -10,20 +11,24 @@ import type { OcrResult } from './types';
 
 let visionClient: vision.ImageAnnotatorClient | null = null;
 
+/**
+ * Whether Google Cloud credentials are configured
+ */
+export function isVisionConfigured(): boolean {
+  return !!(process.env.GOOGLE_APPLICATION_CREDENTIALS || process.env.GOOGLE_CLOUD_PROJECT);
+}
+
 /**
  * Get or create Vision API client
  * Uses credentials from GOOGLE_APPLICATION_CREDENTIALS env var or application default credentials
  */
 function getVisionClient() {
   if (!visionClient) {
-    // Check if running in production with credentials
-    if (process.env.GOOGLE_APPLICATION_CREDENTIALS || process.env.GOOGLE_CLOUD_PROJECT) {
-      visionClient = new vision.ImageAnnotatorClient();
-      console.log('[Vision OCR] Initialized with Google Cloud credentials');
-    } else {
-      console.log('[Vision OCR] No credentials found - using mock mode');
-      return null;
+    if (!isVisionConfigured()) {
+      throw new Error('Vision OCR failed: Google Cloud credentials are not configured');
     }
+    visionClient = new vision.ImageAnnotatorClient();
+    console.log('[Vision OCR] Initialized with Google Cloud credentials');
   }
   return visionClient;
 }
@@ -33,26 +38,13 @@ function getVisionClient() {
  *
  * @param imageBuffer - Image buffer (JPEG, PNG, etc.)
  * @returns OCR result with text, confidence, and word-level data
+ * @throws Error when credentials are missing or Vision finds no text
  */
 export async function recogniseInvoiceWithVision(
   imageBuffer: Buffer
 ): Promise<OcrResult> {
   const client = getVisionClient();
 
-  // If no credentials, return mock data (development mode)
-  if (!client) {
-    console.log('[Vision OCR] Mock mode - returning sample data');
-    return {
-      text: 'FAKTURA VAT\nNumer: FV/2024/001\nData wystawienia: 2024-10-22\nNIP sprzedawcy: 1234567890\nKwota brutto: 1234.56 PLN',
-      confidence: 85,
-      words: [
-        { text: 'FAKTURA', confidence: 95, bbox: { x0: 10, y0: 10, x1: 150, y1: 40 } },
-        { text: 'VAT', confidence: 95, bbox: { x0: 160, y0: 10, x1: 220, y1: 40 } },
-      ],
-      language: 'pol+eng',
-    };
-  }
-
   try {
     console.log('[Vision OCR] Processing image with Google Cloud Vision...');
 
@@ -18,62 +18,88 @@ export async function convertPdfToImage(
   quality = 0.92,
   scale = 2
 ): Promise<File> {
+  const [firstPage] = await convertPdfToImages(pdfFile, quality, scale, 1);
+  return firstPage;
+}
+
+/**
+ * Converts every page of a PDF to PNG images
+ * @param pdfFile PDF file to convert
+ * @param quality Image quality (0-1), default 0.92
+ * @param scale Scale factor for rendering, default 2 (higher = better quality but larger file)
+ * @param maxPages Pages after this one are skipped
+ * @returns Promise<File[]> PNG image files in page order (`invoice-p2.png` for page 2)
+ */
+export async function convertPdfToImages(
+  pdfFile: File,
+  quality = 0.92,
+  scale = 2,
+  maxPages = Infinity
+): Promise<File[]> {
   try {
     // Read the PDF file as array buffer
     const arrayBuffer = await pdfFile.arrayBuffer();
 
     // Load the PDF document
     const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+    const pageCount = Math.min(pdf.numPages, maxPages);
+    const baseName = pdfFile.name.replace(/\.pdf$/i, '');
 
-    // Get the first page
-    const page = await pdf.getPage(1);
+    const images: File[] = [];
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const blob = await renderPage(await pdf.getPage(pageNumber), quality, scale);
 
-    // Calculate viewport dimensions
-    const viewport = page.getViewport({ scale });
+      // Create a new File object from the blob
+      const imageName = pageCount === 1 ? `${baseName}.png` : `${baseName}-p${pageNumber}.png`;
+      images.push(new File([blob], imageName, { type: 'image/png' }));
+    }
 
-    // Create a canvas element
-    const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d');
+    const totalSize = images.reduce((sum, image) => sum + image.size, 0);
+    console.log(`✅ [PDF Convert] ${pdfFile.name} (${formatBytes(pdfFile.size)}) → ${images.length} page image(s) (${formatBytes(totalSize)})`);
 
-    if (!context) {
-      throw new Error('Failed to get canvas 2D context');
-    }
+    return images;
+  } catch (error) {
+    console.error('❌ [PDF Convert] Failed:', error);
+    throw new Error(`Failed to convert PDF to image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
 
-    canvas.width = viewport.width;
-    canvas.height = viewport.height;
+async function renderPage(page: pdfjsLib.PDFPageProxy, quality: number, scale: number): Promise<Blob> {
+  // Calculate viewport dimensions
+  const viewport = page.getViewport({ scale });
 
-    // Render the PDF page to the canvas
-    await page.render({
-      canvasContext: context,
-      viewport: viewport,
-    }).promise;
+  // Create a canvas element
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
 
-    // Convert canvas to blob
-    const blob = await new Promise<Blob>((resolve, reject) => {
-      canvas.toBlob(
-        (blob) => {
-          if (blob) {
-            resolve(blob);
-          } else {
-            reject(new Error('Failed to convert canvas to blob'));
-          }
-        },
-        'image/png',
-        quality
-      );
-    });
+  if (!context) {
+    throw new Error('Failed to get canvas 2D context');
+  }
 
-    // Create a new File object from the blob
-    const imageName = pdfFile.name.replace(/\.pdf$/i, '.png');
-    const imageFile = new File([blob], imageName, { type: 'image/png' });
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
 
-    console.log(`✅ [PDF Convert] ${pdfFile.name} (${formatBytes(pdfFile.size)}) → ${imageName} (${formatBytes(imageFile.size)})`);
+  // Render the PDF page to the canvas
+  await page.render({
+    canvasContext: context,
+    canvas,
+    viewport: viewport,
+  }).promise;
 
-    return imageFile;
-  } catch (error) {
-    console.error('❌ [PDF Convert] Failed:', error);
-    throw new Error(`Failed to convert PDF to image: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
+  // Convert canvas to blob
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Failed to convert canvas to blob'));
+        }
+      },
+      'image/png',
+      quality
+    );
+  });
 }
 
 function formatBytes(bytes: number): string {
@@ -0,0 +1,133 @@
+/**
+ * Text layer extraction for born-digital PDFs using pdfjs-dist
+ * Reads the text (with positions) the PDF already carries, so those pages need no OCR
+ */
+
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { OCR_CONFIG } from '@/lib/ocr/config';
+import type { OcrPageResult, OcrWord } from '@/lib/ocr/types';
+import { MAX_PDF_PAGES, STANDARD_FONT_DATA_URL } from './server-convert';
+
+/** Fewer letters/digits than this on a page means a scan (or a blank page) */
+export const MIN_TEXT_LAYER_CHARS = 30;
+
+/** Share of readable characters below which the text layer is treated as garbage */
+const MIN_READABLE_RATIO = 0.85;
+
+// Letters (incl. Polish), digits, whitespace and punctuation found on invoices
+const READABLE_CHAR = /[\p{L}\p{N}\s.,:;!?%()[\]/\\\-+*=#&@'"€$_<>|]/u;
+
+type TextItem = {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+  hasEOL: boolean;
+};
+
+/**
+ * Extract the text layer of every page
+ *
+ * Word boxes are in pixels of the page rendered at `scale`, matching the images
+ * convertPdfToPngPages produces, so text-layer and OCR pages share coordinates.
+ * Confidence is 100: the text is exact, not recognised.
+ *
+ * @param pdfBuffer PDF file as Buffer
+ * @param scale Scale of the coordinate space (default 2, as for rasterisation)
+ * @param maxPages Pages after this one are skipped
+ */
+export async function extractPdfTextLayer(
+  pdfBuffer: Buffer,
+  scale = 2,
+  maxPages = MAX_PDF_PAGES
+): Promise<OcrPageResult[]> {
+  const pdf = await pdfjsLib.getDocument({
+    data: new Uint8Array(pdfBuffer),
+    standardFontDataUrl: STANDARD_FONT_DATA_URL,
+  }).promise;
+
+  try {
+    const pageCount = Math.min(pdf.numPages, maxPages);
+    const pages: OcrPageResult[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale });
+      const content = await page.getTextContent();
+
+      let text = '';
+      const words: OcrWord[] = [];
+
+      for (const item of content.items) {
+        if (!('str' in item)) {
+          continue;
+        }
+        const textItem = item as TextItem;
+        text += textItem.str + (textItem.hasEOL ? '\n' : '');
+        words.push(...splitIntoWords(textItem, viewport));
+      }
+
+      pages.push({
+        page: pageNumber,
+        text: text.replace(/[ \t]+\n/g, '\n').trim(),
+        confidence: 100,
+        words,
+        language: OCR_CONFIG.languages,
+      });
+      page.cleanup();
+    }
+
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Whether a page's text layer is good enough to skip OCR
+ *
+ * Scans have no text (or only a few characters from stamps and headers);
+ * PDFs with broken font encodings produce mostly unreadable symbols.
+ */
+export function hasUsableTextLayer(page: Pick<OcrPageResult, 'text'>): boolean {
+  const characters = [...page.text.replace(/\s+/g, '')];
+  const alphanumeric = characters.filter((char) => /[\p{L}\p{N}]/u.test(char)).length;
+
+  if (alphanumeric < MIN_TEXT_LAYER_CHARS) {
+    return false;
+  }
+
+  const readable = characters.filter((char) => READABLE_CHAR.test(char)).length;
+  return readable / characters.length >= MIN_READABLE_RATIO;
+}
+
+/**
+ * Split a text run into words, spreading the run's width over its characters
+ */
+function splitIntoWords(item: TextItem, viewport: pdfjsLib.PageViewport): OcrWord[] {
+  if (!item.str.trim()) {
+    return [];
+  }
+
+  const [, , , , originX, originY] = item.transform;
+  const [x0, baseline] = viewport.convertToViewportPoint(originX, originY);
+  const [x1, top] = viewport.convertToViewportPoint(originX + item.width, originY + item.height);
+  const charWidth = (x1 - x0) / item.str.length;
+
+  const words: OcrWord[] = [];
+  for (const match of item.str.matchAll(/\S+/g)) {
+    const start = match.index ?? 0;
+    words.push({
+      text: match[0],
+      confidence: 100,
+      bbox: {
+        x0: Math.round(x0 + start * charWidth),
+        y0: Math.round(Math.min(top, baseline)),
+        x1: Math.round(x0 + (start + match[0].length) * charWidth),
+        y1: Math.round(Math.max(top, baseline)),
+      },
+    });
+  }
+
+  return words;
+}
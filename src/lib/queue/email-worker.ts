@@ -12,9 +12,14 @@ import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import {
   sendOCRCompletedNotification,
   sendManualReviewNotification,
+  sendKSeFSubmissionNotification,
   type NotificationPreferences,
 } from '@/lib/email/notifications';
-import type { OCRCompletedEmailData, ManualReviewEmailData } from '@/lib/email/templates';
+import type {
+  OCRCompletedEmailData,
+  ManualReviewEmailData,
+  KSeFSubmissionEmailData,
+} from '@/lib/email/templates';
 
 // Lazy-initialize admin Supabase client for background jobs (no user session)
 // This prevents build-time errors when env vars aren't available
@@ -187,3 +192,91 @@ export const notifyOCRCompleted = inngest.createFunction(
     };
   }
 );
+
+/**
+ * KSeF Submission Failure Handler
+ * Triggered by 'ksef/submission.failed' when automatic retries have stopped
+ */
+export const notifyKSeFSubmissionFailed = inngest.createFunction(
+  {
+    id: 'notify-ksef-submission-failed',
+    name: 'Send KSeF Submission Failure Email',
+    retries: 2,
+  },
+  { event: 'ksef/submission.failed' },
+  async ({ event, step }) => {
+    const { invoice_id, tenant_id, error, retry_count } = event.data;
+
+    console.log(`[Email Worker] Sending KSeF failure notification for invoice ${invoice_id}`);
+
+    const { invoice, tenant, admins } = await step.run('fetch-data', async () => {
+      const supabase = getSupabaseAdmin();
+
+      const { data: invoiceData, error: invoiceError } = await supabase
+        .from('invoices')
+        .select('invoice_number')
+        .eq('id', invoice_id)
+        .single();
+
+      if (invoiceError || !invoiceData) {
+        throw new Error(`Failed to fetch invoice: ${invoiceError?.message}`);
+      }
+
+      const { data: tenantData, error: tenantError } = await supabase
+        .from('tenants')
+        .select('name')
+        .eq('id', tenant_id)
+        .single();
+
+      if (tenantError || !tenantData) {
+        throw new Error(`Failed to fetch tenant: ${tenantError?.message}`);
+      }
+
+      return {
+        invoice: invoiceData as { invoice_number: string | null },
+        tenant: tenantData as { name: string },
+        admins: await getTenantAdmins(tenant_id),
+      };
+    });
+
+    const { successCount, failedCount } = await step.run('send-emails', async () => {
+      let success = 0;
+      let failed = 0;
+
+      for (const admin of admins) {
+        const emailData: KSeFSubmissionEmailData = {
+          userName: admin.email,
+          invoiceNumber: invoice.invoice_number || 'N/A',
+          success: false,
+          errorMessage: error,
+          retryCount: retry_count,
+          tenantName: tenant.name,
+          invoiceUrl: `${process.env.NEXT_PUBLIC_APP_URL}/invoices/${invoice_id}`,
+        };
+
+        try {
+          const result = await sendKSeFSubmissionNotification(admin.email, emailData);
+          if (result.success) {
+            success++;
+          } else {
+            failed++;
+            console.error(`[Email Worker] Failed to send to ${admin.email}:`, result.error);
+          }
+        } catch (sendError) {
+          failed++;
+          console.error(`[Email Worker] Exception sending to ${admin.email}:`, sendError);
+        }
+      }
+
+      return { successCount: success, failedCount: failed };
+    });
+
+    console.log(`[Email Worker] KSeF failure notifications sent: ${successCount} success, ${failedCount} failed`);
+
+    return {
+      invoice_id,
+      emails_sent: successCount,
+      emails_failed: failedCount,
+    };
+  }
+);
@@ -40,6 +40,30 @@ type Events = {
       error: string;
     };
   };
+  'ksef/submission.sent': {
+    data: {
+      submission_id: string;
+      invoice_id: string;
+      tenant_id: string;
+      tenant_nip: string;
+    };
+  };
+  'ksef/submission.failed': {
+    data: {
+      submission_id: string;
+      invoice_id: string;
+      tenant_id: string;
+      error: string;
+      retry_count: number;
+    };
+  };
+  'ksef/batch.sent': {
+    data: {
+      batch_id: string;
+      tenant_id: string;
+      tenant_nip: string;
+    };
+  };
 };
 
 // Create Inngest client
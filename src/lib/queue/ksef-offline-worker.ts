@@ -0,0 +1,74 @@
+/**
+ * Inngest KSeF Offline Queue Worker
+ *
+ * Uploads invoices issued offline once KSeF can be reached again
+ * Runs every 10 minutes; tenants whose KSeF session cannot be opened are retried on the next run.
+ */
+
+import { inngest } from './inngest-client';
+import { listKSeFOfflineQueueTenants, submitKSeFOfflineQueue } from '@/lib/ksef/submission-service';
+import { getTenantKSeFNips } from '@/lib/ksef/tenant-settings';
+
+export const submitOfflineKSeFInvoices = inngest.createFunction(
+  {
+    id: 'submit-offline-ksef-invoices',
+    name: 'Submit Offline KSeF Invoices',
+    retries: 1,
+    concurrency: { limit: 1 },
+  },
+  { cron: '*/10 * * * *' }, // Every 10 minutes
+  async ({ step }) => {
+    const tenants = await step.run('find-queued-tenants', () => listKSeFOfflineQueueTenants());
+
+    if (tenants.length === 0) {
+      return { tenants: 0, submitted: 0 };
+    }
+
+    const nips = await step.run('resolve-tenant-nips', () => getTenantKSeFNips(tenants));
+
+    let submitted = 0;
+    let failed = 0;
+    let unavailable = 0;
+
+    for (const tenantId of tenants) {
+      const tenantNip = nips[tenantId];
+      if (!tenantNip) {
+        unavailable++;
+        console.warn(`[KSeF Offline Worker] No seller NIP configured for tenant ${tenantId}`);
+        continue;
+      }
+
+      const result = await step.run(`upload-${tenantId}`, () =>
+        submitKSeFOfflineQueue(tenantId, tenantNip)
+      );
+
+      if (!result.available) {
+        unavailable++;
+        console.log(`[KSeF Offline Worker] KSeF still unavailable for tenant ${tenantId}:`, result.error);
+        continue;
+      }
+
+      submitted += result.submitted.length;
+      failed += result.failed;
+
+      // Follow each upload until KSeF assigns the KSeF number
+      for (const submission of result.submitted) {
+        await step.sendEvent(`poll-${submission.submissionId}`, {
+          name: 'ksef/submission.sent',
+          data: {
+            submission_id: submission.submissionId,
+            invoice_id: submission.invoiceId,
+            tenant_id: tenantId,
+            tenant_nip: tenantNip,
+          },
+        });
+      }
+    }
+
+    console.log(
+      `[KSeF Offline Worker] Done: ${submitted} uploaded, ${failed} failed, ${unavailable} tenants still offline`
+    );
+
+    return { tenants: tenants.length, submitted, failed, unavailable };
+  }
+);
@@ -0,0 +1,88 @@
+/**
+ * Inngest KSeF Retry Worker
+ *
+ * Resends FAILED KSeF submissions whose nextRetryAt has passed
+ * Runs every 5 minutes. Backoff and the retry cap live in lib/ksef/retry-policy.ts;
+ * tenant admins are notified once a submission is given up on.
+ */
+
+import { inngest } from './inngest-client';
+import { listDueKSeFRetries, retryKSeFSubmission } from '@/lib/ksef/submission-service';
+import { getTenantKSeFNips } from '@/lib/ksef/tenant-settings';
+
+export const retryFailedKSeFSubmissions = inngest.createFunction(
+  {
+    id: 'retry-failed-ksef-submissions',
+    name: 'Retry Failed KSeF Submissions',
+    retries: 1,
+  },
+  { cron: '*/5 * * * *' }, // Every 5 minutes
+  async ({ step }) => {
+    const due = await step.run('find-due-submissions', () => listDueKSeFRetries());
+
+    if (due.length === 0) {
+      return { retried: 0 };
+    }
+
+    console.log(`[KSeF Retry Worker] Retrying ${due.length} submissions`);
+
+    const nips = await step.run('resolve-tenant-nips', () =>
+      getTenantKSeFNips([...new Set(due.map((submission) => submission.tenantId))])
+    );
+
+    let submitted = 0;
+    let rescheduled = 0;
+    let gaveUp = 0;
+
+    let skipped = 0;
+
+    for (const submission of due) {
+      const tenantNip = nips[submission.tenantId];
+      if (!tenantNip) {
+        // Stays FAILED and due; picked up again once the tenant's seller NIP is configured
+        skipped++;
+        console.warn(`[KSeF Retry Worker] No seller NIP configured for tenant ${submission.tenantId}`);
+        continue;
+      }
+
+      const result = await step.run(`retry-${submission.id}`, () =>
+        retryKSeFSubmission(submission.id, tenantNip)
+      );
+
+      if (!result.claimed) continue;
+
+      if (result.success) {
+        submitted++;
+        await step.sendEvent(`poll-${submission.id}`, {
+          name: 'ksef/submission.sent',
+          data: {
+            submission_id: submission.id,
+            invoice_id: submission.invoiceId,
+            tenant_id: submission.tenantId,
+            tenant_nip: tenantNip,
+          },
+        });
+      } else if (result.gaveUp) {
+        gaveUp++;
+        await step.sendEvent(`notify-${submission.id}`, {
+          name: 'ksef/submission.failed',
+          data: {
+            submission_id: submission.id,
+            invoice_id: submission.invoiceId,
+            tenant_id: submission.tenantId,
+            error: result.error || 'Submission failed',
+            retry_count: result.retryCount ?? 0,
+          },
+        });
+      } else {
+        rescheduled++;
+      }
+    }
+
+    console.log(
+      `[KSeF Retry Worker] Done: ${submitted} submitted, ${rescheduled} rescheduled, ${gaveUp} given up, ${skipped} skipped`
+    );
+
+    return { retried: due.length, submitted, rescheduled, gaveUp, skipped };
+  }
+);
@@ -0,0 +1,195 @@
+/**
+ * Inngest KSeF Status Worker
+ *
+ * Follows invoices sent to KSeF until they have been processed:
+ * - Polls the invoice (online session) or batch status with exponential backoff
+ * - Records the KSeF number, or the rejection reason
+ * - Downloads the UPO into Supabase Storage and completes the invoice
+ * - Re-polls submissions and batches still open after the polling window (every 30 minutes)
+ */
+
+import { inngest } from './inngest-client';
+import {
+  checkKSeFSubmissionStatus,
+  listStaleKSeFSubmissions,
+  refreshKSeFBatchStatus,
+  storeKSeFBatchUPOs,
+  storeKSeFSubmissionUPO,
+} from '@/lib/ksef/submission-service';
+import { getKSeFStatusPollDelay, KSEF_STATUS_POLL_MAX_ATTEMPTS } from '@/lib/ksef/status-polling';
+import { getTenantKSeFNips } from '@/lib/ksef/tenant-settings';
+
+/**
+ * Poll a single invoice sent in an online session
+ */
+export const pollKSeFSubmissionStatus = inngest.createFunction(
+  {
+    id: 'poll-ksef-submission-status',
+    name: 'Poll KSeF Submission Status',
+    retries: 3,
+  },
+  { event: 'ksef/submission.sent' },
+  async ({ event, step }) => {
+    const { submission_id, invoice_id, tenant_nip } = event.data;
+
+    for (let attempt = 0; attempt < KSEF_STATUS_POLL_MAX_ATTEMPTS; attempt++) {
+      await step.sleep(`wait-${attempt}`, getKSeFStatusPollDelay(attempt));
+
+      const status = await step.run(`check-status-${attempt}`, async () => {
+        const result = await checkKSeFSubmissionStatus(submission_id, tenant_nip);
+        if (!result.success) {
+          throw new Error(result.error || 'Status check failed');
+        }
+        return result;
+      });
+
+      if (status.status === 'REJECTED') {
+        console.log(`[KSeF Status Worker] Invoice ${invoice_id} rejected by KSeF`);
+        return { success: true, status: 'REJECTED' };
+      }
+
+      if (status.status === 'ACCEPTED') {
+        const upo = await step.run('store-upo', async () => {
+          const result = await storeKSeFSubmissionUPO(submission_id, tenant_nip);
+          if (!result.success) {
+            throw new Error(result.error || 'UPO download failed');
+          }
+          return result;
+        });
+
+        console.log(`[KSeF Status Worker] Invoice ${invoice_id} accepted as ${status.ksefNumber}`);
+        return { success: true, status: 'ACCEPTED', ksefNumber: status.ksefNumber, upoUrl: upo.upoUrl };
+      }
+    }
+
+    console.warn(
+      `[KSeF Status Worker] Invoice ${invoice_id} still not processed after ${KSEF_STATUS_POLL_MAX_ATTEMPTS} polls, left to the stale sweep`
+    );
+    return { success: false, status: 'SUBMITTED' };
+  }
+);
+
+/**
+ * Poll a batch session and collect the UPO of every accepted invoice
+ */
+export const pollKSeFBatchStatus = inngest.createFunction(
+  {
+    id: 'poll-ksef-batch-status',
+    name: 'Poll KSeF Batch Status',
+    retries: 3,
+  },
+  { event: 'ksef/batch.sent' },
+  async ({ event, step }) => {
+    const { batch_id, tenant_nip } = event.data;
+
+    for (let attempt = 0; attempt < KSEF_STATUS_POLL_MAX_ATTEMPTS; attempt++) {
+      await step.sleep(`wait-${attempt}`, getKSeFStatusPollDelay(attempt));
+
+      const status = await step.run(`check-status-${attempt}`, async () => {
+        const result = await refreshKSeFBatchStatus(batch_id, tenant_nip);
+        if (!result.success) {
+          throw new Error(result.error || 'Status check failed');
+        }
+        return result;
+      });
+
+      if (status.status === 'FAILED') {
+        console.log(`[KSeF Status Worker] Batch ${batch_id} rejected by KSeF`);
+        return { success: true, status: 'FAILED' };
+      }
+
+      if (status.status === 'COMPLETED') {
+        const upos = await step.run('store-upos', async () => {
+          const result = await storeKSeFBatchUPOs(batch_id, tenant_nip);
+          if (!result.success || result.failed > 0) {
+            throw new Error(result.error || `${result.failed} UPO downloads failed`);
+          }
+          return result;
+        });
+
+        console.log(`[KSeF Status Worker] Batch ${batch_id} completed, ${upos.stored} UPOs stored`);
+        return { success: true, status: 'COMPLETED', accepted: status.accepted, rejected: status.rejected };
+      }
+    }
+
+    console.warn(
+      `[KSeF Status Worker] Batch ${batch_id} still not processed after ${KSEF_STATUS_POLL_MAX_ATTEMPTS} polls, left to the stale sweep`
+    );
+    return { success: false, status: 'SUBMITTED' };
+  }
+);
+
+/**
+ * Re-poll online submissions and batches the pollers above gave up on
+ *
+ * Each run checks every stale item once; what KSeF still has not processed is
+ * checked again on the next run.
+ */
+export const sweepStaleKSeFStatuses = inngest.createFunction(
+  {
+    id: 'sweep-stale-ksef-statuses',
+    name: 'Sweep Stale KSeF Statuses',
+    retries: 1,
+  },
+  { cron: '*/30 * * * *' }, // Every 30 minutes
+  async ({ step }) => {
+    const stale = await step.run('find-stale-submissions', () => listStaleKSeFSubmissions());
+
+    if (stale.submissions.length === 0 && stale.batches.length === 0) {
+      return { polled: 0 };
+    }
+
+    const tenantIds = [...stale.submissions, ...stale.batches].map((item) => item.tenantId);
+    const nips = await step.run('resolve-tenant-nips', () => getTenantKSeFNips([...new Set(tenantIds)]));
+
+    let processed = 0;
+    let pending = 0;
+    let failed = 0;
+
+    for (const submission of stale.submissions) {
+      const tenantNip = nips[submission.tenantId];
+      if (!tenantNip) {
+        failed++;
+        console.warn(`[KSeF Status Worker] No seller NIP configured for tenant ${submission.tenantId}`);
+        continue;
+      }
+
+      const status = await step.run(`check-submission-${submission.id}`, () =>
+        checkKSeFSubmissionStatus(submission.id, tenantNip)
+      );
+
+      if (status.status === 'ACCEPTED') {
+        await step.run(`store-upo-${submission.id}`, () => storeKSeFSubmissionUPO(submission.id, tenantNip));
+      }
+
+      if (!status.success) failed++;
+      else if (status.status === 'SUBMITTED') pending++;
+      else processed++;
+    }
+
+    for (const batch of stale.batches) {
+      const tenantNip = nips[batch.tenantId];
+      if (!tenantNip) {
+        failed++;
+        console.warn(`[KSeF Status Worker] No seller NIP configured for tenant ${batch.tenantId}`);
+        continue;
+      }
+
+      const status = await step.run(`check-batch-${batch.id}`, () => refreshKSeFBatchStatus(batch.id, tenantNip));
+
+      if (status.status === 'COMPLETED') {
+        await step.run(`store-upos-${batch.id}`, () => storeKSeFBatchUPOs(batch.id, tenantNip));
+      }
+
+      if (!status.success) failed++;
+      else if (status.status === 'SUBMITTED') pending++;
+      else processed++;
+    }
+
+    console.log(
+      `[KSeF Status Worker] Stale sweep: ${processed} processed, ${pending} still pending, ${failed} failed`
+    );
+
+    return { polled: stale.submissions.length + stale.batches.length, processed, pending, failed };
+  }
+);
@@ -0,0 +1,43 @@
+/**
+ * Inngest KSeF Incoming Invoice Sync Worker
+ *
+ * Imports invoices issued to each tenant from KSeF
+ * Runs every hour; tenants without a seller NIP or KSeF credentials are skipped.
+ */
+
+import { inngest } from './inngest-client';
+import { listKSeFSyncTenants, syncIncomingInvoices } from '@/lib/ksef/incoming-sync';
+
+export const syncIncomingKSeFInvoices = inngest.createFunction(
+  {
+    id: 'sync-incoming-ksef-invoices',
+    name: 'Sync Incoming KSeF Invoices',
+    retries: 1,
+    concurrency: { limit: 1 },
+  },
+  { cron: '0 * * * *' }, // Every hour
+  async ({ step }) => {
+    const tenants = await step.run('find-tenants', () => listKSeFSyncTenants());
+
+    console.log(`[KSeF Sync Worker] Syncing incoming invoices for ${tenants.length} tenants`);
+
+    let imported = 0;
+    let failed = 0;
+
+    for (const tenant of tenants) {
+      const result = await step.run(`sync-${tenant.id}`, () =>
+        syncIncomingInvoices(tenant.id, tenant.nip)
+      );
+
+      imported += result.imported;
+      if (!result.success) {
+        failed++;
+        console.error(`[KSeF Sync Worker] Sync failed for tenant ${tenant.id}:`, result.error);
+      }
+    }
+
+    console.log(`[KSeF Sync Worker] Done: ${imported} invoices imported, ${failed} tenants failed`);
+
+    return { tenants: tenants.length, imported, failed };
+  }
+);
@@ -4,14 +4,40 @@
  * Processes invoices through the complete OCR pipeline:
  * QUEUED → PROCESSING (OCR → AI_EXTRACT → VALIDATE) → COMPLETED
  *
+ * Scanned batches holding several invoices stop after OCR: the upload is
+ * SPLIT into one child invoice per document, each with its own OCR job.
+ *
  * Each step creates a processing_log entry for tracking.
  */
 
 import { inngest } from './inngest-client';
 import { createClient } from '@supabase/supabase-js';
-import { recogniseInvoiceWithVision } from '@/lib/ocr/vision';
-import { extractInvoiceData, validateExtractedData, calculateOverallConfidence } from '@/lib/ai/extraction-service';
+import {
+  recogniseDocumentWithProviders,
+  resolveOcrProviderChain,
+  resolvePreprocessProfiles,
+} from '@/lib/ocr/providers';
+import { splitTextByPageMarkers } from '@/lib/ocr/pages';
+import { detectInvoiceBoundaries, splitOcrPages } from '@/lib/ocr/splitting';
+import { reconstructLineItemTable, type LineItemCandidate } from '@/lib/ocr/layout/table';
+import { createSplitInvoices, deleteSplitInvoices } from '@/lib/ocr/services/split';
+import {
+  extractInvoiceData,
+  validateExtractedData,
+  calculateOverallConfidence,
+  requiresReview,
+} from '@/lib/ai/extraction-service';
+import { applyArithmeticWarnings } from '@/lib/ai/arithmetic-validation';
 import type { ExtractedData, ConfidenceScores } from '@/lib/ai/schemas/invoice-schema';
+import { toStoredExtractedData } from '@/lib/ai/schemas/extracted-data';
+import { extractInvoiceDataWithRules } from '@/lib/ai/rule-extraction';
+import { getLlmProvider, getTenantAiSettings } from '@/lib/ai/providers';
+import {
+  applySupplierRules,
+  loadSupplierRules,
+  supplierRuleHints,
+  toSupplierNip,
+} from '@/lib/ai/supplier-rules';
 import { NonRetriableError } from 'inngest';
 import type { SupabaseClient } from '@supabase/supabase-js';
 
@@ -35,7 +61,7 @@ function getSupabaseAdmin() {
   return supabaseAdmin;
 }
 
-type ProcessingStep = 'OCR' | 'AI_EXTRACT' | 'VALIDATE' | 'SAVE';
+type ProcessingStep = 'OCR' | 'SPLIT' | 'AI_EXTRACT' | 'VALIDATE' | 'SAVE';
 
 /**
  * Main OCR processing function
@@ -54,13 +80,13 @@ export const processInvoiceOCR = inngest.createFunction(
     console.log(`[OCR Worker] Starting processing for invoice ${invoice_id}`);
 
     // Step 1: Fetch invoice and create OCR job
-    const { job_id, file_url, has_client_ocr, client_ocr_text, client_ocr_confidence } = await step.run('initialize-job', async () => {
+    const { job_id, file_url, client_ocr_text, client_ocr_confidence, ocr_providers, preprocess_profiles, ai_settings, is_split_invoice, split_line_item_candidates } = await step.run('initialize-job', async () => {
       const supabase = getSupabaseAdmin();
 
       // Fetch invoice (include OCR fields to check if client-side OCR was done)
       const { data: invoice, error: invoiceError } = await supabase
         .from('invoices')
-        .select('id, original_file_url, status, ocr_result, ocr_confidence')
+        .select('id, original_file_url, status, ocr_result, ocr_confidence, source_invoice_id, metadata')
         .eq('id', invoice_id)
         .eq('tenant_id', tenant_id)
         .single();
@@ -111,58 +137,108 @@ export const processInvoiceOCR = inngest.createFunction(
         throw new Error(`Failed to get file URL: ${urlError?.message}`);
       }
 
+      // OCR engines and LLM configured for the tenant (Tenant.settings.ocr, Tenant.settings.ai)
+      const { data: tenant } = await supabase
+        .from('tenants')
+        .select('settings')
+        .eq('id', tenant_id)
+        .single();
+
       await createProcessingLog(newJob.id, tenant_id, 'OCR', 'STARTED', null);
 
       return {
         job_id: newJob.id,
         file_url: urlData.signedUrl,
-        has_client_ocr: !!invoice.ocr_result,
         client_ocr_text: invoice.ocr_result,
         client_ocr_confidence: invoice.ocr_confidence,
+        ocr_providers: resolveOcrProviderChain(tenant?.settings),
+        preprocess_profiles: resolvePreprocessProfiles(tenant?.settings),
+        ai_settings: getTenantAiSettings(tenant?.settings),
+        is_split_invoice: Boolean(invoice.source_invoice_id),
+        // Split invoices carry the table read from the batch's word boxes (their own OCR is text only)
+        split_line_item_candidates: (invoice.metadata?.line_item_candidates ?? []) as LineItemCandidate[],
       };
     });
 
-    // Step 2: Run OCR (skip if client-side OCR was already done)
-    const { raw_ocr_text, ocr_confidence } = await step.run('run-ocr', async () => {
-      // If client-side OCR was already performed, use those results
-      if (has_client_ocr && client_ocr_text) {
-        console.log(`[OCR Worker] Using client-side OCR results (confidence: ${client_ocr_confidence}%)`);
-
-        await createProcessingLog(job_id, tenant_id, 'OCR', 'COMPLETED', {
-          confidence: client_ocr_confidence,
-          char_count: client_ocr_text.length,
-          source: 'client-side',
-        });
-
-        return {
-          raw_ocr_text: client_ocr_text,
-          ocr_confidence: client_ocr_confidence || 0,
-        };
-      }
-
-      // Otherwise, run server-side OCR
+    // Step 2: Read every page (client-side text, PDF text layer, then the tenant's engines with fallback)
+    const { raw_ocr_text, ocr_confidence, split_documents, line_item_candidates } = await step.run('run-ocr', async () => {
       try {
-        console.log(`[OCR Worker] Running server-side OCR (Vision API)...`);
-
-        // Download file
-        const response = await fetch(file_url);
-        if (!response.ok) {
-          throw new Error(`Failed to download file: ${response.statusText}`);
-        }
-        const buffer = Buffer.from(await response.arrayBuffer());
-
-        // Run OCR with Google Cloud Vision (or mock)
-        const ocrResult = await recogniseInvoiceWithVision(buffer);
+        console.log(`[OCR Worker] Running OCR (providers: ${ocr_providers.join(' -> ')})...`);
+
+        const ocrResult = await recogniseDocumentWithProviders(
+          {
+            loadImage: async () => {
+              const response = await fetch(file_url);
+              if (!response.ok) {
+                throw new Error(`Failed to download file: ${response.statusText}`);
+              }
+              return Buffer.from(await response.arrayBuffer());
+            },
+            clientText: client_ocr_text,
+            clientConfidence: client_ocr_confidence,
+            preprocessProfiles: preprocess_profiles,
+          },
+          ocr_providers
+        );
+
+        // Per-page confidence, so reviewers can spot the page that read badly
+        const page_results = ocrResult.pages.map((page) => ({
+          page: page.page,
+          confidence: page.confidence,
+          char_count: page.text.length,
+          provider: page.provider,
+          preprocess_profile: page.metadata?.preprocessProfile ?? null,
+        }));
+
+        // Text layer vs OCR, to compare cost and accuracy of both paths
+        await getSupabaseAdmin()
+          .from('ocr_jobs')
+          .update({ page_results, extraction_path: ocrResult.extractionPath })
+          .eq('id', job_id);
 
         await createProcessingLog(job_id, tenant_id, 'OCR', 'COMPLETED', {
           confidence: ocrResult.confidence,
           char_count: ocrResult.text.length,
-          source: 'server-side',
+          source: ocrResult.providers.includes('client') ? 'client-side' : 'server-side',
+          extraction_path: ocrResult.extractionPath,
+          providers: ocrResult.providers,
+          pages: page_results,
+          attempts: ocrResult.pages.flatMap((page) =>
+            page.attempts.map((attempt) => ({ page: page.page, ...attempt }))
+          ),
         });
 
+        // Batch scans: one document per detected invoice, with its item table read from the
+        // word boxes (which are too large to keep). Client-side text of a PDF arrives as one
+        // page with page markers.
+        const pages =
+          ocrResult.extractionPath === 'CLIENT_OCR'
+            ? splitTextByPageMarkers(ocrResult.text).map((page) => ({
+                ...page,
+                confidence: ocrResult.confidence,
+                words: [],
+                language: ocrResult.language,
+              }))
+            : ocrResult.pages;
+        const segments = is_split_invoice ? [] : detectInvoiceBoundaries(pages);
+        const split_documents =
+          segments.length > 1
+            ? splitOcrPages(pages, segments).map(({ segment, result }) => ({
+                segment,
+                result: { ...result, words: [] },
+                lineItemCandidates: reconstructLineItemTable(result.words)?.items ?? [],
+              }))
+            : [];
+
+        // Line items from the table layout, for the AI step to verify
+        const line_item_candidates =
+          reconstructLineItemTable(ocrResult.words)?.items ?? split_line_item_candidates;
+
         return {
           raw_ocr_text: ocrResult.text,
           ocr_confidence: ocrResult.confidence,
+          split_documents,
+          line_item_candidates,
         };
       } catch (error) {
         await createProcessingLog(job_id, tenant_id, 'OCR', 'FAILED', {
@@ -172,22 +248,98 @@ export const processInvoiceOCR = inngest.createFunction(
       }
     });
 
+    // Step 3 (batch scans only): one child invoice per document, then stop
+    if (split_documents.length > 1) {
+      const child_invoice_ids = await step.run('split-document', async () => {
+        try {
+          console.log(`[OCR Worker] Splitting invoice ${invoice_id} into ${split_documents.length} documents...`);
+
+          await createProcessingLog(job_id, tenant_id, 'SPLIT', 'STARTED', null);
+
+          const supabase = getSupabaseAdmin();
+          const { data: source, error: sourceError } = await supabase
+            .from('invoices')
+            .select('id, tenant_id, original_file_url, file_name, file_size, uploaded_by')
+            .eq('id', invoice_id)
+            .single();
+
+          if (sourceError || !source) {
+            throw new Error(`Invoice not found: ${invoice_id}`);
+          }
+
+          // The source keeps the full text (with page markers) so reviewers can re-split it
+          await supabase
+            .from('invoices')
+            .update({ raw_ocr_text, ocr_confidence })
+            .eq('id', invoice_id);
+
+          // Children left over from a failed attempt are replaced, not duplicated
+          await deleteSplitInvoices(supabase, invoice_id);
+          const ids = await createSplitInvoices(supabase, source, split_documents);
+
+          await supabase
+            .from('ocr_jobs')
+            .update({
+              status: 'COMPLETED',
+              completed_at: new Date().toISOString(),
+              result: { split_into: ids },
+            })
+            .eq('id', job_id);
+
+          await createProcessingLog(job_id, tenant_id, 'SPLIT', 'COMPLETED', {
+            documents: split_documents.map(({ segment }, index) => ({ ...segment, invoice_id: ids[index] })),
+          });
+
+          return ids;
+        } catch (error) {
+          await createProcessingLog(job_id, tenant_id, 'SPLIT', 'FAILED', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+          throw error;
+        }
+      });
+
+      return { job_id, invoice_id, status: 'SPLIT', child_invoice_ids };
+    }
+
     // Step 3: Extract data with AI
-    const { extracted_data, confidence_scores } = await step.run('ai-extract', async () => {
+    const { extracted_data, confidence_scores, supplier_rules } = await step.run('ai-extract', async () => {
       try {
         console.log(`[OCR Worker] Running AI extraction...`);
 
         await createProcessingLog(job_id, tenant_id, 'AI_EXTRACT', 'STARTED', null);
 
-        const aiResult = await extractInvoiceData(raw_ocr_text);
+        // Rules learned from reviewer corrections of the seller's earlier invoices;
+        // the seller is read by the rule-based extractor before the model is asked
+        const supabase = getSupabaseAdmin();
+        const sellerNip = toSupplierNip(extractInvoiceDataWithRules(raw_ocr_text).extracted_data.seller.nip);
+        let rules = await loadSupplierRules(supabase, tenant_id, sellerNip);
+
+        const aiResult = await extractInvoiceData(raw_ocr_text, {
+          lineItemCandidates: line_item_candidates,
+          hints: supplierRuleHints(rules),
+          provider: getLlmProvider(ai_settings),
+        });
+
+        const extractedNip = toSupplierNip(aiResult.extracted_data.seller.nip);
+        if (extractedNip !== sellerNip) {
+          rules = await loadSupplierRules(supabase, tenant_id, extractedNip);
+        }
+        const { extracted_data, applied } = applySupplierRules(aiResult.extracted_data, rules, raw_ocr_text);
 
         await createProcessingLog(job_id, tenant_id, 'AI_EXTRACT', 'COMPLETED', {
           token_usage: aiResult.token_usage,
+          line_item_candidates: line_item_candidates.length,
+          source: aiResult.source,
+          escalated_fields: aiResult.escalated_fields,
+          llm_model: aiResult.llm_model,
+          supplier_rules: applied.map((rule) => rule.description),
         });
 
         return {
-          extracted_data: aiResult.extracted_data,
+          extracted_data,
           confidence_scores: aiResult.confidence_scores,
+          supplier_rules: applied,
         };
       } catch (error) {
         await createProcessingLog(job_id, tenant_id, 'AI_EXTRACT', 'FAILED', {
@@ -198,7 +350,7 @@ export const processInvoiceOCR = inngest.createFunction(
     });
 
     // Step 4: Validate data
-    const { validation_errors } = await step.run('validate', async () => {
+    const { validation_errors, arithmetic_warnings, balanced, adjusted_scores } = await step.run('validate', async () => {
       try {
         console.log(`[OCR Worker] Validating extracted data...`);
 
@@ -209,9 +361,17 @@ export const processInvoiceOCR = inngest.createFunction(
         await createProcessingLog(job_id, tenant_id, 'VALIDATE', 'COMPLETED', {
           valid: validation.valid,
           errors: validation.errors,
+          balanced: validation.balanced,
+          arithmetic_warnings: validation.warnings,
         });
 
-        return { validation_errors: validation.errors };
+        return {
+          validation_errors: validation.errors,
+          arithmetic_warnings: validation.warnings,
+          balanced: validation.balanced,
+          // Amounts that don't add up are not trusted, however sure the extraction was
+          adjusted_scores: applyArithmeticWarnings(confidence_scores, validation.warnings),
+        };
       } catch (error) {
         await createProcessingLog(job_id, tenant_id, 'VALIDATE', 'FAILED', {
           error: error instanceof Error ? error.message : 'Unknown error',
@@ -228,7 +388,8 @@ export const processInvoiceOCR = inngest.createFunction(
         await createProcessingLog(job_id, tenant_id, 'SAVE', 'STARTED', null);
 
         const supabase = getSupabaseAdmin();
-        const overall_confidence = calculateOverallConfidence(confidence_scores);
+        const overall_confidence = calculateOverallConfidence(adjusted_scores);
+        const requires_review = !balanced || requiresReview(overall_confidence, adjusted_scores);
 
         // Update invoice with extracted data
         const { error: updateError } = await supabase
@@ -243,9 +404,13 @@ export const processInvoiceOCR = inngest.createFunction(
             currency: extracted_data.currency,
             seller_nip: extracted_data.seller.nip,
             buyer_nip: extracted_data.buyer.nip,
-            extracted_data,
-            confidence_scores,
+            extracted_data: toStoredExtractedData(
+              extracted_data,
+              supplier_rules.length > 0 ? { supplier_rules } : undefined
+            ),
+            confidence_scores: adjusted_scores,
             overall_confidence,
+            requires_review,
             raw_ocr_text,
             ocr_confidence,
             status: validation_errors.length > 0 ? 'NEEDS_REVIEW' : 'EXTRACTED',
@@ -266,6 +431,7 @@ export const processInvoiceOCR = inngest.createFunction(
             result: {
               overall_confidence,
               validation_errors,
+              arithmetic_warnings,
             },
           })
           .eq('id', job_id);
@@ -0,0 +1,42 @@
+/**
+ * Corrective Invoice Netting
+ * Decides which VAT period a corrective invoice belongs to and signs its amounts
+ *
+ * Totals of a corrective invoice hold the difference against the corrected
+ * invoice; its line items carry both states, with the rows as they were on the
+ * corrected invoice flagged beforeCorrection.
+ */
+
+import type { DateRange } from './report-builder';
+
+/**
+ * Prisma filter selecting invoices whose VAT reporting date falls in the range
+ * Corrections settled in the original period (TypKorekty 1) net against the
+ * corrected invoice's date; the other types fall on the correction's own date.
+ */
+export function buildVATPeriodFilter(tenantId: string, dateRange: DateRange) {
+  const inRange = { gte: dateRange.startDate, lte: dateRange.endDate };
+
+  return {
+    tenantId,
+    OR: [
+      { invoiceDate: inRange, correction: { is: null } },
+      {
+        invoiceDate: inRange,
+        correction: { is: { correctionType: { not: 'ORIGINAL_PERIOD' as const } } },
+      },
+      {
+        correction: {
+          is: { correctionType: 'ORIGINAL_PERIOD' as const, correctedInvoiceDate: inRange },
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Sign of a line item's contribution: rows before correction are reversed
+ */
+export function lineItemSign(item: { beforeCorrection?: boolean | null }): 1 | -1 {
+  return item.beforeCorrection ? -1 : 1;
+}
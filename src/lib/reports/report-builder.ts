@@ -4,6 +4,8 @@
  */
 
 import { PrismaClient } from '@prisma/client';
+import { buildVATPeriodFilter, lineItemSign } from './corrections';
+import { compareVATRateCodes, fromLineItemVatRate, type VATRateCode } from '@/lib/vat-rates';
 
 const prisma = new PrismaClient();
 
@@ -25,8 +27,15 @@ export interface VATSummaryReport {
     totalGrossAmount: number;
     invoiceCount: number;
   };
+  corrections: {
+    // Corrective invoices netted into this period (amounts are differences)
+    netAmount: number;
+    vatAmount: number;
+    grossAmount: number;
+    count: number;
+  };
   byVATRate: Array<{
-    rate: number;
+    rate: VATRateCode; // percentage, or 0 WDT / 0 EX / zw / np / oo
     netAmount: number;
     vatAmount: number;
     grossAmount: number;
@@ -106,6 +115,7 @@ export interface SpendingAnalysisReport {
 
 /**
  * Generate Monthly VAT Summary Report
+ * Corrective invoices are netted against the period they correct (see ./corrections)
  */
 export async function generateVATSummaryReport(
   tenantId: string,
@@ -113,15 +123,10 @@ export async function generateVATSummaryReport(
 ): Promise<VATSummaryReport> {
   try {
     const invoices = await prisma.invoice.findMany({
-      where: {
-        tenantId,
-        invoiceDate: {
-          gte: dateRange.startDate,
-          lte: dateRange.endDate,
-        },
-      },
+      where: buildVATPeriodFilter(tenantId, dateRange),
       include: {
         lineItems: true,
+        correction: { select: { id: true } },
       },
     });
 
@@ -130,11 +135,12 @@ export async function generateVATSummaryReport(
     let totalVAT = 0;
     let totalGross = 0;
 
-    const vatRatesMap = new Map<number, { net: number; vat: number; gross: number; count: number }>();
+    const vatRatesMap = new Map<VATRateCode, { net: number; vat: number; gross: number; count: number }>();
     const typeMap = {
       purchase: { net: 0, vat: 0, gross: 0, count: 0 },
       sale: { net: 0, vat: 0, gross: 0, count: 0 },
     };
+    const corrections = { net: 0, vat: 0, gross: 0, count: 0 };
 
     for (const invoice of invoices) {
       const net = invoice.netAmount ? parseFloat(invoice.netAmount.toString()) : 0;
@@ -145,6 +151,13 @@ export async function generateVATSummaryReport(
       totalVAT += vat;
       totalGross += gross;
 
+      if (invoice.correction) {
+        corrections.net += net;
+        corrections.vat += vat;
+        corrections.gross += gross;
+        corrections.count++;
+      }
+
       // Group by type
       const type = invoice.invoiceType?.toLowerCase() === 'sale' ? 'sale' : 'purchase';
       typeMap[type].net += net;
@@ -154,10 +167,11 @@ export async function generateVATSummaryReport(
 
       // Group by VAT rate from line items
       for (const item of invoice.lineItems) {
-        const rate = item.vatRate ? parseFloat(item.vatRate.toString()) : 0;
-        const itemNet = item.netAmount ? parseFloat(item.netAmount.toString()) : 0;
-        const itemVAT = item.vatAmount ? parseFloat(item.vatAmount.toString()) : 0;
-        const itemGross = item.grossAmount ? parseFloat(item.grossAmount.toString()) : 0;
+        const rate = fromLineItemVatRate(item);
+        const sign = lineItemSign(item);
+        const itemNet = item.netAmount ? sign * parseFloat(item.netAmount.toString()) : 0;
+        const itemVAT = item.vatAmount ? sign * parseFloat(item.vatAmount.toString()) : 0;
+        const itemGross = item.grossAmount ? sign * parseFloat(item.grossAmount.toString()) : 0;
 
         if (!vatRatesMap.has(rate)) {
           vatRatesMap.set(rate, { net: 0, vat: 0, gross: 0, count: 0 });
@@ -180,7 +194,7 @@ export async function generateVATSummaryReport(
         grossAmount: data.gross,
         invoiceCount: data.count,
       }))
-      .sort((a, b) => b.rate - a.rate);
+      .sort((a, b) => compareVATRateCodes(a.rate, b.rate));
 
     return {
       period: {
@@ -195,6 +209,12 @@ export async function generateVATSummaryReport(
         totalGrossAmount: totalGross,
         invoiceCount: invoices.length,
       },
+      corrections: {
+        netAmount: corrections.net,
+        vatAmount: corrections.vat,
+        grossAmount: corrections.gross,
+        count: corrections.count,
+      },
       byVATRate,
       byType: {
         purchase: {
@@ -0,0 +1,114 @@
+/**
+ * VAT Rate Codes
+ *
+ * The VAT rate of a line item is a percentage or one of the codes printed on
+ * Polish invoices instead of one (FA(3) P_12 uses the same codes):
+ * - 0 WDT: 0% intra-community supply of goods (wewnątrzwspólnotowa dostawa towarów)
+ * - 0 EX: 0% export of goods
+ * - zw: exempt (zwolnione)
+ * - np: not subject to Polish VAT (nie podlega)
+ * - oo: domestic reverse charge (odwrotne obciążenie)
+ *
+ * A plain 0 is the domestic 0% rate (FA(3) "0 KR"). InvoiceLineItem keeps the
+ * percentage in vatRate (0 for the codes) and the code in vatRateCode.
+ *
+ * Invoices with zw lines must also state the legal basis of the exemption.
+ */
+
+import type { VATExemption } from '@/types/ocr';
+
+export const VAT_RATE_SYMBOLS = ['0 WDT', '0 EX', 'zw', 'np', 'oo'] as const;
+
+export type VATRateSymbol = (typeof VAT_RATE_SYMBOLS)[number];
+
+export type VATRateCode = number | VATRateSymbol;
+
+export function isVATRateSymbol(value: unknown): value is VATRateSymbol {
+  return VAT_RATE_SYMBOLS.includes(value as VATRateSymbol);
+}
+
+/**
+ * Read a VAT rate as printed on an invoice: "23%", "8 %", "zw.", "np I",
+ * "0% WDT", "0 EX", "0 KR", "odwrotne obciążenie", ...
+ *
+ * @returns The rate, or null when the text holds none
+ */
+export function parseVATRateCode(value: unknown): VATRateCode | null {
+  if (typeof value === 'number') {
+    return value >= 0 && value <= 100 ? value : null;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const text = value.trim();
+  if (isVATRateSymbol(text)) return text;
+  if (/\bzw\b|zwoln/i.test(text)) return 'zw';
+  if (/\bnp\b|nie\s*podl/i.test(text)) return 'np';
+  if (/\boo\b|odwrotn/i.test(text)) return 'oo';
+
+  const match = /-?\d+(?:[.,]\d+)?/.exec(text);
+  const rate = match ? Number.parseFloat(match[0].replace(',', '.')) : NaN;
+  if (Number.isNaN(rate) || rate < 0 || rate > 100) {
+    return null;
+  }
+  if (rate === 0 && /\bwdt\b|wewn[aą]trzwsp/i.test(text)) return '0 WDT';
+  if (rate === 0 && /\bex(?:p|port)?\b/i.test(text)) return '0 EX';
+  return rate;
+}
+
+/**
+ * Percentage used to work out the VAT; the codes carry no VAT
+ */
+export function vatRatePercent(rate: VATRateCode): number {
+  return typeof rate === 'number' ? rate : 0;
+}
+
+export function formatVATRateCode(rate: VATRateCode): string {
+  return typeof rate === 'number' ? `${rate}%` : rate;
+}
+
+/**
+ * Percentages first, highest first, then the codes
+ */
+export function compareVATRateCodes(a: VATRateCode, b: VATRateCode): number {
+  if (typeof a === 'number' && typeof b === 'number') return b - a;
+  if (typeof a === 'number') return -1;
+  if (typeof b === 'number') return 1;
+  return VAT_RATE_SYMBOLS.indexOf(a) - VAT_RATE_SYMBOLS.indexOf(b);
+}
+
+/**
+ * vatRate / vatRateCode columns of InvoiceLineItem
+ */
+export function toLineItemVatRate(rate: VATRateCode): { vatRate: number; vatRateCode: VATRateSymbol | null } {
+  return typeof rate === 'number' ? { vatRate: rate, vatRateCode: null } : { vatRate: 0, vatRateCode: rate };
+}
+
+export function fromLineItemVatRate(item: { vatRate: unknown; vatRateCode?: string | null }): VATRateCode {
+  if (isVATRateSymbol(item.vatRateCode)) {
+    return item.vatRateCode;
+  }
+  const rate = Number(item.vatRate);
+  return Number.isFinite(rate) ? rate : 0;
+}
+
+const DIRECTIVE_PROVISION = /art\.?\s*\d+.*dyrektyw\S*.*2006\/112\/WE/i;
+
+const STATUTE_PROVISION = /art\.?\s*\d+/i;
+
+/**
+ * Read the basis of a VAT exemption: a provision of Directive 2006/112/WE, of
+ * the VAT act ("art. 43 ust. 1 pkt 37 ustawy o VAT") or any other basis
+ *
+ * @returns The exemption, or null for blank text
+ */
+export function parseVATExemption(text: string): VATExemption | null {
+  const description = text.replace(/\s+/g, ' ').trim();
+  if (!description) {
+    return null;
+  }
+
+  const basis = DIRECTIVE_PROVISION.test(description) ? 'B' : STATUTE_PROVISION.test(description) ? 'A' : 'C';
+  return { basis, description };
+}
@@ -8,6 +8,8 @@
  * @see specs/002-ocr-pipeline/contracts/
  */
 
+import type { VATRateSymbol } from '@/lib/vat-rates';
+
 /**
  * OCR job status enum
  */
@@ -34,9 +36,10 @@ export type InvoiceType = 'SALE' | 'PURCHASE' | 'CORRECTION';
 export type Currency = 'PLN' | 'EUR' | 'USD';
 
 /**
- * Polish VAT rates
+ * Polish VAT rates, or a code for 0% WDT/export, exempt, not subject and reverse-charge lines
+ * @see src/lib/vat-rates.ts
  */
-export type VATRate = 23 | 8 | 5 | 0;
+export type VATRate = 23 | 8 | 5 | 0 | VATRateSymbol;
 
 // ============================================================================
 // Database Entities
@@ -155,6 +158,17 @@ export interface ExtractedData {
   gross_amount: number;
   line_items: LineItem[];
   invoice_type: InvoiceType;
+  bank_account?: string | null; // IBAN, PL + 26 digits
+  vat_exemption?: VATExemption | null; // Required when any line item is 'zw'
+  reverse_charge?: boolean; // "odwrotne obciążenie" printed on the invoice
+}
+
+/**
+ * Legal basis of a VAT exemption (FA(3) P_19A-C)
+ */
+export interface VATExemption {
+  basis: 'A' | 'B' | 'C'; // A: ustawa o VAT, B: dyrektywa 2006/112/WE, C: inna podstawa
+  description: string; // e.g. "art. 43 ust. 1 pkt 37 ustawy o VAT"
 }
 
 /**
@@ -230,6 +244,18 @@ export interface OCRStatusProcessing extends OCRStatusResponse {
   estimated_completion: string;
 }
 
+/**
+ * Rule learned from reviewer corrections of the seller's earlier invoices that
+ * changed a field of the extraction (kept in extracted_data.details.supplier_rules)
+ */
+export interface AppliedSupplierRule {
+  kind: 'value_mapping' | 'invoice_number_format' | 'date_label' | 'default_vat_rate';
+  field: string; // e.g. "issue_date", "line_items.0.vat_rate"
+  from: unknown;
+  to: unknown;
+  description: string;
+}
+
 /**
  * OCR result included in COMPLETED status
  */
@@ -239,6 +265,7 @@ export interface OCRResult {
   ocr_confidence_overall: number; // 0-100
   requires_review: boolean;
   raw_ocr_text?: string;
+  applied_rules?: AppliedSupplierRule[];
 }
 
 /**
@@ -358,4 +385,10 @@ export interface AIExtractionResult {
     completion_tokens: number;
     total_tokens: number;
   };
+  /** rules only, GPT-4 only, or rules with low-confidence fields from GPT-4 */
+  source?: 'rules' | 'ai' | 'hybrid';
+  /** fields the rules were unsure about and GPT-4 was asked for */
+  escalated_fields?: string[];
+  /** LLM provider and model that read the invoice, e.g. "azure:gpt-4o-eu" */
+  llm_model?: string;
 }
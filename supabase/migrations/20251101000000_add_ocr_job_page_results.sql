@@ -0,0 +1,2 @@
+-- Per-page OCR results of multi-page invoices: [{ page, confidence, char_count, provider }]
+ALTER TABLE public.ocr_jobs ADD COLUMN IF NOT EXISTS page_results JSONB;
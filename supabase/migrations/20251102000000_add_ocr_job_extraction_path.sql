@@ -0,0 +1,3 @@
+-- How the invoice text was read: PDF text layer, OCR, both, or OCR in the browser
+ALTER TABLE public.ocr_jobs ADD COLUMN IF NOT EXISTS extraction_path TEXT
+  CHECK (extraction_path IN ('TEXT_LAYER', 'OCR', 'MIXED', 'CLIENT_OCR'));
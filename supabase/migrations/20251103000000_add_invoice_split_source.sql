@@ -0,0 +1,25 @@
+-- Batch scans: invoices cut out of a multi-invoice upload point back at it with their page range
+ALTER TYPE "tenant"."InvoiceStatus" ADD VALUE IF NOT EXISTS 'SPLIT';
+
+ALTER TABLE "tenant"."invoices" ADD COLUMN IF NOT EXISTS "source_invoice_id" TEXT
+  REFERENCES "tenant"."invoices"("id") ON DELETE CASCADE;
+ALTER TABLE "tenant"."invoices" ADD COLUMN IF NOT EXISTS "source_page_start" INTEGER;
+ALTER TABLE "tenant"."invoices" ADD COLUMN IF NOT EXISTS "source_page_end" INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_source_invoice_id ON "tenant"."invoices"("source_invoice_id");
+
+-- The split code reads and inserts invoices through the public view
+CREATE OR REPLACE VIEW "public"."invoices"
+WITH (security_invoker = true) AS
+SELECT
+  id, tenant_id, company_id, original_file_url, file_name, file_size, uploaded_by, status,
+  invoice_type, ocr_processed_at, ocr_confidence, ocr_result, extracted_data, invoice_number,
+  invoice_date, due_date, currency, net_amount, vat_amount, gross_amount, ksef_number,
+  ksef_submitted_at, ksef_status, metadata, created_at, updated_at,
+  source_invoice_id, source_page_start, source_page_end
+FROM "tenant"."invoices";
+
+-- Splitting is logged as its own pipeline step
+ALTER TABLE public.processing_logs DROP CONSTRAINT IF EXISTS processing_logs_step_check;
+ALTER TABLE public.processing_logs ADD CONSTRAINT processing_logs_step_check
+  CHECK (step IN ('OCR', 'SPLIT', 'AI_EXTRACT', 'VALIDATE', 'SAVE'));
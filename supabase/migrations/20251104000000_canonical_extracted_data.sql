@@ -0,0 +1,88 @@
+-- Canonical extraction model: rewrite stored extracted data to version 2
+-- (same mapping as src/lib/ai/schemas/extracted-data.ts, which still reads older rows)
+--
+-- version 0: supplier/buyer/header/totals (AI extractor, ai-data-extractor edge function, FA(3) imports)
+-- version 1: seller/buyer snake_case without schema_version (OCR worker, vision upload)
+-- version 2: version 1 tagged with schema_version, extra details under "details"
+
+CREATE OR REPLACE FUNCTION public.canonical_extracted_data(data JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_details JSONB;
+BEGIN
+  IF data IS NULL OR jsonb_typeof(data) <> 'object' OR data ? 'schema_version' THEN
+    RETURN data;
+  END IF;
+
+  -- Version 0 → 1
+  IF data ? 'supplier' OR data ? 'header' OR data ? 'totals' THEN
+    v_details := jsonb_strip_nulls(
+      (data - ARRAY[
+        'supplier', 'buyer', 'header', 'totals', 'lineItems', 'notes', 'locale', 'model',
+        'confidenceOverall', 'rawText', 'source', 'invoiceType', 'sellDate', 'paymentMethod',
+        'bankAccount', 'vatBreakdown', 'annotations', 'correction'
+      ]) || jsonb_build_object(
+        'source', data->'source',
+        'fa3_invoice_type', data->'invoiceType',
+        'sale_date', data->'sellDate',
+        'payment_method', data->'paymentMethod',
+        'vat_breakdown', data->'vatBreakdown',
+        'annotations', data->'annotations',
+        'correction', data->'correction',
+        'notes', CASE WHEN jsonb_array_length(COALESCE(data->'notes', '[]')) > 0 THEN data->'notes' END,
+        'locale', data->'locale',
+        'model', data->'model',
+        'confidence_overall', data->'confidenceOverall',
+        'legacy_line_items', CASE WHEN jsonb_array_length(COALESCE(data->'lineItems', '[]')) > 0 THEN data->'lineItems' END
+      )
+    );
+
+    data := jsonb_build_object(
+      'invoice_number', COALESCE(data->'header'->>'number', ''),
+      'issue_date', COALESCE(data->'header'->>'issueDate', ''),
+      'due_date', data->'header'->'dueDate',
+      'seller', jsonb_build_object(
+        'name', COALESCE(data->'supplier'->>'name', ''),
+        'nip', COALESCE(data->'supplier'->>'vatId', ''),
+        'address', data->'supplier'->'address'
+      ),
+      'buyer', jsonb_build_object(
+        'name', COALESCE(data->'buyer'->>'name', ''),
+        'nip', COALESCE(data->'buyer'->>'vatId', ''),
+        'address', data->'buyer'->'address'
+      ),
+      'currency', COALESCE(data->'header'->>'currency', data->'totals'->>'currency', 'PLN'),
+      'net_amount', COALESCE(data->'totals'->'subtotal', '0'),
+      'vat_amount', COALESCE(data->'totals'->'tax', '0'),
+      'gross_amount', COALESCE(data->'totals'->'total', '0'),
+      'line_items', '[]'::JSONB,
+      'invoice_type', CASE WHEN data->>'invoiceType' = 'CORRECTIVE' THEN 'CORRECTION' ELSE 'SALE' END,
+      'bank_account', data->'bankAccount'
+    ) || CASE WHEN v_details = '{}'::JSONB THEN '{}'::JSONB ELSE jsonb_build_object('details', v_details) END;
+  ELSIF NOT (data ? 'seller' OR data ? 'invoice_number') THEN
+    RETURN data;
+  END IF;
+
+  -- Version 1 → 2 ("123-456-32-18" and "PL1234563218" are the same NIP)
+  RETURN data || jsonb_build_object(
+    'schema_version', 2,
+    'due_date', NULLIF(data->>'due_date', ''),
+    'seller', COALESCE(data->'seller', '{}') || jsonb_build_object(
+      'nip', regexp_replace(regexp_replace(COALESCE(data->'seller'->>'nip', ''), '^PL', '', 'i'), '\D', '', 'g')
+    ),
+    'buyer', COALESCE(data->'buyer', '{}') || jsonb_build_object(
+      'nip', regexp_replace(regexp_replace(COALESCE(data->'buyer'->>'nip', ''), '^PL', '', 'i'), '\D', '', 'g')
+    ),
+    'currency', CASE WHEN data->>'currency' IN ('PLN', 'EUR', 'USD') THEN data->>'currency' ELSE 'PLN' END,
+    'line_items', COALESCE(data->'line_items', '[]'),
+    'invoice_type', CASE WHEN data->>'invoice_type' IN ('SALE', 'PURCHASE', 'CORRECTION') THEN data->>'invoice_type' ELSE 'SALE' END
+  );
+END;
+$$;
+
+UPDATE public.invoices
+SET extracted_data = public.canonical_extracted_data(extracted_data)
+WHERE extracted_data IS NOT NULL AND NOT extracted_data ? 'schema_version';
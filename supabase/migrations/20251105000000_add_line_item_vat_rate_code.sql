@@ -0,0 +1,8 @@
+-- VAT rates without a percentage (0 WDT, 0 EX, zw, np, oo): vatRate stays 0 and the code is stored alongside
+ALTER TABLE "tenant"."invoice_line_items" ADD COLUMN IF NOT EXISTS "vat_rate_code" TEXT;
+
+-- FA(3) imports kept the code in metadata until now
+UPDATE "tenant"."invoice_line_items"
+SET "vat_rate_code" = "metadata"->>'vatRateCode',
+    "metadata" = "metadata" - 'vatRateCode'
+WHERE "metadata" ? 'vatRateCode';
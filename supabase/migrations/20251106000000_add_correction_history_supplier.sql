@@ -0,0 +1,19 @@
+-- Supplier templates: reviewer corrections are grouped by the seller NIP of the corrected invoice,
+-- with the label a corrected date was printed next to
+ALTER TABLE "tenant"."correction_history" ADD COLUMN IF NOT EXISTS "seller_nip" TEXT;
+ALTER TABLE "tenant"."correction_history" ADD COLUMN IF NOT EXISTS "context" JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_correction_history_seller
+  ON "tenant"."correction_history"("tenant_id", "seller_nip", "created_at" DESC);
+
+UPDATE "tenant"."correction_history" AS history
+SET "seller_nip" = regexp_replace(invoices."extracted_data"->'seller'->>'nip', '\D', '', 'g')
+FROM "tenant"."invoices" AS invoices
+WHERE history."invoice_id" = invoices."id" AND history."seller_nip" IS NULL;
+
+CREATE OR REPLACE VIEW "public"."correction_history"
+WITH (security_invoker = true) AS
+SELECT
+  id, tenant_id, invoice_id, field_name, original_value, corrected_value,
+  original_confidence, corrected_by, created_at, seller_nip, context
+FROM "tenant"."correction_history";
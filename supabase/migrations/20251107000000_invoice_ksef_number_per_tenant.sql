@@ -0,0 +1,7 @@
+-- KSeF numbers are unique per tenant: when one tenant buys from another, the seller's
+-- outgoing invoice and the buyer's incoming copy carry the same KSeF number
+ALTER TABLE "tenant"."invoices" DROP CONSTRAINT IF EXISTS "invoices_ksefNumber_key";
+ALTER TABLE "tenant"."invoices" DROP CONSTRAINT IF EXISTS "invoices_ksef_number_key";
+
+CREATE UNIQUE INDEX IF NOT EXISTS "invoices_tenant_id_ksef_number_key"
+  ON "tenant"."invoices"("tenant_id", "ksef_number");
@@ -0,0 +1,31 @@
+-- Corrective invoices (faktury korygujące): the invoice they correct, as referenced in
+-- DaneFaKorygowanej, and the corrected invoice's lines kept as StanPrzed rows
+CREATE TYPE "tenant"."CorrectionType" AS ENUM ('ORIGINAL_PERIOD', 'CORRECTION_DATE', 'OTHER_DATE');
+
+CREATE TABLE IF NOT EXISTS "tenant"."invoice_corrections" (
+  "id" TEXT PRIMARY KEY,
+  "invoice_id" TEXT NOT NULL UNIQUE REFERENCES "tenant"."invoices"("id") ON DELETE CASCADE,
+  "tenant_id" TEXT NOT NULL,
+  "corrected_invoice_id" TEXT REFERENCES "tenant"."invoices"("id") ON DELETE SET NULL,
+  "corrected_invoice_number" TEXT NOT NULL,
+  "corrected_invoice_date" TIMESTAMP(3) NOT NULL,
+  "corrected_ksef_number" TEXT,
+  "reason" TEXT NOT NULL,
+  "correction_type" "tenant"."CorrectionType" NOT NULL DEFAULT 'ORIGINAL_PERIOD',
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "invoice_corrections_tenant_id_corrected_invoice_date_idx"
+  ON "tenant"."invoice_corrections"("tenant_id", "corrected_invoice_date");
+CREATE INDEX IF NOT EXISTS "invoice_corrections_corrected_invoice_id_idx"
+  ON "tenant"."invoice_corrections"("corrected_invoice_id");
+
+ALTER TABLE "tenant"."invoice_corrections" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "invoice_corrections_tenant_isolation" ON "tenant"."invoice_corrections"
+  FOR ALL
+  USING ("tenant_id" = get_user_tenant_id());
+
+ALTER TABLE "tenant"."invoice_line_items"
+  ADD COLUMN IF NOT EXISTS "before_correction" BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,35 @@
+-- KSeF batch sessions: one encrypted zip package of invoices per session, with the
+-- processing result and UPO of the whole batch
+CREATE TYPE "tenant"."KSeFBatchStatus" AS ENUM ('PENDING', 'UPLOADING', 'SUBMITTED', 'COMPLETED', 'FAILED');
+
+CREATE TABLE IF NOT EXISTS "tenant"."ksef_batch_sessions" (
+  "id" TEXT PRIMARY KEY,
+  "tenant_id" TEXT NOT NULL,
+  "reference_number" TEXT UNIQUE,
+  "status" "tenant"."KSeFBatchStatus" NOT NULL DEFAULT 'PENDING',
+  "document_count" INTEGER NOT NULL,
+  "part_count" INTEGER NOT NULL DEFAULT 0,
+  "processing_code" INTEGER,
+  "processing_description" TEXT,
+  "upo" TEXT,
+  "error_message" TEXT,
+  "submitted_at" TIMESTAMP(3),
+  "completed_at" TIMESTAMP(3),
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "ksef_batch_sessions_tenant_id_status_idx"
+  ON "tenant"."ksef_batch_sessions"("tenant_id", "status");
+
+ALTER TABLE "tenant"."ksef_batch_sessions" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "ksef_batch_sessions_tenant_isolation" ON "tenant"."ksef_batch_sessions"
+  FOR ALL
+  USING ("tenant_id" = get_user_tenant_id());
+
+-- Submissions sent in a batch point at its session
+ALTER TABLE "tenant"."ksef_submissions" ADD COLUMN IF NOT EXISTS "batch_id" TEXT
+  REFERENCES "tenant"."ksef_batch_sessions"("id") ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS "ksef_submissions_batch_id_idx" ON "tenant"."ksef_submissions"("batch_id");
@@ -0,0 +1,3 @@
+-- Element reference number returned by Invoice/Send, polled until KSeF assigns the
+-- KSeF number; upo_url now holds the Supabase Storage path of the downloaded UPO
+ALTER TABLE "tenant"."ksef_submissions" ADD COLUMN IF NOT EXISTS "reference_number" TEXT;
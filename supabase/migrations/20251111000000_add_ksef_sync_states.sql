@@ -0,0 +1,17 @@
+-- Incremental import of incoming invoices from KSeF: one sync cursor per tenant
+CREATE TABLE IF NOT EXISTS "tenant"."ksef_sync_states" (
+  "id" TEXT PRIMARY KEY,
+  "tenant_id" TEXT NOT NULL UNIQUE,
+  "last_acquired_at" TIMESTAMP(3),
+  "last_run_at" TIMESTAMP(3),
+  "last_error" TEXT,
+  "imported_count" INTEGER NOT NULL DEFAULT 0,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE "tenant"."ksef_sync_states" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "ksef_sync_states_tenant_isolation" ON "tenant"."ksef_sync_states"
+  FOR ALL
+  USING ("tenant_id" = get_user_tenant_id());
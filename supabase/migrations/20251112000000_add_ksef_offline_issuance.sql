@@ -0,0 +1,11 @@
+-- Offline issuance: invoices issued while KSeF is unreachable are queued with the mode,
+-- the upload deadline and the hash their KOD I / KOD II QR codes were generated for
+ALTER TYPE "tenant"."KSeFSubmissionStatus" ADD VALUE IF NOT EXISTS 'OFFLINE';
+
+CREATE TYPE "tenant"."KSeFOfflineMode" AS ENUM ('OFFLINE24', 'UNAVAILABILITY', 'EMERGENCY');
+
+ALTER TABLE "tenant"."ksef_submissions"
+  ADD COLUMN IF NOT EXISTS "offline_mode" "tenant"."KSeFOfflineMode",
+  ADD COLUMN IF NOT EXISTS "offline_issued_at" TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS "offline_deadline" TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS "invoice_hash" TEXT;
@@ -0,0 +1,40 @@
+/**
+ * Self-signed KSeF seal certificates for tests
+ * Builds PKCS#12 containers the way qualified seals are delivered (.p12/.pfx)
+ */
+
+import { generateKeyPairSync, X509Certificate } from 'crypto';
+import forge from 'node-forge';
+
+export function createPkcs12(
+  commonName: string,
+  nip: string,
+  password: string
+): { p12: Buffer; certificate: X509Certificate } {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  });
+  const key = forge.pki.privateKeyFromPem(privateKey);
+
+  const cert = forge.pki.createCertificate();
+  cert.publicKey = forge.pki.publicKeyFromPem(publicKey);
+  cert.serialNumber = '0a1b2c3d';
+  cert.validity.notBefore = new Date(Date.now() - 60 * 1000);
+  cert.validity.notAfter = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  const subject = [
+    { name: 'commonName', value: commonName },
+    { name: 'countryName', value: 'PL' },
+    { shortName: 'OU', value: `VATPL-${nip}` },
+  ];
+  cert.setSubject(subject);
+  cert.setIssuer(subject);
+  cert.sign(key, forge.md.sha256.create());
+
+  const asn1 = forge.pkcs12.toPkcs12Asn1(key, cert, password, { algorithm: '3des' });
+  return {
+    p12: Buffer.from(forge.asn1.toDer(asn1).getBytes(), 'binary'),
+    certificate: new X509Certificate(forge.pki.certificateToPem(cert)),
+  };
+}
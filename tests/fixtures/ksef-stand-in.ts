@@ -0,0 +1,579 @@
+/**
+ * Local KSeF stand-in server
+ * Implements the subset of the KSeF online and batch API used by KSeFClient so the
+ * integration can be exercised offline (CI, local development).
+ */
+
+import {
+  constants,
+  createDecipheriv,
+  createHash,
+  generateKeyPairSync,
+  privateDecrypt,
+  randomUUID,
+  verify,
+  X509Certificate,
+} from 'crypto';
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { XMLParser } from 'fast-xml-parser';
+import JSZip from 'jszip';
+import {
+  parseXmlTree,
+  serializeCanonical,
+  serializeExclusiveCanonical,
+  type XmlElement,
+} from '@/lib/ksef/xml-c14n';
+
+export interface KSeFStandInOptions {
+  nip: string;
+  token: string;
+  sessionTtlMs?: number;
+  trustedCertificates?: X509Certificate[]; // Accepted for InitSigned and batch InitRequest
+  batchPendingPolls?: number; // Status polls answered "in progress" before a batch is processed
+  invoicePendingPolls?: number; // Status polls answered "in progress" before an online invoice is processed
+  incomingInvoices?: KSeFStandInIncomingInvoice[]; // Invoices issued to the NIP, served by the query API
+}
+
+export interface KSeFStandInIncomingInvoice {
+  ksefNumber: string;
+  xml: string;
+  acquisitionTimestamp: Date;
+}
+
+export interface KSeFStandIn {
+  url: string;
+  publicKey: string;
+  sessions: Map<string, { nip: string; expiresAt: Date }>;
+  requests: Array<{ method: string; path: string; body: string }>;
+  close: () => Promise<void>;
+}
+
+const xmlParser = new XMLParser({
+  removeNSPrefix: true,
+  ignoreAttributes: true,
+  parseTagValue: false,
+});
+
+/**
+ * Decrypt an RSA PKCS#1 v1.5 block without relying on RSA_PKCS1_PADDING
+ * (disabled for private decryption in recent Node releases)
+ */
+function decryptPkcs1(privateKey: string, data: Buffer): Buffer {
+  const block = privateDecrypt({ key: privateKey, padding: constants.RSA_NO_PADDING }, data);
+  if (block[0] !== 0x00 || block[1] !== 0x02) {
+    throw new Error('Invalid PKCS#1 block');
+  }
+  const separator = block.indexOf(0x00, 2);
+  return block.subarray(separator + 1);
+}
+
+function child(node: XmlElement, name: string): XmlElement | undefined {
+  return node.children?.find(
+    (c): c is XmlElement => typeof c !== 'string' && c.name.replace(/^.*:/, '') === name
+  );
+}
+
+function text(node: XmlElement | undefined): string {
+  return (node?.children ?? []).filter((c): c is string => typeof c === 'string').join('');
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('base64');
+}
+
+/**
+ * Verify the enveloped XAdES signature of an InitSessionSignedRequest
+ * Returns the signing certificate when both references and the signature value match
+ */
+function verifySignedRequest(xml: string): X509Certificate {
+  const root = parseXmlTree(xml);
+  const signature = child(root, 'Signature');
+  if (!signature) {
+    throw new Error('Missing signature');
+  }
+
+  const rootScope = root.namespaces ?? {};
+  const signatureScope = { ...rootScope, ...(signature.namespaces ?? {}) };
+  const signedInfo = child(signature, 'SignedInfo')!;
+  const qualifyingProperties = child(child(signature, 'Object')!, 'QualifyingProperties')!;
+  const signedProperties = child(qualifyingProperties, 'SignedProperties')!;
+
+  const unsigned = { ...root, children: root.children?.filter((c) => c !== signature) };
+  const expectedDigests: Record<string, string> = {
+    '': sha256(serializeCanonical(unsigned)),
+    '#SignedProperties': sha256(
+      serializeExclusiveCanonical(signedProperties, {
+        ...signatureScope,
+        ...(qualifyingProperties.namespaces ?? {}),
+      })
+    ),
+  };
+
+  for (const reference of signedInfo.children ?? []) {
+    if (typeof reference === 'string' || !reference.name.endsWith('Reference')) continue;
+    const uri = reference.attributes?.URI ?? '';
+    if (text(child(reference, 'DigestValue')) !== expectedDigests[uri]) {
+      throw new Error(`Digest mismatch for reference "${uri}"`);
+    }
+  }
+
+  const certificate = new X509Certificate(
+    Buffer.from(text(child(child(child(signature, 'KeyInfo')!, 'X509Data')!, 'X509Certificate')), 'base64')
+  );
+  const valid = verify(
+    'sha256',
+    Buffer.from(serializeExclusiveCanonical(signedInfo, signatureScope), 'utf8'),
+    { key: certificate.publicKey, dsaEncoding: 'ieee-p1363' },
+    Buffer.from(text(child(signature, 'SignatureValue')), 'base64')
+  );
+  if (!valid) {
+    throw new Error('Invalid signature value');
+  }
+
+  return certificate;
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+function asArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function randomHex(bytes: number): string {
+  return randomUUID().replace(/-/g, '').slice(0, bytes * 2).toUpperCase();
+}
+
+interface StandInBatch {
+  key: Buffer;
+  iv: Buffer;
+  packageHash: string;
+  parts: Array<{ ordinalNumber: number; fileName: string; hash: string }>;
+  uploaded: Map<string, Buffer>;
+  uploadToken: string;
+  pendingPolls: number;
+  result?: { processingCode: number; processingDescription: string; upo?: string };
+}
+
+interface StandInInvoice {
+  invoiceNumber?: string;
+  ksefNumber?: string; // Unset for documents that are not FA(3) invoices
+  pendingPolls: number;
+  acquiredAt: Date;
+}
+
+function send(res: ServerResponse, status: number, body: string, contentType = 'application/json') {
+  res.writeHead(status, { 'Content-Type': contentType });
+  res.end(body);
+}
+
+export async function startKSeFStandIn(options: KSeFStandInOptions): Promise<KSeFStandIn> {
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  });
+
+  const challenges = new Map<string, Date>();
+  const sessions: KSeFStandIn['sessions'] = new Map();
+  const requests: KSeFStandIn['requests'] = [];
+  const sessionTtlMs = options.sessionTtlMs ?? 20 * 60 * 1000;
+  const batches = new Map<string, StandInBatch>();
+  const invoices = new Map<string, StandInInvoice>();
+
+  const ksefNumber = () =>
+    `${options.nip}-${new Date().toISOString().slice(0, 10).replace(/-/g, '')}-${randomHex(3)}-${randomHex(3)}-${randomHex(1)}`;
+
+  const isTrusted = (certificate: X509Certificate) =>
+    (options.trustedCertificates ?? []).some(
+      (cert) => cert.fingerprint256 === certificate.fingerprint256
+    );
+
+  /**
+   * Decrypt and unzip an uploaded batch, assigning KSeF numbers to every FA(3) document
+   */
+  const processBatch = async (referenceNumber: string, batch: StandInBatch) => {
+    const archive = Buffer.concat(
+      batch.parts.map((part) => {
+        const decipher = createDecipheriv('aes-256-cbc', batch.key, batch.iv);
+        return Buffer.concat([decipher.update(batch.uploaded.get(part.fileName)!), decipher.final()]);
+      })
+    );
+
+    if (sha256(archive) !== batch.packageHash) {
+      return { processingCode: 415, processingDescription: 'Package hash mismatch' };
+    }
+
+    const zip = await JSZip.loadAsync(archive);
+    const documents: string[] = [];
+
+    for (const entry of Object.values(zip.files)) {
+      const content = await entry.async('string');
+      const invoice = xmlParser.parse(content).Faktura;
+      if (!invoice?.Fa?.P_2) continue; // Not an FA(3) document - rejected
+
+      documents.push(`  <Dokument>
+    <NumerKSeFDokumentu>${ksefNumber()}</NumerKSeFDokumentu>
+    <NumerFaktury>${invoice.Fa.P_2}</NumerFaktury>
+    <DataNadaniaNumeruKSeF>${new Date().toISOString()}</DataNadaniaNumeruKSeF>
+    <SkrotDokumentu>${sha256(Buffer.from(content, 'utf8'))}</SkrotDokumentu>
+  </Dokument>`);
+    }
+
+    const upo = `<?xml version="1.0" encoding="UTF-8"?>
+<Potwierdzenie>
+  <NumerReferencyjnySesji>${referenceNumber}</NumerReferencyjnySesji>
+${documents.join('\n')}
+</Potwierdzenie>`;
+
+    return {
+      processingCode: 200,
+      processingDescription: 'Sesja wsadowa przetworzona',
+      upo: Buffer.from(upo, 'utf8').toString('base64'),
+    };
+  };
+
+  const sendSession = (res: ServerResponse) => {
+    const referenceNumber = `${randomUUID()}`;
+    const token = randomUUID().replace(/-/g, '');
+    const expiresAt = new Date(Date.now() + sessionTtlMs);
+    sessions.set(token, { nip: options.nip, expiresAt });
+
+    return send(
+      res,
+      201,
+      `<?xml version="1.0" encoding="UTF-8"?>
+<InitSessionResponse>
+  <Timestamp>${new Date().toISOString()}</Timestamp>
+  <ReferenceNumber>${referenceNumber}</ReferenceNumber>
+  <SessionToken>
+    <Token>${token}</Token>
+    <ExpirationTime>${expiresAt.toISOString()}</ExpirationTime>
+  </SessionToken>
+</InitSessionResponse>`,
+      'application/xml'
+    );
+  };
+
+  const server = createServer(async (req, res) => {
+    const rawBody = await readBody(req);
+    const body = rawBody.toString('utf8');
+    const path = (req.url ?? '').replace(/^\/api/, '');
+    requests.push({ method: req.method ?? 'GET', path, body });
+
+    if (req.method === 'POST' && path === '/online/Session/AuthorisationChallenge') {
+      const { contextIdentifier } = JSON.parse(body || '{}');
+      if (contextIdentifier?.identifier !== options.nip) {
+        return send(res, 400, JSON.stringify({ message: 'Unknown context' }));
+      }
+      const challenge = `${new Date().toISOString().slice(0, 10).replace(/-/g, '')}-CR-${randomUUID()}`;
+      const timestamp = new Date();
+      challenges.set(challenge, timestamp);
+      return send(res, 201, JSON.stringify({ challenge, timestamp: timestamp.toISOString() }));
+    }
+
+    if (req.method === 'POST' && path === '/online/Session/InitToken') {
+      const parsed = xmlParser.parse(body);
+      const context = parsed.InitSessionTokenRequest?.Context;
+      const issuedAt = context ? challenges.get(context.Challenge) : undefined;
+
+      if (!context || !issuedAt) {
+        return send(res, 400, '<Error>Unknown challenge</Error>', 'application/xml');
+      }
+      challenges.delete(context.Challenge);
+
+      if (String(context.Identifier?.Identifier) !== options.nip) {
+        return send(res, 401, '<Error>NIP mismatch</Error>', 'application/xml');
+      }
+
+      const decrypted = decryptPkcs1(privateKey, Buffer.from(context.Token, 'base64')).toString('utf8');
+      if (decrypted !== `${options.token}|${issuedAt.getTime()}`) {
+        return send(res, 401, '<Error>Invalid token</Error>', 'application/xml');
+      }
+
+      return sendSession(res);
+    }
+
+    if (req.method === 'POST' && path === '/online/Session/InitSigned') {
+      const parsed = xmlParser.parse(body);
+      const context = parsed.InitSessionSignedRequest?.Context;
+
+      if (!context || !challenges.has(context.Challenge)) {
+        return send(res, 400, '<Error>Unknown challenge</Error>', 'application/xml');
+      }
+      challenges.delete(context.Challenge);
+
+      if (String(context.Identifier?.Identifier) !== options.nip) {
+        return send(res, 401, '<Error>NIP mismatch</Error>', 'application/xml');
+      }
+
+      let certificate: X509Certificate;
+      try {
+        certificate = verifySignedRequest(body);
+      } catch (error) {
+        return send(res, 401, `<Error>${(error as Error).message}</Error>`, 'application/xml');
+      }
+
+      if (!isTrusted(certificate)) {
+        return send(res, 401, '<Error>Untrusted certificate</Error>', 'application/xml');
+      }
+
+      return sendSession(res);
+    }
+
+    if (req.method === 'POST' && path === '/batch/Init') {
+      const request = xmlParser.parse(body).InitRequest;
+      if (!request) {
+        return send(res, 400, JSON.stringify({ message: 'Invalid InitRequest' }));
+      }
+      if (String(request.Identifier?.Identifier) !== options.nip) {
+        return send(res, 401, JSON.stringify({ message: 'NIP mismatch' }));
+      }
+
+      try {
+        if (!isTrusted(verifySignedRequest(body))) {
+          return send(res, 401, JSON.stringify({ message: 'Untrusted certificate' }));
+        }
+      } catch (error) {
+        return send(res, 401, JSON.stringify({ message: (error as Error).message }));
+      }
+
+      const referenceNumber = `${new Date().toISOString().slice(0, 10).replace(/-/g, '')}-SB-${randomHex(5)}-${randomHex(5)}-${randomHex(1)}`;
+      const parts = asArray(request.PackageSignature.PackagePartsList.PackagePartSignature).map(
+        (part: { OrdinalNumber: string; PartFileName: string; PartFileHash: { HashSHA: { Value: string } } }) => ({
+          ordinalNumber: Number(part.OrdinalNumber),
+          fileName: part.PartFileName,
+          hash: part.PartFileHash.HashSHA.Value,
+        })
+      );
+      const batch: StandInBatch = {
+        key: decryptPkcs1(privateKey, Buffer.from(request.Encryption.EncryptionKey.Value, 'base64')),
+        iv: Buffer.from(request.Encryption.EncryptionInitializationVector.Value, 'base64'),
+        packageHash: request.PackageSignature.PackageFileHash.HashSHA.Value,
+        parts,
+        uploaded: new Map(),
+        uploadToken: randomUUID(),
+        pendingPolls: options.batchPendingPolls ?? 0,
+      };
+      batches.set(referenceNumber, batch);
+
+      return send(
+        res,
+        201,
+        JSON.stringify({
+          timestamp: new Date().toISOString(),
+          referenceNumber,
+          packageSignature: {
+            packagePartSignatureList: parts.map((part) => ({
+              ordinalNumber: part.ordinalNumber,
+              partFileName: part.fileName,
+              url: `http://${req.headers.host}/api/batch/Upload/${referenceNumber}/${part.fileName}`,
+              method: 'PUT',
+              headerEntryList: [{ key: 'x-ksef-upload-token', value: batch.uploadToken }],
+            })),
+          },
+        })
+      );
+    }
+
+    const upload = path.match(/^\/batch\/Upload\/([^/]+)\/([^/]+)$/);
+    if (req.method === 'PUT' && upload) {
+      const batch = batches.get(upload[1]);
+      const part = batch?.parts.find((p) => p.fileName === upload[2]);
+      if (!batch || !part || req.headers['x-ksef-upload-token'] !== batch.uploadToken) {
+        return send(res, 404, JSON.stringify({ message: 'Unknown batch part' }));
+      }
+      if (sha256(rawBody) !== part.hash) {
+        return send(res, 400, JSON.stringify({ message: 'Part hash mismatch' }));
+      }
+      batch.uploaded.set(part.fileName, rawBody);
+      return send(res, 200, JSON.stringify({ processingCode: 200 }));
+    }
+
+    if (req.method === 'POST' && path === '/batch/Finish') {
+      const referenceNumber = String(xmlParser.parse(body).FinishRequest?.ReferenceNumber ?? '');
+      const batch = batches.get(referenceNumber);
+      if (!batch) {
+        return send(res, 404, JSON.stringify({ message: 'Unknown batch session' }));
+      }
+      if (batch.parts.some((part) => !batch.uploaded.has(part.fileName))) {
+        return send(res, 400, JSON.stringify({ message: 'Not all parts were uploaded' }));
+      }
+
+      batch.result = await processBatch(referenceNumber, batch);
+      return send(res, 200, JSON.stringify({ timestamp: new Date().toISOString(), referenceNumber }));
+    }
+
+    const status = path.match(/^\/common\/Status\/([^/]+)$/);
+    if (req.method === 'GET' && status) {
+      const batch = batches.get(status[1]);
+      if (!batch) {
+        return send(res, 404, JSON.stringify({ message: 'Unknown reference number' }));
+      }
+      if (!batch.result || batch.pendingPolls > 0) {
+        batch.pendingPolls--;
+        return send(
+          res,
+          200,
+          JSON.stringify({ referenceNumber: status[1], processingCode: 310, processingDescription: 'Przetwarzanie' })
+        );
+      }
+      return send(res, 200, JSON.stringify({ referenceNumber: status[1], ...batch.result }));
+    }
+
+    const sessionToken = req.headers['sessiontoken'];
+    if (typeof sessionToken !== 'string' || !sessions.has(sessionToken)) {
+      return send(res, 401, JSON.stringify({ message: 'Session not found' }));
+    }
+
+    if (req.method === 'POST' && path === '/online/Session/Terminate') {
+      sessions.delete(sessionToken);
+      return send(res, 200, JSON.stringify({ processingCode: 200 }));
+    }
+
+    if (req.method === 'POST' && path === '/online/Invoice/Send') {
+      const elementReferenceNumber = `${new Date().toISOString().slice(0, 10).replace(/-/g, '')}-EE-${randomHex(5)}-${randomHex(5)}-${randomHex(1)}`;
+      const invoice = xmlParser.parse(body).Faktura;
+      invoices.set(elementReferenceNumber, {
+        invoiceNumber: invoice?.Fa?.P_2,
+        ksefNumber: invoice?.Fa?.P_2 ? ksefNumber() : undefined,
+        pendingPolls: options.invoicePendingPolls ?? 0,
+        acquiredAt: new Date(),
+      });
+      return send(
+        res,
+        202,
+        JSON.stringify({
+          timestamp: new Date().toISOString(),
+          elementReferenceNumber,
+          processingCode: 100,
+          processingDescription: 'Proces przetwarzania dokumentu rozpoczęty',
+        })
+      );
+    }
+
+    const invoiceStatus = path.match(/^\/online\/Invoice\/Status\/([^/]+)$/);
+    if (req.method === 'GET' && invoiceStatus) {
+      const invoice = invoices.get(invoiceStatus[1]);
+      if (!invoice) {
+        return send(res, 404, JSON.stringify({ message: 'Unknown element reference number' }));
+      }
+      const base = { timestamp: new Date().toISOString(), elementReferenceNumber: invoiceStatus[1] };
+
+      if (invoice.pendingPolls > 0) {
+        invoice.pendingPolls--;
+        return send(res, 200, JSON.stringify({ ...base, processingCode: 100, processingDescription: 'Przetwarzanie' }));
+      }
+      if (!invoice.ksefNumber) {
+        return send(res, 200, JSON.stringify({ ...base, processingCode: 445, processingDescription: 'Błąd weryfikacji dokumentu' }));
+      }
+      return send(
+        res,
+        200,
+        JSON.stringify({
+          ...base,
+          processingCode: 200,
+          processingDescription: 'Dokument przetworzony',
+          invoiceStatus: {
+            invoiceNumber: invoice.invoiceNumber,
+            ksefReferenceNumber: invoice.ksefNumber,
+            acquisitionTimestamp: invoice.acquiredAt.toISOString(),
+          },
+        })
+      );
+    }
+
+    if (req.method === 'POST' && path.startsWith('/online/Query/Invoice/Sync')) {
+      const url = new URL(path, 'http://stand-in');
+      const pageSize = Number(url.searchParams.get('PageSize') ?? 10);
+      const pageOffset = Number(url.searchParams.get('PageOffset') ?? 0);
+      const criteria = JSON.parse(body).queryCriteria;
+      if (criteria?.subjectType !== 'subject2') {
+        return send(res, 400, JSON.stringify({ message: 'Only subject2 queries are supported' }));
+      }
+
+      const from = new Date(criteria.acquisitionTimestampThresholdFrom).getTime();
+      const to = new Date(criteria.acquisitionTimestampThresholdTo).getTime();
+      const matching = (options.incomingInvoices ?? []).filter(
+        (invoice) =>
+          invoice.acquisitionTimestamp.getTime() >= from && invoice.acquisitionTimestamp.getTime() <= to
+      );
+
+      return send(
+        res,
+        200,
+        JSON.stringify({
+          timestamp: new Date().toISOString(),
+          numberOfElements: matching.length,
+          pageSize,
+          pageOffset,
+          invoiceHeaderList: matching.slice(pageOffset * pageSize, (pageOffset + 1) * pageSize).map((invoice) => {
+            const fa = xmlParser.parse(invoice.xml).Faktura;
+            return {
+              ksefReferenceNumber: invoice.ksefNumber,
+              invoiceReferenceNumber: fa?.Fa?.P_2,
+              invoicingDate: fa?.Fa?.P_1,
+              acquisitionTimestamp: invoice.acquisitionTimestamp.toISOString(),
+              subjectBy: {
+                issuedByIdentifier: { type: 'onip', identifier: String(fa?.Podmiot1?.DaneIdentyfikacyjne?.NIP) },
+                issuedByName: { type: 'fn', fullName: fa?.Podmiot1?.DaneIdentyfikacyjne?.Nazwa },
+              },
+              gross: fa?.Fa?.P_15,
+              currency: fa?.Fa?.KodWaluty,
+            };
+          }),
+        })
+      );
+    }
+
+    const invoiceGet = path.match(/^\/online\/Invoice\/Get\/([^/]+)$/);
+    if (req.method === 'GET' && invoiceGet) {
+      const invoice = options.incomingInvoices?.find((candidate) => candidate.ksefNumber === invoiceGet[1]);
+      if (!invoice) {
+        return send(res, 404, JSON.stringify({ message: 'Invoice not found' }));
+      }
+      return send(res, 200, invoice.xml, 'application/octet-stream');
+    }
+
+    const upo = path.match(/^\/online\/Invoice\/Upo\/([^/]+)$/);
+    if (req.method === 'GET' && upo) {
+      const invoice = [...invoices.values()].find((candidate) => candidate.ksefNumber === upo[1]);
+      if (!invoice || invoice.pendingPolls > 0) {
+        return send(res, 404, JSON.stringify({ message: 'UPO not available' }));
+      }
+      return send(
+        res,
+        200,
+        `<?xml version="1.0" encoding="UTF-8"?>
+<Potwierdzenie>
+  <Dokument>
+    <NumerKSeFDokumentu>${invoice.ksefNumber}</NumerKSeFDokumentu>
+    <NumerFaktury>${invoice.invoiceNumber}</NumerFaktury>
+    <DataNadaniaNumeruKSeF>${invoice.acquiredAt.toISOString()}</DataNadaniaNumeruKSeF>
+  </Dokument>
+</Potwierdzenie>`,
+        'application/xml'
+      );
+    }
+
+    return send(res, 404, JSON.stringify({ message: `No route for ${req.method} ${path}` }));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/api`,
+    publicKey,
+    sessions,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
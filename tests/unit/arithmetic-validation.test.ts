@@ -0,0 +1,146 @@
+/**
+ * Arithmetic Cross-Validation Unit Tests
+ * Covers line, per-rate and total checks of extracted amounts and the
+ * confidence they take away from the fields involved
+ */
+
+import { describe, expect, it } from 'vitest';
+import { applyArithmeticWarnings, validateInvoiceArithmetic } from '@/lib/ai/arithmetic-validation';
+import { validateExtractedData } from '@/lib/ai/extraction-service';
+import type { ConfidenceScores, ExtractedData, LineItem } from '@/types/ocr';
+
+const LINES: LineItem[] = [
+  { description: 'Usługa programistyczna', quantity: 10, unit_price: 150, vat_rate: 23, net: 1500, vat: 345, gross: 1845 },
+  { description: 'Książka', quantity: 3, unit_price: 33.33, vat_rate: 5, net: 99.99, vat: 5, gross: 104.99 },
+];
+
+const INVOICE: ExtractedData = {
+  invoice_number: 'FV/10/2025',
+  issue_date: '2025-10-01',
+  due_date: '2025-10-15',
+  seller: { name: 'ACME Sp. z o.o.', nip: '1234563218', address: null },
+  buyer: { name: 'Klient S.A.', nip: '5260001246', address: null },
+  currency: 'PLN',
+  net_amount: 1599.99,
+  vat_amount: 350,
+  gross_amount: 1949.99,
+  line_items: LINES,
+  invoice_type: 'SALE',
+};
+
+const SCORES: ConfidenceScores = {
+  invoice_number: 95,
+  issue_date: 95,
+  due_date: 90,
+  seller_name: 92,
+  seller_nip: 98,
+  buyer_name: 90,
+  buyer_nip: 97,
+  net_amount: 96,
+  vat_amount: 94,
+  gross_amount: 97,
+  line_items: 89,
+};
+
+describe('validateInvoiceArithmetic', () => {
+  it('accepts an invoice that adds up within rounding', () => {
+    expect(validateInvoiceArithmetic(INVOICE)).toEqual({ balanced: true, warnings: [] });
+  });
+
+  it('flags a line whose quantity × price is not its net', () => {
+    const lines = [{ ...LINES[0], quantity: 11 }, LINES[1]];
+
+    const { balanced, warnings } = validateInvoiceArithmetic({ ...INVOICE, line_items: lines });
+
+    expect(balanced).toBe(true);
+    expect(warnings).toEqual([
+      expect.objectContaining({ code: 'LINE_NET_MISMATCH', fields: ['line_items'], line: 1, expected: 1650, actual: 1500 }),
+    ]);
+  });
+
+  it('flags line VAT that does not match the rate', () => {
+    const lines = [{ ...LINES[0], vat_rate: 8 as const }, LINES[1]];
+
+    const { warnings } = validateInvoiceArithmetic({ ...INVOICE, line_items: lines });
+
+    expect(warnings.map((warning) => warning.code)).toEqual(['LINE_VAT_MISMATCH', 'RATE_VAT_MISMATCH']);
+    expect(warnings[1]).toMatchObject({ vat_rate: 8, expected: 120, actual: 345 });
+  });
+
+  it('allows VAT worked out on the sum of each rate', () => {
+    // 3 × 0.10 at 23%: 0.02 per line, 0.07 on the sum
+    const lines: LineItem[] = [1, 2, 3].map((position) => ({
+      description: `Pozycja ${position}`,
+      quantity: 1,
+      unit_price: 0.1,
+      vat_rate: 23,
+      net: 0.1,
+      vat: 0.02,
+      gross: 0.12,
+    }));
+
+    const result = validateInvoiceArithmetic({ net_amount: 0.3, vat_amount: 0.07, gross_amount: 0.37, line_items: lines });
+
+    expect(result).toEqual({ balanced: true, warnings: [] });
+  });
+
+  it('does not balance when the lines miss the invoice totals', () => {
+    const { balanced, warnings } = validateInvoiceArithmetic({
+      ...INVOICE,
+      net_amount: 1500,
+      vat_amount: 345,
+      gross_amount: 1845,
+    });
+
+    expect(balanced).toBe(false);
+    expect(warnings.map((warning) => warning.code)).toEqual([
+      'LINES_NET_TOTAL_MISMATCH',
+      'LINES_VAT_TOTAL_MISMATCH',
+      'LINES_GROSS_TOTAL_MISMATCH',
+    ]);
+  });
+
+  it('does not balance when net + VAT is not gross', () => {
+    const { balanced, warnings } = validateInvoiceArithmetic({
+      net_amount: 1000,
+      vat_amount: 230,
+      gross_amount: 1320,
+      line_items: [],
+    });
+
+    expect(balanced).toBe(false);
+    expect(warnings).toEqual([
+      expect.objectContaining({ code: 'TOTALS_MISMATCH', fields: ['net_amount', 'vat_amount', 'gross_amount'] }),
+    ]);
+  });
+});
+
+describe('applyArithmeticWarnings', () => {
+  it('lowers only the fields named by the warnings', () => {
+    const { warnings } = validateInvoiceArithmetic({ ...INVOICE, gross_amount: 1959.99 });
+
+    const scores = applyArithmeticWarnings(SCORES, warnings);
+
+    expect(scores.gross_amount).toBeLessThan(50);
+    expect(scores.line_items).toBeLessThan(50);
+    expect(scores.invoice_number).toBe(95);
+    expect(scores).not.toBe(SCORES);
+  });
+});
+
+describe('validateExtractedData', () => {
+  it('reports unbalanced totals as errors and line mismatches as warnings only', () => {
+    const lines = [{ ...LINES[0], unit_price: 15 }, LINES[1]];
+
+    expect(validateExtractedData({ ...INVOICE, line_items: lines })).toMatchObject({
+      valid: true,
+      balanced: true,
+      warnings: [expect.objectContaining({ code: 'LINE_NET_MISMATCH' })],
+    });
+
+    const unbalanced = validateExtractedData({ ...INVOICE, gross_amount: 1959.99 });
+    expect(unbalanced.valid).toBe(false);
+    expect(unbalanced.balanced).toBe(false);
+    expect(unbalanced.errors).toContain('Net (1599.99) + VAT (350) != gross (1959.99)');
+  });
+});
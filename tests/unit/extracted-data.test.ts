@@ -0,0 +1,137 @@
+/**
+ * Canonical Extraction Model Unit Tests
+ * Covers reading every stored version of Invoice.extractedData as version 2
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  EXTRACTED_DATA_VERSION,
+  getExtractedDataVersion,
+  normalizeExtractedData,
+  toStoredExtractedData,
+} from '@/lib/ai/schemas/extracted-data';
+import type { ExtractedData } from '@/types/ocr';
+
+const CANONICAL: ExtractedData = {
+  invoice_number: 'FV/1/2025',
+  issue_date: '2025-01-02',
+  due_date: '2025-01-16',
+  seller: { name: 'ABC Sp. z o.o.', nip: '1234563218', address: 'Warszawa' },
+  buyer: { name: 'XYZ S.A.', nip: '5260001246', address: null },
+  currency: 'PLN',
+  net_amount: 1000,
+  vat_amount: 230,
+  gross_amount: 1230,
+  line_items: [{ description: 'Usługa', quantity: 1, unit_price: 1000, vat_rate: 23, net: 1000, vat: 230, gross: 1230 }],
+  invoice_type: 'SALE',
+};
+
+describe('normalizeExtractedData', () => {
+  it('maps the supplier/header/totals shape of the AI extractor', () => {
+    const legacy = {
+      supplier: { name: 'ABC Sp. z o.o.', vatId: 'PL 123-456-32-18', address: 'Warszawa', confidence: 0.9 },
+      buyer: { name: 'XYZ S.A.', vatId: '5260001246', address: null, confidence: 0.8 },
+      header: { number: 'FV/1/2025', issueDate: '2025-01-02', dueDate: null, currency: 'EUR', confidence: 0.9 },
+      totals: { subtotal: 1000, tax: 230, total: 1230, currency: 'EUR', confidence: 0.9 },
+      lineItems: [{ description: 'Usługa', quantity: 1, unitPrice: 1000, total: 1230, confidence: 0.9 }],
+      notes: [],
+      locale: 'pl-PL',
+      model: 'gpt-4o-mini',
+      confidenceOverall: 0.88,
+      rawText: 'FV sample',
+    };
+
+    const data = normalizeExtractedData(legacy);
+
+    expect(getExtractedDataVersion(legacy)).toBe(0);
+    expect(data).toMatchObject({
+      schema_version: EXTRACTED_DATA_VERSION,
+      invoice_number: 'FV/1/2025',
+      issue_date: '2025-01-02',
+      due_date: null,
+      seller: { name: 'ABC Sp. z o.o.', nip: '1234563218', address: 'Warszawa' },
+      buyer: { name: 'XYZ S.A.', nip: '5260001246', address: null },
+      currency: 'EUR',
+      net_amount: 1000,
+      vat_amount: 230,
+      gross_amount: 1230,
+      line_items: [],
+      invoice_type: 'SALE',
+    });
+    expect(data?.details).toMatchObject({ model: 'gpt-4o-mini', confidence_overall: 0.88 });
+    expect(data?.details?.legacy_line_items).toHaveLength(1);
+    expect(data).not.toHaveProperty('rawText');
+    expect(data?.details).not.toHaveProperty('notes');
+  });
+
+  it('keeps the FA(3) details of imported invoices', () => {
+    const data = normalizeExtractedData({
+      source: 'ksef',
+      invoiceType: 'CORRECTIVE',
+      supplier: { name: 'ABC', vatId: '1234563218', address: null },
+      buyer: { name: 'XYZ', vatId: '5260001246', address: null },
+      header: { number: 'KOR/1', issueDate: '2025-02-01', dueDate: '2025-02-15', currency: 'PLN' },
+      totals: { subtotal: -100, tax: -23, total: -123, currency: 'PLN' },
+      paymentMethod: 'przelew',
+      bankAccount: 'PL61109010140000071219812874',
+      vatBreakdown: [{ rate: '23', net: -100, vat: -23 }],
+      ksefReferenceNumber: '1234563218-20250201-ABC',
+    });
+
+    expect(data).toMatchObject({
+      invoice_type: 'CORRECTION',
+      gross_amount: -123,
+      bank_account: 'PL61109010140000071219812874',
+      details: {
+        source: 'ksef',
+        fa3_invoice_type: 'CORRECTIVE',
+        payment_method: 'przelew',
+        vat_breakdown: [{ rate: '23', net: -100, vat: -23 }],
+        ksefReferenceNumber: '1234563218-20250201-ABC',
+      },
+    });
+  });
+
+  it('tags untagged seller/buyer data and fills missing fields', () => {
+    const untagged: Record<string, unknown> = {
+      ...CANONICAL,
+      seller: { ...CANONICAL.seller, nip: '123-456-32-18' },
+      currency: 'GBP',
+      invoice_type: 'OTHER',
+    };
+    delete untagged.due_date;
+    delete untagged.line_items;
+
+    const data = normalizeExtractedData(untagged);
+
+    expect(getExtractedDataVersion(untagged)).toBe(1);
+    expect(data).toMatchObject({
+      schema_version: EXTRACTED_DATA_VERSION,
+      due_date: null,
+      seller: { nip: '1234563218' },
+      currency: 'PLN',
+      line_items: [],
+      invoice_type: 'SALE',
+    });
+  });
+
+  it('returns current data unchanged', () => {
+    const stored = toStoredExtractedData(CANONICAL);
+
+    expect(normalizeExtractedData(stored)).toEqual(stored);
+  });
+
+  it.each([[null], [undefined], ['text'], [[]], [{}], [{ schema_version: 99, seller: {} }]])(
+    'returns null for %j',
+    (value) => {
+      expect(normalizeExtractedData(value)).toBeNull();
+    }
+  );
+});
+
+describe('toStoredExtractedData', () => {
+  it('tags the data and adds details only when there are any', () => {
+    expect(toStoredExtractedData(CANONICAL)).toEqual({ ...CANONICAL, schema_version: EXTRACTED_DATA_VERSION });
+    expect(toStoredExtractedData(CANONICAL, { source: 'ksef' }).details).toEqual({ source: 'ksef' });
+  });
+});
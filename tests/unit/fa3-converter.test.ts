@@ -0,0 +1,235 @@
+/**
+ * FA(3) Converter Unit Tests
+ * Covers per-rate summaries, Adnotacje, RodzajFaktury, correction data and Platnosc generation
+ */
+
+import { describe, expect, it } from 'vitest';
+import { XMLParser } from 'fast-xml-parser';
+import { convertToFA3Xml } from '@/lib/ksef/fa3-converter';
+import { validateFA3Xml } from '@/lib/ksef/fa3-validator';
+import type { FA3Invoice, FA3LineItem } from '@/lib/ksef/types';
+
+const parser = new XMLParser({ ignoreAttributes: false, parseTagValue: false });
+
+function lineItem(lineNumber: number, vatRate: FA3LineItem['vatRate'], net: number, vat: number): FA3LineItem {
+  return {
+    lineNumber,
+    description: `Pozycja ${lineNumber}`,
+    quantity: 1,
+    unitOfMeasure: 'szt',
+    unitPrice: net,
+    netAmount: net,
+    vatRate,
+    vatAmount: vat,
+    grossAmount: net + vat,
+  };
+}
+
+function buildInvoice(overrides: Partial<FA3Invoice> = {}): FA3Invoice {
+  return {
+    header: {
+      invoiceNumber: 'FV/001/2026',
+      issueDate: '2026-02-10',
+      sellDate: '2026-02-09',
+      dueDate: '2026-02-24',
+      currency: 'PLN',
+      invoiceType: 'VAT',
+    },
+    parties: {
+      seller: {
+        nip: '526-025-02-74',
+        name: 'Sprzedawca Sp. z o.o.',
+        address: { street: 'Prosta', houseNumber: '10', apartmentNumber: '2', city: 'Warszawa', postalCode: '00850', country: 'PL' },
+      },
+      buyer: {
+        nip: '7740001454',
+        name: 'Nabywca S.A.',
+        address: { street: 'Długa', houseNumber: '5', city: 'Płock', postalCode: '09-411', country: 'PL' },
+      },
+    },
+    lineItems: [
+      lineItem(1, 23, 100, 23),
+      lineItem(2, 23, 50, 11.5),
+      lineItem(3, 8, 200, 16),
+      lineItem(4, 5, 10, 0.5),
+      lineItem(5, 0, 40, 0),
+      lineItem(6, 'np', 30, 0),
+    ],
+    summary: {
+      netAmount: 430,
+      vatAmount: 51,
+      grossAmount: 481,
+      currency: 'PLN',
+      bankAccount: 'PL61 1090 1014 0000 0712 1981 2874',
+    },
+    ...overrides,
+  };
+}
+
+function parseFa(xml: string) {
+  return parser.parse(xml).Faktura.Fa;
+}
+
+describe('convertToFA3Xml', () => {
+  it('emits per-rate net and VAT totals', () => {
+    const fa = parseFa(convertToFA3Xml(buildInvoice()));
+
+    expect(fa.P_13_1).toBe('150.00');
+    expect(fa.P_14_1).toBe('34.50');
+    expect(fa.P_13_2).toBe('200.00');
+    expect(fa.P_14_2).toBe('16.00');
+    expect(fa.P_13_3).toBe('10.00');
+    expect(fa.P_14_3).toBe('0.50');
+    expect(fa.P_13_6_1).toBe('40.00');
+    expect(fa.P_13_8).toBe('30.00');
+    expect(fa.P_13_7).toBeUndefined();
+    expect(fa.P_15).toBe('481.00');
+  });
+
+  it('emits line items with gross value and rate codes', () => {
+    const fa = parseFa(convertToFA3Xml(buildInvoice()));
+
+    expect(fa.FaWiersz[0]).toMatchObject({ P_8A: 'szt', P_8B: '1', P_11: '100.00', P_11A: '123.00', P_12: '23' });
+    expect(fa.FaWiersz[4].P_12).toBe('0 KR');
+    expect(fa.FaWiersz[5].P_12).toBe('np I');
+  });
+
+  it('reports intra-community supply and export apart from domestic 0%', async () => {
+    const invoice = buildInvoice({
+      lineItems: [lineItem(1, '0 WDT', 100, 0), lineItem(2, '0 EX', 50, 0), lineItem(3, 0, 40, 0)],
+      summary: { netAmount: 190, vatAmount: 0, grossAmount: 190, currency: 'PLN' },
+    });
+    const xml = convertToFA3Xml(invoice);
+    const fa = parseFa(xml);
+
+    expect(fa.P_13_6_1).toBe('40.00');
+    expect(fa.P_13_6_2).toBe('100.00');
+    expect(fa.P_13_6_3).toBe('50.00');
+    expect(fa.FaWiersz.map((row: { P_12: string }) => row.P_12)).toEqual(['0 WDT', '0 EX', '0 KR']);
+    expect(await validateFA3Xml(xml)).toEqual({ valid: true, errors: [] });
+  });
+
+  it('emits default Adnotacje flags', () => {
+    const fa = parseFa(convertToFA3Xml(buildInvoice()));
+
+    expect(fa.Adnotacje).toEqual({
+      P_16: '2',
+      P_17: '2',
+      P_18: '2',
+      P_18A: '2',
+      Zwolnienie: { P_19N: '1' },
+      NoweSrodkiTransportu: { P_22N: '1' },
+      P_23: '2',
+      PMarzy: { P_PMarzyN: '1' },
+    });
+  });
+
+  it('marks reverse charge and exemption from line items and annotations', () => {
+    const fa = parseFa(
+      convertToFA3Xml(
+        buildInvoice({
+          lineItems: [lineItem(1, 'oo', 1000, 0), lineItem(2, 'zw', 300, 0)],
+          annotations: {
+            splitPayment: true,
+            exemption: { basis: 'A', description: 'art. 43 ust. 1 pkt 37 ustawy o VAT' },
+          },
+        })
+      )
+    );
+
+    expect(fa.P_13_10).toBe('1000.00');
+    expect(fa.P_13_7).toBe('300.00');
+    expect(fa.Adnotacje.P_18).toBe('1');
+    expect(fa.Adnotacje.P_18A).toBe('1');
+    expect(fa.Adnotacje.Zwolnienie).toEqual({ P_19: '1', P_19A: 'art. 43 ust. 1 pkt 37 ustawy o VAT' });
+  });
+
+  it('requires an exemption basis for exempt lines', () => {
+    expect(() => convertToFA3Xml(buildInvoice({ lineItems: [lineItem(1, 'zw', 10, 0)] }))).toThrow(
+      /exemption basis/
+    );
+  });
+
+  it('drives RodzajFaktury from the invoice type', () => {
+    const invoice = buildInvoice();
+    expect(parseFa(convertToFA3Xml(invoice)).RodzajFaktury).toBe('VAT');
+
+    invoice.header.invoiceType = 'ADVANCE';
+    expect(parseFa(convertToFA3Xml(invoice)).RodzajFaktury).toBe('ZAL');
+
+    invoice.header.invoiceType = 'PROFORMA';
+    expect(() => convertToFA3Xml(invoice)).toThrow(/Proforma/);
+  });
+
+  it('emits correction data and nets StanPrzed rows in the summaries', async () => {
+    const xml = convertToFA3Xml(
+      buildInvoice({
+        header: { ...buildInvoice().header, invoiceNumber: 'KOR/001/2026', invoiceType: 'CORRECTIVE' },
+        lineItems: [
+          { ...lineItem(1, 23, 100, 23), beforeCorrection: true },
+          lineItem(2, 23, 80, 18.4),
+        ],
+        summary: { netAmount: -20, vatAmount: -4.6, grossAmount: -24.6, currency: 'PLN' },
+        correction: {
+          reason: 'Rabat potransakcyjny',
+          type: 1,
+          correctedInvoices: [
+            { invoiceNumber: 'FV/001/2026', issueDate: '2026-01-15', ksefNumber: '5260250274-20260115-0A1B2C-3D4E5F-A1' },
+            { invoiceNumber: 'FV/002/2026', issueDate: '2026-01-20' },
+          ],
+        },
+      })
+    );
+    const fa = parseFa(xml);
+
+    expect(fa.RodzajFaktury).toBe('KOR');
+    expect(fa.PrzyczynaKorekty).toBe('Rabat potransakcyjny');
+    expect(fa.TypKorekty).toBe('1');
+    expect(fa.DaneFaKorygowanej).toEqual([
+      {
+        DataWystFaKorygowanej: '2026-01-15',
+        NrFaKorygowanej: 'FV/001/2026',
+        NrKSeF: '1',
+        NrKSeFFaKorygowanej: '5260250274-20260115-0A1B2C-3D4E5F-A1',
+      },
+      { DataWystFaKorygowanej: '2026-01-20', NrFaKorygowanej: 'FV/002/2026', NrKSeFN: '1' },
+    ]);
+    expect(fa.P_13_1).toBe('-20.00');
+    expect(fa.P_14_1).toBe('-4.60');
+    expect(fa.P_15).toBe('-24.60');
+    expect(fa.FaWiersz[0].StanPrzed).toBe('1');
+    expect(fa.FaWiersz[1].StanPrzed).toBeUndefined();
+    expect(await validateFA3Xml(xml)).toEqual({ valid: true, errors: [] });
+  });
+
+  it('requires a corrected invoice reference on corrective invoices', () => {
+    const invoice = buildInvoice();
+    invoice.header.invoiceType = 'CORRECTIVE';
+
+    expect(() => convertToFA3Xml(invoice)).toThrow(/corrected invoice/);
+  });
+
+  it('emits payment terms with the bank account', () => {
+    const fa = parseFa(convertToFA3Xml(buildInvoice()));
+
+    expect(fa.Platnosc).toEqual({
+      TerminPlatnosci: { Termin: '2026-02-24' },
+      FormaPlatnosci: '6',
+      RachunekBankowy: { NrRB: 'PL61109010140000071219812874' },
+    });
+  });
+
+  it('uses FA(3) address lines and passes schema validation', async () => {
+    const xml = convertToFA3Xml(buildInvoice(), { generatedAt: new Date('2026-02-10T08:00:00Z') });
+    const faktura = parser.parse(xml).Faktura;
+
+    expect(faktura.Naglowek.DataWytworzeniaFa).toBe('2026-02-10T08:00:00.000Z');
+    expect(faktura.Podmiot1.Adres).toEqual({
+      KodKraju: 'PL',
+      AdresL1: 'Prosta 10/2',
+      AdresL2: '00-850 Warszawa',
+    });
+    expect(faktura.Fa.KodWaluty).toBe('PLN');
+    expect(await validateFA3Xml(xml)).toEqual({ valid: true, errors: [] });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * FA(3) Import Unit Tests
+ * Direction, counterparty company and invoice records created from FA(3) XML
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  company: { upsert: vi.fn() },
+  invoice: { create: vi.fn() },
+}));
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => prismaMock),
+}));
+
+import { convertToFA3Xml } from '@/lib/ksef/fa3-converter';
+import { importFA3Invoice, resolveFA3Direction, toFA3LineItemData } from '@/lib/ksef/fa3-import';
+import type { FA3Invoice } from '@/lib/ksef/types';
+
+const SELLER_NIP = '5260250274';
+const BUYER_NIP = '7740001454';
+
+const invoice: FA3Invoice = {
+  header: {
+    invoiceNumber: 'FV/021/2026',
+    issueDate: '2026-04-01',
+    dueDate: '2026-04-15',
+    currency: 'PLN',
+    invoiceType: 'VAT',
+  },
+  parties: {
+    seller: {
+      nip: SELLER_NIP,
+      name: 'Dostawca Sp. z o.o.',
+      address: { street: 'Prosta', houseNumber: '10', apartmentNumber: '2', city: 'Warszawa', postalCode: '00-850', country: 'PL' },
+    },
+    buyer: {
+      nip: BUYER_NIP,
+      name: 'Nabywca S.A.',
+      address: { street: 'Długa', houseNumber: '5', city: 'Płock', postalCode: '09-411', country: 'PL' },
+    },
+  },
+  lineItems: [
+    { lineNumber: 1, description: 'Usługa', quantity: 2, unitOfMeasure: 'godz', unitPrice: 150, netAmount: 300, vatRate: 23, vatAmount: 69, grossAmount: 369 },
+    { lineNumber: 2, description: 'Szkolenie', quantity: 1, unitOfMeasure: 'szt', unitPrice: 500, netAmount: 500, vatRate: 'zw', vatAmount: 0, grossAmount: 500 },
+  ],
+  summary: { netAmount: 800, vatAmount: 69, grossAmount: 869, currency: 'PLN' },
+  annotations: { exemption: { basis: 'A', description: 'art. 43 ust. 1 pkt 26 ustawy o VAT' } },
+};
+
+describe('resolveFA3Direction', () => {
+  it('treats invoices issued by the tenant as OUTGOING', () => {
+    const result = resolveFA3Direction(invoice, { tenantNip: '526-025-02-74' });
+
+    expect(result.invoiceType).toBe('OUTGOING');
+    expect(result.counterparty.nip).toBe(BUYER_NIP);
+  });
+
+  it('treats other invoices as INCOMING from the seller', () => {
+    const result = resolveFA3Direction(invoice, { tenantNip: BUYER_NIP });
+
+    expect(result.invoiceType).toBe('INCOMING');
+    expect(result.counterparty.nip).toBe(SELLER_NIP);
+  });
+});
+
+describe('toFA3LineItemData', () => {
+  it('stores zw / np / oo as 0% with the rate code', () => {
+    const [taxed, exempt] = toFA3LineItemData(invoice.lineItems);
+
+    expect(taxed).toMatchObject({ vatRate: 23, vatRateCode: null, metadata: { unitOfMeasure: 'godz' } });
+    expect(exempt).toMatchObject({ vatRate: 0, vatRateCode: 'zw', metadata: { unitOfMeasure: 'szt' } });
+  });
+});
+
+describe('importFA3Invoice', () => {
+  beforeEach(() => {
+    prismaMock.company.upsert.mockReset().mockResolvedValue({ id: 'company-1' });
+    prismaMock.invoice.create.mockReset().mockResolvedValue({ id: 'invoice-1' });
+  });
+
+  it('creates a processed invoice with line items and the seller as company', async () => {
+    const result = await importFA3Invoice('tenant-1', convertToFA3Xml(invoice), {
+      source: 'UPLOAD',
+      originalFileUrl: 'tenant-1/upload.xml',
+      fileName: 'FV_021.xml',
+      uploadedBy: 'user-1',
+      tenantNip: BUYER_NIP,
+    });
+
+    expect(result).toEqual({
+      invoiceId: 'invoice-1',
+      invoiceNumber: 'FV/021/2026',
+      invoiceType: 'INCOMING',
+      companyId: 'company-1',
+    });
+
+    expect(prismaMock.company.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { tenantId_nip: { tenantId: 'tenant-1', nip: SELLER_NIP } },
+        create: expect.objectContaining({
+          name: 'Dostawca Sp. z o.o.',
+          address: 'Prosta 10/2',
+          city: 'Warszawa',
+          postalCode: '00-850',
+        }),
+        update: {},
+      })
+    );
+
+    const { data } = prismaMock.invoice.create.mock.calls[0][0];
+    expect(data).toMatchObject({
+      tenantId: 'tenant-1',
+      companyId: 'company-1',
+      status: 'PROCESSED',
+      invoiceType: 'INCOMING',
+      ocrConfidence: 1,
+      invoiceNumber: 'FV/021/2026',
+      grossAmount: 869,
+      metadata: { source: 'UPLOAD' },
+    });
+    expect(data.ksefNumber).toBeUndefined();
+    expect(data.extractedData).toMatchObject({
+      schema_version: 2,
+      invoice_number: 'FV/021/2026',
+      invoice_type: 'PURCHASE',
+      gross_amount: 869,
+    });
+    expect(data.extractedData.seller).toEqual({
+      name: 'Dostawca Sp. z o.o.',
+      nip: SELLER_NIP,
+      address: 'Prosta 10/2, 00-850 Warszawa',
+    });
+    expect(data.extractedData.details.vat_breakdown).toEqual([
+      { vatRate: 23, netAmount: 300, vatAmount: 69 },
+      { vatRate: 'zw', netAmount: 500, vatAmount: 0 },
+    ]);
+    expect(data.lineItems.create).toHaveLength(2);
+  });
+
+  it('rejects XML that is not an FA(3) invoice without writing anything', async () => {
+    await expect(
+      importFA3Invoice('tenant-1', '<Faktura />', {
+        source: 'UPLOAD',
+        originalFileUrl: 'tenant-1/upload.xml',
+        fileName: 'broken.xml',
+        uploadedBy: 'user-1',
+      })
+    ).rejects.toThrow(/FA\(3\)/);
+
+    expect(prismaMock.company.upsert).not.toHaveBeenCalled();
+    expect(prismaMock.invoice.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * FA(3) Parser Unit Tests
+ * Round-trips generated FA(3) documents, covers gross-priced lines and address
+ * splitting, and queries incoming invoices from the local KSeF stand-in
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createKSeFClient } from '@/lib/ksef/client';
+import { convertToFA3Xml } from '@/lib/ksef/fa3-converter';
+import { parseFA3Address, parseFA3Xml } from '@/lib/ksef/fa3-parser';
+import type { FA3Invoice } from '@/lib/ksef/types';
+import { startKSeFStandIn, type KSeFStandIn } from '../fixtures/ksef-stand-in';
+
+const BUYER_NIP = '7740001454';
+const TOKEN = 'D6F1A3B2C4E5F60718293A4B5C6D7E8F9A0B1C2D3E4F5A6B7C8D9E0F1A2B3C4D';
+
+const invoice: FA3Invoice = {
+  header: {
+    invoiceNumber: 'FV/014/2026',
+    issueDate: '2026-03-02',
+    sellDate: '2026-03-01',
+    dueDate: '2026-03-16',
+    currency: 'PLN',
+    invoiceType: 'VAT',
+  },
+  parties: {
+    seller: {
+      nip: '5260250274',
+      name: 'Dostawca Sp. z o.o.',
+      address: { street: 'Prosta', houseNumber: '10', apartmentNumber: '2', city: 'Warszawa', postalCode: '00-850', country: 'PL' },
+    },
+    buyer: {
+      nip: '7740001454',
+      name: 'Nabywca S.A.',
+      address: { street: 'Długa', houseNumber: '5', city: 'Płock', postalCode: '09-411', country: 'PL' },
+    },
+  },
+  lineItems: [
+    { lineNumber: 1, description: 'Usługa', quantity: 2, unitOfMeasure: 'godz', unitPrice: 150, netAmount: 300, vatRate: 23, vatAmount: 69, grossAmount: 369 },
+    { lineNumber: 2, description: 'Książka', quantity: 1, unitOfMeasure: 'szt', unitPrice: 40, netAmount: 40, vatRate: 5, vatAmount: 2, grossAmount: 42 },
+    { lineNumber: 3, description: 'Eksport', quantity: 1, unitOfMeasure: 'szt', unitPrice: 25, netAmount: 25, vatRate: 'np', vatAmount: 0, grossAmount: 25 },
+  ],
+  summary: {
+    netAmount: 365,
+    vatAmount: 71,
+    grossAmount: 436,
+    currency: 'PLN',
+    bankAccount: 'PL61109010140000071219812874',
+  },
+};
+
+describe('parseFA3Xml', () => {
+  it('reads back a document generated by convertToFA3Xml', () => {
+    const parsed = parseFA3Xml(convertToFA3Xml(invoice));
+
+    expect(parsed.header).toEqual(invoice.header);
+    expect(parsed.parties).toEqual(invoice.parties);
+    expect(parsed.lineItems).toEqual(invoice.lineItems);
+    expect(parsed.summary).toMatchObject({
+      netAmount: 365,
+      vatAmount: 71,
+      grossAmount: 436,
+      paymentMethod: 'transfer',
+      bankAccount: invoice.summary.bankAccount,
+    });
+  });
+
+  it('derives net and VAT amounts of gross-priced lines', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<Faktura xmlns="http://crd.gov.pl/wzor/2025/06/25/13775/">
+  <Podmiot1><DaneIdentyfikacyjne><NIP>5260250274</NIP><Nazwa>Sklep</Nazwa></DaneIdentyfikacyjne></Podmiot1>
+  <Podmiot2><DaneIdentyfikacyjne><NIP>7740001454</NIP><Nazwa>Klient</Nazwa></DaneIdentyfikacyjne></Podmiot2>
+  <Fa>
+    <KodWaluty>PLN</KodWaluty>
+    <P_1>2026-03-05</P_1>
+    <P_2>PAR/77</P_2>
+    <P_13_1>100.00</P_13_1>
+    <P_14_1>23.00</P_14_1>
+    <P_15>123.00</P_15>
+    <RodzajFaktury>UPR</RodzajFaktury>
+    <FaWiersz>
+      <NrWierszaFa>1</NrWierszaFa>
+      <P_7>Kawa</P_7>
+      <P_8B>2</P_8B>
+      <P_9B>61.50</P_9B>
+      <P_12>23</P_12>
+    </FaWiersz>
+  </Fa>
+</Faktura>`;
+
+    const parsed = parseFA3Xml(xml);
+
+    expect(parsed.header.invoiceType).toBe('SIMPLIFIED');
+    expect(parsed.lineItems[0]).toMatchObject({ netAmount: 100, vatAmount: 23, grossAmount: 123, unitPrice: 50 });
+    expect(parsed.summary).toMatchObject({ netAmount: 100, vatAmount: 23, grossAmount: 123 });
+  });
+
+  it('reads per-rate totals, annotations and correction data', () => {
+    const corrective: FA3Invoice = {
+      ...invoice,
+      header: { ...invoice.header, invoiceNumber: 'FK/2/2026', invoiceType: 'CORRECTIVE' },
+      lineItems: [
+        { ...invoice.lineItems[0], beforeCorrection: true },
+        { ...invoice.lineItems[0], lineNumber: 2, quantity: 1, netAmount: 150, vatAmount: 34.5, grossAmount: 184.5 },
+        { ...invoice.lineItems[1], lineNumber: 3, vatRate: 'zw', vatAmount: 0, grossAmount: 40 },
+      ],
+      summary: { ...invoice.summary, netAmount: -110, vatAmount: -34.5, grossAmount: -144.5 },
+      annotations: {
+        splitPayment: true,
+        exemption: { basis: 'A', description: 'art. 43 ust. 1 pkt 37 ustawy o VAT' },
+        marginScheme: 'used-goods',
+      },
+      correction: {
+        reason: 'Zwrot części usług',
+        type: 2,
+        correctedInvoices: [
+          { invoiceNumber: 'FV/014/2026', issueDate: '2026-03-02', ksefNumber: '5260250274-20260302-0A1B2C3D4E5F-01' },
+        ],
+      },
+    };
+
+    const parsed = parseFA3Xml(convertToFA3Xml(corrective));
+
+    expect(parsed.header.invoiceType).toBe('CORRECTIVE');
+    expect(parsed.summary.vatBreakdown).toEqual([
+      { vatRate: 23, netAmount: -150, vatAmount: -34.5 },
+      { vatRate: 'zw', netAmount: 40, vatAmount: 0 },
+    ]);
+    expect(parsed.lineItems[0].beforeCorrection).toBe(true);
+    expect(parsed.annotations).toEqual(corrective.annotations);
+    expect(parsed.correction).toEqual(corrective.correction);
+  });
+
+  it('rejects documents that are not FA(3) invoices', () => {
+    expect(() => parseFA3Xml('<Potwierdzenie />')).toThrow(/Faktura/);
+  });
+});
+
+describe('parseFA3Address', () => {
+  it('splits street, number and apartment from AdresL1', () => {
+    expect(parseFA3Address('ul. Marszałkowska 104/122', '00-017 Warszawa', 'PL')).toEqual({
+      street: 'Marszałkowska',
+      houseNumber: '104',
+      apartmentNumber: '122',
+      postalCode: '00-017',
+      city: 'Warszawa',
+      country: 'PL',
+    });
+  });
+
+  it('keeps unstructured lines as they are', () => {
+    expect(parseFA3Address('Hauptstraße', 'Berlin', 'DE')).toMatchObject({
+      street: 'Hauptstraße',
+      houseNumber: '',
+      city: 'Berlin',
+    });
+  });
+});
+
+describe('KSeFClient incoming invoices', () => {
+  let standIn: KSeFStandIn;
+  const xml = convertToFA3Xml(invoice);
+  const incoming = [1, 2, 3].map((day) => ({
+    ksefNumber: `5260250274-2026030${day}-0A1B2C3D4E5F-0${day}`,
+    xml,
+    acquisitionTimestamp: new Date(`2026-03-0${day}T10:00:00Z`),
+  }));
+
+  beforeAll(async () => {
+    standIn = await startKSeFStandIn({ nip: BUYER_NIP, token: TOKEN, incomingInvoices: incoming });
+  });
+
+  afterAll(async () => {
+    await standIn.close();
+  });
+
+  const client = () =>
+    createKSeFClient('test', BUYER_NIP, {
+      apiUrl: standIn.url,
+      token: TOKEN,
+      publicKey: standIn.publicKey,
+    });
+
+  it('pages invoice headers acquired in the range', async () => {
+    const ksef = client();
+    const query = {
+      subjectType: 'subject2' as const,
+      acquiredFrom: new Date('2026-03-02T00:00:00Z'),
+      acquiredTo: new Date('2026-03-31T00:00:00Z'),
+      pageSize: 1,
+    };
+
+    const first = await ksef.queryInvoices(query);
+    const second = await ksef.queryInvoices({ ...query, pageOffset: 1 });
+
+    expect(first.total).toBe(2);
+    expect(first.invoices).toHaveLength(1);
+    expect(first.invoices[0]).toMatchObject({
+      ksefNumber: incoming[1].ksefNumber,
+      invoiceNumber: 'FV/014/2026',
+      sellerNip: '5260250274',
+    });
+    expect(first.invoices[0].acquisitionTimestamp).toEqual(incoming[1].acquisitionTimestamp);
+    expect(second.invoices[0].ksefNumber).toBe(incoming[2].ksefNumber);
+  });
+
+  it('downloads the FA(3) document of an invoice', async () => {
+    const downloaded = await client().downloadInvoice(incoming[0].ksefNumber);
+
+    expect(parseFA3Xml(downloaded).header.invoiceNumber).toBe('FV/014/2026');
+  });
+});
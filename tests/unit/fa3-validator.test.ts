@@ -0,0 +1,97 @@
+/**
+ * FA(3) Validator Unit Tests
+ * Validates generated XML against the bundled XSD and maps violations to invoice fields
+ */
+
+import { describe, expect, it } from 'vitest';
+import { convertToFA3Xml } from '@/lib/ksef/fa3-converter';
+import { fieldForPath, validateFA3Xml } from '@/lib/ksef/fa3-validator';
+import type { FA3Invoice } from '@/lib/ksef/types';
+
+function buildInvoice(): FA3Invoice {
+  const address = { street: 'Prosta', houseNumber: '10', city: 'Warszawa', postalCode: '00-850', country: 'PL' };
+
+  return {
+    header: {
+      invoiceNumber: 'FV/7/2026',
+      issueDate: '2026-03-01',
+      currency: 'PLN',
+      invoiceType: 'VAT',
+    },
+    parties: {
+      seller: { nip: '5260250274', name: 'Sprzedawca Sp. z o.o.', address },
+      buyer: { nip: '7740001454', name: 'Nabywca S.A.', address },
+    },
+    lineItems: [1, 2].map((lineNumber) => ({
+      lineNumber,
+      description: `Usługa ${lineNumber}`,
+      quantity: 1,
+      unitOfMeasure: 'szt',
+      unitPrice: 100,
+      netAmount: 100,
+      vatRate: 23,
+      vatAmount: 23,
+      grossAmount: 123,
+    })),
+    summary: { netAmount: 200, vatAmount: 46, grossAmount: 246, currency: 'PLN' },
+  };
+}
+
+const generatedAt = new Date('2026-03-01T09:00:00Z');
+
+describe('validateFA3Xml', () => {
+  it('accepts a generated invoice', async () => {
+    const result = await validateFA3Xml(convertToFA3Xml(buildInvoice(), { generatedAt }));
+
+    expect(result).toEqual({ valid: true, errors: [] });
+  });
+
+  it('reports the path, line and field of an invalid seller NIP', async () => {
+    const invoice = buildInvoice();
+    invoice.parties.seller.nip = '0000000000';
+    const xml = convertToFA3Xml(invoice, { generatedAt });
+
+    const result = await validateFA3Xml(xml);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({
+      path: '/Faktura/Podmiot1/DaneIdentyfikacyjne/NIP',
+      field: 'seller.nip',
+      message: expect.stringContaining("Element 'NIP'"),
+    });
+    expect(xml.split('\n')[result.errors[0].line! - 1]).toContain('<NIP>0000000000</NIP>');
+  });
+
+  it('points at the offending line item', async () => {
+    const generated = convertToFA3Xml(buildInvoice(), { generatedAt });
+    const lastRate = generated.lastIndexOf('<P_12>23</P_12>');
+    const xml = `${generated.slice(0, lastRate)}<P_12>17</P_12>${generated.slice(lastRate + 15)}`;
+
+    const result = await validateFA3Xml(xml);
+
+    expect(result.errors[0]).toMatchObject({
+      path: '/Faktura/Fa/FaWiersz[2]/P_12',
+      field: 'lineItems.1.vatRate',
+    });
+  });
+
+  it('rejects a missing mandatory element', async () => {
+    const xml = convertToFA3Xml(buildInvoice(), { generatedAt }).replace(/\s*<P_2>[^<]*<\/P_2>/, '');
+
+    const result = await validateFA3Xml(xml);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0].path).toBe('/Faktura/Fa/P_13_1');
+    expect(result.errors[0].message).toContain('Expected is one of ( P_1M, P_2 )');
+  });
+});
+
+describe('fieldForPath', () => {
+  it('maps summary, party and line item elements', () => {
+    expect(fieldForPath('/Faktura/Fa/P_14_2')).toBe('vatAmount');
+    expect(fieldForPath('/Faktura/Podmiot2/Adres/AdresL1')).toBe('buyer.address');
+    expect(fieldForPath('/Faktura/Fa/FaWiersz/P_8B')).toBe('lineItems.0.quantity');
+    expect(fieldForPath('/Faktura/Naglowek/SystemInfo')).toBeUndefined();
+  });
+});
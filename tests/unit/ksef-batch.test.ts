@@ -0,0 +1,192 @@
+/**
+ * KSeF Batch Session Unit Tests
+ * Packages, encrypts and submits batches against the local stand-in, and
+ * picks the invoices a batch may send
+ */
+
+import { createDecipheriv, createHash } from 'crypto';
+import JSZip from 'jszip';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  tenant: { findUnique: vi.fn() },
+  invoice: { findMany: vi.fn(), findUnique: vi.fn() },
+  kSeFSubmission: { findUnique: vi.fn(), upsert: vi.fn() },
+}));
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => prismaMock),
+}));
+
+import { buildBatchPackage, hashBatchDocument, parseBatchStatus } from '@/lib/ksef/batch';
+import { createKSeFClient } from '@/lib/ksef/client';
+import { submitInvoiceToKSeF, submitInvoicesToKSeFBatch } from '@/lib/ksef/submission-service';
+import type { KSeFBatchDocument } from '@/lib/ksef/types';
+import { createPkcs12 } from '../fixtures/ksef-certificates';
+import { startKSeFStandIn, type KSeFStandIn } from '../fixtures/ksef-stand-in';
+
+const NIP = '5260250274';
+const PASSWORD = 'seal-password';
+
+function invoiceDocument(number: number): KSeFBatchDocument {
+  return {
+    fileName: `invoice-${number}.xml`,
+    content: `<?xml version="1.0" encoding="UTF-8"?>
+<Faktura xmlns="http://crd.gov.pl/wzor/2025/06/25/13775/">
+  <Fa>
+    <P_1>2026-01-31</P_1>
+    <P_2>FV/${number}/01/2026</P_2>
+  </Fa>
+</Faktura>`,
+  };
+}
+
+describe('buildBatchPackage', () => {
+  it('zips, splits and encrypts documents into parts', async () => {
+    const documents = Array.from({ length: 20 }, (_, i) => invoiceDocument(i + 1));
+    const batchPackage = await buildBatchPackage(documents, { partSize: 512 });
+
+    expect(batchPackage.parts.length).toBeGreaterThan(1);
+    expect(batchPackage.parts.map((part) => part.fileName)[0]).toBe('batch.zip.001.aes');
+
+    const archive = Buffer.concat(
+      batchPackage.parts.map((part) => {
+        expect(createHash('sha256').update(part.content).digest('base64')).toBe(part.hash);
+        const decipher = createDecipheriv('aes-256-cbc', batchPackage.encryptionKey, batchPackage.iv);
+        return Buffer.concat([decipher.update(part.content), decipher.final()]);
+      })
+    );
+    expect(archive.length).toBe(batchPackage.size);
+    expect(createHash('sha256').update(archive).digest('base64')).toBe(batchPackage.hash);
+
+    const zip = await JSZip.loadAsync(archive);
+    expect(await zip.file('invoice-7.xml')!.async('string')).toBe(documents[6].content);
+  });
+
+  it('rejects an empty batch', async () => {
+    await expect(buildBatchPackage([])).rejects.toThrow(/at least one document/);
+  });
+});
+
+describe('parseBatchStatus', () => {
+  it('maps processing codes', () => {
+    expect(parseBatchStatus({ referenceNumber: 'ref', processingCode: 310 }).status).toBe('PROCESSING');
+    expect(
+      parseBatchStatus({ referenceNumber: 'ref', processingCode: 445, processingDescription: 'Brak poprawnych faktur' })
+    ).toMatchObject({ status: 'FAILED', documents: [] });
+  });
+});
+
+describe('KSeFClient batch sessions', () => {
+  const seal = createPkcs12('Deklaro Batch Seal', NIP, PASSWORD);
+  let standIn: KSeFStandIn;
+
+  beforeAll(async () => {
+    standIn = await startKSeFStandIn({
+      nip: NIP,
+      token: 'unused',
+      trustedCertificates: [seal.certificate],
+      batchPendingPolls: 1,
+    });
+  });
+
+  afterAll(async () => {
+    await standIn.close();
+  });
+
+  function batchClient() {
+    return createKSeFClient('test', NIP, {
+      apiUrl: standIn.url,
+      authMethod: 'certificate',
+      certificateData: seal.p12,
+      certificatePassword: PASSWORD,
+      publicKey: standIn.publicKey,
+    });
+  }
+
+  it('uploads every part and reports per-document KSeF numbers', async () => {
+    const documents = [invoiceDocument(1), invoiceDocument(2), invoiceDocument(3)];
+    const client = batchClient();
+
+    const session = await client.submitBatch(documents, { partSize: 256 });
+    expect(session.partCount).toBeGreaterThan(1);
+
+    const uploads = standIn.requests.filter((request) => request.method === 'PUT');
+    expect(uploads).toHaveLength(session.partCount);
+
+    expect((await client.getBatchStatus(session.referenceNumber)).status).toBe('PROCESSING');
+
+    const status = await client.getBatchStatus(session.referenceNumber);
+    expect(status.status).toBe('PROCESSED');
+    expect(status.documents).toHaveLength(3);
+    expect(status.documents.map((document) => document.documentHash).sort()).toEqual(
+      documents.map((document) => hashBatchDocument(document.content)).sort()
+    );
+    expect(status.documents[0].ksefNumber).toMatch(new RegExp(`^${NIP}-\\d{8}-[0-9A-F]{6}-[0-9A-F]{6}-[0-9A-F]{2}$`));
+  });
+
+  it('leaves rejected documents out of the UPO', async () => {
+    const client = batchClient();
+    const session = await client.submitBatch([
+      invoiceDocument(10),
+      { fileName: 'broken.xml', content: '<NotAnInvoice/>' },
+    ]);
+
+    await client.getBatchStatus(session.referenceNumber);
+    const status = await client.getBatchStatus(session.referenceNumber);
+
+    expect(status.documents.map((document) => document.invoiceNumber)).toEqual(['FV/10/01/2026']);
+  });
+
+  it('requires a certificate', async () => {
+    const client = createKSeFClient('test', NIP, {
+      apiUrl: standIn.url,
+      authMethod: 'token',
+      token: 'unused',
+      publicKey: standIn.publicKey,
+    });
+
+    await expect(client.submitBatch([invoiceDocument(1)])).rejects.toMatchObject({
+      message: 'KSeF batch sessions require a certificate',
+    });
+  });
+});
+
+describe('submitInvoicesToKSeFBatch', () => {
+  it('leaves queued, in-flight and sent invoices alone', async () => {
+    const statuses = ['PENDING', 'SUBMITTING', 'RETRYING', 'SUBMITTED', 'ACCEPTED', 'OFFLINE'];
+    prismaMock.tenant.findUnique.mockResolvedValue({ settings: {} });
+    prismaMock.invoice.findMany.mockResolvedValue(
+      statuses.map((status) => ({ id: status, status: 'APPROVED', ksefSubmission: { status } }))
+    );
+
+    const result = await submitInvoicesToKSeFBatch(statuses, 'tenant-1', NIP);
+
+    expect(result.success).toBe(false);
+    expect(result.skipped.map((skip) => skip.error)).toEqual([
+      'Invoice submission already in progress',
+      'Invoice submission already in progress',
+      'Invoice submission already in progress',
+      'Invoice already submitted, awaiting KSeF confirmation',
+      'Invoice already accepted by KSeF',
+      'Invoice issued offline, queued for upload',
+    ]);
+    expect(prismaMock.kSeFSubmission.upsert).not.toHaveBeenCalled();
+  });
+});
+
+describe('submitInvoiceToKSeF', () => {
+  it('does not resend invoices that are queued, in flight or issued offline', async () => {
+    prismaMock.invoice.findUnique.mockResolvedValue({ id: 'invoice-1', status: 'APPROVED', tenant: { settings: {} } });
+
+    for (const status of ['PENDING', 'SUBMITTING', 'RETRYING', 'OFFLINE']) {
+      prismaMock.kSeFSubmission.findUnique.mockResolvedValue({ id: 'submission-1', status });
+
+      await expect(submitInvoiceToKSeF('invoice-1', NIP)).resolves.toMatchObject({
+        success: false,
+        inProgress: true,
+      });
+    }
+    expect(prismaMock.kSeFSubmission.upsert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * KSeF Certificate Authentication Unit Tests
+ * Loads PKCS#12 containers and initialises XAdES-signed sessions against the local stand-in
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { buildInitSessionSignedRequest } from '@/lib/ksef/auth';
+import { createKSeFClient } from '@/lib/ksef/client';
+import { parsePkcs12 } from '@/lib/ksef/certificate';
+import { getTenantKSeFAuthOptions } from '@/lib/ksef/credentials';
+import { element, serializeExclusiveCanonical } from '@/lib/ksef/xml-c14n';
+import { createPkcs12 as createTestPkcs12 } from '../fixtures/ksef-certificates';
+import { startKSeFStandIn, type KSeFStandIn } from '../fixtures/ksef-stand-in';
+
+const NIP = '5260250274';
+const PASSWORD = 'seal-password';
+
+function createPkcs12(commonName: string) {
+  return createTestPkcs12(commonName, NIP, PASSWORD);
+}
+
+describe('parsePkcs12', () => {
+  const { p12, certificate } = createPkcs12('Deklaro Test Seal');
+
+  it('extracts the certificate and private key', () => {
+    const loaded = parsePkcs12(p12, PASSWORD);
+
+    expect(loaded.certificate.fingerprint256).toBe(certificate.fingerprint256);
+    expect(loaded.privateKey.asymmetricKeyType).toBe('rsa');
+  });
+
+  it('rejects a wrong password', () => {
+    expect(() => parsePkcs12(p12, 'wrong')).toThrow(/Unable to read PKCS#12/);
+  });
+});
+
+describe('KSeFClient certificate authentication', () => {
+  const trusted = createPkcs12('Deklaro Trusted Seal');
+  const untrusted = createPkcs12('Unknown Seal');
+  let standIn: KSeFStandIn;
+
+  beforeAll(async () => {
+    standIn = await startKSeFStandIn({
+      nip: NIP,
+      token: 'unused',
+      trustedCertificates: [trusted.certificate],
+    });
+  });
+
+  afterAll(async () => {
+    await standIn.close();
+  });
+
+  it('initialises a session with an XAdES-signed request', async () => {
+    const client = createKSeFClient('test', NIP, {
+      apiUrl: standIn.url,
+      authMethod: 'certificate',
+      certificateData: trusted.p12,
+      certificatePassword: PASSWORD,
+    });
+
+    const session = await client.authenticate();
+
+    expect(standIn.sessions.has(session.token)).toBe(true);
+
+    const initRequest = standIn.requests.find((r) => r.path === '/online/Session/InitSigned');
+    expect(initRequest?.body).toContain('InitSessionSignedRequest');
+    expect(initRequest?.body).toContain('<xades:SigningTime>');
+  });
+
+  it('rejects a request whose signed properties were altered', async () => {
+    const challengeResponse = await fetch(`${standIn.url}/online/Session/AuthorisationChallenge`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ contextIdentifier: { type: 'onip', identifier: NIP } }),
+    });
+    const { challenge } = await challengeResponse.json();
+
+    const signed = buildInitSessionSignedRequest({
+      challenge,
+      nip: NIP,
+      certificate: parsePkcs12(trusted.p12, PASSWORD),
+      signingTime: new Date('2026-01-01T10:00:00Z'),
+    });
+    const tampered = signed.replace('2026-01-01T10:00:00.000Z', '2026-01-02T10:00:00.000Z');
+
+    const response = await fetch(`${standIn.url}/online/Session/InitSigned`, {
+      method: 'POST',
+      body: tampered,
+    });
+
+    expect(response.status).toBe(401);
+    expect(await response.text()).toContain('Digest mismatch');
+  });
+
+  it('rejects a certificate the server does not trust', async () => {
+    const client = createKSeFClient('test', NIP, {
+      apiUrl: standIn.url,
+      authMethod: 'certificate',
+      certificateData: untrusted.p12.toString('base64'),
+      certificatePassword: PASSWORD,
+    });
+
+    await expect(client.authenticate()).rejects.toMatchObject({
+      code: '401',
+      message: expect.stringContaining('401'),
+    });
+  });
+
+  it('requires a certificate to be configured', async () => {
+    const client = createKSeFClient('test', NIP, {
+      apiUrl: standIn.url,
+      authMethod: 'certificate',
+    });
+
+    await expect(client.authenticate()).rejects.toMatchObject({
+      code: 'CREDENTIALS_ERROR',
+      message: 'KSeF certificate is not configured',
+    });
+  });
+});
+
+describe('getTenantKSeFAuthOptions', () => {
+  it('selects certificate auth from tenant settings', () => {
+    expect(
+      getTenantKSeFAuthOptions({
+        ksef: { authMethod: 'certificate', certificate: 'MIIKYQIBAzCCCicG', certificatePassword: 'x' },
+      })
+    ).toEqual({
+      authMethod: 'certificate',
+      certificateData: 'MIIKYQIBAzCCCicG',
+      certificatePassword: 'x',
+    });
+  });
+
+  it('returns no credentials without tenant settings', () => {
+    expect(getTenantKSeFAuthOptions(null)).toEqual({});
+  });
+});
+
+describe('serializeExclusiveCanonical', () => {
+  it('declares only visibly used namespaces', () => {
+    const node = element('ds:SignedInfo', [element('ds:Reference', [], { URI: '' })]);
+
+    expect(
+      serializeExclusiveCanonical(node, { '': 'urn:default', ds: 'urn:ds', xades: 'urn:xades' })
+    ).toBe('<ds:SignedInfo xmlns:ds="urn:ds"><ds:Reference URI=""></ds:Reference></ds:SignedInfo>');
+  });
+});
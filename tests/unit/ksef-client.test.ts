@@ -0,0 +1,101 @@
+/**
+ * KSeF Client Unit Tests
+ * Exercises session initialisation against the local KSeF stand-in server
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createKSeFClient } from '@/lib/ksef/client';
+import { parseInitSessionResponse } from '@/lib/ksef/auth';
+import { startKSeFStandIn, type KSeFStandIn } from '../fixtures/ksef-stand-in';
+
+const NIP = '5260250274';
+const TOKEN = 'D6F1A3B2C4E5F60718293A4B5C6D7E8F9A0B1C2D3E4F5A6B7C8D9E0F1A2B3C4D';
+
+describe('KSeFClient token authentication', () => {
+  let standIn: KSeFStandIn;
+
+  beforeAll(async () => {
+    standIn = await startKSeFStandIn({ nip: NIP, token: TOKEN, sessionTtlMs: 15 * 60 * 1000 });
+  });
+
+  afterAll(async () => {
+    await standIn.close();
+  });
+
+  it('initialises a session with the encrypted token', async () => {
+    const client = createKSeFClient('test', NIP, {
+      apiUrl: standIn.url,
+      token: TOKEN,
+      publicKey: standIn.publicKey,
+    });
+
+    const session = await client.authenticate();
+
+    expect(session.token).toMatch(/^[0-9a-f]{32}$/);
+    expect(standIn.sessions.has(session.token)).toBe(true);
+
+    const initRequest = standIn.requests.find((r) => r.path === '/online/Session/InitToken');
+    expect(initRequest?.body).toContain('InitSessionTokenRequest');
+    expect(initRequest?.body).toContain(`<ns2:Identifier>${NIP}</ns2:Identifier>`);
+    expect(initRequest?.body).not.toContain(TOKEN);
+  });
+
+  it('honours the server-provided expiry', async () => {
+    const client = createKSeFClient('test', NIP, {
+      apiUrl: standIn.url,
+      token: TOKEN,
+      publicKey: standIn.publicKey,
+    });
+
+    const session = await client.authenticate();
+    const serverExpiry = standIn.sessions.get(session.token)?.expiresAt;
+
+    expect(session.expiresAt.toISOString()).toBe(serverExpiry?.toISOString());
+  });
+
+  it('rejects an invalid token', async () => {
+    const client = createKSeFClient('test', NIP, {
+      apiUrl: standIn.url,
+      token: 'wrong-token',
+      publicKey: standIn.publicKey,
+    });
+
+    await expect(client.authenticate()).rejects.toMatchObject({
+      code: '401',
+      message: expect.stringContaining('401'),
+    });
+  });
+
+  it('terminates the session on logout', async () => {
+    const client = createKSeFClient('test', NIP, {
+      apiUrl: standIn.url,
+      token: TOKEN,
+      publicKey: standIn.publicKey,
+    });
+
+    const session = await client.authenticate();
+    await client.logout();
+
+    expect(standIn.sessions.has(session.token)).toBe(false);
+  });
+});
+
+describe('parseInitSessionResponse', () => {
+  it('falls back to a one hour session when no expiry is announced', () => {
+    const now = new Date('2026-02-01T10:00:00Z');
+    const session = parseInitSessionResponse(
+      `<ns3:InitSessionResponse xmlns:ns3="urn:test">
+        <ns3:ReferenceNumber>20260201-SE-1</ns3:ReferenceNumber>
+        <ns3:SessionToken><ns3:Token>abc</ns3:Token></ns3:SessionToken>
+      </ns3:InitSessionResponse>`,
+      now
+    );
+
+    expect(session.sessionId).toBe('20260201-SE-1');
+    expect(session.expiresAt.toISOString()).toBe('2026-02-01T11:00:00.000Z');
+  });
+
+  it('throws when the token is missing', () => {
+    expect(() => parseInitSessionResponse('<InitSessionResponse />')).toThrow(/SessionToken/);
+  });
+});
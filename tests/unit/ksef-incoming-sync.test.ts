@@ -0,0 +1,80 @@
+/**
+ * KSeF Incoming Sync Unit Tests
+ * Deduplication of invoices downloaded from KSeF per tenant
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const invoices = vi.hoisted(() => [] as Array<{ id: string; tenantId: string; ksefNumber: string }>);
+
+const prismaMock = vi.hoisted(() => ({
+  tenant: { findUnique: vi.fn(async () => ({ settings: {} })) },
+  kSeFSyncState: { findUnique: vi.fn(async () => null), upsert: vi.fn() },
+  invoice: {
+    findUnique: vi.fn(
+      async ({ where }: { where: { tenantId_ksefNumber: { tenantId: string; ksefNumber: string } } }) =>
+        invoices.find(
+          (invoice) =>
+            invoice.tenantId === where.tenantId_ksefNumber.tenantId &&
+            invoice.ksefNumber === where.tenantId_ksefNumber.ksefNumber
+        ) ?? null
+    ),
+  },
+}));
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => prismaMock),
+}));
+
+vi.mock('@/lib/ksef/credentials', () => ({
+  createTenantKSeFClient: () => ({
+    queryInvoices: async () => ({
+      invoices: [{ ksefNumber: KSEF_NUMBER, acquisitionTimestamp: new Date('2026-02-02T10:00:00Z') }],
+      total: 1,
+    }),
+    downloadInvoice: async () => '<Faktura/>',
+  }),
+  getTenantKSeFAuthOptions: vi.fn(),
+  getTenantKSeFSettings: vi.fn(),
+}));
+
+vi.mock('@/lib/ksef/storage', () => ({
+  storeKSeFInvoiceXml: async (tenantId: string, ksefNumber: string) => `${tenantId}/ksef/${ksefNumber}.xml`,
+}));
+
+vi.mock('@/lib/ksef/fa3-import', () => ({
+  importFA3Invoice: vi.fn(async (tenantId: string, _xml: string, options: { ksefNumber: string }) => {
+    invoices.push({ id: `invoice-${invoices.length + 1}`, tenantId, ksefNumber: options.ksefNumber });
+  }),
+}));
+
+import { syncIncomingInvoices } from '@/lib/ksef/incoming-sync';
+
+const KSEF_NUMBER = '5260250274-20260202-0A1B2C-3D4E5F-A1';
+
+describe('syncIncomingInvoices', () => {
+  beforeEach(() => {
+    invoices.length = 0;
+  });
+
+  it('imports an invoice whose seller is another tenant', async () => {
+    // The seller's outgoing invoice, accepted by KSeF
+    invoices.push({ id: 'seller-invoice', tenantId: 'seller-tenant', ksefNumber: KSEF_NUMBER });
+
+    const result = await syncIncomingInvoices('buyer-tenant', '7740001454');
+
+    expect(result).toMatchObject({ success: true, imported: 1, skipped: 0 });
+    expect(invoices.filter((invoice) => invoice.ksefNumber === KSEF_NUMBER).map((invoice) => invoice.tenantId)).toEqual([
+      'seller-tenant',
+      'buyer-tenant',
+    ]);
+  });
+
+  it('skips invoices the tenant already has', async () => {
+    invoices.push({ id: 'buyer-invoice', tenantId: 'buyer-tenant', ksefNumber: KSEF_NUMBER });
+
+    const result = await syncIncomingInvoices('buyer-tenant', '7740001454');
+
+    expect(result).toMatchObject({ success: true, imported: 0, skipped: 1 });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * KSeF Invoice Conversion Unit Tests
+ * Stored invoices converted to FA(3) and on to schema-valid XML, as they are sent to KSeF
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => ({})),
+}));
+
+import { XMLParser } from 'fast-xml-parser';
+import { extractInvoiceDataWithRules } from '@/lib/ai/rule-extraction';
+import { toStoredExtractedData } from '@/lib/ai/schemas/extracted-data';
+import { convertToFA3Xml } from '@/lib/ksef/fa3-converter';
+import { validateFA3Xml } from '@/lib/ksef/fa3-validator';
+import { convertInvoiceToFA3 } from '@/lib/ksef/submission-service';
+import { toLineItemVatRate } from '@/lib/vat-rates';
+import type { ExtractedData } from '@/types/ocr';
+
+const parser = new XMLParser({ ignoreAttributes: false, parseTagValue: false });
+
+const EXTRACTED: ExtractedData = {
+  invoice_number: 'FV/7/2026',
+  issue_date: '2026-03-02',
+  due_date: '2026-03-16',
+  seller: { name: 'Dostawca Sp. z o.o.', nip: '5260250274', address: null },
+  buyer: { name: 'Nabywca S.A.', nip: '7740001454', address: null },
+  currency: 'PLN',
+  net_amount: 1000,
+  vat_amount: 230,
+  gross_amount: 1230,
+  line_items: [],
+  invoice_type: 'SALE',
+  bank_account: 'PL61 1090 1014 0000 0712 1981 2874',
+};
+
+const EXEMPT_INVOICE_TEXT = [
+  'Faktura VAT nr FV/8/2026',
+  'Data wystawienia: 02.03.2026',
+  'Sprzedawca:',
+  'Dostawca Sp. z o.o.',
+  'NIP: 526-025-02-74',
+  'Nabywca:',
+  'Nabywca S.A.',
+  'NIP: 774-000-14-54',
+  'Lp. Nazwa Ilość Cena netto Stawka VAT Wartość netto Kwota VAT Wartość brutto',
+  '1 Szkolenie BHP 1 800,00 zw 800,00 0,00 800,00',
+  'Razem 800,00 0,00 800,00',
+  'Zwolnienie z VAT na podstawie art. 43 ust. 1 pkt 29 lit. c ustawy o VAT',
+].join('\n');
+
+type StoredInvoice = Parameters<typeof convertInvoiceToFA3>[0];
+
+function storedInvoice(overrides: Partial<StoredInvoice> = {}): StoredInvoice {
+  return {
+    invoiceNumber: 'FV/7/2026',
+    invoiceDate: new Date('2026-03-02'),
+    dueDate: new Date('2026-03-16'),
+    currency: 'PLN',
+    netAmount: 1000,
+    vatAmount: 230,
+    grossAmount: 1230,
+    extractedData: toStoredExtractedData(EXTRACTED, { payment_method: 'przelew' }),
+    lineItems: [
+      {
+        lineNumber: 1,
+        description: 'Usługa doradcza',
+        quantity: 1,
+        unitPrice: 1000,
+        vatRate: 23,
+        vatRateCode: null,
+        netAmount: 1000,
+        vatAmount: 230,
+        grossAmount: 1230,
+        beforeCorrection: false,
+      },
+    ],
+    correction: null,
+    ...overrides,
+  };
+}
+
+describe('convertInvoiceToFA3', () => {
+  it('sends the payment method and bank account', async () => {
+    const xml = convertToFA3Xml(convertInvoiceToFA3(storedInvoice()));
+    const platnosc = parser.parse(xml).Faktura.Fa.Platnosc;
+
+    expect(platnosc.FormaPlatnosci).toBe('6');
+    expect(platnosc.RachunekBankowy.NrRB).toBe('PL61109010140000071219812874');
+    expect((await validateFA3Xml(xml)).valid).toBe(true);
+  });
+});
+
+describe('exempt invoices', () => {
+  it('send the exemption basis read from the invoice', async () => {
+    const { extracted_data } = extractInvoiceDataWithRules(EXEMPT_INVOICE_TEXT, {
+      lineItemCandidates: [
+        {
+          page: 1,
+          position: 1,
+          description: 'Szkolenie BHP',
+          quantity: 1,
+          unit: 'szt.',
+          unit_price: 800,
+          vat_rate: 'zw',
+          net: 800,
+          vat: 0,
+          gross: 800,
+          confidence: 90,
+          consistent: true,
+        },
+      ],
+    });
+    const invoice = storedInvoice({
+      netAmount: extracted_data.net_amount,
+      vatAmount: extracted_data.vat_amount,
+      grossAmount: extracted_data.gross_amount,
+      extractedData: toStoredExtractedData(extracted_data),
+      lineItems: extracted_data.line_items.map((item, index) => ({
+        lineNumber: index + 1,
+        description: item.description,
+        quantity: item.quantity,
+        unitPrice: item.unit_price,
+        ...toLineItemVatRate(item.vat_rate),
+        netAmount: item.net,
+        vatAmount: item.vat,
+        grossAmount: item.gross,
+        beforeCorrection: false,
+      })),
+    });
+
+    const xml = convertToFA3Xml(convertInvoiceToFA3(invoice));
+    const fa = parser.parse(xml).Faktura.Fa;
+
+    expect(fa.FaWiersz.P_12).toBe('zw');
+    expect(fa.Adnotacje.Zwolnienie).toEqual({ P_19: '1', P_19A: 'art. 43 ust. 1 pkt 29 lit. c ustawy o VAT' });
+    expect(fa.Adnotacje.P_18).toBe('2');
+    expect((await validateFA3Xml(xml)).valid).toBe(true);
+  });
+
+  it('mark reverse charge', () => {
+    const extractedData = toStoredExtractedData({ ...EXTRACTED, reverse_charge: true });
+    const fa = parser.parse(convertToFA3Xml(convertInvoiceToFA3(storedInvoice({ extractedData })))).Faktura.Fa;
+
+    expect(fa.Adnotacje.P_18).toBe('1');
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * KSeF Offline Mode Unit Tests
+ * Upload deadlines, KOD I / KOD II verification links and offline uploads to the local stand-in
+ */
+
+import { constants, createHash, generateKeyPairSync, verify } from 'crypto';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  invoice: { findUnique: vi.fn(), update: vi.fn() },
+  kSeFSubmission: { findUnique: vi.fn(), upsert: vi.fn() },
+}));
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => prismaMock),
+}));
+
+import { toStoredExtractedData } from '@/lib/ai/schemas/extracted-data';
+import { parsePkcs12 } from '@/lib/ksef/certificate';
+import { createKSeFClient } from '@/lib/ksef/client';
+import { getKSeFOfflineDeadline } from '@/lib/ksef/offline';
+import { issueInvoiceOffline } from '@/lib/ksef/submission-service';
+import {
+  buildCertificateVerificationUrl,
+  buildInvoiceVerificationUrl,
+  generateKSeFVerificationCodes,
+  hashInvoiceForQR,
+} from '@/lib/ksef/verification-codes';
+import { createPkcs12 } from '../fixtures/ksef-certificates';
+import { startKSeFStandIn, type KSeFStandIn } from '../fixtures/ksef-stand-in';
+
+const NIP = '5260250274';
+const PASSWORD = 'offline-password';
+const TOKEN = 'D6F1A3B2C4E5F60718293A4B5C6D7E8F9A0B1C2D3E4F5A6B7C8D9E0F1A2B3C4D';
+const INVOICE_XML = '<Faktura><Fa><P_1>2026-02-06</P_1><P_2>FV/9/2026</P_2></Fa></Faktura>';
+
+describe('getKSeFOfflineDeadline', () => {
+  it('allows offline24 invoices until the end of the next business day', () => {
+    // Friday -> Monday
+    expect(getKSeFOfflineDeadline('OFFLINE24', new Date('2026-02-06T15:00:00Z')).toISOString()).toBe(
+      '2026-02-09T23:59:59.999Z'
+    );
+  });
+
+  it('allows seven business days in emergency mode', () => {
+    expect(getKSeFOfflineDeadline('EMERGENCY', new Date('2026-02-04T08:00:00Z')).toISOString()).toBe(
+      '2026-02-13T23:59:59.999Z'
+    );
+  });
+});
+
+describe('KOD I', () => {
+  it('links to the invoice by seller NIP, issue date and document hash', () => {
+    const hash = createHash('sha256').update(INVOICE_XML).digest('base64url');
+
+    expect(hashInvoiceForQR(INVOICE_XML)).toBe(hash);
+    expect(
+      buildInvoiceVerificationUrl({ environment: 'test', sellerNip: NIP, issueDate: '2026-02-06', fa3Xml: INVOICE_XML })
+    ).toBe(`https://qr-test.ksef.mf.gov.pl/invoice/${NIP}/06-02-2026/${hash}`);
+  });
+});
+
+describe('KOD II', () => {
+  const signedPath = (url: string) => {
+    const segments = url.replace(/^https:\/\//, '').split('/');
+    return { data: Buffer.from(segments.slice(0, -1).join('/')), signature: Buffer.from(segments.at(-1)!, 'base64url') };
+  };
+
+  it('is signed with RSA-PSS by an RSA offline certificate', () => {
+    const { p12, certificate } = createPkcs12('Deklaro Offline', NIP, PASSWORD);
+    const url = buildCertificateVerificationUrl({
+      environment: 'test',
+      contextNip: NIP,
+      sellerNip: NIP,
+      certificate: parsePkcs12(p12, PASSWORD),
+      fa3Xml: INVOICE_XML,
+    });
+
+    expect(url).toMatch(
+      new RegExp(`^https://qr-test\\.ksef\\.mf\\.gov\\.pl/certificate/Nip/${NIP}/${NIP}/0A1B2C3D/${hashInvoiceForQR(INVOICE_XML)}/`)
+    );
+
+    const { data, signature } = signedPath(url);
+    expect(
+      verify('sha256', data, { key: certificate.publicKey, padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 }, signature)
+    ).toBe(true);
+  });
+
+  it('is signed with ECDSA P-256 by an EC offline certificate', () => {
+    const { certificate } = createPkcs12('Deklaro Offline', NIP, PASSWORD);
+    const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+    const url = buildCertificateVerificationUrl({
+      environment: 'production',
+      contextNip: NIP,
+      sellerNip: NIP,
+      certificate: { certificate, privateKey },
+      fa3Xml: INVOICE_XML,
+    });
+
+    const { data, signature } = signedPath(url);
+    expect(signature).toHaveLength(64);
+    expect(verify('sha256', data, { key: publicKey, dsaEncoding: 'ieee-p1363' }, signature)).toBe(true);
+  });
+});
+
+describe('generateKSeFVerificationCodes', () => {
+  it('labels KOD I as OFFLINE until the KSeF number is known and adds KOD II', async () => {
+    const { p12 } = createPkcs12('Deklaro Offline', NIP, PASSWORD);
+
+    const codes = await generateKSeFVerificationCodes({
+      environment: 'test',
+      sellerNip: NIP,
+      issueDate: '2026-02-06',
+      fa3Xml: INVOICE_XML,
+      offlineCertificate: parsePkcs12(p12, PASSWORD),
+    });
+
+    expect(codes.invoice.label).toBe('OFFLINE');
+    expect(codes.invoice.svg).toContain('<svg');
+    expect(codes.certificate?.label).toBe('CERTYFIKAT');
+    expect(codes.certificate?.url).toContain('/certificate/Nip/');
+  });
+
+  it('labels KOD I with the KSeF number of online invoices', async () => {
+    const codes = await generateKSeFVerificationCodes({
+      environment: 'test',
+      sellerNip: NIP,
+      issueDate: '2026-02-06',
+      fa3Xml: INVOICE_XML,
+      ksefNumber: `${NIP}-20260206-0A1B2C3D4E5F-01`,
+    });
+
+    expect(codes.invoice.label).toBe(`${NIP}-20260206-0A1B2C3D4E5F-01`);
+    expect(codes.certificate).toBeUndefined();
+  });
+});
+
+describe('issueInvoiceOffline', () => {
+  it('queues nothing when the tenant has no offline certificate', async () => {
+    prismaMock.invoice.findUnique.mockResolvedValue({
+      id: 'invoice-1',
+      tenantId: 'tenant-1',
+      status: 'APPROVED',
+      invoiceNumber: 'FV/9/2026',
+      invoiceDate: new Date('2026-02-06'),
+      dueDate: null,
+      currency: 'PLN',
+      netAmount: 100,
+      vatAmount: 23,
+      grossAmount: 123,
+      extractedData: toStoredExtractedData({
+        invoice_number: 'FV/9/2026',
+        issue_date: '2026-02-06',
+        due_date: null,
+        seller: { name: 'Dostawca Sp. z o.o.', nip: NIP, address: null },
+        buyer: { name: 'Nabywca S.A.', nip: '7740001454', address: null },
+        currency: 'PLN',
+        net_amount: 100,
+        vat_amount: 23,
+        gross_amount: 123,
+        line_items: [],
+        invoice_type: 'SALE',
+      }),
+      lineItems: [
+        {
+          lineNumber: 1,
+          description: 'Usługa doradcza',
+          quantity: 1,
+          unitPrice: 100,
+          vatRate: 23,
+          vatRateCode: null,
+          netAmount: 100,
+          vatAmount: 23,
+          grossAmount: 123,
+          beforeCorrection: false,
+        },
+      ],
+      tenant: { settings: { ksef: { environment: 'test' } } },
+      correction: null,
+    });
+    prismaMock.kSeFSubmission.findUnique.mockResolvedValue(null);
+
+    const result = await issueInvoiceOffline('invoice-1', NIP, 'OFFLINE24');
+
+    expect(result).toMatchObject({ success: false, error: 'KSeF offline certificate is not configured' });
+    expect(prismaMock.kSeFSubmission.upsert).not.toHaveBeenCalled();
+    expect(prismaMock.invoice.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('KSeFClient offline upload', () => {
+  let standIn: KSeFStandIn;
+
+  beforeAll(async () => {
+    standIn = await startKSeFStandIn({ nip: NIP, token: TOKEN });
+  });
+
+  afterAll(async () => {
+    await standIn.close();
+  });
+
+  it('flags invoices issued offline when sending them', async () => {
+    const sent: Array<Record<string, string>> = [];
+    const client = createKSeFClient('test', NIP, {
+      apiUrl: standIn.url,
+      token: TOKEN,
+      publicKey: standIn.publicKey,
+      fetch: (input, init) => {
+        if (String(input).endsWith('/online/Invoice/Send')) {
+          sent.push(init?.headers as Record<string, string>);
+        }
+        return fetch(input, init);
+      },
+    });
+
+    await client.submitInvoice(INVOICE_XML, { offlineMode: true });
+    await client.submitInvoice(INVOICE_XML);
+
+    expect(sent[0].OfflineMode).toBe('true');
+    expect(sent[1].OfflineMode).toBeUndefined();
+  });
+});
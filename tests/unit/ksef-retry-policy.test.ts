@@ -0,0 +1,83 @@
+/**
+ * KSeF Retry Policy Unit Tests
+ * Error classification, backoff and retry cap for failed submissions
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  DEFAULT_KSEF_MAX_RETRIES,
+  getKSeFMaxRetries,
+  getKSeFRetryDelay,
+  isRetryableKSeFError,
+  KSEF_RETRY_MAX_DELAY_MS,
+  planKSeFRetry,
+} from '@/lib/ksef/retry-policy';
+
+describe('isRetryableKSeFError', () => {
+  it('retries network errors, throttling and server errors', () => {
+    expect(isRetryableKSeFError({ code: 'CLIENT_ERROR' })).toBe(true);
+    expect(isRetryableKSeFError({ code: 'UNKNOWN_ERROR' })).toBe(true);
+    expect(isRetryableKSeFError({ code: '429' })).toBe(true);
+    expect(isRetryableKSeFError({ code: '408' })).toBe(true);
+    expect(isRetryableKSeFError({ code: '503' })).toBe(true);
+  });
+
+  it('treats schema rejections and other client errors as permanent', () => {
+    expect(isRetryableKSeFError({ code: '400' })).toBe(false);
+    expect(isRetryableKSeFError({ code: '422' })).toBe(false);
+    expect(isRetryableKSeFError({ code: '445' })).toBe(false);
+  });
+
+  it('does not retry authentication and credential failures', () => {
+    expect(isRetryableKSeFError({ code: '401' })).toBe(false);
+    expect(isRetryableKSeFError({ code: '403' })).toBe(false);
+    expect(isRetryableKSeFError({ code: 'CREDENTIALS_ERROR' })).toBe(false);
+  });
+});
+
+describe('planKSeFRetry', () => {
+  const now = new Date('2026-02-01T10:00:00Z');
+
+  it('schedules the next retry with exponential backoff', () => {
+    expect(planKSeFRetry({ code: '503' }, 0, { now, maxRetries: 5 })).toEqual({
+      retry: true,
+      nextRetryAt: new Date('2026-02-01T10:05:00Z'),
+    });
+    expect(planKSeFRetry({ code: '503' }, 2, { now, maxRetries: 5 })).toEqual({
+      retry: true,
+      nextRetryAt: new Date('2026-02-01T10:20:00Z'),
+    });
+    expect(getKSeFRetryDelay(20)).toBe(KSEF_RETRY_MAX_DELAY_MS);
+  });
+
+  it('stops at the retry cap', () => {
+    expect(planKSeFRetry({ code: 'CLIENT_ERROR' }, 3, { now, maxRetries: 3 })).toEqual({
+      retry: false,
+      reason: 'EXHAUSTED',
+    });
+  });
+
+  it('does not retry permanent errors', () => {
+    expect(planKSeFRetry({ code: '400' }, 0, { now, maxRetries: 3 })).toEqual({
+      retry: false,
+      reason: 'PERMANENT',
+    });
+  });
+});
+
+describe('getKSeFMaxRetries', () => {
+  const original = process.env.KSEF_MAX_RETRIES;
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.KSEF_MAX_RETRIES;
+    else process.env.KSEF_MAX_RETRIES = original;
+  });
+
+  it('reads KSEF_MAX_RETRIES and falls back to the default', () => {
+    process.env.KSEF_MAX_RETRIES = '8';
+    expect(getKSeFMaxRetries()).toBe(8);
+
+    process.env.KSEF_MAX_RETRIES = 'many';
+    expect(getKSeFMaxRetries()).toBe(DEFAULT_KSEF_MAX_RETRIES);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * KSeF Status Polling Unit Tests
+ * Backoff schedule, invoice status and UPO retrieval against the local KSeF stand-in
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createKSeFClient } from '@/lib/ksef/client';
+import {
+  getKSeFStatusPollDelay,
+  KSEF_STATUS_POLL_MAX_ATTEMPTS,
+  KSEF_STATUS_POLL_MAX_DELAY_MS,
+  KSEF_STATUS_POLL_WINDOW_MS,
+} from '@/lib/ksef/status-polling';
+import { buildUPOStoragePath } from '@/lib/ksef/storage';
+import { startKSeFStandIn, type KSeFStandIn } from '../fixtures/ksef-stand-in';
+
+const NIP = '5260250274';
+const TOKEN = 'D6F1A3B2C4E5F60718293A4B5C6D7E8F9A0B1C2D3E4F5A6B7C8D9E0F1A2B3C4D';
+const INVOICE_XML = '<Faktura><Fa><P_2>FV/7/2026</P_2></Fa></Faktura>';
+
+describe('getKSeFStatusPollDelay', () => {
+  it('doubles the delay up to the cap', () => {
+    expect(getKSeFStatusPollDelay(0)).toBe(15_000);
+    expect(getKSeFStatusPollDelay(1)).toBe(30_000);
+    expect(getKSeFStatusPollDelay(3)).toBe(120_000);
+    expect(getKSeFStatusPollDelay(KSEF_STATUS_POLL_MAX_ATTEMPTS - 1)).toBe(KSEF_STATUS_POLL_MAX_DELAY_MS);
+  });
+
+  it('leaves submissions to the stale sweep after about three hours', () => {
+    expect(KSEF_STATUS_POLL_WINDOW_MS).toBe(127 * 15_000 + 5 * KSEF_STATUS_POLL_MAX_DELAY_MS);
+  });
+});
+
+describe('buildUPOStoragePath', () => {
+  it('stores UPOs under the tenant folder', () => {
+    expect(buildUPOStoragePath('tenant-1', { fileName: 'UPO_5260250274-20260201-ABC.xml' })).toBe(
+      'tenant-1/upo/UPO_5260250274-20260201-ABC.xml'
+    );
+  });
+});
+
+describe('KSeFClient invoice status', () => {
+  let standIn: KSeFStandIn;
+
+  beforeAll(async () => {
+    standIn = await startKSeFStandIn({ nip: NIP, token: TOKEN, invoicePendingPolls: 1 });
+  });
+
+  afterAll(async () => {
+    await standIn.close();
+  });
+
+  const client = () =>
+    createKSeFClient('test', NIP, {
+      apiUrl: standIn.url,
+      token: TOKEN,
+      publicKey: standIn.publicKey,
+    });
+
+  it('returns a reference number, not a KSeF number, when sending', async () => {
+    const result = await client().submitInvoice(INVOICE_XML);
+
+    expect(result.success).toBe(true);
+    expect(result.referenceNumber).toMatch(/-EE-/);
+    expect(result.ksefNumber).toBeUndefined();
+  });
+
+  it('reports PENDING until KSeF assigns the KSeF number', async () => {
+    const ksef = client();
+    const { referenceNumber } = await ksef.submitInvoice(INVOICE_XML);
+
+    const pending = await ksef.getInvoiceStatus(referenceNumber!);
+    expect(pending.status).toBe('PENDING');
+    expect(pending.ksefNumber).toBeUndefined();
+
+    const accepted = await ksef.getInvoiceStatus(referenceNumber!);
+    expect(accepted.status).toBe('ACCEPTED');
+    expect(accepted.ksefNumber).toMatch(new RegExp(`^${NIP}-\\d{8}-`));
+    expect(accepted.processingDate).toBeInstanceOf(Date);
+
+    const upo = await ksef.downloadUPO(accepted.ksefNumber!);
+    expect(upo.contentType).toContain('xml');
+    expect(upo.fileName).toBe(`UPO_${accepted.ksefNumber}.xml`);
+    expect(upo.content.toString('utf8')).toContain('<NumerFaktury>FV/7/2026</NumerFaktury>');
+  });
+
+  it('reports REJECTED with the KSeF processing code', async () => {
+    const ksef = client();
+    const { referenceNumber } = await ksef.submitInvoice('<NotAnInvoice />');
+
+    await ksef.getInvoiceStatus(referenceNumber!);
+    const rejected = await ksef.getInvoiceStatus(referenceNumber!);
+
+    expect(rejected.status).toBe('REJECTED');
+    expect(rejected.ksefNumber).toBeUndefined();
+    expect(rejected.error).toMatchObject({ code: '445' });
+  });
+});
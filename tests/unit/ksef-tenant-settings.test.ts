@@ -0,0 +1,230 @@
+/**
+ * KSeF Tenant Settings Unit Tests
+ * Secret encryption, settings updates, masking and the connection test against the local stand-in
+ */
+
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  tenant: { findUnique: vi.fn() },
+}));
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: vi.fn(() => prismaMock),
+}));
+
+import {
+  createTenantKSeFClient,
+  getTenantKSeFAuthOptions,
+  getTenantKSeFEnvironment,
+  getTenantKSeFOfflineCertificate,
+  mergeTenantKSeFSettings,
+  toPublicKSeFSettings,
+  type TenantKSeFSettings,
+} from '@/lib/ksef/credentials';
+import { decryptKSeFSecret, encryptKSeFSecret, isEncryptedKSeFSecret } from '@/lib/ksef/secrets';
+import { testTenantKSeFConnection } from '@/lib/ksef/tenant-settings';
+import { startKSeFStandIn, type KSeFStandIn } from '../fixtures/ksef-stand-in';
+
+const NIP = '5260250274';
+const TOKEN = 'D6F1A3B2C4E5F60718293A4B5C6D7E8F9A0B1C2D3E4F5A6B7C8D9E0F1A2B3C4D';
+const OFFLINE_CERTIFICATE = Buffer.from('offline certificate container').toString('base64');
+
+beforeEach(() => {
+  vi.stubEnv('KSEF_SETTINGS_ENCRYPTION_KEY', Buffer.alloc(32, 7).toString('base64'));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('KSeF secrets', () => {
+  it('encrypts with a random IV and decrypts back', () => {
+    const first = encryptKSeFSecret(TOKEN);
+    const second = encryptKSeFSecret(TOKEN);
+
+    expect(isEncryptedKSeFSecret(first)).toBe(true);
+    expect(first).not.toContain(TOKEN);
+    expect(first).not.toBe(second);
+    expect(decryptKSeFSecret(first)).toBe(TOKEN);
+  });
+
+  it('passes plaintext values stored before encryption through', () => {
+    expect(decryptKSeFSecret('legacy-token')).toBe('legacy-token');
+  });
+
+  it('rejects tampered ciphertext', () => {
+    const [prefix, version, iv, tag, ciphertext] = encryptKSeFSecret(TOKEN).split(':');
+    const tampered = Buffer.from(ciphertext, 'base64');
+    tampered[0] ^= 1;
+
+    expect(() =>
+      decryptKSeFSecret([prefix, version, iv, tag, tampered.toString('base64')].join(':'))
+    ).toThrow();
+  });
+});
+
+describe('mergeTenantKSeFSettings', () => {
+  it('encrypts new secrets and keeps stored ones that are omitted', () => {
+    const stored = mergeTenantKSeFSettings({}, {
+      environment: 'demo',
+      nip: NIP,
+      authMethod: 'token',
+      token: TOKEN,
+      offlineCertificate: OFFLINE_CERTIFICATE,
+      offlineCertificatePassword: 'offline',
+    });
+
+    const updated = mergeTenantKSeFSettings(stored, {
+      environment: 'production',
+      nip: NIP,
+      authMethod: 'token',
+    });
+
+    expect(stored.offlineCertificate).not.toContain(OFFLINE_CERTIFICATE);
+    expect(updated.token).toBe(stored.token);
+    expect(updated.offlineCertificate).toBe(stored.offlineCertificate);
+    expect(updated.offlineCertificatePassword).toBe(stored.offlineCertificatePassword);
+    expect(getTenantKSeFEnvironment({ ksef: updated })).toBe('production');
+    expect(getTenantKSeFAuthOptions({ ksef: updated })).toEqual({ authMethod: 'token', token: TOKEN });
+    expect(getTenantKSeFOfflineCertificate({ ksef: updated })).toEqual({
+      data: OFFLINE_CERTIFICATE,
+      password: 'offline',
+    });
+  });
+
+  it('removes secrets and certificates cleared with an empty value', () => {
+    const stored = mergeTenantKSeFSettings({}, {
+      environment: 'test',
+      nip: NIP,
+      authMethod: 'certificate',
+      certificate: OFFLINE_CERTIFICATE,
+      certificatePassword: 'seal',
+    });
+
+    const updated = mergeTenantKSeFSettings(stored, {
+      environment: 'test',
+      nip: NIP,
+      authMethod: 'certificate',
+      certificate: '',
+      certificatePassword: '',
+    });
+
+    expect(updated).toEqual({ environment: 'test', nip: NIP, authMethod: 'certificate' });
+  });
+});
+
+describe('toPublicKSeFSettings', () => {
+  it('reports whether secrets are set without returning them', () => {
+    const settings = {
+      ksef: mergeTenantKSeFSettings({}, { environment: 'demo', nip: NIP, authMethod: 'token', token: TOKEN }),
+    };
+
+    const published = toPublicKSeFSettings(settings);
+
+    expect(published).toEqual({
+      environment: 'demo',
+      nip: NIP,
+      authMethod: 'token',
+      hasToken: true,
+      hasCertificate: false,
+      hasCertificatePassword: false,
+      hasOfflineCertificate: false,
+      hasOfflineCertificatePassword: false,
+    });
+    expect(JSON.stringify(published)).not.toContain(settings.ksef.token);
+  });
+
+  it('defaults tenants without an environment to test', () => {
+    vi.stubEnv('KSEF_ENVIRONMENT', 'production');
+
+    expect(toPublicKSeFSettings(null).environment).toBe('test');
+  });
+});
+
+describe('createTenantKSeFClient', () => {
+  it('does not fall back to the server-wide credentials', async () => {
+    vi.stubEnv('KSEF_TOKEN', TOKEN);
+    vi.stubEnv('KSEF_CERTIFICATE_PATH', '/certs/seal.p12');
+    vi.stubEnv('KSEF_OFFLINE_CERTIFICATE_PATH', '/certs/offline.p12');
+    const settings = { ksef: { environment: 'test', nip: NIP, authMethod: 'certificate' } };
+
+    await expect(createTenantKSeFClient(settings, NIP).authenticate()).rejects.toMatchObject({
+      code: 'CREDENTIALS_ERROR',
+    });
+    expect(getTenantKSeFOfflineCertificate(settings)).toBeUndefined();
+  });
+});
+
+describe('testTenantKSeFConnection', () => {
+  let standIn: KSeFStandIn;
+
+  beforeAll(async () => {
+    standIn = await startKSeFStandIn({ nip: NIP, token: TOKEN });
+  });
+
+  afterAll(async () => {
+    await standIn.close();
+  });
+
+  const tenantWith = (ksef: TenantKSeFSettings) => {
+    prismaMock.tenant.findUnique.mockResolvedValue({ settings: { locale: 'pl', ksef } });
+  };
+
+  it('opens a session with the stored token and terminates it', async () => {
+    tenantWith(mergeTenantKSeFSettings({}, { environment: 'demo', nip: NIP, authMethod: 'token', token: TOKEN }));
+    const paths: string[] = [];
+
+    const result = await testTenantKSeFConnection('tenant-1', {
+      apiUrl: standIn.url,
+      publicKey: standIn.publicKey,
+      fetch: (input, init) => {
+        paths.push(new URL(String(input)).pathname);
+        return fetch(input, init);
+      },
+    });
+
+    expect(result).toMatchObject({ success: true, environment: 'demo' });
+    expect(result.sessionId).toBeTruthy();
+    expect(paths.at(-1)).toBe('/api/online/Session/Terminate');
+  });
+
+  it('reports rejected credentials', async () => {
+    tenantWith(mergeTenantKSeFSettings({}, { environment: 'test', nip: NIP, authMethod: 'token', token: 'wrong-token' }));
+
+    const result = await testTenantKSeFConnection('tenant-1', { apiUrl: standIn.url, publicKey: standIn.publicKey });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeTruthy();
+  });
+
+  it('does not return certificate read errors', async () => {
+    tenantWith(
+      mergeTenantKSeFSettings({}, {
+        environment: 'test',
+        nip: NIP,
+        authMethod: 'certificate',
+        certificate: OFFLINE_CERTIFICATE,
+        certificatePassword: 'seal',
+      })
+    );
+
+    const result = await testTenantKSeFConnection('tenant-1', { apiUrl: standIn.url, publicKey: standIn.publicKey });
+
+    expect(result).toEqual({
+      success: false,
+      environment: 'test',
+      error: 'KSeF credentials are missing or cannot be used',
+    });
+  });
+
+  it('requires a seller NIP', async () => {
+    tenantWith({ authMethod: 'token', token: TOKEN });
+
+    await expect(testTenantKSeFConnection('tenant-1')).resolves.toEqual({
+      success: false,
+      environment: 'test',
+      error: 'Seller NIP is not configured',
+    });
+  });
+});
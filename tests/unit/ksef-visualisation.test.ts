@@ -0,0 +1,144 @@
+/**
+ * KSeF Invoice Visualisation Unit Tests
+ * Covers the rendered PDF (parties, KSeF number, VAT table), per-rate totals and file names
+ */
+
+import { describe, expect, it } from 'vitest';
+import { PDFParse } from 'pdf-parse';
+import {
+  buildVisualisationFileName,
+  computeVatBreakdown,
+  renderInvoiceVisualisation,
+} from '@/lib/ksef/visualisation';
+import { convertToFA3Xml } from '@/lib/ksef/fa3-converter';
+import { generateKSeFVerificationCodes } from '@/lib/ksef/verification-codes';
+import type { FA3Invoice, FA3LineItem } from '@/lib/ksef/types';
+
+const KSEF_NUMBER = '5260250274-20260210-0A1B2C3D4E5F-6A';
+
+function lineItem(lineNumber: number, vatRate: FA3LineItem['vatRate'], net: number, vat: number): FA3LineItem {
+  return {
+    lineNumber,
+    description: `Pozycja ${lineNumber}`,
+    quantity: 1,
+    unitOfMeasure: 'szt',
+    unitPrice: net,
+    netAmount: net,
+    vatRate,
+    vatAmount: vat,
+    grossAmount: net + vat,
+  };
+}
+
+function buildInvoice(overrides: Partial<FA3Invoice> = {}): FA3Invoice {
+  return {
+    header: {
+      invoiceNumber: 'FV/001/2026',
+      issueDate: '2026-02-10',
+      sellDate: '2026-02-09',
+      dueDate: '2026-02-24',
+      currency: 'PLN',
+      invoiceType: 'VAT',
+    },
+    parties: {
+      seller: {
+        nip: '5260250274',
+        name: 'Sprzedawca Sp. z o.o.',
+        address: { street: 'Prosta', houseNumber: '10', city: 'Warszawa', postalCode: '00-850', country: 'PL' },
+      },
+      buyer: {
+        nip: '7740001454',
+        name: 'Nabywca Łódź S.A.',
+        address: { street: 'Długa', houseNumber: '5', city: 'Płock', postalCode: '09-411', country: 'PL' },
+      },
+    },
+    lineItems: [
+      lineItem(1, 23, 100, 23),
+      lineItem(2, 23, 50, 11.5),
+      lineItem(3, 8, 200, 16),
+      lineItem(4, 'zw', 40, 0),
+    ],
+    summary: {
+      netAmount: 390,
+      vatAmount: 50.5,
+      grossAmount: 440.5,
+      currency: 'PLN',
+      bankAccount: 'PL61 1090 1014 0000 0712 1981 2874',
+    },
+    annotations: {
+      exemption: { basis: 'A', description: 'art. 43 ust. 1 pkt 37 ustawy o VAT' },
+    },
+    ...overrides,
+  };
+}
+
+async function extractText(pdf: Buffer): Promise<string> {
+  const parser = new PDFParse({ data: new Uint8Array(pdf) });
+  try {
+    return (await parser.getText()).text;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+describe('renderInvoiceVisualisation', () => {
+  it('renders a PDF with parties, line items and the amount due', async () => {
+    const pdf = renderInvoiceVisualisation(buildInvoice());
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+
+    const text = await extractText(pdf);
+    expect(text).toContain('FV/001/2026');
+    expect(text).toContain('Sprzedawca Sp. z o.o.');
+    expect(text).toContain('Nabywca Łódź S.A.');
+    expect(text).toContain('Pozycja 3');
+    expect(text).toContain('art. 43 ust. 1 pkt 37 ustawy o VAT');
+    expect(text).toContain('Faktura nieprzesłana do KSeF');
+  });
+
+  it('includes the KSeF number and the verification code label', async () => {
+    const invoice = buildInvoice();
+    const verificationCodes = await generateKSeFVerificationCodes({
+      environment: 'test',
+      sellerNip: invoice.parties.seller.nip,
+      issueDate: invoice.header.issueDate,
+      fa3Xml: convertToFA3Xml(invoice),
+      ksefNumber: KSEF_NUMBER,
+    });
+
+    const text = await extractText(
+      renderInvoiceVisualisation(invoice, { ksefNumber: KSEF_NUMBER, verificationCodes })
+    );
+
+    expect(text).toContain(`Numer KSeF: ${KSEF_NUMBER}`);
+    expect(text.split(KSEF_NUMBER).length).toBeGreaterThan(2);
+  });
+});
+
+describe('computeVatBreakdown', () => {
+  it('sums net and VAT amounts per rate', () => {
+    expect(computeVatBreakdown(buildInvoice())).toEqual([
+      { vatRate: 23, netAmount: 150, vatAmount: 34.5 },
+      { vatRate: 8, netAmount: 200, vatAmount: 16 },
+      { vatRate: 'zw', netAmount: 40, vatAmount: 0 },
+    ]);
+  });
+
+  it('subtracts rows before correction', () => {
+    const invoice = buildInvoice({
+      lineItems: [
+        { ...lineItem(1, 23, 100, 23), beforeCorrection: true },
+        lineItem(1, 23, 80, 18.4),
+      ],
+    });
+
+    expect(computeVatBreakdown(invoice)).toEqual([{ vatRate: 23, netAmount: -20, vatAmount: -4.6 }]);
+  });
+});
+
+describe('buildVisualisationFileName', () => {
+  it('replaces characters that are not safe in file names', () => {
+    expect(buildVisualisationFileName('FV/001/2026')).toBe('FV_001_2026.pdf');
+    expect(buildVisualisationFileName('/')).toBe('faktura.pdf');
+  });
+});
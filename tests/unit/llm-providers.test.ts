@@ -0,0 +1,162 @@
+/**
+ * LLM Provider Unit Tests
+ * Covers choosing the provider and models per tenant, and running extraction,
+ * image extraction and classification on an injected fake provider
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  checkTenantAiSettings,
+  createFakeLlmProvider,
+  getLlmProvider,
+  getTenantAiSettings,
+  resolveLlmProviderName,
+} from '@/lib/ai/providers';
+import { extractInvoiceData } from '@/lib/ai/extraction-service';
+import { extractInvoiceWithVision } from '@/lib/ai/vision-extraction';
+import { classifyInvoiceType } from '@/lib/ai/classifier';
+import type { ExtractedData } from '@/types/ocr';
+
+const INVOICE: ExtractedData = {
+  invoice_number: 'FV/10/2025',
+  issue_date: '2025-10-01',
+  due_date: null,
+  seller: { name: 'ACME Sp. z o.o.', nip: '1234563218', address: null },
+  buyer: { name: 'Klient S.A.', nip: '5260001246', address: null },
+  currency: 'PLN',
+  net_amount: 100,
+  vat_amount: 23,
+  gross_amount: 123,
+  line_items: [],
+  invoice_type: 'SALE',
+};
+
+const AI_REPLY = {
+  extracted_data: INVOICE,
+  confidence: {
+    invoice_number: 90,
+    issue_date: 90,
+    due_date: 50,
+    seller_name: 90,
+    seller_nip: 90,
+    buyer_name: 90,
+    buyer_nip: 90,
+    net_amount: 90,
+    vat_amount: 90,
+    gross_amount: 90,
+    line_items: 80,
+  },
+};
+
+const ENV_KEYS = ['LLM_PROVIDER', 'OPENAI_API_KEY', 'LOCAL_LLM_BASE_URL', 'LOCAL_LLM_MODEL', 'LOCAL_LLM_VISION_MODEL'];
+
+describe('provider selection', () => {
+  const saved = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+
+  beforeEach(() => {
+    ENV_KEYS.forEach((key) => delete process.env[key]);
+  });
+
+  afterEach(() => {
+    Object.entries(saved).forEach(([key, value]) => {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    });
+  });
+
+  it('reads Tenant.settings.ai', () => {
+    expect(getTenantAiSettings({ ai: { provider: 'azure', models: { vision: 'gpt-4o-eu', chat: 'x' } } })).toEqual({
+      provider: 'azure',
+      models: { vision: 'gpt-4o-eu' },
+    });
+    expect(getTenantAiSettings({ ai: { provider: 'anthropic' } })).toEqual({});
+    expect(getTenantAiSettings(null)).toEqual({});
+  });
+
+  it('prefers the tenant, then LLM_PROVIDER, then OpenAI', () => {
+    expect(resolveLlmProviderName()).toBe('openai');
+
+    process.env.LLM_PROVIDER = 'azure';
+    expect(resolveLlmProviderName()).toBe('azure');
+    expect(resolveLlmProviderName({ provider: 'local' })).toBe('local');
+  });
+
+  it('rejects a tenant provider that is not configured', () => {
+    process.env.OPENAI_API_KEY = 'test-key';
+
+    expect(checkTenantAiSettings({ provider: 'local' })).toBe('LLM provider "local" is not configured on this server');
+    expect(checkTenantAiSettings({ provider: 'openai', models: { extraction: 'gpt-4o' } })).toBeNull();
+    expect(checkTenantAiSettings({})).toBeNull();
+  });
+
+  it('applies tenant models to the local provider', () => {
+    process.env.LOCAL_LLM_BASE_URL = 'http://localhost:11434/v1';
+    process.env.LOCAL_LLM_MODEL = 'llama3.1:8b';
+
+    const provider = getLlmProvider({ provider: 'local', models: { extraction: 'qwen2.5:14b' } });
+
+    expect(provider.name).toBe('local');
+    expect(provider.isAvailable()).toBe(true);
+    expect(provider.model('extraction')).toBe('qwen2.5:14b');
+    expect(provider.model('classification')).toBe('llama3.1:8b');
+    expect(provider.model('vision')).toBeUndefined();
+  });
+
+  it('does not fall back to OpenAI when the tenant provider is not configured', async () => {
+    process.env.OPENAI_API_KEY = 'test-key';
+
+    const result = await extractInvoiceData('Faktura nr 1/2025', {
+      mode: 'hybrid',
+      provider: getLlmProvider({ provider: 'local' }),
+    });
+
+    expect(result.source).toBe('rules');
+    expect(result.token_usage.total_tokens).toBe(0);
+  });
+
+  it('refuses image extraction without a vision model', async () => {
+    process.env.LOCAL_LLM_BASE_URL = 'http://localhost:11434/v1';
+    process.env.LOCAL_LLM_MODEL = 'llama3.1:8b';
+
+    await expect(extractInvoiceWithVision(Buffer.from('image'), getLlmProvider({ provider: 'local' }))).rejects.toThrow(
+      /no vision model/
+    );
+  });
+});
+
+describe('fake provider', () => {
+  it('answers extraction deterministically', async () => {
+    const provider = createFakeLlmProvider(AI_REPLY);
+
+    const first = await extractInvoiceData('Faktura nr FV/10/2025', { mode: 'ai', provider });
+    const second = await extractInvoiceData('Faktura nr FV/10/2025', { mode: 'ai', provider });
+
+    expect(first.extracted_data.invoice_number).toBe('FV/10/2025');
+    expect(first.llm_model).toBe('fake:fake-extraction');
+    expect(first.token_usage).toEqual(second.token_usage);
+    expect(provider.requests[0]).toMatchObject({ task: 'extraction', json: true });
+  });
+
+  it('sends invoice images to the vision model', async () => {
+    const provider = createFakeLlmProvider(AI_REPLY);
+
+    const result = await extractInvoiceWithVision([Buffer.from('page 1'), Buffer.from('page 2')], provider);
+    const [content] = provider.requests[0].messages.map((message) => message.content);
+
+    expect(result.extracted_data.gross_amount).toBe(123);
+    expect(provider.requests[0].task).toBe('vision');
+    expect(Array.isArray(content) && content.filter((part) => part.type === 'image_url')).toHaveLength(2);
+  });
+
+  it('classifies on the given provider', async () => {
+    const provider = createFakeLlmProvider((request) => ({
+      type: request.task === 'classification' ? 'INCOMING' : 'UNKNOWN',
+      confidence: 0.8,
+      rationale: 'Tenant is the buyer.',
+    }));
+
+    const result = await classifyInvoiceType(INVOICE, '9999999999', 'Faktura', provider);
+
+    expect(result).toEqual({ type: 'INCOMING', confidence: 0.8, rationale: 'Tenant is the buyer.' });
+  });
+});
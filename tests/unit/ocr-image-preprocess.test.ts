@@ -0,0 +1,223 @@
+/**
+ * Image Preprocessing Unit Tests
+ * Covers deskew angle estimation, adaptive binarisation, perspective correction
+ * and picking the most confident preprocessing profile
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const preprocessImageMock = vi.hoisted(() => vi.fn());
+const tesseractMock = vi.hoisted(() => ({
+  recognize: vi.fn(),
+  terminate: vi.fn(async () => undefined),
+}));
+
+// sharp is only needed by preprocessImage itself, which is replaced here
+vi.mock('@/lib/ocr/pipeline/preprocess', () => ({ preprocessImage: preprocessImageMock }));
+vi.mock('tesseract.js', () => ({ createWorker: vi.fn(async () => tesseractMock) }));
+
+import { estimateSkewAngle } from '@/lib/ocr/pipeline/deskew';
+import {
+  computeHomography,
+  findDocumentCorners,
+  projectPoint,
+  warpPerspective,
+  type Quad,
+} from '@/lib/ocr/pipeline/perspective';
+import { downscale, otsuThreshold, type GrayImage } from '@/lib/ocr/pipeline/raster';
+import { adaptiveThreshold } from '@/lib/ocr/pipeline/threshold';
+import { recogniseInvoiceWithProfiles } from '@/lib/ocr/tesseract';
+
+function blankImage(width: number, height: number, value = 255): GrayImage {
+  return { data: new Uint8Array(width * height).fill(value), width, height };
+}
+
+/**
+ * White page with dashed "text lines" tilted by `angle` degrees (clockwise)
+ */
+function skewedLines(angle: number): GrayImage {
+  const image = blankImage(600, 400);
+  const slope = Math.tan((angle * Math.PI) / 180);
+
+  for (let line = 0; line < 10; line++) {
+    const baseline = 60 + line * 28;
+    for (let x = 40; x < 560; x++) {
+      // Gaps between "words"
+      if (x % 60 > 50) continue;
+      for (let thickness = 0; thickness < 4; thickness++) {
+        const y = Math.round(baseline + x * slope) + thickness;
+        if (y >= 0 && y < image.height) {
+          image.data[y * image.width + x] = 0;
+        }
+      }
+    }
+  }
+
+  return image;
+}
+
+function fillQuad(image: GrayImage, quad: Quad, value: number) {
+  // Point-in-convex-polygon test: same side of every edge
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const inside = quad.every((point, index) => {
+        const next = quad[(index + 1) % 4];
+        return (next.x - point.x) * (y - point.y) - (next.y - point.y) * (x - point.x) >= 0;
+      });
+      if (inside) {
+        image.data[y * image.width + x] = value;
+      }
+    }
+  }
+}
+
+describe('estimateSkewAngle', () => {
+  it.each([0, 2.5, -4, 7])('finds text lines tilted by %s°', (angle) => {
+    expect(estimateSkewAngle(skewedLines(angle))).toBeCloseTo(angle, 0);
+  });
+
+  it('returns 0 for a blank page', () => {
+    expect(estimateSkewAngle(blankImage(200, 200))).toBe(0);
+  });
+});
+
+describe('adaptiveThreshold', () => {
+  it('keeps text readable under a shadow that defeats a global threshold', () => {
+    // Paper brightness falls from 250 on the left to 90 in a shadow on the right;
+    // ink is always 60 levels darker than the paper around it
+    const image = blankImage(300, 60);
+    for (let y = 0; y < image.height; y++) {
+      for (let x = 0; x < image.width; x++) {
+        const paper = Math.round(250 - (160 * x) / image.width);
+        const ink = y >= 25 && y < 35 && x % 20 < 6;
+        image.data[y * image.width + x] = ink ? paper - 60 : paper;
+      }
+    }
+
+    const global = otsuThreshold(image);
+    const shadowedPaper = image.data[10 * image.width + 290];
+    expect(shadowedPaper).toBeLessThan(global);
+
+    const binary = adaptiveThreshold(image, { windowSize: 31 });
+    const at = (x: number, y: number) => binary.data[y * binary.width + x];
+
+    expect([...binary.data].every((value) => value === 0 || value === 255)).toBe(true);
+    // Ink is black and paper is white on both the bright and the shadowed side
+    expect(at(22, 30)).toBe(0);
+    expect(at(282, 30)).toBe(0);
+    expect(at(30, 10)).toBe(255);
+    expect(at(290, 10)).toBe(255);
+  });
+});
+
+describe('perspective correction', () => {
+  const sheet: Quad = [
+    { x: 60, y: 30 },
+    { x: 330, y: 50 },
+    { x: 350, y: 280 },
+    { x: 40, y: 260 },
+  ];
+
+  it('maps each corner onto its target with the homography', () => {
+    const target: Quad = [
+      { x: 0, y: 0 },
+      { x: 299, y: 0 },
+      { x: 299, y: 229 },
+      { x: 0, y: 229 },
+    ];
+    const matrix = computeHomography(sheet, target);
+
+    sheet.forEach((corner, index) => {
+      const projected = projectPoint(matrix, corner);
+      expect(projected.x).toBeCloseTo(target[index].x, 6);
+      expect(projected.y).toBeCloseTo(target[index].y, 6);
+    });
+  });
+
+  it('finds a photographed sheet and warps it into an upright page', () => {
+    const photo = blankImage(400, 320, 40);
+    fillQuad(photo, sheet, 235);
+
+    const corners = findDocumentCorners(photo);
+    expect(corners).not.toBeNull();
+    corners!.forEach((corner, index) => {
+      expect(Math.abs(corner.x - sheet[index].x)).toBeLessThanOrEqual(2);
+      expect(Math.abs(corner.y - sheet[index].y)).toBeLessThanOrEqual(2);
+    });
+
+    const page = warpPerspective(photo, corners!);
+    expect(page.width).toBeGreaterThan(280);
+    expect(page.height).toBeGreaterThan(220);
+    // Only paper is left: the dark desk around the sheet is cut away
+    const dark = [...page.data].filter((value) => value < 128).length;
+    expect(dark / page.data.length).toBeLessThan(0.02);
+  });
+
+  it('leaves flat, cropped scans alone', () => {
+    const scan = blankImage(200, 280);
+    fillQuad(
+      scan,
+      [
+        { x: 40, y: 40 },
+        { x: 160, y: 40 },
+        { x: 160, y: 60 },
+        { x: 40, y: 60 },
+      ],
+      0
+    );
+
+    expect(findDocumentCorners(downscale(scan, 100))).toBeNull();
+  });
+});
+
+describe('recogniseInvoiceWithProfiles', () => {
+  beforeEach(() => {
+    preprocessImageMock.mockReset();
+    tesseractMock.recognize.mockReset();
+    tesseractMock.terminate.mockClear();
+
+    // Each profile produces a distinct image; OCR confidence depends on which one
+    preprocessImageMock.mockImplementation(async (_input: Buffer, options: { deskew?: boolean; perspective?: boolean }) => ({
+      buffer: Buffer.from(options.perspective ? 'photo' : options.deskew ? 'scan' : 'standard'),
+      metadata: {},
+    }));
+  });
+
+  function recognised(confidenceByImage: Record<string, number>) {
+    tesseractMock.recognize.mockImplementation(async (image: Buffer) => ({
+      data: { text: `FAKTURA (${image.toString()})`, confidence: confidenceByImage[image.toString()], words: [] },
+    }));
+  }
+
+  it('keeps the result of the most confident profile', async () => {
+    recognised({ standard: 41, scan: 78, photo: 63 });
+
+    const result = await recogniseInvoiceWithProfiles(Buffer.from('image'));
+
+    expect(result.confidence).toBe(78);
+    expect(result.text).toBe('FAKTURA (scan)');
+    expect(result.metadata?.preprocessProfile).toBe('scan');
+    expect(tesseractMock.recognize).toHaveBeenCalledTimes(3);
+    expect(tesseractMock.terminate).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops once a profile is confident enough', async () => {
+    recognised({ standard: 93, scan: 95, photo: 97 });
+
+    const result = await recogniseInvoiceWithProfiles(Buffer.from('image'));
+
+    expect(result.metadata?.preprocessProfile).toBe('standard');
+    expect(tesseractMock.recognize).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips a profile that fails and rethrows when none works', async () => {
+    recognised({ scan: 70 });
+    preprocessImageMock.mockRejectedValueOnce(new Error('corrupt image'));
+
+    const result = await recogniseInvoiceWithProfiles(Buffer.from('image'), ['standard', 'scan']);
+    expect(result.metadata?.preprocessProfile).toBe('scan');
+
+    preprocessImageMock.mockRejectedValue(new Error('corrupt image'));
+    await expect(recogniseInvoiceWithProfiles(Buffer.from('image'), ['standard'])).rejects.toThrow('corrupt image');
+  });
+});
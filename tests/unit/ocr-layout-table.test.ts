@@ -0,0 +1,241 @@
+/**
+ * Line-Item Table Reconstruction Unit Tests
+ * Covers Polish number parsing, header detection, wrapped descriptions and
+ * tables continued across pages, using synthetic OCR word boxes
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  groupWordsIntoRows,
+  parsePolishNumber,
+  parseVatRate,
+  reconstructLineItemTable,
+} from '@/lib/ocr/layout/table';
+import type { OcrWord } from '@/lib/ocr/types';
+
+const CHAR_WIDTH = 7;
+const SPACE = 4;
+const LINE_HEIGHT = 12;
+
+/**
+ * Words of one printed line; each cell is [text, x] and may hold several words
+ */
+function line(y: number, cells: Array<[string, number]>, page = 1, confidence = 90): OcrWord[] {
+  return cells.flatMap(([text, x]) => {
+    let cursor = x;
+    return text.split(' ').map((word) => {
+      const x0 = cursor;
+      cursor += word.length * CHAR_WIDTH + SPACE;
+      return {
+        text: word,
+        confidence,
+        page,
+        bbox: { x0, y0: y, x1: x0 + word.length * CHAR_WIDTH, y1: y + LINE_HEIGHT },
+      };
+    });
+  });
+}
+
+const COLUMN_X = {
+  index: 20,
+  description: 50,
+  quantity: 270,
+  unit: 320,
+  unitPrice: 365,
+  vatRate: 460,
+  net: 545,
+  vat: 650,
+  gross: 735,
+};
+
+function header(y: number, page = 1): OcrWord[] {
+  return line(
+    y,
+    [
+      ['Lp.', COLUMN_X.index],
+      ['Nazwa towaru/usługi', COLUMN_X.description],
+      ['Ilość', COLUMN_X.quantity],
+      ['J.m.', COLUMN_X.unit],
+      ['Cena netto', COLUMN_X.unitPrice],
+      ['Stawka VAT', COLUMN_X.vatRate],
+      ['Wartość netto', COLUMN_X.net],
+      ['Kwota VAT', COLUMN_X.vat],
+      ['Wartość brutto', COLUMN_X.gross],
+    ],
+    page
+  );
+}
+
+function item(
+  y: number,
+  values: [string, string, string, string, string, string, string, string, string],
+  page = 1
+): OcrWord[] {
+  const xs = Object.values(COLUMN_X);
+  return line(
+    y,
+    values.map((value, index) => [value, xs[index] + 5] as [string, number]).filter(([value]) => value),
+    page
+  );
+}
+
+describe('parsePolishNumber', () => {
+  it.each([
+    ['1 234,56', 1234.56],
+    ['1.234,56', 1234.56],
+    ['1,234.56', 1234.56],
+    ['150,00 zł', 150],
+    ['1 000 000,00', 1000000],
+    ['2.5', 2.5],
+    ['-12,30', -12.3],
+    ['23%', 23],
+  ])('reads %s', (text, expected) => {
+    expect(parsePolishNumber(text)).toBe(expected);
+  });
+
+  it('returns null without digits', () => {
+    expect(parsePolishNumber('szt.')).toBeNull();
+  });
+});
+
+describe('parseVatRate', () => {
+  it('reads percentages and exemption codes', () => {
+    expect(parseVatRate('23%')).toBe(23);
+    expect(parseVatRate('8 %')).toBe(8);
+    expect(parseVatRate('zw')).toBe('zw');
+    expect(parseVatRate('NP')).toBe('np');
+    expect(parseVatRate('-')).toBeNull();
+  });
+});
+
+describe('groupWordsIntoRows', () => {
+  it('keeps slightly uneven baselines in one row, ordered left to right', () => {
+    const words = [...line(102, [['345,00', 650]]), ...line(100, [['Usługa', 50]]), ...line(130, [['Razem', 50]])];
+
+    const rows = groupWordsIntoRows(words);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0].words.map((word) => word.text)).toEqual(['Usługa', '345,00']);
+  });
+});
+
+describe('reconstructLineItemTable', () => {
+  it('reads each column of a multi-column item table', () => {
+    const words = [
+      ...line(20, [['Faktura VAT nr FV/10/2025', 50]]),
+      ...line(40, [['Sprzedawca: ACME Sp. z o.o. NIP 123-456-32-18', 50]]),
+      ...header(100),
+      ...item(120, ['1', 'Usługa programistyczna', '10', 'godz.', '150,00', '23%', '1 500,00', '345,00', '1 845,00']),
+      ...item(140, ['2', 'Licencja roczna', '1', 'szt.', '1 200,00', '23%', '1 200,00', '276,00', '1 476,00']),
+      ...item(160, ['3', 'Książka', '2', 'szt.', '45,00', '5%', '90,00', '4,50', '94,50']),
+      ...line(190, [['Razem', 50], ['2 790,00', 550], ['625,50', 655], ['3 415,50', 740]]),
+      ...line(220, [['Do zapłaty: 3 415,50 PLN', 50]]),
+    ];
+
+    const table = reconstructLineItemTable(words);
+
+    expect(table?.columns.map((column) => column.kind)).toEqual([
+      'index',
+      'description',
+      'quantity',
+      'unit',
+      'unitPrice',
+      'vatRate',
+      'net',
+      'vat',
+      'gross',
+    ]);
+    expect(table?.items).toHaveLength(3);
+    expect(table?.items[0]).toEqual({
+      page: 1,
+      position: 1,
+      description: 'Usługa programistyczna',
+      quantity: 10,
+      unit: 'godz.',
+      unit_price: 150,
+      vat_rate: 23,
+      net: 1500,
+      vat: 345,
+      gross: 1845,
+      confidence: 90,
+      consistent: true,
+    });
+    expect(table?.items[2]).toMatchObject({ description: 'Książka', vat_rate: 5, net: 90, vat: 4.5, consistent: true });
+  });
+
+  it('keeps a wrapped description with its item and ignores notes below the table', () => {
+    const words = [
+      ...header(100),
+      ...item(120, ['1', 'Abonament serwisowy', '1', 'mc', '500,00', '23%', '500,00', '115,00', '615,00']),
+      ...line(134, [['za październik 2025', COLUMN_X.description + 5]]),
+      ...item(150, ['2', 'Dojazd', '1', 'szt.', '100,00', 'zw', '100,00', '', '100,00']),
+      ...line(200, [['Uwagi: płatność przelewem', COLUMN_X.description]]),
+    ];
+
+    const items = reconstructLineItemTable(words)?.items ?? [];
+
+    expect(items.map((candidate) => candidate.description)).toEqual([
+      'Abonament serwisowy za październik 2025',
+      'Dojazd',
+    ]);
+    expect(items[1]).toMatchObject({ vat_rate: 'zw', vat: null, consistent: true });
+  });
+
+  it('flags rows whose amounts do not add up', () => {
+    const words = [
+      ...header(100),
+      // OCR read 1 500,00 as 1 800,00
+      ...item(120, ['1', 'Usługa', '10', 'godz.', '150,00', '23%', '1 800,00', '345,00', '1 845,00']),
+    ];
+
+    expect(reconstructLineItemTable(words)?.items[0].consistent).toBe(false);
+  });
+
+  it('joins a header printed on two lines', () => {
+    const words = [
+      ...line(100, [
+        ['Lp.', COLUMN_X.index],
+        ['Nazwa', COLUMN_X.description],
+        ['Ilość', COLUMN_X.quantity],
+        ['Cena', COLUMN_X.unitPrice],
+        ['Wartość', COLUMN_X.net],
+        ['Wartość', COLUMN_X.gross],
+      ]),
+      ...line(113, [
+        ['netto', COLUMN_X.unitPrice],
+        ['netto', COLUMN_X.net],
+        ['brutto', COLUMN_X.gross],
+      ]),
+      ...item(135, ['1', 'Papier A4', '5', '', '20,00', '', '100,00', '', '123,00']),
+    ];
+
+    const table = reconstructLineItemTable(words);
+
+    expect(table?.columns.map((column) => column.kind)).toEqual(['index', 'description', 'quantity', 'unitPrice', 'net', 'gross']);
+    expect(table?.items[0]).toMatchObject({ description: 'Papier A4', quantity: 5, unit_price: 20, net: 100, gross: 123 });
+  });
+
+  it('follows a table onto the next page past its letterhead', () => {
+    const words = [
+      ...header(100),
+      ...item(120, ['1', 'Usługa A', '1', 'szt.', '100,00', '23%', '100,00', '23,00', '123,00']),
+      ...line(800, [['Strona 1 z 2', 50]]),
+      ...line(20, [['Faktura VAT nr FV/10/2025 (ciąg dalszy)', 50]], 2),
+      ...item(60, ['2', 'Usługa B', '2', 'szt.', '50,00', '8%', '100,00', '8,00', '108,00'], 2),
+      ...line(90, [['Razem', 50], ['200,00', 550], ['31,00', 655], ['231,00', 740]], 2),
+    ];
+
+    const items = reconstructLineItemTable(words)?.items ?? [];
+
+    expect(items.map((candidate) => [candidate.page, candidate.description])).toEqual([
+      [1, 'Usługa A'],
+      [2, 'Usługa B'],
+    ]);
+  });
+
+  it('returns null when there is no item table', () => {
+    const words = line(100, [['Potwierdzenie przelewu 1 234,56 PLN', 50]]);
+
+    expect(reconstructLineItemTable(words)).toBeNull();
+  });
+});
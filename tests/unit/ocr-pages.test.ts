@@ -0,0 +1,142 @@
+/**
+ * Multi-page OCR Unit Tests
+ * Covers PDF page rendering, per-page recognition with fallback and page-marked text
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { jsPDF } from 'jspdf';
+
+const visionMock = vi.hoisted(() => ({
+  isVisionConfigured: vi.fn(() => true),
+  recogniseInvoiceWithVision: vi.fn(),
+}));
+
+const recogniseWithProfilesMock = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/ocr/vision', () => visionMock);
+vi.mock('@/lib/ocr/tesseract', () => ({
+  recogniseInvoiceWithProfiles: recogniseWithProfilesMock,
+}));
+
+import { combineOcrPages, formatPageMarker } from '@/lib/ocr/pages';
+import { recogniseDocumentWithProviders } from '@/lib/ocr/providers';
+import { convertPdfToPngPages, isPdfBuffer } from '@/lib/pdf/server-convert';
+import type { OcrPageResult } from '@/lib/ocr/types';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+
+function buildPdf(pageCount: number): Buffer {
+  const doc = new jsPDF();
+  for (let page = 1; page <= pageCount; page++) {
+    if (page > 1) {
+      doc.addPage();
+    }
+    doc.setFontSize(24);
+    doc.text(`Pozycje strona ${page}`, 20, 40);
+  }
+  return Buffer.from(doc.output('arraybuffer'));
+}
+
+function page(number: number, text: string, confidence: number, wordCount: number): OcrPageResult {
+  return {
+    page: number,
+    text,
+    confidence,
+    words: Array.from({ length: wordCount }, (_, index) => ({
+      text: `w${index}`,
+      confidence,
+      bbox: { x0: 0, y0: 0, x1: 10, y1: 10 },
+    })),
+    language: 'pol+eng',
+  };
+}
+
+beforeEach(() => {
+  visionMock.isVisionConfigured.mockReturnValue(true);
+  visionMock.recogniseInvoiceWithVision.mockReset();
+  recogniseWithProfilesMock.mockReset();
+});
+
+describe('combineOcrPages', () => {
+  it('joins page text with markers and weights confidence by word count', () => {
+    const result = combineOcrPages([page(1, 'FAKTURA VAT', 90, 3), page(2, 'Razem 123,00', 60, 1)]);
+
+    expect(result.text).toBe(
+      `${formatPageMarker(1, 2)}\nFAKTURA VAT\n\n${formatPageMarker(2, 2)}\nRazem 123,00`
+    );
+    expect(result.confidence).toBe(82.5);
+    expect(result.words.map((word) => word.page)).toEqual([1, 1, 1, 2]);
+    expect(result.metadata).toEqual({ pages: 2 });
+  });
+
+  it('leaves single-page text unmarked', () => {
+    expect(combineOcrPages([page(1, 'FAKTURA', 88, 1)]).text).toBe('FAKTURA');
+  });
+});
+
+describe('convertPdfToPngPages', () => {
+  it('renders every page to PNG', async () => {
+    const pdf = buildPdf(3);
+    expect(isPdfBuffer(pdf)).toBe(true);
+
+    const pages = await convertPdfToPngPages(pdf, 1);
+
+    expect(pages).toHaveLength(3);
+    for (const png of pages) {
+      expect(png.subarray(0, 4)).toEqual(PNG_SIGNATURE);
+      expect(isPdfBuffer(png)).toBe(false);
+    }
+  });
+
+  it('stops at the page limit', async () => {
+    await expect(convertPdfToPngPages(buildPdf(3), 1, 2)).resolves.toHaveLength(2);
+  });
+});
+
+describe('recogniseDocumentWithProviders', () => {
+  it('recognises each PDF page with its own fallback', async () => {
+    visionMock.recogniseInvoiceWithVision
+      .mockResolvedValueOnce({ text: 'Pozycja 1', confidence: 95, words: [], language: 'pol+eng' })
+      .mockRejectedValueOnce(new Error('Vision OCR failed: deadline exceeded'));
+    recogniseWithProfilesMock.mockResolvedValueOnce({ text: 'Pozycja 2', confidence: 70, words: [], language: 'pol+eng' });
+
+    const result = await recogniseDocumentWithProviders({ loadImage: async () => buildPdf(2) });
+
+    expect(result.pages.map(({ page: number, provider, confidence }) => ({ number, provider, confidence }))).toEqual([
+      { number: 1, provider: 'vision', confidence: 95 },
+      { number: 2, provider: 'tesseract', confidence: 70 },
+    ]);
+    expect(result.pages[1].attempts).toEqual([{ provider: 'vision', error: 'Vision OCR failed: deadline exceeded' }]);
+    expect(result.providers).toEqual(['vision', 'tesseract']);
+    expect(result.text).toContain(`${formatPageMarker(2, 2)}\nPozycja 2`);
+    expect(result.confidence).toBe(82.5);
+
+    const [[firstPage]] = visionMock.recogniseInvoiceWithVision.mock.calls;
+    expect((firstPage as Buffer).subarray(0, 4)).toEqual(PNG_SIGNATURE);
+  });
+
+  it('passes images straight to the engines', async () => {
+    const image = Buffer.from('fake-image-data');
+    visionMock.recogniseInvoiceWithVision.mockResolvedValue({ text: 'FAKTURA', confidence: 91, words: [], language: 'pol+eng' });
+
+    const result = await recogniseDocumentWithProviders({ loadImage: async () => image });
+
+    expect(visionMock.recogniseInvoiceWithVision).toHaveBeenCalledWith(image);
+    expect(result.pages).toHaveLength(1);
+    expect(result.text).toBe('FAKTURA');
+  });
+
+  it('uses client-side text for the whole document', async () => {
+    const loadImage = vi.fn(async () => buildPdf(2));
+
+    const result = await recogniseDocumentWithProviders({
+      loadImage,
+      clientText: `${formatPageMarker(1, 2)}\nA\n\n${formatPageMarker(2, 2)}\nB`,
+      clientConfidence: 80,
+    });
+
+    expect(result.providers).toEqual(['client']);
+    expect(result.pages).toHaveLength(1);
+    expect(loadImage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * OCR Provider Unit Tests
+ * Covers engine selection per tenant and env, client text passthrough and fallback on failure
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const visionMock = vi.hoisted(() => ({
+  isVisionConfigured: vi.fn(() => true),
+  recogniseInvoiceWithVision: vi.fn(),
+}));
+
+const recogniseWithProfilesMock = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/ocr/vision', () => visionMock);
+vi.mock('@/lib/ocr/tesseract', () => ({
+  recogniseInvoiceWithProfiles: recogniseWithProfilesMock,
+}));
+
+import {
+  getTenantOcrSettings,
+  recogniseWithProviders,
+  resolveOcrProviderChain,
+  resolvePreprocessProfiles,
+} from '@/lib/ocr/providers';
+
+const IMAGE = Buffer.from('fake-image-data');
+
+function ocrResult(text: string, confidence = 90) {
+  return { text, confidence, words: [], language: 'pol+eng' };
+}
+
+beforeEach(() => {
+  visionMock.isVisionConfigured.mockReturnValue(true);
+  visionMock.recogniseInvoiceWithVision.mockReset();
+  recogniseWithProfilesMock.mockReset();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('resolveOcrProviderChain', () => {
+  it('defaults to Vision with a Tesseract fallback', () => {
+    expect(resolveOcrProviderChain()).toEqual(['client', 'vision', 'tesseract']);
+  });
+
+  it('uses OCR_PROVIDER and OCR_FALLBACK_PROVIDER', () => {
+    vi.stubEnv('OCR_PROVIDER', 'tesseract');
+    vi.stubEnv('OCR_FALLBACK_PROVIDER', 'tesseract');
+
+    expect(resolveOcrProviderChain()).toEqual(['client', 'tesseract']);
+  });
+
+  it('prefers the tenant settings over env', () => {
+    vi.stubEnv('OCR_PROVIDER', 'vision');
+
+    expect(
+      resolveOcrProviderChain({ locale: 'pl', ocr: { provider: 'tesseract', fallbackProvider: 'vision' } })
+    ).toEqual(['client', 'tesseract', 'vision']);
+  });
+
+  it('ignores unknown provider names', () => {
+    expect(getTenantOcrSettings({ ocr: { provider: 'abbyy', fallbackProvider: 'client' } })).toEqual({
+      fallbackProvider: 'client',
+    });
+    expect(getTenantOcrSettings(null)).toEqual({});
+  });
+});
+
+describe('resolvePreprocessProfiles', () => {
+  it('tries every profile by default', () => {
+    expect(resolvePreprocessProfiles()).toEqual(['standard', 'scan', 'photo']);
+  });
+
+  it('uses tenant settings, then OCR_PREPROCESS_PROFILES, dropping unknown profiles', () => {
+    vi.stubEnv('OCR_PREPROCESS_PROFILES', 'scan, sepia');
+
+    expect(resolvePreprocessProfiles({})).toEqual(['scan']);
+    expect(resolvePreprocessProfiles({ ocr: { preprocessProfiles: ['photo', 'standard'] } })).toEqual([
+      'photo',
+      'standard',
+    ]);
+  });
+});
+
+describe('recogniseWithProviders', () => {
+  it('passes client-side OCR text through without downloading the file', async () => {
+    const loadImage = vi.fn(async () => IMAGE);
+
+    const result = await recogniseWithProviders({
+      loadImage,
+      clientText: '  FAKTURA VAT FV/7/2026  ',
+      clientConfidence: 78,
+    });
+
+    expect(result).toMatchObject({ provider: 'client', text: 'FAKTURA VAT FV/7/2026', confidence: 78 });
+    expect(loadImage).not.toHaveBeenCalled();
+    expect(visionMock.recogniseInvoiceWithVision).not.toHaveBeenCalled();
+  });
+
+  it('falls back to Tesseract when Vision fails', async () => {
+    visionMock.recogniseInvoiceWithVision.mockRejectedValue(new Error('Vision OCR failed: quota exceeded'));
+    recogniseWithProfilesMock.mockResolvedValue(ocrResult('FAKTURA VAT FV/8/2026', 71));
+    const loadImage = vi.fn(async () => IMAGE);
+
+    const result = await recogniseWithProviders({ loadImage });
+
+    expect(result.provider).toBe('tesseract');
+    expect(result.text).toBe('FAKTURA VAT FV/8/2026');
+    expect(result.attempts).toEqual([
+      { provider: 'client', error: 'Not available' },
+      { provider: 'vision', error: 'Vision OCR failed: quota exceeded' },
+    ]);
+    expect(recogniseWithProfilesMock).toHaveBeenCalledWith(IMAGE, undefined);
+    expect(loadImage).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips Vision without credentials', async () => {
+    visionMock.isVisionConfigured.mockReturnValue(false);
+    recogniseWithProfilesMock.mockResolvedValue(ocrResult('FAKTURA'));
+
+    const result = await recogniseWithProviders({ loadImage: async () => IMAGE });
+
+    expect(result.provider).toBe('tesseract');
+    expect(visionMock.recogniseInvoiceWithVision).not.toHaveBeenCalled();
+  });
+
+  it('treats an empty result as a failure', async () => {
+    visionMock.recogniseInvoiceWithVision.mockResolvedValue(ocrResult('   '));
+    recogniseWithProfilesMock.mockResolvedValue(ocrResult('FAKTURA'));
+
+    const result = await recogniseWithProviders({ loadImage: async () => IMAGE });
+
+    expect(result.provider).toBe('tesseract');
+    expect(result.attempts.at(-1)).toEqual({ provider: 'vision', error: 'No text recognised' });
+  });
+
+  it('reports every attempt when all engines fail', async () => {
+    visionMock.recogniseInvoiceWithVision.mockRejectedValue(new Error('unavailable'));
+    recogniseWithProfilesMock.mockRejectedValue(new Error('Tesseract initialization failed'));
+
+    await expect(recogniseWithProviders({ loadImage: async () => IMAGE })).rejects.toThrow(
+      'All OCR providers failed: client (Not available), vision (unavailable), tesseract (Tesseract initialization failed)'
+    );
+  });
+});
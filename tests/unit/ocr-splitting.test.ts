@@ -0,0 +1,141 @@
+/**
+ * Batch Scan Splitting Unit Tests
+ * Covers invoice boundary detection, reviewer page ranges and per-invoice OCR text
+ */
+
+import { describe, expect, it } from 'vitest';
+import { combineOcrPages, splitTextByPageMarkers } from '@/lib/ocr/pages';
+import {
+  detectInvoiceBoundaries,
+  getPageBoundarySignals,
+  splitOcrPages,
+  validateInvoiceSegments,
+} from '@/lib/ocr/splitting';
+import type { OcrPageResult } from '@/lib/ocr/types';
+
+function invoiceFirstPage(number: string, footer = ''): string {
+  return [
+    `Faktura VAT nr ${number}`,
+    'Data wystawienia: 2025-10-01',
+    'Sprzedawca: ACME Sp. z o.o.',
+    'NIP: 123-456-32-18',
+    'Nabywca: Klient S.A.',
+    'NIP: 526-000-12-46',
+    'Lp. Nazwa Ilość Cena netto',
+    footer,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+function page(pageNumber: number, text: string): OcrPageResult {
+  return {
+    page: pageNumber,
+    text,
+    confidence: 90,
+    words: text.split(/\s+/).filter(Boolean).map((word) => ({
+      text: word,
+      confidence: 90,
+      bbox: { x0: 0, y0: 0, x1: 10, y1: 10 },
+    })),
+    language: 'pol',
+  };
+}
+
+describe('getPageBoundarySignals', () => {
+  it('reads page-count hints, the invoice number and the parties block', () => {
+    const signals = getPageBoundarySignals(invoiceFirstPage('FV/2025/10/001', 'Strona 1 z 2'));
+
+    expect(signals).toEqual({
+      pageHint: { current: 1, total: 2 },
+      invoiceNumber: 'FV/2025/10/001',
+      hasPartiesBlock: true,
+    });
+  });
+
+  it('ignores headers without a number and impossible page hints', () => {
+    const signals = getPageBoundarySignals('Faktura nr oryginał\nStrona 3 z 2\nRazem do zapłaty');
+
+    expect(signals).toEqual({ hasPartiesBlock: false });
+  });
+});
+
+describe('detectInvoiceBoundaries', () => {
+  it('starts a new invoice on every new invoice number', () => {
+    const segments = detectInvoiceBoundaries([
+      page(1, invoiceFirstPage('FV/1/2025')),
+      page(2, invoiceFirstPage('FV/2/2025')),
+      page(3, invoiceFirstPage('FV/3/2025')),
+    ]);
+
+    expect(segments).toEqual([
+      { startPage: 1, endPage: 1, invoiceNumber: 'FV/1/2025', reason: 'first-page' },
+      { startPage: 2, endPage: 2, invoiceNumber: 'FV/2/2025', reason: 'invoice-number' },
+      { startPage: 3, endPage: 3, invoiceNumber: 'FV/3/2025', reason: 'invoice-number' },
+    ]);
+  });
+
+  it('keeps continuation pages with their invoice', () => {
+    const segments = detectInvoiceBoundaries([
+      page(1, invoiceFirstPage('FV/1/2025', 'Strona 1 z 2')),
+      // Page 2 repeats the seller/buyer block, but says it is page 2 of 2
+      page(2, `${invoiceFirstPage('FV/1/2025')}\nRazem do zapłaty: 123,00 PLN\nStrona 2 z 2`),
+      page(3, invoiceFirstPage('FV/2/2025', 'Page 1 of 1')),
+      page(4, 'Faktura VAT nr FV/3/2025\nPozycje 1-20'),
+      page(5, 'Faktura VAT nr FV/3/2025\nPozycje 21-30\nRazem do zapłaty'),
+    ]);
+
+    expect(segments.map(({ startPage, endPage, reason }) => [startPage, endPage, reason])).toEqual([
+      [1, 2, 'first-page'],
+      [3, 3, 'page-count'],
+      [4, 5, 'page-count'],
+    ]);
+  });
+
+  it('returns a single segment for a normal multi-page invoice', () => {
+    const segments = detectInvoiceBoundaries([
+      page(1, invoiceFirstPage('FV/9/2025')),
+      page(2, 'Lp. 21 Usługa serwisowa 1 szt.\nRazem do zapłaty: 1 230,00 PLN'),
+    ]);
+
+    expect(segments).toEqual([
+      { startPage: 1, endPage: 2, invoiceNumber: 'FV/9/2025', reason: 'first-page' },
+    ]);
+  });
+});
+
+describe('validateInvoiceSegments', () => {
+  it('accepts ordered ranges that may skip separator pages', () => {
+    expect(validateInvoiceSegments([{ startPage: 1, endPage: 2 }, { startPage: 4, endPage: 5 }], 5)).toBeNull();
+  });
+
+  it('rejects overlapping, reversed and out-of-range ranges', () => {
+    expect(validateInvoiceSegments([], 3)).toMatch(/At least one/);
+    expect(validateInvoiceSegments([{ startPage: 1, endPage: 2 }, { startPage: 2, endPage: 3 }], 3)).toMatch(/overlaps/);
+    expect(validateInvoiceSegments([{ startPage: 3, endPage: 2 }], 3)).toMatch(/ends before/);
+    expect(validateInvoiceSegments([{ startPage: 1, endPage: 4 }], 3)).toMatch(/beyond the last page/);
+  });
+});
+
+describe('splitOcrPages', () => {
+  it('renumbers the pages of each invoice and survives a round trip through the combined text', () => {
+    const pages = [
+      page(1, invoiceFirstPage('FV/1/2025')),
+      page(2, invoiceFirstPage('FV/2/2025')),
+      page(3, 'Razem do zapłaty: 50,00 PLN'),
+    ];
+    const recovered = splitTextByPageMarkers(combineOcrPages(pages).text);
+
+    expect(recovered.map(({ page: pageNumber, text }) => [pageNumber, text])).toEqual(
+      pages.map(({ page: pageNumber, text }) => [pageNumber, text])
+    );
+
+    const [first, second] = splitOcrPages(pages, detectInvoiceBoundaries(pages));
+
+    expect(first.result.text).toBe(pages[0].text);
+    expect(second.segment).toMatchObject({ startPage: 2, endPage: 3 });
+    expect(second.result.text).toContain('--- Page 1 of 2 ---');
+    expect(second.result.text).toContain('--- Page 2 of 2 ---\nRazem do zapłaty');
+    expect(second.result.metadata?.pages).toBe(2);
+  });
+});
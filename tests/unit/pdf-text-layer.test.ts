@@ -0,0 +1,105 @@
+/**
+ * PDF Text Layer Unit Tests
+ * Covers text and word positions from digital PDFs, scan detection and the skipped OCR path
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { jsPDF } from 'jspdf';
+
+const visionMock = vi.hoisted(() => ({
+  isVisionConfigured: vi.fn(() => true),
+  recogniseInvoiceWithVision: vi.fn(),
+}));
+
+vi.mock('@/lib/ocr/vision', () => visionMock);
+vi.mock('@/lib/ocr/tesseract', () => ({
+  recogniseInvoiceWithProfiles: vi.fn(),
+}));
+
+import { extractPdfTextLayer, hasUsableTextLayer } from '@/lib/pdf/text-layer';
+import { recogniseDocumentWithProviders } from '@/lib/ocr/providers';
+
+const INVOICE_LINES = [
+  'FAKTURA VAT FV/12/2026',
+  'Sprzedawca: Przyklad Sp. z o.o. NIP 5260250274',
+  'Nabywca: Odbiorca S.A. NIP 7740001454',
+  'Razem brutto: 1230.00 PLN',
+];
+
+/**
+ * Digital pages carry the invoice text; scanned pages only a few characters
+ */
+function buildPdf(pages: Array<'digital' | 'scan'>): Buffer {
+  const doc = new jsPDF();
+  pages.forEach((kind, index) => {
+    if (index > 0) {
+      doc.addPage();
+    }
+    doc.setFontSize(12);
+    if (kind === 'digital') {
+      INVOICE_LINES.forEach((line, lineIndex) => doc.text(line, 20, 30 + lineIndex * 10));
+    } else {
+      doc.rect(20, 20, 170, 250);
+      doc.text('1/2', 180, 285);
+    }
+  });
+  return Buffer.from(doc.output('arraybuffer'));
+}
+
+beforeEach(() => {
+  visionMock.recogniseInvoiceWithVision.mockReset();
+});
+
+describe('extractPdfTextLayer', () => {
+  it('returns page text and word boxes in rendered-page pixels', async () => {
+    const [page] = await extractPdfTextLayer(buildPdf(['digital']));
+
+    for (const line of INVOICE_LINES) {
+      expect(page.text).toContain(line);
+    }
+    expect(page.confidence).toBe(100);
+
+    const word = page.words.find((candidate) => candidate.text === 'FV/12/2026');
+    expect(word).toBeDefined();
+    // 20 mm from the left and 30 mm from the top of an A4 page, at scale 2
+    expect(word!.bbox.x0).toBeGreaterThan(20 * 2.835 * 2);
+    expect(word!.bbox.y1).toBeCloseTo(30 * 2.835 * 2, -1);
+    expect(word!.bbox.x1).toBeGreaterThan(word!.bbox.x0);
+    expect(word!.bbox.y1).toBeGreaterThan(word!.bbox.y0);
+  });
+});
+
+describe('hasUsableTextLayer', () => {
+  it('accepts invoice text and rejects scans and broken encodings', () => {
+    expect(hasUsableTextLayer({ text: INVOICE_LINES.join('\n') })).toBe(true);
+    expect(hasUsableTextLayer({ text: '1/2' })).toBe(false);
+    expect(hasUsableTextLayer({ text: 'Faktura ' + '\u0001\u0002\u0003\u0004\u0005'.repeat(10) })).toBe(false);
+  });
+});
+
+describe('recogniseDocumentWithProviders with PDF text layers', () => {
+  it('skips OCR for digital PDFs', async () => {
+    const result = await recogniseDocumentWithProviders({ loadImage: async () => buildPdf(['digital', 'digital']) });
+
+    expect(result.extractionPath).toBe('TEXT_LAYER');
+    expect(result.providers).toEqual(['text-layer']);
+    expect(result.text).toContain('Razem brutto: 1230.00 PLN');
+    expect(visionMock.recogniseInvoiceWithVision).not.toHaveBeenCalled();
+  });
+
+  it('runs OCR only for the scanned pages of a mixed PDF', async () => {
+    visionMock.recogniseInvoiceWithVision.mockResolvedValue({
+      text: 'Pozycja 2 zeskanowana',
+      confidence: 88,
+      words: [],
+      language: 'pol+eng',
+    });
+
+    const result = await recogniseDocumentWithProviders({ loadImage: async () => buildPdf(['digital', 'scan']) });
+
+    expect(result.extractionPath).toBe('MIXED');
+    expect(result.pages.map((page) => page.provider)).toEqual(['text-layer', 'vision']);
+    expect(visionMock.recogniseInvoiceWithVision).toHaveBeenCalledTimes(1);
+    expect(result.text).toContain('Pozycja 2 zeskanowana');
+  });
+});
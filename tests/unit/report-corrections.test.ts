@@ -0,0 +1,37 @@
+/**
+ * Corrective Invoice Netting Unit Tests
+ * Covers VAT period selection and signing of before-correction rows
+ */
+
+import { describe, expect, it } from 'vitest';
+import { buildVATPeriodFilter, lineItemSign } from '@/lib/reports/corrections';
+
+describe('Corrective invoice netting', () => {
+  it('selects original-period corrections by the corrected invoice date', () => {
+    const dateRange = { startDate: new Date('2026-01-01'), endDate: new Date('2026-01-31') };
+    const filter = buildVATPeriodFilter('tenant-1', dateRange);
+    const inRange = { gte: dateRange.startDate, lte: dateRange.endDate };
+
+    expect(filter.tenantId).toBe('tenant-1');
+    expect(filter.OR).toContainEqual({ invoiceDate: inRange, correction: { is: null } });
+    expect(filter.OR).toContainEqual({
+      correction: { is: { correctionType: 'ORIGINAL_PERIOD', correctedInvoiceDate: inRange } },
+    });
+  });
+
+  it('selects other corrections by their own issue date', () => {
+    const dateRange = { startDate: new Date('2026-03-01'), endDate: new Date('2026-03-31') };
+    const filter = buildVATPeriodFilter('tenant-1', dateRange);
+
+    expect(filter.OR).toContainEqual({
+      invoiceDate: { gte: dateRange.startDate, lte: dateRange.endDate },
+      correction: { is: { correctionType: { not: 'ORIGINAL_PERIOD' } } },
+    });
+  });
+
+  it('reverses rows as they were before the correction', () => {
+    expect(lineItemSign({ beforeCorrection: true })).toBe(-1);
+    expect(lineItemSign({ beforeCorrection: false })).toBe(1);
+    expect(lineItemSign({})).toBe(1);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Rule-Based Extraction Unit Tests
+ * Covers reading Polish invoice fields without AI and escalating only the
+ * low-confidence fields to GPT-4
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const createMock = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/ai/openai-client', () => ({
+  getOpenAIClient: () => ({ chat: { completions: { create: createMock } } }),
+  AI_CONFIG: { model: 'gpt-test', temperature: 0, maxTokens: 100 },
+}));
+
+import { extractInvoiceData, getEscalatedFields } from '@/lib/ai/extraction-service';
+import {
+  extractInvoiceDataWithRules,
+  findBankAccount,
+  findVATExemption,
+  parseInvoiceDate,
+} from '@/lib/ai/rule-extraction';
+import type { LineItemCandidate } from '@/lib/ocr/layout/table';
+
+const INVOICE_TEXT = [
+  'Faktura VAT nr FV/10/2025',
+  'Data wystawienia: 01.10.2025',
+  'Termin płatności: 15.10.2025',
+  'Sprzedawca:',
+  'ACME Sp. z o.o.',
+  'ul. Prosta 1',
+  '00-001 Warszawa',
+  'NIP: 123-456-32-18',
+  'Nabywca:',
+  'Klient S.A.',
+  'ul. Długa 5, 30-001 Kraków',
+  'NIP: 526-000-12-46',
+  'Lp. Nazwa Ilość Cena netto Stawka VAT Wartość netto Kwota VAT Wartość brutto',
+  '1 Usługa programistyczna 10 150,00 23% 1 500,00 345,00 1 845,00',
+  'Razem 1 500,00 345,00 1 845,00',
+  'Do zapłaty: 1 845,00 PLN',
+  'Nr konta: PL61 1090 1014 0000 0712 1981 2874',
+].join('\n');
+
+const CANDIDATES: LineItemCandidate[] = [
+  {
+    page: 1,
+    position: 1,
+    description: 'Usługa programistyczna',
+    quantity: 10,
+    unit: 'godz.',
+    unit_price: 150,
+    vat_rate: 23,
+    net: 1500,
+    vat: 345,
+    gross: 1845,
+    confidence: 91,
+    consistent: true,
+  },
+];
+
+function aiResponse(overrides: Record<string, unknown> = {}) {
+  return {
+    choices: [
+      {
+        message: {
+          content: JSON.stringify({
+            extracted_data: {
+              invoice_number: 'FV/10/2025',
+              issue_date: '2025-10-01',
+              due_date: '2025-10-15',
+              seller: { name: 'ACME Sp. z o.o.', nip: '1234563218', address: null },
+              buyer: { name: 'Klient S.A.', nip: '5260001246', address: null },
+              currency: 'PLN',
+              net_amount: 1500,
+              vat_amount: 345,
+              gross_amount: 1845,
+              line_items: [],
+              invoice_type: 'SALE',
+              ...overrides,
+            },
+            confidence: {
+              invoice_number: 90,
+              issue_date: 90,
+              due_date: 90,
+              seller_name: 88,
+              seller_nip: 90,
+              buyer_name: 88,
+              buyer_nip: 90,
+              net_amount: 90,
+              vat_amount: 90,
+              gross_amount: 90,
+              line_items: 80,
+            },
+          }),
+        },
+      },
+    ],
+    usage: { prompt_tokens: 900, completion_tokens: 300, total_tokens: 1200 },
+  };
+}
+
+describe('extractInvoiceDataWithRules', () => {
+  it('reads the key fields of a Polish invoice', () => {
+    const { extracted_data, confidence_scores } = extractInvoiceDataWithRules(INVOICE_TEXT, {
+      lineItemCandidates: CANDIDATES,
+    });
+
+    expect(extracted_data).toMatchObject({
+      invoice_number: 'FV/10/2025',
+      issue_date: '2025-10-01',
+      due_date: '2025-10-15',
+      seller: { name: 'ACME Sp. z o.o.', nip: '1234563218', address: 'ul. Prosta 1, 00-001 Warszawa' },
+      buyer: { name: 'Klient S.A.', nip: '5260001246' },
+      currency: 'PLN',
+      net_amount: 1500,
+      vat_amount: 345,
+      gross_amount: 1845,
+      bank_account: 'PL61109010140000071219812874',
+      invoice_type: 'SALE',
+    });
+    expect(extracted_data.line_items).toEqual([
+      { description: 'Usługa programistyczna', quantity: 10, unit_price: 150, vat_rate: 23, net: 1500, vat: 345, gross: 1845 },
+    ]);
+    expect(getEscalatedFields(confidence_scores)).toEqual([]);
+  });
+
+  it('gives a NIP with a wrong checksum a low confidence', () => {
+    const text = INVOICE_TEXT.replace('NIP: 123-456-32-18', 'NIP: 123-456-32-19');
+
+    const { extracted_data, confidence_scores } = extractInvoiceDataWithRules(text);
+
+    expect(extracted_data.seller.nip).toBe('1234563219');
+    expect(confidence_scores.seller_nip).toBeLessThan(50);
+    expect(confidence_scores.buyer_nip).toBeGreaterThanOrEqual(90);
+  });
+
+  it('assigns NIPs by header order when seller and buyer are printed side by side', () => {
+    const text = [
+      'Faktura nr 7/2025',
+      'Sprzedawca: Nabywca:',
+      'ACME Sp. z o.o. Klient S.A.',
+      'NIP: 1234563218 NIP: 5260001246',
+    ].join('\n');
+
+    const { extracted_data } = extractInvoiceDataWithRules(text);
+
+    expect(extracted_data.seller.nip).toBe('1234563218');
+    expect(extracted_data.buyer.nip).toBe('5260001246');
+  });
+
+  it('distrusts totals that do not add up', () => {
+    const text = INVOICE_TEXT.replace('Razem 1 500,00 345,00 1 845,00', 'Razem 1 500,00 346,00 1 845,00').replace(
+      'Do zapłaty: 1 845,00 PLN',
+      ''
+    );
+
+    const { confidence_scores } = extractInvoiceDataWithRules(text);
+
+    expect(getEscalatedFields(confidence_scores)).toEqual(
+      expect.arrayContaining(['net_amount', 'vat_amount', 'gross_amount', 'line_items'])
+    );
+  });
+
+  it('works out the due date from a payment term in days', () => {
+    const text = INVOICE_TEXT.replace('Termin płatności: 15.10.2025', 'Termin płatności: 14 dni');
+
+    expect(extractInvoiceDataWithRules(text).extracted_data.due_date).toBe('2025-10-15');
+  });
+});
+
+describe('parseInvoiceDate', () => {
+  it.each([
+    ['2025-10-01', '2025-10-01'],
+    ['1.10.2025', '2025-10-01'],
+    ['01/10/2025 r.', '2025-10-01'],
+    ['31.02.2025', null],
+  ])('reads %s', (text, expected) => {
+    expect(parseInvoiceDate(text)).toBe(expected);
+  });
+});
+
+describe('findBankAccount', () => {
+  it('accepts only account numbers with a valid checksum', () => {
+    expect(findBankAccount('Konto: 61 1090 1014 0000 0712 1981 2874')).toBe('PL61109010140000071219812874');
+    expect(findBankAccount('Konto: 62 1090 1014 0000 0712 1981 2874')).toBeNull();
+  });
+});
+
+describe('findVATExemption', () => {
+  it('reads the provision the exemption is based on', () => {
+    expect(findVATExemption('Zwolnienie z VAT na podstawie art. 43 ust. 1 pkt 37 ustawy o VAT')).toEqual({
+      basis: 'A',
+      description: 'art. 43 ust. 1 pkt 37 ustawy o VAT',
+    });
+    expect(findVATExemption('Podstawa zwolnienia:\nart. 135 ust. 1 lit. i) dyrektywy 2006/112/WE')).toEqual({
+      basis: 'B',
+      description: 'art. 135 ust. 1 lit. i) dyrektywy 2006/112/WE',
+    });
+    expect(findVATExemption('Sprzedawca zwolniony podmiotowo')).toBeNull();
+  });
+});
+
+describe('extractInvoiceData', () => {
+  beforeEach(() => {
+    createMock.mockReset();
+    process.env.OPENAI_API_KEY = 'test-key';
+    delete process.env.EXTRACTION_MODE;
+  });
+
+  it('skips OpenAI when every field is read confidently', async () => {
+    const result = await extractInvoiceData(INVOICE_TEXT, { lineItemCandidates: CANDIDATES });
+
+    expect(createMock).not.toHaveBeenCalled();
+    expect(result.source).toBe('rules');
+    expect(result.token_usage.total_tokens).toBe(0);
+  });
+
+  it('takes only the escalated fields from GPT-4', async () => {
+    // No "Sprzedawca" header: the seller name is unknown to the rules
+    const text = INVOICE_TEXT.replace('Sprzedawca:\nACME Sp. z o.o.', 'ACME Sp. z o.o.');
+    createMock.mockResolvedValueOnce(aiResponse({ seller: { name: 'ACME Sp. z o.o.', nip: '0000000000' }, gross_amount: 9999 }));
+
+    const result = await extractInvoiceData(text, { lineItemCandidates: CANDIDATES });
+
+    expect(result.source).toBe('hybrid');
+    expect(result.escalated_fields).toContain('seller_name');
+    expect(result.extracted_data.seller.name).toBe('ACME Sp. z o.o.');
+    // Confident rule-based values win over the model's
+    expect(result.extracted_data.gross_amount).toBe(1845);
+    expect(result.extracted_data.buyer.nip).toBe('5260001246');
+    expect(result.token_usage.total_tokens).toBe(1200);
+
+    const prompt = createMock.mock.calls[0][0].messages[1].content as string;
+    expect(prompt).toContain('Concentrate on: seller_name');
+  });
+
+  it('never calls OpenAI in rules mode', async () => {
+    process.env.EXTRACTION_MODE = 'rules';
+
+    const result = await extractInvoiceData('Faktura nr 1/2025');
+
+    expect(createMock).not.toHaveBeenCalled();
+    expect(result.source).toBe('rules');
+    expect(result.escalated_fields).toContain('seller_nip');
+  });
+});
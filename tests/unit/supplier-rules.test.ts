@@ -0,0 +1,141 @@
+/**
+ * Supplier Rules Unit Tests
+ * Covers learning rules from recurring reviewer corrections of one seller and
+ * applying them to a new extraction
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  applySupplierRules,
+  findDateLabel,
+  learnSupplierRules,
+  supplierRuleHints,
+  toSupplierNip,
+  type CorrectionRecord,
+} from '@/lib/ai/supplier-rules';
+import { generateExtractionPrompt } from '@/lib/ai/prompts/invoice-extraction';
+import type { ExtractedData } from '@/types/ocr';
+
+const OCR_TEXT = `FAKTURA VAT nr FV/2025/10/0042
+Miejsce wystawienia: Warszawa, data wystawienia: 03.10.2025
+Data sprzedaży: 30.09.2025
+Termin płatności: 17.10.2025
+Sprzedawca: ACME Sp. z o.o. NIP 123-456-32-18`;
+
+const invoice: ExtractedData = {
+  invoice_number: '0042',
+  issue_date: '2025-10-03',
+  due_date: '2025-10-17',
+  seller: { name: 'ACME Sp. z o.o.', nip: '1234563218', address: null },
+  buyer: { name: 'Klient S.A.', nip: '5260001246', address: null },
+  currency: 'PLN',
+  net_amount: 300,
+  vat_amount: 24,
+  gross_amount: 324,
+  line_items: [
+    { description: 'Chleb', quantity: 100, unit_price: 2, vat_rate: 23, net: 200, vat: 16, gross: 216 },
+    { description: 'Usługa', quantity: 1, unit_price: 100, vat_rate: 8, net: 100, vat: 8, gross: 108 },
+  ],
+  invoice_type: 'PURCHASE',
+};
+
+function correction(field_name: string, original_value: string | null, corrected_value: string, label?: string) {
+  return { field_name, original_value, corrected_value, context: label ? { label } : null } satisfies CorrectionRecord;
+}
+
+describe('learnSupplierRules', () => {
+  it('learns recurring corrections', () => {
+    const rules = learnSupplierRules([
+      correction('invoice_number', '0017', 'FV/2025/08/0017'),
+      correction('invoice_number', '0031', 'FV/2025/09/0031'),
+      correction('issue_date', '2025-08-05', '2025-08-01', 'data sprzedaży'),
+      correction('issue_date', '2025-09-04', '2025-09-01', 'data sprzedaży'),
+      correction('line_items.0.vat_rate', '23', '8'),
+      correction('line_items.2.vat_rate', '23', '8'),
+      correction('currency', 'EUR', 'PLN'),
+      correction('currency', 'EUR', 'PLN'),
+    ]);
+
+    expect(rules).toEqual([
+      { kind: 'value_mapping', field: 'currency', from: 'EUR', to: 'PLN', occurrences: 2 },
+      { kind: 'invoice_number_format', pattern: 'FV/\\d+/\\d+/\\d+', example: 'FV/2025/08/0017', occurrences: 2 },
+      { kind: 'date_label', field: 'issue_date', label: 'data sprzedaży', occurrences: 2 },
+      { kind: 'default_vat_rate', vat_rate: 8, occurrences: 2 },
+    ]);
+  });
+
+  it('ignores one-off and conflicting corrections', () => {
+    expect(
+      learnSupplierRules([
+        correction('invoice_number', null, 'FV/1/2025'),
+        correction('issue_date', null, '2025-08-01', 'data sprzedaży'),
+        correction('issue_date', null, '2025-09-01', 'data sprzedaży'),
+        correction('issue_date', null, '2025-10-01', 'data dostawy'),
+        correction('issue_date', null, '2025-11-01', 'data dostawy'),
+      ])
+    ).toEqual([]);
+  });
+});
+
+describe('applySupplierRules', () => {
+  const rules = learnSupplierRules([
+    correction('invoice_number', '0017', 'FV/2025/08/0017'),
+    correction('invoice_number', '0031', 'FV/2025/09/0031'),
+    correction('issue_date', '2025-08-05', '2025-08-01', 'data sprzedaży'),
+    correction('issue_date', '2025-09-04', '2025-09-01', 'data sprzedaży'),
+    correction('line_items.0.vat_rate', '23', '8'),
+    correction('line_items.1.vat_rate', '5', '8'),
+  ]);
+
+  it('corrects the extraction and reports each rule applied', () => {
+    const { extracted_data, applied } = applySupplierRules(invoice, rules, OCR_TEXT);
+
+    expect(extracted_data.invoice_number).toBe('FV/2025/10/0042');
+    expect(extracted_data.issue_date).toBe('2025-09-30');
+    expect(extracted_data.line_items.map((item) => item.vat_rate)).toEqual([8, 8]);
+    expect(applied.map(({ field, from, to }) => ({ field, from, to }))).toEqual([
+      { field: 'invoice_number', from: '0042', to: 'FV/2025/10/0042' },
+      { field: 'issue_date', from: '2025-10-03', to: '2025-09-30' },
+      { field: 'line_items.0.vat_rate', from: 23, to: 8 },
+    ]);
+    expect(applied[1].description).toBe('Issue date is the date labelled "data sprzedaży"');
+    expect(invoice.invoice_number).toBe('0042');
+  });
+
+  it('leaves values that already follow the rules', () => {
+    const data = { ...invoice, invoice_number: 'FV/2025/10/0042', issue_date: '2025-09-30' };
+    const { applied } = applySupplierRules(
+      { ...data, line_items: [{ ...invoice.line_items[1] }] },
+      rules,
+      OCR_TEXT
+    );
+
+    expect(applied).toEqual([]);
+  });
+});
+
+describe('hints', () => {
+  it('are passed to the extraction prompt', () => {
+    const hints = supplierRuleHints([{ kind: 'default_vat_rate', vat_rate: 'zw', occurrences: 3 }]);
+    const prompt = generateExtractionPrompt(OCR_TEXT, { hints });
+
+    expect(hints).toEqual(['Line items are usually at zw VAT (corrected by reviewers 3 times)']);
+    expect(prompt).toContain("Notes from earlier reviews of this seller's invoices");
+    expect(prompt).toContain('- Line items are usually at zw VAT');
+  });
+});
+
+describe('findDateLabel', () => {
+  it('returns the label printed before a date', () => {
+    expect(findDateLabel(OCR_TEXT, '2025-09-30')).toBe('data sprzedaży');
+    expect(findDateLabel(OCR_TEXT, '2025-10-03')).toBe('data wystawienia');
+    expect(findDateLabel(OCR_TEXT, '2025-01-01')).toBeNull();
+  });
+});
+
+describe('toSupplierNip', () => {
+  it('keeps the digits only', () => {
+    expect(toSupplierNip('PL 123-456-32-18')).toBe('1234563218');
+    expect(toSupplierNip('')).toBeNull();
+  });
+});
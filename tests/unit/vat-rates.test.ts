@@ -0,0 +1,102 @@
+/**
+ * VAT Rate Code Unit Tests
+ * Covers reading exempt, not-subject, reverse-charge and 0% WDT/export rates
+ * and accepting them in extracted invoice data
+ */
+
+import { describe, expect, it } from 'vitest';
+import { ExtractedDataSchema } from '@/lib/ai/schemas/invoice-schema';
+import { validateInvoiceArithmetic } from '@/lib/ai/arithmetic-validation';
+import {
+  compareVATRateCodes,
+  fromLineItemVatRate,
+  parseVATExemption,
+  parseVATRateCode,
+  toLineItemVatRate,
+  vatRatePercent,
+  type VATRateCode,
+} from '@/lib/vat-rates';
+
+describe('parseVATRateCode', () => {
+  it.each([
+    ['23%', 23],
+    ['8 %', 8],
+    ['0 KR', 0],
+    ['zw.', 'zw'],
+    ['ZW', 'zw'],
+    ['np I', 'np'],
+    ['nie podlega', 'np'],
+    ['oo', 'oo'],
+    ['odwrotne obciążenie', 'oo'],
+    ['0% WDT', '0 WDT'],
+    ['0 EX', '0 EX'],
+    ['0% exp.', '0 EX'],
+    ['-', null],
+    ['150', null],
+  ])('reads %s', (text, expected) => {
+    expect(parseVATRateCode(text)).toBe(expected);
+  });
+});
+
+describe('parseVATExemption', () => {
+  it.each([
+    ['art. 43 ust. 1 pkt 37 ustawy o VAT', 'A'],
+    ['art. 135  ust. 1 lit. i) dyrektywy 2006/112/WE', 'B'],
+    ['§ 3 ust. 1 pkt 2 rozporządzenia Ministra Finansów', 'C'],
+  ])('reads %s', (text, basis) => {
+    expect(parseVATExemption(text)).toEqual({ basis, description: text.replace(/\s+/g, ' ') });
+  });
+
+  it('returns null for blank text', () => {
+    expect(parseVATExemption('  ')).toBeNull();
+  });
+});
+
+describe('line item columns', () => {
+  it('stores codes as 0% with the code alongside', () => {
+    expect(toLineItemVatRate(23)).toEqual({ vatRate: 23, vatRateCode: null });
+    expect(toLineItemVatRate('0 WDT')).toEqual({ vatRate: 0, vatRateCode: '0 WDT' });
+    expect(fromLineItemVatRate({ vatRate: '0.00', vatRateCode: 'oo' })).toBe('oo');
+    expect(fromLineItemVatRate({ vatRate: '8.00', vatRateCode: null })).toBe(8);
+  });
+
+  it('orders percentages before codes', () => {
+    const rates: VATRateCode[] = [0, 'zw', 23, '0 WDT', 8];
+
+    expect(rates.sort(compareVATRateCodes)).toEqual([23, 8, 0, '0 WDT', 'zw']);
+    expect(vatRatePercent('np')).toBe(0);
+  });
+});
+
+describe('exempt and reverse-charge invoices', () => {
+  const invoice = {
+    invoice_number: 'FV/3/2025',
+    issue_date: '2025-10-01',
+    due_date: null,
+    seller: { name: 'ACME Sp. z o.o.', nip: '1234563218', address: null },
+    buyer: { name: 'Klient GmbH', nip: '5260001246', address: null },
+    currency: 'PLN',
+    net_amount: 1300,
+    vat_amount: 0,
+    gross_amount: 1300,
+    line_items: [
+      { description: 'Szkolenie', quantity: 1, unit_price: 500, vat_rate: 'zw', net: 500, vat: 0, gross: 500 },
+      { description: 'Montaż', quantity: 1, unit_price: 300, vat_rate: 'oo', net: 300, vat: 0, gross: 300 },
+      { description: 'Towar', quantity: 5, unit_price: 100, vat_rate: '0 WDT', net: 500, vat: 0, gross: 500 },
+    ],
+    invoice_type: 'SALE',
+  };
+
+  it('pass schema validation', () => {
+    expect(ExtractedDataSchema.safeParse(invoice).success).toBe(true);
+    expect(
+      ExtractedDataSchema.safeParse({ ...invoice, line_items: [{ ...invoice.line_items[0], vat_rate: 'xx' }] }).success
+    ).toBe(false);
+  });
+
+  it('add up without VAT', () => {
+    const data = ExtractedDataSchema.parse(invoice);
+
+    expect(validateInvoiceArithmetic(data)).toEqual({ balanced: true, warnings: [] });
+  });
+});